@@ -5,6 +5,7 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { createArchiveRouter } from '../routes/archives';
 import { ArchiveService } from '../services/archive-service';
+import { ArchiveEventBus } from '../services/archive-events';
 import { Archive, ArchiveStatus } from '../types';
 
 describe('Archive API Endpoints', () => {
@@ -22,6 +23,14 @@ describe('Archive API Endpoints', () => {
       getArchivedContent: jest.fn(),
       getArchiveProgress: jest.fn(),
       getActiveArchives: jest.fn(),
+      cancelArchive: jest.fn(),
+      pauseArchive: jest.fn(),
+      resumeArchive: jest.fn(),
+      subscribeToEvents: jest.fn(),
+      prepareWarcExport: jest.fn(),
+      importArchive: jest.fn(),
+      getArchiveSize: jest.fn(),
+      diffArchives: jest.fn(),
       getArchiveVersions: jest.fn(),
       getArchivesByUrl: jest.fn(),
       getLatestVersionNumber: jest.fn(),
@@ -72,7 +81,7 @@ describe('Archive API Endpoints', () => {
         },
       });
 
-      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', undefined);
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', undefined, 0);
     });
 
     it('should create archive with custom options', async () => {
@@ -91,7 +100,7 @@ describe('Archive API Endpoints', () => {
         .expect(201);
 
       expect(response.body.success).toBe(true);
-      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', options);
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', options, 0);
     });
 
     it('should return 400 when URL is missing', async () => {
@@ -137,6 +146,123 @@ describe('Archive API Endpoints', () => {
       });
     });
 
+    it('should pass responsive image options to the service', async () => {
+      mockArchiveService.createArchive.mockResolvedValue(mockArchive);
+
+      const options = { responsiveImages: 'largest', promoteLazyImages: true };
+      await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options })
+        .expect(201);
+
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', options, 0);
+    });
+
+    it('should return 400 for invalid responsive image options', async () => {
+      const invalidPolicy = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { responsiveImages: 'smallest' } })
+        .expect(400);
+      expect(invalidPolicy.body.code).toBe('INVALID_RESPONSIVE_IMAGES');
+
+      const invalidPromotion = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { promoteLazyImages: 'yes' } })
+        .expect(400);
+      expect(invalidPromotion.body.code).toBe('INVALID_PROMOTE_LAZY_IMAGES');
+
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid render options', async () => {
+      const invalidOptions = [
+        [{ renderMode: 'browser' }, 'INVALID_RENDER_MODE'],
+        [{ renderMode: 'dom', renderTimeout: 500 }, 'INVALID_RENDER_TIMEOUT'],
+        [{ renderMode: 'dom', maxRenderRequests: -1 }, 'INVALID_MAX_RENDER_REQUESTS'],
+      ];
+
+      for (const [options, code] of invalidOptions) {
+        const response = await request(app)
+          .post('/api/archives')
+          .send({ url: 'https://example.com', options })
+          .expect(400);
+        expect(response.body.code).toBe(code);
+      }
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when seedFromSitemap is not a boolean', async () => {
+      const response = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { seedFromSitemap: 'true' } })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_SEED_FROM_SITEMAP');
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+
+    it('should pass a valid scope to the service and reject invalid ones', async () => {
+      mockArchiveService.createArchive.mockResolvedValue(mockArchive);
+      const scope = { mode: 'domain', include: ['/blog/**'], exclude: ['re:[?&]print='], assetHosts: ['*.cloudfront.net'] };
+
+      await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { scope } })
+        .expect(201);
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', { scope }, 0);
+
+      const response = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { scope: { mode: 'everything' } } })
+        .expect(400);
+      expect(response.body).toEqual({
+        error: 'scope.mode must be one of host, subdomains, domain, prefix',
+        code: 'INVALID_SCOPE',
+      });
+    });
+
+    it('should pass politeness settings to the service and reject invalid ones', async () => {
+      mockArchiveService.createArchive.mockResolvedValue(mockArchive);
+      const options = { maxConcurrencyPerHost: 4, minRequestDelay: 500, maxRetries: 0 };
+
+      await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options })
+        .expect(201);
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', options, 0);
+
+      const invalid: Array<[object, string]> = [
+        [{ maxConcurrencyPerHost: 1.5 }, 'INVALID_MAX_CONCURRENCY_PER_HOST'],
+        [{ minRequestDelay: -1 }, 'INVALID_MIN_REQUEST_DELAY'],
+        [{ maxRetries: 11 }, 'INVALID_MAX_RETRIES'],
+      ];
+      for (const [invalidOptions, code] of invalid) {
+        const response = await request(app)
+          .post('/api/archives')
+          .send({ url: 'https://example.com', options: invalidOptions })
+          .expect(400);
+        expect(response.body.code).toBe(code);
+      }
+    });
+
+    it('should reject incremental bases that are not earlier versions of the URL', async () => {
+      let response = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { incrementalFrom: 42 } })
+        .expect(400);
+      expect(response.body.code).toBe('INVALID_INCREMENTAL_FROM');
+
+      mockArchiveService.createArchive.mockRejectedValue(
+        new Error('Invalid incremental base: other-id is not a version of https://example.com')
+      );
+      response = await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', options: { incrementalFrom: 'other-id' } })
+        .expect(400);
+      expect(response.body.code).toBe('INVALID_INCREMENTAL_FROM');
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', { incrementalFrom: 'other-id' }, 0);
+    });
+
     it('should return 400 for invalid URL', async () => {
       mockArchiveService.createArchive.mockRejectedValue(new Error('Invalid URL: not-a-url'));
 
@@ -151,17 +277,25 @@ describe('Archive API Endpoints', () => {
       });
     });
 
-    it('should return 429 when too many concurrent archives', async () => {
-      mockArchiveService.createArchive.mockRejectedValue(
-        new Error('Maximum concurrent archives limit reached (3). Please wait for existing archives to complete.')
-      );
+    it('should pass the queue priority to the service', async () => {
+      mockArchiveService.createArchive.mockResolvedValue(mockArchive);
 
+      await request(app)
+        .post('/api/archives')
+        .send({ url: 'https://example.com', priority: 5 })
+        .expect(201);
+
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith('https://example.com', undefined, 5);
+    });
+
+    it('should return 400 for invalid priority', async () => {
       const response = await request(app)
         .post('/api/archives')
-        .send({ url: 'https://example.com' })
-        .expect(429);
+        .send({ url: 'https://example.com', priority: 'high' })
+        .expect(400);
 
-      expect(response.body.code).toBe('TOO_MANY_CONCURRENT_ARCHIVES');
+      expect(response.body.code).toBe('INVALID_PRIORITY');
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
     });
 
     it('should return 409 when archive is already in progress', async () => {
@@ -487,6 +621,8 @@ describe('Archive API Endpoints', () => {
       },
       errors: [],
       startTime: new Date('2023-01-01T00:00:00Z'),
+      paused: false,
+      queued: false,
     };
 
     it('should get archive progress successfully', async () => {
@@ -534,6 +670,426 @@ describe('Archive API Endpoints', () => {
     });
   });
 
+  describe('POST /api/archives/:id/cancel, /pause and /resume', () => {
+    const mockProgress = {
+      archiveId: 'test-archive-id',
+      url: 'https://example.com',
+      status: ArchiveStatus.IN_PROGRESS,
+      progress: {
+        pagesDiscovered: 10,
+        pagesCrawled: 5,
+        assetsDownloaded: 0,
+        totalSize: 0,
+      },
+      errors: [],
+      startTime: new Date('2023-01-01T00:00:00Z'),
+      paused: false,
+      queued: false,
+    };
+
+    it('should cancel a running archive', async () => {
+      mockArchiveService.cancelArchive.mockResolvedValue(mockProgress);
+
+      const response = await request(app)
+        .post('/api/archives/test-archive-id/cancel')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.message).toBe('Archive cancelled');
+      expect(mockArchiveService.cancelArchive).toHaveBeenCalledWith('test-archive-id');
+    });
+
+    it('should pause and resume a running archive', async () => {
+      mockArchiveService.pauseArchive.mockResolvedValue({ ...mockProgress, paused: true });
+      mockArchiveService.resumeArchive.mockResolvedValue(mockProgress);
+
+      const paused = await request(app)
+        .post('/api/archives/test-archive-id/pause')
+        .expect(200);
+      const resumed = await request(app)
+        .post('/api/archives/test-archive-id/resume')
+        .expect(200);
+
+      expect(paused.body.data.paused).toBe(true);
+      expect(resumed.body.data.paused).toBe(false);
+      expect(mockArchiveService.pauseArchive).toHaveBeenCalledWith('test-archive-id');
+      expect(mockArchiveService.resumeArchive).toHaveBeenCalledWith('test-archive-id');
+    });
+
+    it('should return 404 when archive not found', async () => {
+      mockArchiveService.cancelArchive.mockRejectedValue(new Error('Archive not found: nonexistent-id'));
+
+      const response = await request(app)
+        .post('/api/archives/nonexistent-id/cancel')
+        .expect(404);
+
+      expect(response.body).toEqual({
+        error: 'Archive not found',
+        code: 'ARCHIVE_NOT_FOUND',
+        details: 'Archive not found: nonexistent-id',
+      });
+    });
+
+    it('should return 409 when archive is not in progress', async () => {
+      mockArchiveService.pauseArchive.mockRejectedValue(
+        new Error('Archive test-archive-id is not in progress')
+      );
+
+      const response = await request(app)
+        .post('/api/archives/test-archive-id/pause')
+        .expect(409);
+
+      expect(response.body).toEqual({
+        error: 'Cannot pause an archive that is not in progress',
+        code: 'ARCHIVE_NOT_IN_PROGRESS',
+        details: 'Archive test-archive-id is not in progress',
+      });
+    });
+
+    it('should return 500 for service errors', async () => {
+      mockArchiveService.resumeArchive.mockRejectedValue(new Error('Storage error'));
+
+      const response = await request(app)
+        .post('/api/archives/test-archive-id/resume')
+        .expect(500);
+
+      expect(response.body).toEqual({
+        error: 'Failed to resume archive',
+        code: 'INTERNAL_ERROR',
+        details: 'Storage error',
+      });
+    });
+  });
+
+  describe('GET /api/archives/:id/size', () => {
+    it('should return the logical and on-disk size', async () => {
+      const size = { logicalSize: 2048, diskSize: 1024, sharedSize: 512 };
+      mockArchiveService.getArchiveSize.mockResolvedValue(size);
+
+      const response = await request(app)
+        .get('/api/archives/test-archive-id/size')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: size });
+      expect(mockArchiveService.getArchiveSize).toHaveBeenCalledWith('test-archive-id');
+    });
+
+    it('should return 404 when archive not found', async () => {
+      mockArchiveService.getArchiveSize.mockRejectedValue(new Error('Archive not found: nonexistent-id'));
+
+      const response = await request(app)
+        .get('/api/archives/nonexistent-id/size')
+        .expect(404);
+
+      expect(response.body.code).toBe('ARCHIVE_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/archives/diff', () => {
+    it('should compare two versions, optionally one page', async () => {
+      const diff = { pages: [], assets: [], summary: {} };
+      mockArchiveService.diffArchives.mockResolvedValue(diff as any);
+
+      const response = await request(app)
+        .get('/api/archives/diff?from=v1-id&to=v2-id&path=/about')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: diff });
+      expect(mockArchiveService.diffArchives).toHaveBeenCalledWith('v1-id', 'v2-id', '/about');
+    });
+
+    it('should validate the query', async () => {
+      let response = await request(app).get('/api/archives/diff?from=v1-id').expect(400);
+      expect(response.body.code).toBe('MISSING_ARCHIVE_ID');
+
+      response = await request(app).get('/api/archives/diff?from=v1-id&to=v2-id&path=about').expect(400);
+      expect(response.body.code).toBe('INVALID_PATH');
+
+      expect(mockArchiveService.diffArchives).not.toHaveBeenCalled();
+    });
+
+    it('should map missing archives and pages to 404 and running archives to 409', async () => {
+      mockArchiveService.diffArchives.mockRejectedValueOnce(new Error('Archive not found: v9-id'));
+      let response = await request(app).get('/api/archives/diff?from=v1-id&to=v9-id').expect(404);
+      expect(response.body.code).toBe('ARCHIVE_NOT_FOUND');
+
+      mockArchiveService.diffArchives.mockRejectedValueOnce(new Error('Page not found: no page at /gone in either version'));
+      response = await request(app).get('/api/archives/diff?from=v1-id&to=v2-id&path=/gone').expect(404);
+      expect(response.body.code).toBe('PAGE_NOT_FOUND');
+
+      mockArchiveService.diffArchives.mockRejectedValueOnce(new Error('Archive v2-id is still in progress'));
+      response = await request(app).get('/api/archives/diff?from=v1-id&to=v2-id').expect(409);
+      expect(response.body.code).toBe('ARCHIVE_IN_PROGRESS');
+    });
+  });
+
+  describe('GET /api/archives/:id/export.warc.gz', () => {
+    it('should stream the WARC export as a download', async () => {
+      mockArchiveService.prepareWarcExport.mockResolvedValue({
+        fileName: 'example.com-v1-test-archive-id.warc.gz',
+        writeTo: async output => {
+          output.write(Buffer.from('warc-bytes'));
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/archives/test-archive-id/export.warc.gz')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', chunk => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/gzip');
+      expect(response.headers['content-disposition']).toBe(
+        'attachment; filename="example.com-v1-test-archive-id.warc.gz"'
+      );
+      expect(response.body.toString()).toBe('warc-bytes');
+      expect(mockArchiveService.prepareWarcExport).toHaveBeenCalledWith('test-archive-id');
+    });
+
+    it('should return 404 when archive not found', async () => {
+      mockArchiveService.prepareWarcExport.mockRejectedValue(new Error('Archive not found: nonexistent-id'));
+
+      const response = await request(app)
+        .get('/api/archives/nonexistent-id/export.warc.gz')
+        .expect(404);
+
+      expect(response.body.code).toBe('ARCHIVE_NOT_FOUND');
+    });
+
+    it('should return 409 while the archive is still in progress', async () => {
+      mockArchiveService.prepareWarcExport.mockRejectedValue(new Error('Archive test-archive-id is still in progress'));
+
+      const response = await request(app)
+        .get('/api/archives/test-archive-id/export.warc.gz')
+        .expect(409);
+
+      expect(response.body).toEqual({
+        error: 'Cannot export an archive that is still in progress',
+        code: 'ARCHIVE_IN_PROGRESS',
+        details: 'Archive test-archive-id is still in progress',
+      });
+    });
+  });
+
+  describe('POST /api/archives/import', () => {
+    const importedArchive: Archive = {
+      id: 'imported-archive-id',
+      url: 'https://example.com/',
+      domain: 'example.com',
+      timestamp: new Date('2024-05-01T10:00:00Z'),
+      status: ArchiveStatus.COMPLETED,
+      version: 3,
+      metadata: {
+        pageCount: 1,
+        assetCount: 0,
+        totalSize: 0,
+        crawlDuration: 12,
+      },
+      pages: [],
+      errors: [],
+      importedFrom: 'my capture.warc.gz',
+    };
+
+    it('should import the uploaded file as a new archive', async () => {
+      mockArchiveService.importArchive.mockResolvedValue(importedArchive);
+
+      const response = await request(app)
+        .post('/api/archives/import')
+        .set('Content-Type', 'application/octet-stream')
+        .set('X-Filename', encodeURIComponent('my capture.warc.gz'))
+        .send(Buffer.from('WARC/1.1\r\n'))
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.id).toBe('imported-archive-id');
+      expect(response.body.data.importedFrom).toBe('my capture.warc.gz');
+      expect(mockArchiveService.importArchive).toHaveBeenCalledWith('my capture.warc.gz', Buffer.from('WARC/1.1\r\n'));
+    });
+
+    it('should return 400 when no file is sent', async () => {
+      const response = await request(app)
+        .post('/api/archives/import')
+        .set('Content-Type', 'application/octet-stream')
+        .expect(400);
+
+      expect(response.body.code).toBe('MISSING_FILE');
+      expect(mockArchiveService.importArchive).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for files that are not WARC or WACZ archives', async () => {
+      mockArchiveService.importArchive.mockRejectedValue(
+        new Error('Failed to import archive: Unsupported import file notes.txt: expected a .warc, .warc.gz or .wacz file')
+      );
+
+      const response = await request(app)
+        .post('/api/archives/import?filename=notes.txt')
+        .set('Content-Type', 'text/plain')
+        .send('just some text')
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_ARCHIVE_FILE');
+      expect(mockArchiveService.importArchive).toHaveBeenCalledWith('notes.txt', Buffer.from('just some text'));
+    });
+
+    it('should return 500 when storing the import fails', async () => {
+      mockArchiveService.importArchive.mockRejectedValue(new Error('Failed to import archive: ENOSPC'));
+
+      const response = await request(app)
+        .post('/api/archives/import')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from('WARC/1.1\r\n'))
+        .expect(500);
+
+      expect(response.body).toEqual({
+        error: 'Failed to import archive',
+        code: 'INTERNAL_ERROR',
+        details: 'Failed to import archive: ENOSPC',
+      });
+    });
+  });
+
+  describe('GET /api/archives/:id/events', () => {
+    const mockProgress = {
+      archiveId: 'test-archive-id',
+      url: 'https://example.com',
+      status: ArchiveStatus.IN_PROGRESS,
+      progress: {
+        pagesDiscovered: 1,
+        pagesCrawled: 0,
+        assetsDownloaded: 0,
+        totalSize: 0,
+      },
+      errors: [],
+      startTime: new Date('2023-01-01T00:00:00Z'),
+      paused: false,
+      queued: false,
+    };
+
+    const mockArchive: Archive = {
+      id: 'test-archive-id',
+      url: 'https://example.com',
+      domain: 'example.com',
+      timestamp: new Date('2023-01-01T00:00:00Z'),
+      status: ArchiveStatus.PARTIAL,
+      version: 1,
+      metadata: {
+        pageCount: 1,
+        assetCount: 0,
+        totalSize: 0,
+        crawlDuration: 10,
+      },
+      pages: [],
+      errors: [],
+    };
+
+    /**
+     * Parse an SSE response body into its events
+     */
+    function parseEvents(body: string): Array<{ id?: string; event?: string; data?: any }> {
+      return body
+        .split('\n\n')
+        .filter(block => block.includes('data: '))
+        .map(block => {
+          const fields: { [name: string]: string } = {};
+          block.split('\n').forEach(line => {
+            const separator = line.indexOf(': ');
+            fields[line.slice(0, separator)] = line.slice(separator + 2);
+          });
+          return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+        });
+    }
+
+    it('should stream events until the final status event', async () => {
+      const bus = new ArchiveEventBus();
+      mockArchiveService.getArchiveProgress.mockReturnValue(mockProgress);
+      mockArchiveService.subscribeToEvents.mockImplementation((archiveId, listener, lastEventId) => {
+        const unsubscribe = bus.subscribe(archiveId, listener, { lastEventId });
+        setTimeout(() => {
+          bus.publish(archiveId, 'page', { url: 'https://example.com/', title: 'Example', depth: 0 });
+          bus.publish(archiveId, 'status', {
+            status: ArchiveStatus.COMPLETED,
+            metadata: { pageCount: 1, assetCount: 0, totalSize: 0, crawlDuration: 10 },
+            errorCount: 0,
+          });
+        }, 10);
+        return unsubscribe;
+      });
+
+      const response = await request(app)
+        .get('/api/archives/test-archive-id/events')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.headers['cache-control']).toBe('no-cache');
+      expect(response.text).toContain('retry: 3000');
+
+      const events = parseEvents(response.text);
+      expect(events.map(event => event.event)).toEqual(['page', 'status']);
+      expect(events.map(event => event.id)).toEqual(['1', '2']);
+      expect(events[0].data.data.title).toBe('Example');
+      expect(events[1].data.data.status).toBe(ArchiveStatus.COMPLETED);
+    });
+
+    it('should pass the Last-Event-ID of a reconnecting client to the service', async () => {
+      mockArchiveService.getArchiveProgress.mockReturnValue(mockProgress);
+      mockArchiveService.subscribeToEvents.mockImplementation((archiveId, listener) => {
+        listener({
+          id: 8,
+          archiveId,
+          type: 'status',
+          timestamp: new Date(),
+          data: { status: ArchiveStatus.PARTIAL, cancelled: true, metadata: mockArchive.metadata, errorCount: 0 },
+        });
+        return () => undefined;
+      });
+
+      await request(app)
+        .get('/api/archives/test-archive-id/events')
+        .set('Last-Event-ID', '7')
+        .expect(200);
+      await request(app)
+        .get('/api/archives/test-archive-id/events?lastEventId=3')
+        .expect(200);
+
+      expect(mockArchiveService.subscribeToEvents).toHaveBeenNthCalledWith(1, 'test-archive-id', expect.any(Function), 7);
+      expect(mockArchiveService.subscribeToEvents).toHaveBeenNthCalledWith(2, 'test-archive-id', expect.any(Function), 3);
+    });
+
+    it('should send the stored status of a finished archive', async () => {
+      mockArchiveService.getArchiveProgress.mockReturnValue(null);
+      mockArchiveService.getArchive.mockResolvedValue({ ...mockArchive, status: ArchiveStatus.COMPLETED });
+
+      const response = await request(app)
+        .get('/api/archives/test-archive-id/events')
+        .expect(200);
+
+      const events = parseEvents(response.text);
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toBe('status');
+      expect(events[0].data.data).toEqual({
+        status: ArchiveStatus.COMPLETED,
+        metadata: mockArchive.metadata,
+        errorCount: 0,
+      });
+      expect(mockArchiveService.subscribeToEvents).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when archive not found', async () => {
+      mockArchiveService.getArchiveProgress.mockReturnValue(null);
+      mockArchiveService.getArchive.mockRejectedValue(new Error('Archive not found: nonexistent-id'));
+
+      const response = await request(app)
+        .get('/api/archives/nonexistent-id/events')
+        .expect(404);
+
+      expect(response.body.code).toBe('ARCHIVE_NOT_FOUND');
+    });
+  });
+
   describe('GET /api/archives/versions/:encodedUrl', () => {
     const mockVersions: Archive[] = [
       {
@@ -0,0 +1,153 @@
+import request from 'supertest';
+import express from 'express';
+import { createChangeRouter } from '../routes/changes';
+import { ChangeDetectionService } from '../services/change-detection-service';
+import { ChangeAlert, ChangeWatch } from '../types';
+
+describe('Change Detection API Endpoints', () => {
+  let mockChangeDetectionService: jest.Mocked<ChangeDetectionService>;
+  let app: express.Application;
+
+  const mockWatch: ChangeWatch = {
+    id: 'watch-1',
+    url: 'https://example.com/',
+    enabled: true,
+    similarityThreshold: 0.9,
+    ignorePatterns: ['\\d{1,2}:\\d{2}'],
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+  };
+
+  const mockAlert: ChangeAlert = {
+    id: 'alert-1',
+    url: 'https://example.com/',
+    archiveId: 'v2',
+    version: 2,
+    previousArchiveId: 'v1',
+    previousVersion: 1,
+    changed: true,
+    similarity: 0.5,
+    similarityThreshold: 0.9,
+    addedLines: 1,
+    removedLines: 1,
+    pages: [{ url: 'https://example.com/', status: 'changed', similarity: 0.5 }],
+    changedSelectors: [],
+    createdAt: new Date('2024-05-02T00:00:00Z'),
+    read: false,
+  };
+
+  beforeEach(() => {
+    mockChangeDetectionService = {
+      listAlerts: jest.fn(),
+      markAlertsRead: jest.fn(),
+      listWatches: jest.fn(),
+      saveWatch: jest.fn(),
+      removeWatch: jest.fn(),
+    } as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/changes', createChangeRouter(mockChangeDetectionService));
+  });
+
+  describe('GET /api/changes/alerts', () => {
+    it('should list alerts, optionally unread ones of one URL', async () => {
+      mockChangeDetectionService.listAlerts.mockReturnValue([mockAlert]);
+
+      const response = await request(app)
+        .get('/api/changes/alerts?url=https://example.com/&unread=true')
+        .expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0].id).toBe('alert-1');
+      expect(mockChangeDetectionService.listAlerts).toHaveBeenCalledWith({ url: 'https://example.com/', unread: true });
+    });
+  });
+
+  describe('POST /api/changes/alerts/read', () => {
+    it('should mark the given alerts, or all of them, as read', async () => {
+      mockChangeDetectionService.markAlertsRead.mockResolvedValue(1);
+
+      const response = await request(app)
+        .post('/api/changes/alerts/read')
+        .send({ ids: ['alert-1'] })
+        .expect(200);
+
+      expect(response.body.data).toEqual({ marked: 1 });
+      expect(mockChangeDetectionService.markAlertsRead).toHaveBeenCalledWith(['alert-1']);
+
+      await request(app).post('/api/changes/alerts/read').send({}).expect(200);
+      expect(mockChangeDetectionService.markAlertsRead).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should reject malformed IDs', async () => {
+      const response = await request(app)
+        .post('/api/changes/alerts/read')
+        .send({ ids: 'alert-1' })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_ALERT_IDS');
+    });
+  });
+
+  describe('PUT /api/changes/watches', () => {
+    it('should create a watch, then replace its settings', async () => {
+      mockChangeDetectionService.saveWatch.mockResolvedValueOnce({ watch: mockWatch, created: true });
+
+      const response = await request(app)
+        .put('/api/changes/watches')
+        .send({ url: 'https://example.com', similarityThreshold: 0.9, ignorePatterns: ['\\d{1,2}:\\d{2}'] })
+        .expect(201);
+
+      expect(response.body.data.id).toBe('watch-1');
+      expect(mockChangeDetectionService.saveWatch).toHaveBeenCalledWith({
+        url: 'https://example.com',
+        enabled: undefined,
+        similarityThreshold: 0.9,
+        selectors: undefined,
+        ignoreSelectors: undefined,
+        ignorePatterns: ['\\d{1,2}:\\d{2}'],
+      });
+
+      mockChangeDetectionService.saveWatch.mockResolvedValueOnce({ watch: { ...mockWatch, enabled: false }, created: false });
+      await request(app)
+        .put('/api/changes/watches')
+        .send({ url: 'https://example.com', enabled: false })
+        .expect(200);
+    });
+
+    it('should reject invalid URLs and settings', async () => {
+      await request(app).put('/api/changes/watches').send({}).expect(400);
+
+      const invalidUrl = await request(app)
+        .put('/api/changes/watches')
+        .send({ url: 'ftp://example.com' })
+        .expect(400);
+      expect(invalidUrl.body.code).toBe('INVALID_URL_FORMAT');
+
+      mockChangeDetectionService.saveWatch.mockRejectedValue(
+        new Error('Invalid change watch: similarityThreshold must be a number between 0 and 1')
+      );
+      const invalidWatch = await request(app)
+        .put('/api/changes/watches')
+        .send({ url: 'https://example.com', similarityThreshold: 2 })
+        .expect(400);
+      expect(invalidWatch.body.code).toBe('INVALID_CHANGE_WATCH');
+    });
+  });
+
+  describe('DELETE /api/changes/watches/:id', () => {
+    it('should delete a watch', async () => {
+      mockChangeDetectionService.removeWatch.mockResolvedValue(true);
+
+      await request(app).delete('/api/changes/watches/watch-1').expect(200);
+      expect(mockChangeDetectionService.removeWatch).toHaveBeenCalledWith('watch-1');
+    });
+
+    it('should return 404 for unknown watches', async () => {
+      mockChangeDetectionService.removeWatch.mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/changes/watches/missing').expect(404);
+      expect(response.body.code).toBe('WATCH_NOT_FOUND');
+    });
+  });
+});
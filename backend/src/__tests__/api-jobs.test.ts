@@ -0,0 +1,91 @@
+import request from 'supertest';
+import express from 'express';
+import { createJobRouter } from '../routes/jobs';
+import { ArchiveService } from '../services/archive-service';
+import { ArchiveJob, JobState } from '../types';
+
+describe('Job API Endpoints', () => {
+  let mockArchiveService: jest.Mocked<ArchiveService>;
+  let app: express.Application;
+
+  const mockJobs: ArchiveJob[] = [
+    {
+      id: 'running-job',
+      url: 'https://example.com/',
+      state: JobState.RUNNING,
+      priority: 0,
+      createdAt: new Date('2023-01-01T00:00:00Z'),
+      startedAt: new Date('2023-01-01T00:00:01Z'),
+      attempts: 1,
+    },
+    {
+      id: 'queued-job',
+      url: 'https://example.org/',
+      state: JobState.QUEUED,
+      priority: 5,
+      createdAt: new Date('2023-01-01T00:00:02Z'),
+      attempts: 0,
+    },
+  ];
+
+  beforeEach(() => {
+    mockArchiveService = {
+      getJobs: jest.fn(),
+    } as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/jobs', createJobRouter(mockArchiveService));
+  });
+
+  describe('GET /api/jobs', () => {
+    it('should list all jobs', async () => {
+      mockArchiveService.getJobs.mockReturnValue(mockJobs);
+
+      const response = await request(app)
+        .get('/api/jobs')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.count).toBe(2);
+      expect(response.body.data.map((job: ArchiveJob) => job.id)).toEqual(['running-job', 'queued-job']);
+      expect(mockArchiveService.getJobs).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should filter jobs by state', async () => {
+      mockArchiveService.getJobs.mockReturnValue([mockJobs[1]]);
+
+      const response = await request(app)
+        .get('/api/jobs?state=queued')
+        .expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(mockArchiveService.getJobs).toHaveBeenCalledWith(JobState.QUEUED);
+    });
+
+    it('should return 400 for an unknown state', async () => {
+      const response = await request(app)
+        .get('/api/jobs?state=paused')
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_JOB_STATE');
+      expect(mockArchiveService.getJobs).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 for service errors', async () => {
+      mockArchiveService.getJobs.mockImplementation(() => {
+        throw new Error('Queue unavailable');
+      });
+
+      const response = await request(app)
+        .get('/api/jobs')
+        .expect(500);
+
+      expect(response.body).toEqual({
+        error: 'Failed to list jobs',
+        code: 'INTERNAL_ERROR',
+        details: 'Queue unavailable',
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import request from 'supertest';
+import express from 'express';
+import { createScheduleRouter } from '../routes/schedules';
+import { ScheduleService } from '../services/schedule-service';
+import { ArchiveSchedule } from '../types';
+
+describe('Schedule API Endpoints', () => {
+  let mockScheduleService: jest.Mocked<ScheduleService>;
+  let app: express.Application;
+
+  const mockSchedule: ArchiveSchedule = {
+    id: 'schedule-1',
+    url: 'https://example.com/',
+    intervalMinutes: 60,
+    enabled: true,
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    nextRunAt: new Date('2024-05-01T01:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockScheduleService = {
+      list: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      remove: jest.fn(),
+    } as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/schedules', createScheduleRouter(mockScheduleService));
+  });
+
+  describe('GET /api/schedules', () => {
+    it('should list schedules, optionally for one URL', async () => {
+      mockScheduleService.list.mockReturnValue([mockSchedule]);
+
+      const response = await request(app)
+        .get('/api/schedules?url=https://example.com/')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0].id).toBe('schedule-1');
+      expect(mockScheduleService.list).toHaveBeenCalledWith('https://example.com/');
+    });
+  });
+
+  describe('POST /api/schedules', () => {
+    it('should create a schedule', async () => {
+      mockScheduleService.create.mockResolvedValue(mockSchedule);
+
+      const response = await request(app)
+        .post('/api/schedules')
+        .send({ url: 'https://example.com', intervalMinutes: 60, options: { maxPages: 5 } })
+        .expect(201);
+
+      expect(response.body.data.id).toBe('schedule-1');
+      expect(mockScheduleService.create).toHaveBeenCalledWith({
+        url: 'https://example.com',
+        options: { maxPages: 5 },
+        cron: undefined,
+        intervalMinutes: 60,
+        enabled: undefined,
+      });
+    });
+
+    it('should validate the request', async () => {
+      await request(app).post('/api/schedules').send({ intervalMinutes: 60 }).expect(400);
+
+      let response = await request(app)
+        .post('/api/schedules')
+        .send({ url: 'https://example.com', cron: 5 })
+        .expect(400);
+      expect(response.body.code).toBe('INVALID_SCHEDULE');
+
+      response = await request(app)
+        .post('/api/schedules')
+        .send({ url: 'https://example.com', intervalMinutes: 60, options: { maxPages: 0 } })
+        .expect(400);
+      expect(response.body.code).toBe('INVALID_MAX_PAGES');
+
+      response = await request(app)
+        .post('/api/schedules')
+        .send({ url: 'https://example.com', intervalMinutes: 60, options: { incrementalFrom: 'archive-1' } })
+        .expect(400);
+      expect(response.body.code).toBe('INVALID_INCREMENTAL_FROM');
+
+      expect(mockScheduleService.create).not.toHaveBeenCalled();
+    });
+
+    it('should answer invalid timings from the service with 400', async () => {
+      mockScheduleService.create.mockRejectedValue(new Error('Invalid schedule: set either a cron expression or an interval'));
+
+      const response = await request(app)
+        .post('/api/schedules')
+        .send({ url: 'https://example.com' })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_SCHEDULE');
+    });
+  });
+
+  describe('PATCH /api/schedules/:id', () => {
+    it('should update only the given fields', async () => {
+      mockScheduleService.update.mockResolvedValue({ ...mockSchedule, enabled: false });
+
+      const response = await request(app)
+        .patch('/api/schedules/schedule-1')
+        .send({ enabled: false })
+        .expect(200);
+
+      expect(response.body.data.enabled).toBe(false);
+      expect(mockScheduleService.update).toHaveBeenCalledWith('schedule-1', { enabled: false });
+    });
+
+    it('should return 404 for unknown schedules', async () => {
+      mockScheduleService.update.mockRejectedValue(new Error('Schedule not found: missing'));
+
+      const response = await request(app)
+        .patch('/api/schedules/missing')
+        .send({ enabled: true })
+        .expect(404);
+
+      expect(response.body.code).toBe('SCHEDULE_NOT_FOUND');
+    });
+  });
+
+  describe('DELETE /api/schedules/:id', () => {
+    it('should delete schedules', async () => {
+      mockScheduleService.remove.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      await request(app).delete('/api/schedules/schedule-1').expect(200);
+      const response = await request(app).delete('/api/schedules/schedule-1').expect(404);
+
+      expect(response.body.code).toBe('SCHEDULE_NOT_FOUND');
+    });
+  });
+});
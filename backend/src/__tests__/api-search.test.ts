@@ -0,0 +1,72 @@
+import request from 'supertest';
+import express from 'express';
+import { createSearchRouter } from '../routes/search';
+import { SearchIndexService } from '../services/search-index-service';
+import { SearchHit } from '../types';
+
+describe('Search API Endpoints', () => {
+  let mockSearchIndexService: jest.Mocked<SearchIndexService>;
+  let app: express.Application;
+
+  const mockHit: SearchHit = {
+    archiveId: 'archive-1',
+    url: 'https://example.com/',
+    domain: 'example.com',
+    version: 2,
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+    pageUrl: 'https://example.com/about',
+    path: 'about.html',
+    title: 'About us',
+    snippet: 'Founded in 1999…',
+    score: 4.2,
+  };
+
+  beforeEach(() => {
+    mockSearchIndexService = {
+      search: jest.fn(),
+    } as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', createSearchRouter(mockSearchIndexService));
+  });
+
+  it('should return ranked hits with the total number of matches', async () => {
+    mockSearchIndexService.search.mockResolvedValue({ hits: [mockHit], total: 3 });
+
+    const response = await request(app)
+      .get('/api/search?q=founded&domain=example.com&from=2024-01-01&to=2024-05-01&limit=1')
+      .expect(200);
+
+    expect(response.body).toMatchObject({ success: true, count: 1, total: 3 });
+    expect(response.body.data[0]).toMatchObject({ archiveId: 'archive-1', version: 2, path: 'about.html' });
+    expect(mockSearchIndexService.search).toHaveBeenCalledWith({
+      q: 'founded',
+      domain: 'example.com',
+      from: new Date('2024-01-01T00:00:00.000Z'),
+      to: new Date('2024-05-01T23:59:59.999Z'),
+      limit: 1,
+    });
+  });
+
+  it('should require a query', async () => {
+    const response = await request(app).get('/api/search?q=%20').expect(400);
+    expect(response.body.code).toBe('MISSING_QUERY');
+    expect(mockSearchIndexService.search).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid dates and limits', async () => {
+    const invalidDate = await request(app).get('/api/search?q=founded&from=yesterday').expect(400);
+    expect(invalidDate.body.code).toBe('INVALID_DATE');
+
+    const invalidLimit = await request(app).get('/api/search?q=founded&limit=500').expect(400);
+    expect(invalidLimit.body.code).toBe('INVALID_LIMIT');
+  });
+
+  it('should return 500 when the search fails', async () => {
+    mockSearchIndexService.search.mockRejectedValue(new Error('Disk failure'));
+
+    const response = await request(app).get('/api/search?q=founded').expect(500);
+    expect(response.body.code).toBe('INTERNAL_ERROR');
+  });
+});
@@ -0,0 +1,130 @@
+import request from 'supertest';
+import express from 'express';
+import { createWebhookRouter } from '../routes/webhooks';
+import { WebhookService } from '../services/webhook-service';
+import { WebhookDelivery, WebhookSubscription } from '../types';
+
+describe('Webhook API Endpoints', () => {
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let app: express.Application;
+
+  const mockSubscription: WebhookSubscription = {
+    id: 'webhook-1',
+    url: 'https://hooks.example.com/archives',
+    events: ['archive.completed', 'archive.failed'],
+    secret: 'a-secret-of-16-chars',
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+  };
+  const { secret, ...mockSubscriptionInfo } = mockSubscription;
+
+  const mockDelivery: WebhookDelivery = {
+    id: 'delivery-1',
+    subscriptionId: 'webhook-1',
+    event: 'archive.completed',
+    archiveId: 'archive-1',
+    status: 'succeeded',
+    attempts: 2,
+    responseStatus: 200,
+    createdAt: new Date('2024-05-02T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockWebhookService = {
+      listSubscriptions: jest.fn(),
+      getSubscription: jest.fn(),
+      createSubscription: jest.fn(),
+      removeSubscription: jest.fn(),
+      listDeliveries: jest.fn(),
+    } as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/webhooks', createWebhookRouter(mockWebhookService));
+  });
+
+  describe('GET /api/webhooks', () => {
+    it('should list subscriptions', async () => {
+      mockWebhookService.listSubscriptions.mockReturnValue([mockSubscriptionInfo]);
+
+      const response = await request(app).get('/api/webhooks').expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0].id).toBe('webhook-1');
+      expect(response.body.data[0].secret).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/webhooks', () => {
+    it('should create a subscription and return its secret', async () => {
+      mockWebhookService.createSubscription.mockResolvedValue(mockSubscription);
+
+      const response = await request(app)
+        .post('/api/webhooks')
+        .send({ url: 'https://hooks.example.com/archives', events: ['archive.completed', 'archive.failed'] })
+        .expect(201);
+
+      expect(response.body.data.secret).toBe('a-secret-of-16-chars');
+      expect(mockWebhookService.createSubscription).toHaveBeenCalledWith({
+        url: 'https://hooks.example.com/archives',
+        events: ['archive.completed', 'archive.failed'],
+        secret: undefined,
+      });
+    });
+
+    it('should reject invalid URLs and settings', async () => {
+      const missingUrl = await request(app).post('/api/webhooks').send({}).expect(400);
+      expect(missingUrl.body.code).toBe('MISSING_URL');
+
+      const invalidUrl = await request(app)
+        .post('/api/webhooks')
+        .send({ url: 'ftp://hooks.example.com' })
+        .expect(400);
+      expect(invalidUrl.body.code).toBe('INVALID_URL_FORMAT');
+
+      mockWebhookService.createSubscription.mockRejectedValue(
+        new Error('Invalid webhook: events must be a non-empty list of archive.created, archive.completed')
+      );
+      const invalidEvents = await request(app)
+        .post('/api/webhooks')
+        .send({ url: 'https://hooks.example.com/archives', events: ['archive.deleted'] })
+        .expect(400);
+      expect(invalidEvents.body.code).toBe('INVALID_WEBHOOK');
+    });
+  });
+
+  describe('DELETE /api/webhooks/:id', () => {
+    it('should delete a subscription', async () => {
+      mockWebhookService.removeSubscription.mockResolvedValue(true);
+
+      await request(app).delete('/api/webhooks/webhook-1').expect(200);
+      expect(mockWebhookService.removeSubscription).toHaveBeenCalledWith('webhook-1');
+    });
+
+    it('should return 404 for unknown subscriptions', async () => {
+      mockWebhookService.removeSubscription.mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/webhooks/missing').expect(404);
+      expect(response.body.code).toBe('WEBHOOK_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/webhooks/:id/deliveries', () => {
+    it('should list the delivery log of a subscription', async () => {
+      mockWebhookService.getSubscription.mockReturnValue(mockSubscriptionInfo);
+      mockWebhookService.listDeliveries.mockReturnValue([mockDelivery]);
+
+      const response = await request(app).get('/api/webhooks/webhook-1/deliveries').expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0]).toMatchObject({ id: 'delivery-1', status: 'succeeded', attempts: 2 });
+      expect(mockWebhookService.listDeliveries).toHaveBeenCalledWith('webhook-1');
+    });
+
+    it('should return 404 for unknown subscriptions', async () => {
+      mockWebhookService.getSubscription.mockReturnValue(null);
+
+      const response = await request(app).get('/api/webhooks/missing/deliveries').expect(404);
+      expect(response.body.code).toBe('WEBHOOK_NOT_FOUND');
+    });
+  });
+});
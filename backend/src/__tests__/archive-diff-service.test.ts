@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { ArchiveDiffService } from '../services/archive-diff-service';
+import { FileService } from '../services/file-service';
+import { Archive, ArchiveStatus, AssetType } from '../types';
+
+describe('ArchiveDiffService', () => {
+  let tempDir: string;
+  let fileService: FileService;
+  let service: ArchiveDiffService;
+
+  /**
+   * Store a version with the given page HTML and asset contents, by URL
+   */
+  const storeVersion = async (
+    id: string,
+    version: number,
+    pages: { [url: string]: string },
+    assets: { [url: string]: string }
+  ): Promise<Archive> => {
+    await fileService.initializeArchiveStorage(id);
+    const archive: Archive = {
+      id,
+      url: 'https://example.com/',
+      domain: 'example.com',
+      timestamp: new Date(),
+      status: ArchiveStatus.COMPLETED,
+      version,
+      metadata: { pageCount: 0, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+      pages: [],
+      errors: [],
+    };
+
+    for (const [url, html] of Object.entries(pages)) {
+      const pagePath = `${new URL(url).pathname.slice(1) || 'index'}.html`;
+      // Stored pages link to assets through their own archive
+      await fileService.saveHtml(html.replace(/ARCHIVE/g, id), pagePath, id);
+      const pageAssets = await Promise.all(Object.entries(assets).map(async ([assetUrl, content]) => ({
+        originalUrl: assetUrl,
+        localPath: await fileService.saveAsset(assetUrl, Buffer.from(content), id, AssetType.CSS),
+        type: AssetType.CSS,
+        size: content.length,
+        contentType: 'text/css',
+      })));
+      archive.pages.push({ url, path: pagePath, title: '', timestamp: new Date(), links: [], assets: pageAssets });
+    }
+    return archive;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'archive-diff-test-'));
+    fileService = new FileService({ baseStoragePath: tempDir });
+    service = new ArchiveDiffService(fileService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should align pages and assets by URL across versions', async () => {
+    const link = '<link rel="stylesheet" href="/api/archives/ARCHIVE/content/assets/css/site.css">';
+    const from = await storeVersion('v1-id', 1, {
+      'https://example.com/': `<html><head>${link}</head><body><p>Hello</p></body></html>`,
+      'https://example.com/about': '<html><body><p>About us</p></body></html>',
+      'https://example.com/old': '<html><body><p>Old</p></body></html>',
+    }, { 'https://example.com/site.css': 'a{}', 'https://example.com/print.css': 'b{}', 'https://example.com/gone.css': 'c{}' });
+    const to = await storeVersion('v2-id', 2, {
+      'https://example.com/': `<html><head>${link}</head><body><p>Hello</p></body></html>`,
+      'https://example.com/about': '<html><body><p>About the team</p></body></html>',
+      'https://example.com/new': '<html><body><p>New</p></body></html>',
+    }, { 'https://example.com/site.css': 'a{}', 'https://example.com/print.css': 'b{ color: red }', 'https://example.com/fresh.css': 'd{}' });
+
+    const diff = await service.diffArchives(from, to);
+
+    expect(diff.summary).toEqual({
+      pages: { unchanged: 1, changed: 1, new: 1, removed: 1 },
+      assets: { unchanged: 1, changed: 1, new: 1, removed: 1 },
+    });
+    const about = diff.pages.find(page => page.url === 'https://example.com/about')!;
+    expect(about.status).toBe('changed');
+    expect(about.text!.hunks[0].lines).toEqual(['-About us', '+About the team']);
+    expect(about.dom!.changes).toEqual([]);
+    expect(diff.pages.find(page => page.url === 'https://example.com/')!.text).toBeUndefined();
+    expect(diff.assets.map(asset => [asset.url, asset.status])).toEqual([
+      ['https://example.com/print.css', 'changed'],
+      ['https://example.com/gone.css', 'removed'],
+      ['https://example.com/fresh.css', 'new'],
+    ]);
+    expect(diff.assets[0].fromHash).not.toBe(diff.assets[0].toHash);
+  });
+
+  it('should limit the diff to one page by URL path', async () => {
+    const from = await storeVersion('v1-id', 1, {
+      'https://example.com/': '<p>Home</p>',
+      'https://example.com/about': '<p>About</p>',
+    }, {});
+    const to = await storeVersion('v2-id', 2, {
+      'https://example.com/': '<p>Home, updated</p>',
+      'https://example.com/about': '<p>About</p>',
+    }, {});
+
+    const diff = await service.diffArchives(from, to, '/about');
+
+    expect(diff.path).toBe('/about');
+    expect(diff.pages).toEqual([expect.objectContaining({ url: 'https://example.com/about', status: 'unchanged' })]);
+    await expect(service.diffArchives(from, to, '/missing')).rejects.toThrow('Page not found');
+  });
+});
@@ -0,0 +1,106 @@
+import { ArchiveEvent, ArchiveEventBus } from '../services/archive-events';
+import { ArchiveProgress } from '../services/archive-service';
+import { ArchiveStatus, AssetType } from '../types';
+
+describe('ArchiveEventBus', () => {
+  let bus: ArchiveEventBus;
+
+  const createProgress = (): ArchiveProgress => ({
+    archiveId: 'archive-1',
+    url: 'https://example.com/',
+    status: ArchiveStatus.IN_PROGRESS,
+    progress: {
+      pagesDiscovered: 0,
+      pagesCrawled: 0,
+      assetsDownloaded: 0,
+      totalSize: 0,
+    },
+    errors: [],
+    startTime: new Date('2023-01-01T00:00:00Z'),
+    paused: false,
+    queued: false,
+  });
+
+  beforeEach(() => {
+    bus = new ArchiveEventBus(5);
+  });
+
+  it('should deliver events to subscribers of the same archive only', () => {
+    const received: ArchiveEvent[] = [];
+    const other: ArchiveEvent[] = [];
+    bus.subscribe('archive-1', event => received.push(event));
+    bus.subscribe('archive-2', event => other.push(event));
+
+    bus.publish('archive-1', 'page', { url: 'https://example.com/', title: 'Home' });
+    bus.publish('archive-1', 'asset', { url: 'https://example.com/a.css', type: AssetType.CSS, size: 10, failed: false });
+
+    expect(received.map(event => [event.id, event.type])).toEqual([[1, 'page'], [2, 'asset']]);
+    expect(other).toEqual([]);
+  });
+
+  it('should publish only the progress fields that changed', () => {
+    const received: ArchiveEvent[] = [];
+    bus.subscribe('archive-1', event => received.push(event));
+    const progress = createProgress();
+
+    bus.publishProgress(progress);
+    progress.progress.pagesCrawled = 1;
+    progress.currentUrl = 'https://example.com/about';
+    bus.publishProgress(progress);
+    bus.publishProgress(progress);
+
+    expect(received).toHaveLength(2);
+    expect(received[0].data).toMatchObject({ status: ArchiveStatus.IN_PROGRESS, paused: false, queued: false });
+    expect(received[1].data).toEqual({
+      currentUrl: 'https://example.com/about',
+      progress: { pagesCrawled: 1 },
+    });
+  });
+
+  it('should replay missed events to a reconnecting subscriber', () => {
+    bus.publish('archive-1', 'page', { url: 'https://example.com/', title: 'Home' });
+    bus.publish('archive-1', 'page', { url: 'https://example.com/a', title: 'A' });
+    bus.publish('archive-1', 'page', { url: 'https://example.com/b', title: 'B' });
+
+    const received: ArchiveEvent[] = [];
+    const snapshot = jest.fn(() => ({ status: ArchiveStatus.IN_PROGRESS }));
+    bus.subscribe('archive-1', event => received.push(event), { lastEventId: 1, snapshot });
+
+    expect(received.map(event => event.id)).toEqual([2, 3]);
+    expect(snapshot).not.toHaveBeenCalled();
+  });
+
+  it('should send a snapshot and the final status when history cannot be replayed', () => {
+    for (let i = 0; i < 6; i++) {
+      bus.publish('archive-1', 'page', { url: `https://example.com/${i}`, title: `Page ${i}` });
+    }
+    bus.publish('archive-1', 'status', {
+      status: ArchiveStatus.COMPLETED,
+      metadata: { pageCount: 6, assetCount: 0, totalSize: 0, crawlDuration: 100 },
+      errorCount: 0,
+    });
+
+    const received: ArchiveEvent[] = [];
+    bus.subscribe('archive-1', event => received.push(event), {
+      lastEventId: 0,
+      snapshot: () => ({ status: ArchiveStatus.COMPLETED }),
+    });
+
+    expect(received.map(event => event.type)).toEqual(['progress', 'status']);
+    expect(received[0].id).toBe(7);
+  });
+
+  it('should stop delivering events after unsubscribing or clearing', () => {
+    const received: ArchiveEvent[] = [];
+    const unsubscribe = bus.subscribe('archive-1', event => received.push(event));
+
+    bus.publish('archive-1', 'page', { url: 'https://example.com/', title: 'Home' });
+    unsubscribe();
+    bus.publish('archive-1', 'page', { url: 'https://example.com/a', title: 'A' });
+    bus.clear('archive-1');
+    const next = bus.publish('archive-1', 'page', { url: 'https://example.com/b', title: 'B' });
+
+    expect(received).toHaveLength(1);
+    expect(next.id).toBe(1);
+  });
+});
@@ -1,8 +1,13 @@
 import { ArchiveService, ArchiveServiceOptions } from '../services/archive-service';
-import { ArchiveStatus, ErrorType, AssetType } from '../types';
+import { ArchiveStatus, Asset, ErrorType, AssetType, JobState, SkipReason } from '../types';
 import { FileService } from '../services/file-service';
 import { CrawlerService } from '../services/crawler-service';
+import { RobotsService } from '../services/robots-service';
+import { ArchiveEvent } from '../services/archive-events';
+import { serializeWarcRecord } from '../utils/warc';
 import * as fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
 import * as path from 'path';
 import { tmpdir } from 'os';
 
@@ -26,9 +31,16 @@ describe('ArchiveService', () => {
       archiveExists: jest.fn().mockResolvedValue(true),
       saveHtml: jest.fn().mockResolvedValue('path/to/file.html'),
       saveAsset: jest.fn().mockResolvedValue('assets/css/style.css'),
+      getAssetPath: jest.fn().mockReturnValue('assets/css/style.css'),
       getHtml: jest.fn(),
       getAsset: jest.fn(),
       getArchiveSize: jest.fn().mockResolvedValue(1024),
+      saveFrontier: jest.fn().mockResolvedValue(undefined),
+      loadFrontier: jest.fn().mockResolvedValue([]),
+      appendCrawledPage: jest.fn().mockResolvedValue(undefined),
+      loadCrawledPages: jest.fn().mockResolvedValue([]),
+      clearCrawlCheckpoint: jest.fn().mockResolvedValue(undefined),
+      saveResponseBody: jest.fn().mockResolvedValue('responses/body'),
       rewriteUrls: jest.fn(),
       rewriteCssUrls: jest.fn(),
     } as any;
@@ -62,6 +74,7 @@ describe('ArchiveService', () => {
       extractLinksFromHtml: jest.fn(),
       extractLinks: jest.fn(),
       isValidUrl: jest.fn(),
+      robotsService: new RobotsService(),
     } as any;
     
     const options: ArchiveServiceOptions = {
@@ -89,6 +102,25 @@ describe('ArchiveService', () => {
     }
   });
 
+  // Make crawls run until their job is cancelled
+  const mockRunningCrawls = () => {
+    mockCrawlerService.crawlSite.mockImplementation(async (_url, _options, _progress, control) => {
+      if (!control!.cancelled) {
+        await new Promise(resolve => control!.signal.addEventListener('abort', resolve));
+      }
+      return { pages: [], errors: [], skippedUrls: [], totalSize: 0, duration: 0, cancelled: true, frontier: [] };
+    });
+  };
+
+  // Cancel every job that has not finished yet
+  const cancelUnfinishedJobs = async () => {
+    for (const job of archiveService.getJobs()) {
+      if (job.state !== JobState.DONE) {
+        await archiveService.cancelArchive(job.id);
+      }
+    }
+  };
+
   describe('createArchive', () => {
     it('should create a new archive successfully', async () => {
       const url = 'https://example.com';
@@ -110,19 +142,45 @@ describe('ArchiveService', () => {
       await expect(archiveService.createArchive(invalidUrl)).rejects.toThrow('Invalid URL');
     });
 
-    it('should enforce concurrent archive limits', async () => {
-      const url1 = 'https://example1.com';
-      const url2 = 'https://example2.com';
-      const url3 = 'https://example3.com';
+    it('should queue archives beyond the concurrency limit', async () => {
+      // Crawls run until cancelled so the first two keep their slots
+      mockRunningCrawls();
 
-      // Create two archives (should succeed)
-      await archiveService.createArchive(url1);
-      await archiveService.createArchive(url2);
+      const archive1 = await archiveService.createArchive('https://example1.com');
+      await archiveService.createArchive('https://example2.com');
+      const archive3 = await archiveService.createArchive('https://example3.com');
 
-      // Third archive should fail due to limit
-      await expect(archiveService.createArchive(url3)).rejects.toThrow(
-        'Maximum concurrent archives limit reached'
-      );
+      expect(archiveService.getArchiveProgress(archive1.id)?.queued).toBe(false);
+      expect(archiveService.getArchiveProgress(archive3.id)?.queued).toBe(true);
+      expect(archiveService.getJobs(JobState.QUEUED).map(job => job.url)).toEqual(['https://example3.com/']);
+
+      // Finishing a job frees its slot for the queued one
+      await archiveService.cancelArchive(archive1.id);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(archiveService.getArchiveProgress(archive3.id)?.queued).toBe(false);
+      expect(archiveService.getJobs(JobState.RUNNING)).toHaveLength(2);
+      expect(archiveService.getJobs(JobState.DONE).map(job => job.id)).toEqual([archive1.id]);
+
+      await cancelUnfinishedJobs();
+    });
+
+    it('should run queued archives in priority order', async () => {
+      mockRunningCrawls();
+
+      await archiveService.createArchive('https://example1.com');
+      await archiveService.createArchive('https://example2.com');
+      await archiveService.createArchive('https://low.example.com', undefined, -1);
+      await archiveService.createArchive('https://normal.example.com');
+      await archiveService.createArchive('https://urgent.example.com', undefined, 5);
+
+      expect(archiveService.getJobs(JobState.QUEUED).map(job => job.url)).toEqual([
+        'https://urgent.example.com/',
+        'https://normal.example.com/',
+        'https://low.example.com/',
+      ]);
+
+      await cancelUnfinishedJobs();
     });
 
     it('should prevent duplicate archives for the same URL', async () => {
@@ -304,6 +362,7 @@ describe('ArchiveService', () => {
     it('should list all active archives', async () => {
       const url1 = 'https://example1.com';
       const url2 = 'https://example2.com';
+      mockRunningCrawls();
       
       await archiveService.createArchive(url1);
       await archiveService.createArchive(url2);
@@ -312,6 +371,8 @@ describe('ArchiveService', () => {
 
       expect(activeArchives).toHaveLength(2);
       expect(activeArchives.every(a => a.status === ArchiveStatus.IN_PROGRESS)).toBe(true);
+
+      await cancelUnfinishedJobs();
     });
   });
 
@@ -367,6 +428,66 @@ describe('ArchiveService', () => {
       expect(mockFileService.getHtml).toHaveBeenCalledWith('index.html', archiveId);
     });
 
+    it('should serve content with the Content-Type it was originally served with', async () => {
+      const http = (contentType: string) => ({
+        method: 'GET',
+        requestTarget: '/',
+        requestHeaders: [],
+        httpVersion: '1.1',
+        statusCode: 200,
+        statusText: 'OK',
+        responseHeaders: [['Content-Type', contentType]] as Array<[string, string]>,
+        fetchedAt: new Date(),
+      });
+      mockFileService.loadArchiveMetadata.mockResolvedValue({
+        id: 'test-archive',
+        url: 'https://example.com/',
+        domain: 'example.com',
+        timestamp: new Date(),
+        status: ArchiveStatus.COMPLETED,
+        version: 1,
+        metadata: { pageCount: 1, assetCount: 2, totalSize: 0, crawlDuration: 0 },
+        pages: [{
+          url: 'https://example.com/',
+          path: 'index.html',
+          title: 'Example',
+          timestamp: new Date(),
+          links: [],
+          http: http('application/xhtml+xml; charset=iso-8859-1'),
+          assets: [
+            {
+              originalUrl: 'https://example.com/photo',
+              localPath: 'assets/images/photo',
+              type: AssetType.IMAGE,
+              size: 4,
+              contentType: 'image/jpeg',
+              http: http('image/webp'),
+            },
+            {
+              originalUrl: 'https://example.com/logo.svg',
+              localPath: 'assets/images/logo.svg',
+              type: AssetType.IMAGE,
+              size: 4,
+              contentType: 'image/svg+xml',
+            },
+          ],
+        }],
+        errors: [],
+      });
+      mockFileService.getHtml.mockResolvedValue('<html></html>');
+      mockFileService.rewriteUrls.mockImplementation((html: string) => html);
+      mockFileService.getAsset.mockResolvedValue(Buffer.from('data'));
+
+      // Stored HTML is UTF-8, so only the media type is kept
+      expect((await archiveService.getArchivedContent('test-archive', 'index.html')).contentType)
+        .toBe('application/xhtml+xml; charset=utf-8');
+      expect((await archiveService.getArchivedContent('test-archive', 'assets/images/photo')).contentType)
+        .toBe('image/webp');
+      // Captures without recorded headers keep their detected type
+      expect((await archiveService.getArchivedContent('test-archive', 'assets/images/logo.svg')).contentType)
+        .toBe('image/svg+xml');
+    });
+
     it('should handle content retrieval errors', async () => {
       const archiveId = 'test-archive';
       const contentPath = 'missing.html';
@@ -479,6 +600,769 @@ describe('ArchiveService', () => {
     });
   });
 
+  describe('stylesheet dependencies', () => {
+    it('should download resources referenced only from stylesheets before storing them', async () => {
+      const files: { [path: string]: string } = {
+        '/style.css': '@import "theme.css";\nbody { background: url(images/bg.png); }',
+        // Imports the first stylesheet back
+        '/theme.css': '@import url("style.css");\n@font-face { src: url(/fonts/body.woff2) format("woff2"); }',
+        '/images/bg.png': 'png-bytes',
+        '/fonts/body.woff2': 'font-bytes',
+      };
+      const server = http.createServer((req, res) => {
+        const body = files[req.url || ''];
+        res.writeHead(body ? 200 : 404);
+        res.end(body || 'Not Found');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const stylesheet = {
+        originalUrl: `${baseUrl}/style.css`,
+        localPath: '',
+        type: AssetType.CSS,
+        size: 0,
+        contentType: 'text/css',
+      };
+      mockCrawlerService.crawlSite.mockResolvedValueOnce({
+        pages: [{ url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), assets: [stylesheet], links: [] }],
+        errors: [],
+        skippedUrls: [],
+        totalSize: 0,
+        duration: 10,
+        cancelled: false,
+        frontier: [],
+      });
+      const saved: Array<[string, string]> = [];
+      mockFileService.getAssetPath.mockImplementation((url: string) => `assets${new URL(url).pathname}`);
+      mockFileService.saveAsset.mockImplementation(async (url: string, content: Buffer) => {
+        saved.push([url, content.toString()]);
+        return `assets${new URL(url).pathname}`;
+      });
+
+      try {
+        const archive = await archiveService.createArchive(`${baseUrl}/`);
+        await new Promise<void>(resolve => {
+          const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+            if (event.type === 'status') {
+              unsubscribe!();
+              resolve();
+            }
+          });
+        });
+
+        const contentPath = `/api/archives/${archive.id}/content/assets`;
+        expect(saved.map(([url]) => url.replace(baseUrl, ''))).toEqual([
+          '/images/bg.png',
+          '/fonts/body.woff2',
+          '/style.css',
+          '/theme.css',
+        ]);
+        expect(saved[2][1]).toBe(`@import "${contentPath}/theme.css";\nbody { background: url("${contentPath}/images/bg.png"); }`);
+        expect(saved[3][1]).toContain(`url("${contentPath}/fonts/body.woff2")`);
+        expect(saved[3][1]).toContain(`@import url("${contentPath}/style.css")`);
+
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive.status).toBe(ArchiveStatus.COMPLETED);
+        expect(finalArchive.metadata.assetCount).toBe(4);
+        expect(finalArchive.pages[0].assets.map(asset => [asset.originalUrl.replace(baseUrl, ''), asset.type])).toEqual([
+          ['/style.css', AssetType.CSS],
+          ['/theme.css', AssetType.CSS],
+          ['/images/bg.png', AssetType.IMAGE],
+          ['/fonts/body.woff2', AssetType.FONT],
+        ]);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should skip resources referenced from stylesheets that robots.txt disallows', async () => {
+      const files: { [path: string]: string } = {
+        '/robots.txt': 'User-agent: *\nDisallow: /private/',
+        '/style.css': 'body { background: url(/private/bg.png); }\nh1 { background: url(/images/title.png); }',
+        '/private/bg.png': 'secret-bytes',
+        '/images/title.png': 'png-bytes',
+      };
+      const requested: string[] = [];
+      const server = http.createServer((req, res) => {
+        requested.push(req.url || '');
+        const body = files[req.url || ''];
+        res.writeHead(body ? 200 : 404);
+        res.end(body || 'Not Found');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const stylesheet = { originalUrl: `${baseUrl}/style.css`, localPath: '', type: AssetType.CSS, size: 0, contentType: 'text/css' };
+      mockCrawlerService.crawlSite.mockResolvedValueOnce({
+        pages: [{ url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), assets: [stylesheet], links: [] }],
+        errors: [],
+        skippedUrls: [],
+        totalSize: 0,
+        duration: 10,
+        cancelled: false,
+        frontier: [],
+      });
+      mockFileService.getAssetPath.mockImplementation((url: string) => `assets${new URL(url).pathname}`);
+      mockFileService.saveAsset.mockImplementation(async (url: string) => `assets${new URL(url).pathname}`);
+
+      try {
+        const archive = await archiveService.createArchive(`${baseUrl}/`, { respectRobots: true });
+        await new Promise<void>(resolve => {
+          const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+            if (event.type === 'status') {
+              unsubscribe!();
+              resolve();
+            }
+          });
+        });
+
+        expect(requested).not.toContain('/private/bg.png');
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive.status).toBe(ArchiveStatus.COMPLETED);
+        expect(finalArchive.errors).toEqual([]);
+        expect(finalArchive.pages[0].assets.map(asset => asset.originalUrl)).toEqual([
+          `${baseUrl}/style.css`,
+          `${baseUrl}/images/title.png`,
+        ]);
+        expect(finalArchive.skippedUrls).toEqual([expect.objectContaining({
+          url: `${baseUrl}/private/bg.png`,
+          reason: SkipReason.ROBOTS_DISALLOWED,
+          rule: 'Disallow: /private/',
+          sourceUrl: `${baseUrl}/style.css`,
+        })]);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should not download resources referenced from stylesheets outside the asset scope', async () => {
+      const requested: string[] = [];
+      const server = http.createServer((req, res) => {
+        requested.push(`${req.headers.host}${req.url}`);
+        res.writeHead(200);
+        res.end(req.url === '/style.css'
+          ? `body { background: url(/images/bg.png); }\n@font-face { src: url(http://localhost:${port}/fonts/body.woff2); }`
+          : 'bytes');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const port = (server.address() as AddressInfo).port;
+      const baseUrl = `http://127.0.0.1:${port}`;
+
+      const stylesheet = { originalUrl: `${baseUrl}/style.css`, localPath: '', type: AssetType.CSS, size: 0, contentType: 'text/css' };
+      mockCrawlerService.crawlSite.mockResolvedValueOnce({
+        pages: [{ url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), assets: [stylesheet], links: [] }],
+        errors: [],
+        skippedUrls: [],
+        totalSize: 0,
+        duration: 10,
+        cancelled: false,
+        frontier: [],
+      });
+      mockFileService.getAssetPath.mockImplementation((url: string) => `assets${new URL(url).pathname}`);
+      mockFileService.saveAsset.mockImplementation(async (url: string) => `assets${new URL(url).pathname}`);
+
+      try {
+        const archive = await archiveService.createArchive(`${baseUrl}/`, { scope: { assetHosts: ['cdn.example.net'] } });
+        await new Promise<void>(resolve => {
+          const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+            if (event.type === 'status') {
+              unsubscribe!();
+              resolve();
+            }
+          });
+        });
+
+        expect(requested).toEqual([`127.0.0.1:${port}/style.css`, `127.0.0.1:${port}/images/bg.png`]);
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive.status).toBe(ArchiveStatus.COMPLETED);
+        expect(finalArchive.errors).toEqual([]);
+        expect(finalArchive.pages[0].assets.map(asset => asset.originalUrl)).toEqual([
+          `${baseUrl}/style.css`,
+          `${baseUrl}/images/bg.png`,
+        ]);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  describe('cancel, pause and resume', () => {
+    // Crawl that runs until its control is cancelled
+    const mockCancellableCrawl = (assets: Asset[] = []) => {
+      mockCrawlerService.crawlSite.mockImplementationOnce(async (_url, _options, _progress, control) => {
+        if (!control!.cancelled) {
+          await new Promise(resolve => control!.signal.addEventListener('abort', resolve));
+        }
+        return {
+          pages: [
+            {
+              url: 'https://example.com',
+              path: 'index.html',
+              title: 'Example',
+              timestamp: new Date(),
+              assets,
+              links: ['https://example.com/next'],
+            },
+          ],
+          errors: [],
+          skippedUrls: [],
+          totalSize: 0,
+          duration: 10,
+          cancelled: true,
+          frontier: [{ url: 'https://example.com/next', depth: 1, referrer: 'https://example.com' }],
+        };
+      });
+    };
+
+    it('should finalize a cancelled archive as partial and persist its frontier', async () => {
+      mockCancellableCrawl();
+      const archive = await archiveService.createArchive('https://example.com');
+
+      await archiveService.cancelArchive(archive.id);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const progress = archiveService.getArchiveProgress(archive.id);
+      expect(progress?.status).toBe(ArchiveStatus.PARTIAL);
+      expect(mockFileService.saveFrontier).toHaveBeenCalledWith(archive.id, [
+        { url: 'https://example.com/next', depth: 1, referrer: 'https://example.com' },
+      ]);
+      expect(mockFileService.saveArchiveMetadata).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: ArchiveStatus.PARTIAL,
+          cancelled: true,
+          pages: [expect.objectContaining({ url: 'https://example.com' })],
+        })
+      );
+    });
+
+    it('should still download the assets of pages crawled before a cancel', async () => {
+      const server = http.createServer((_req, res) => {
+        res.writeHead(200);
+        res.end('png-bytes');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const imageUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logo.png`;
+      mockCancellableCrawl([{ originalUrl: imageUrl, localPath: '', type: AssetType.IMAGE, size: 0, contentType: 'image/png' }]);
+      mockFileService.saveAsset.mockResolvedValue('assets/logo.png');
+
+      try {
+        const archive = await archiveService.createArchive('https://example.com');
+        await archiveService.cancelArchive(archive.id);
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        expect(mockFileService.saveAsset).toHaveBeenCalledWith(imageUrl, Buffer.from('png-bytes'), archive.id, AssetType.IMAGE);
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive).toMatchObject({ status: ArchiveStatus.PARTIAL, cancelled: true, errors: [] });
+        expect(finalArchive.metadata.assetCount).toBe(1);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should stop downloading the assets of a cancelled archive when it is cancelled again', async () => {
+      const pending: http.ServerResponse[] = [];
+      const server = http.createServer((_req, res) => {
+        pending.push(res);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const imageUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logo.png`;
+      mockCancellableCrawl([{ originalUrl: imageUrl, localPath: '', type: AssetType.IMAGE, size: 0, contentType: 'image/png' }]);
+
+      try {
+        const archive = await archiveService.createArchive('https://example.com');
+        await archiveService.cancelArchive(archive.id);
+        while (pending.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        await archiveService.cancelArchive(archive.id);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(mockFileService.saveAsset).not.toHaveBeenCalled();
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive).toMatchObject({ status: ArchiveStatus.PARTIAL, cancelled: true, errors: [] });
+      } finally {
+        pending.forEach(res => res.destroy());
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should pause and resume a running archive', async () => {
+      mockCancellableCrawl();
+      const archive = await archiveService.createArchive('https://example.com');
+
+      const paused = await archiveService.pauseArchive(archive.id);
+      expect(paused.paused).toBe(true);
+      expect(mockFileService.saveFrontier).toHaveBeenCalledWith(archive.id, expect.any(Array));
+
+      const resumed = await archiveService.resumeArchive(archive.id);
+      expect(resumed.paused).toBe(false);
+
+      await archiveService.cancelArchive(archive.id);
+    });
+
+    it('should reject actions on archives that are not running', async () => {
+      const archive = await archiveService.createArchive('https://example.com');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      await expect(archiveService.cancelArchive(archive.id)).rejects.toThrow('is not in progress');
+
+      mockFileService.archiveExists.mockResolvedValueOnce(false);
+      await expect(archiveService.pauseArchive('missing-id')).rejects.toThrow('Archive not found');
+    });
+  });
+
+  describe('event stream', () => {
+    it('should publish page, progress and final status events for a job', async () => {
+      mockCrawlerService.crawlSite.mockImplementationOnce(async (url, _options, progressCallback) => {
+        const page = {
+          url,
+          path: 'index.html',
+          title: 'Example',
+          timestamp: new Date(),
+          assets: [],
+          links: [],
+        };
+        progressCallback!({ pagesFound: 1, pagesCrawled: 1, currentUrl: url, crawledPage: page });
+        return { pages: [page], errors: [], skippedUrls: [], totalSize: 0, duration: 10, cancelled: false, frontier: [] };
+      });
+
+      const archive = await archiveService.createArchive('https://example.com');
+      const events: ArchiveEvent[] = [];
+      const unsubscribe = archiveService.subscribeToEvents(archive.id, event => events.push(event));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      unsubscribe!();
+
+      const types = events.map(event => event.type);
+      expect(types[0]).toBe('progress');
+      expect(types).toContain('page');
+      expect(types[types.length - 1]).toBe('status');
+      expect(events[events.length - 1].data).toMatchObject({
+        status: ArchiveStatus.COMPLETED,
+        metadata: expect.objectContaining({ pageCount: 1 }),
+        errorCount: 0,
+      });
+    });
+
+    it('should return null for archives without an active job', () => {
+      expect(archiveService.subscribeToEvents('non-existent', () => undefined)).toBeNull();
+    });
+  });
+
+  describe('crawl scope', () => {
+    it('should record the resolved scope in the archive metadata', async () => {
+      mockCrawlerService.crawlSite.mockResolvedValueOnce({
+        pages: [], errors: [], skippedUrls: [], totalSize: 0, duration: 10, cancelled: false, frontier: [],
+      });
+
+      await archiveService.createArchive('https://www.example.com/docs/', {
+        scope: { mode: 'domain', exclude: ['/drafts/**'] },
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(mockCrawlerService.crawlSite).toHaveBeenCalledWith(
+        'https://www.example.com/docs/',
+        expect.objectContaining({ scope: { mode: 'domain', exclude: ['/drafts/**'] } }),
+        expect.any(Function),
+        expect.anything(),
+        undefined,
+        undefined
+      );
+      const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+      expect(finalArchive.metadata.scope).toEqual({
+        mode: 'domain',
+        host: 'example.com',
+        include: [],
+        exclude: ['/drafts/**'],
+        useDefaultExcludes: true,
+      });
+    });
+  });
+
+  describe('incremental re-archiving', () => {
+    it('should reuse unchanged assets and record what changed since the base version', async () => {
+      const conditionalRequests: string[] = [];
+      const server = http.createServer((req, res) => {
+        if (req.headers['if-none-match']) {
+          conditionalRequests.push(`${req.url} ${req.headers['if-none-match']}`);
+        }
+        if (req.url === '/logo.png' && req.headers['if-none-match'] === '"v1"') {
+          res.writeHead(304);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { ETag: '"v2"' });
+        res.end(req.url === '/app.js' ? 'new-js' : 'new-bytes');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const capture = (bodyPath: string, etag: string) => ({
+        method: 'GET', requestTarget: '/', requestHeaders: [], httpVersion: '1.1', statusCode: 200, statusText: 'OK',
+        responseHeaders: [['ETag', etag]] as Array<[string, string]>, fetchedAt: new Date(), bodyPath,
+      });
+      const asset = (pathname: string, extra: object = {}) => ({
+        originalUrl: `${baseUrl}${pathname}`, localPath: `assets${pathname}`, type: AssetType.IMAGE, size: 0, contentType: '', ...extra,
+      });
+      const baseArchive = {
+        id: 'base-id',
+        url: `${baseUrl}/`,
+        domain: '127.0.0.1',
+        timestamp: new Date(),
+        status: ArchiveStatus.COMPLETED,
+        version: 1,
+        metadata: { pageCount: 2, assetCount: 3, totalSize: 0, crawlDuration: 0 },
+        pages: [
+          {
+            url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), links: [],
+            assets: [
+              asset('/logo.png', { http: capture('responses/logo', '"v1"') }),
+              asset('/app.js', { http: capture('responses/app', '"v1"') }),
+              asset('/old.png'),
+            ],
+          },
+          { url: `${baseUrl}/old`, path: 'old.html', title: 'Old', timestamp: new Date(), links: [], assets: [] },
+        ],
+        errors: [],
+      };
+      mockFileService.loadArchiveMetadata.mockImplementation(async (id: string) => {
+        if (id !== 'base-id') {
+          throw new Error('not found');
+        }
+        return baseArchive as any;
+      });
+      (mockFileService as any).getResponseBody = jest.fn(async (bodyPath: string) =>
+        Buffer.from(bodyPath === 'responses/logo' ? 'logo-bytes' : 'old-js')
+      );
+      const saved: { [url: string]: string } = {};
+      mockFileService.saveAsset.mockImplementation(async (url: string, content: Buffer) => {
+        saved[url.replace(baseUrl, '')] = content.toString();
+        return `assets${new URL(url).pathname}`;
+      });
+      mockCrawlerService.crawlSite.mockResolvedValueOnce({
+        pages: [{
+          url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), links: [], change: 'unchanged',
+          assets: [asset('/logo.png'), asset('/app.js'), asset('/new.png')],
+        }],
+        errors: [], skippedUrls: [], totalSize: 0, duration: 10, cancelled: false, frontier: [],
+      });
+
+      try {
+        const archive = await archiveService.createArchive(`${baseUrl}/`, { incrementalFrom: 'base-id' });
+        await new Promise<void>(resolve => {
+          const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+            if (event.type === 'status') {
+              unsubscribe!();
+              resolve();
+            }
+          });
+        });
+
+        expect(mockCrawlerService.crawlSite.mock.calls[0][4]).toEqual(expect.objectContaining({ archiveId: 'base-id', version: 1 }));
+        expect(conditionalRequests.sort()).toEqual(['/app.js "v1"', '/logo.png "v1"']);
+        expect(saved).toEqual({ '/logo.png': 'logo-bytes', '/app.js': 'new-js', '/new.png': 'new-bytes' });
+
+        const finalArchive = mockFileService.saveArchiveMetadata.mock.calls.pop()![0];
+        expect(finalArchive.pages[0].assets.map(asset => asset.change)).toEqual(['unchanged', 'changed', 'new']);
+        expect(finalArchive.incremental).toEqual({
+          baseArchiveId: 'base-id',
+          baseVersion: 1,
+          pages: { unchanged: 1, changed: 0, new: 0, removed: 1 },
+          assets: { unchanged: 1, changed: 1, new: 1, removed: 1 },
+          removedPages: [`${baseUrl}/old`],
+          removedAssets: [`${baseUrl}/old.png`],
+        });
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should reject a base archive of another URL', async () => {
+      mockFileService.loadArchiveMetadata.mockResolvedValue({ id: 'other-id', url: 'https://other.com' } as any);
+
+      await expect(archiveService.createArchive('https://example.com', { incrementalFrom: 'other-id' }))
+        .rejects.toThrow('Invalid incremental base: other-id is not a version of https://example.com');
+    });
+  });
+
+  describe('change detection', () => {
+    it('should compare a finished archive with the previous version and publish the outcome', async () => {
+      const previous = {
+        id: 'previous-id',
+        url: 'https://example.com',
+        domain: 'example.com',
+        timestamp: new Date(),
+        status: ArchiveStatus.COMPLETED,
+        version: 1,
+        metadata: { pageCount: 1, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+        pages: [],
+        errors: [],
+      };
+      mockFileService.listArchives.mockResolvedValue(['previous-id']);
+      mockFileService.loadArchiveMetadata.mockResolvedValue(previous);
+      const summary = { url: 'https://example.com/', archiveId: 'new', changed: true } as any;
+      const changeDetectionService = { detectChanges: jest.fn().mockResolvedValue(summary) } as any;
+      archiveService = new ArchiveService(
+        { storageBasePath: tempDir, changeDetectionService },
+        mockFileService,
+        mockCrawlerService
+      );
+
+      const archive = await archiveService.createArchive('https://example.com');
+      const events: string[] = [];
+      await new Promise<void>(resolve => {
+        const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+          events.push(event.type);
+          if (event.type === 'change') {
+            expect(event.data).toBe(summary);
+          }
+          if (event.type === 'status') {
+            unsubscribe!();
+            resolve();
+          }
+        });
+      });
+
+      expect(events.filter(type => type !== 'progress').slice(-2)).toEqual(['change', 'status']);
+      expect(changeDetectionService.detectChanges).toHaveBeenCalledWith(
+        previous,
+        expect.objectContaining({ id: archive.id, version: 2 })
+      );
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should send the created event, then the event of the final status', async () => {
+      const webhookService = { dispatch: jest.fn().mockResolvedValue(undefined) } as any;
+      archiveService = new ArchiveService(
+        { storageBasePath: tempDir, webhookService },
+        mockFileService,
+        mockCrawlerService
+      );
+
+      const archive = await archiveService.createArchive('https://example.com');
+      expect(webhookService.dispatch).toHaveBeenCalledWith('archive.created', archive);
+
+      await new Promise<void>(resolve => {
+        const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+          if (event.type === 'status') {
+            unsubscribe!();
+            resolve();
+          }
+        });
+      });
+
+      // Whether assets download decides between completed and partial
+      expect(webhookService.dispatch).toHaveBeenCalledTimes(2);
+      const [event, finalArchive] = webhookService.dispatch.mock.calls[1];
+      expect(finalArchive).toMatchObject({ id: archive.id, pages: [expect.objectContaining({ path: 'index.html' })] });
+      expect(event).toBe(`archive.${finalArchive.status}`);
+      expect([ArchiveStatus.COMPLETED, ArchiveStatus.PARTIAL]).toContain(finalArchive.status);
+    });
+  });
+
+  describe('search index', () => {
+    it('should index each saved page and drop deleted archives', async () => {
+      const searchIndexService = {
+        indexPage: jest.fn().mockResolvedValue(undefined),
+        removeArchive: jest.fn().mockResolvedValue(undefined),
+      } as any;
+      archiveService = new ArchiveService(
+        { storageBasePath: tempDir, searchIndexService },
+        mockFileService,
+        mockCrawlerService
+      );
+
+      const archive = await archiveService.createArchive('https://example.com');
+      await new Promise<void>(resolve => {
+        const unsubscribe = archiveService.subscribeToEvents(archive.id, event => {
+          if (event.type === 'status') {
+            unsubscribe!();
+            resolve();
+          }
+        });
+      });
+
+      expect(searchIndexService.indexPage).toHaveBeenCalledWith(
+        archive.id,
+        expect.objectContaining({ url: 'https://example.com', path: 'index.html' }),
+        expect.stringContaining('Example Site')
+      );
+      expect(mockFileService.saveHtml).toHaveBeenCalledWith(searchIndexService.indexPage.mock.calls[0][2], 'index.html', archive.id);
+
+      await archiveService.deleteArchive('finished-archive');
+      expect(searchIndexService.removeArchive).toHaveBeenCalledWith('finished-archive');
+    });
+  });
+
+  describe('importArchive', () => {
+    const date = new Date('2024-05-01T10:00:00Z');
+    const warcFile = Buffer.concat([
+      serializeWarcRecord({
+        type: 'response',
+        date,
+        targetUri: 'https://example.com/',
+        block: Buffer.from(
+          'HTTP/1.1 200 OK\r\nContent-Type: text/html\r\n\r\n' +
+          '<html><head><title>Imported</title><link rel="stylesheet" href="/style.css"></head><body></body></html>'
+        ),
+      }),
+      serializeWarcRecord({
+        type: 'response',
+        date,
+        targetUri: 'https://example.com/style.css',
+        block: Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/css\r\n\r\nbody { color: red; }'),
+      }),
+    ]);
+
+    it('should store an imported capture as the next version of its URL', async () => {
+      mockFileService.listArchives.mockResolvedValueOnce(['existing-archive']);
+      mockFileService.loadArchiveMetadata.mockResolvedValueOnce({
+        id: 'existing-archive',
+        url: 'https://example.com/',
+        domain: 'example.com',
+        timestamp: new Date('2023-01-01'),
+        status: ArchiveStatus.COMPLETED,
+        version: 2,
+        metadata: { pageCount: 1, assetCount: 1, totalSize: 1024, crawlDuration: 500 },
+        pages: [],
+        errors: [],
+      });
+
+      const archive = await archiveService.importArchive('capture.warc', warcFile);
+
+      expect(archive).toMatchObject({
+        url: 'https://example.com/',
+        version: 3,
+        timestamp: date,
+        status: ArchiveStatus.COMPLETED,
+        importedFrom: 'capture.warc',
+        metadata: expect.objectContaining({ pageCount: 1, assetCount: 1, totalSize: 20 }),
+      });
+      expect(mockFileService.initializeArchiveStorage).toHaveBeenCalledWith(archive.id);
+      expect(mockFileService.saveAsset).toHaveBeenCalledWith(
+        'https://example.com/style.css',
+        Buffer.from('body { color: red; }'),
+        archive.id,
+        AssetType.CSS
+      );
+
+      // Pages are rewritten to point at the stored assets
+      const [savedHtml, pagePath] = mockFileService.saveHtml.mock.calls[0];
+      expect(pagePath).toBe('index.html');
+      expect(savedHtml).toContain(`/api/archives/${archive.id}/content/assets/css/style.css`);
+
+      expect(archive.pages[0].title).toBe('Imported');
+      expect(archive.pages[0].htmlContent).toBeUndefined();
+      expect(archive.pages[0].http).toMatchObject({ statusCode: 200, bodyPath: 'responses/body' });
+      expect(mockFileService.saveArchiveMetadata).toHaveBeenCalledWith(archive);
+    });
+
+    it('should remove the archive when storing the import fails', async () => {
+      mockFileService.saveArchiveMetadata.mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+
+      await expect(archiveService.importArchive('capture.warc', warcFile)).rejects.toThrow(
+        'Failed to import archive: ENOSPC: no space left on device'
+      );
+      expect(mockFileService.deleteArchive).toHaveBeenCalledWith(mockFileService.initializeArchiveStorage.mock.calls[0][0]);
+    });
+
+    it('should reject files that are not WARC or WACZ archives', async () => {
+      await expect(archiveService.importArchive('notes.txt', Buffer.from('hello'))).rejects.toThrow(
+        'Failed to import archive: Unsupported import file notes.txt'
+      );
+      expect(mockFileService.initializeArchiveStorage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreJobs', () => {
+    const writeJobs = async (jobs: object[]) => {
+      await fs.writeFile(path.join(tempDir, 'jobs.json'), JSON.stringify(jobs), 'utf-8');
+    };
+
+    it('should continue jobs that were running when the process stopped from their checkpoint', async () => {
+      await writeJobs([
+        { id: 'interrupted-id', url: 'https://example.com', state: 'running', priority: 0, createdAt: new Date(), attempts: 1 },
+      ]);
+      const crawledPage = {
+        url: 'https://example.com',
+        path: 'index.html',
+        title: 'Example Site',
+        timestamp: new Date(),
+        assets: [],
+        links: ['https://example.com/about'],
+        depth: 0,
+      };
+      const frontier = [{ url: 'https://example.com/about', depth: 1, referrer: 'https://example.com' }];
+      mockFileService.loadCrawledPages.mockResolvedValue([crawledPage]);
+      mockFileService.loadFrontier.mockResolvedValue(frontier);
+      mockFileService.loadArchiveMetadata.mockResolvedValue({
+        id: 'interrupted-id',
+        url: 'https://example.com',
+        domain: 'example.com',
+        timestamp: new Date(),
+        status: ArchiveStatus.IN_PROGRESS,
+        version: 1,
+        metadata: { pageCount: 0, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+        pages: [],
+        errors: [],
+      });
+
+      await archiveService.restoreJobs();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(mockCrawlerService.crawlSite).toHaveBeenCalledWith(
+        'https://example.com',
+        expect.any(Object),
+        expect.any(Function),
+        expect.anything(),
+        undefined,
+        { pages: [crawledPage], frontier }
+      );
+      const [job] = archiveService.getJobs();
+      expect(job).toEqual(expect.objectContaining({ id: 'interrupted-id', state: JobState.DONE, attempts: 2 }));
+      expect(mockFileService.clearCrawlCheckpoint).toHaveBeenCalledWith('interrupted-id');
+    });
+
+    it('should give up on jobs interrupted too many times', async () => {
+      await writeJobs([
+        { id: 'crashing-id', url: 'https://example.com', state: 'running', priority: 0, createdAt: new Date(), attempts: 3 },
+      ]);
+
+      await archiveService.restoreJobs();
+
+      expect(mockCrawlerService.crawlSite).not.toHaveBeenCalled();
+      expect(archiveService.getJobs()[0]).toEqual(
+        expect.objectContaining({ state: JobState.DONE, result: ArchiveStatus.FAILED })
+      );
+    });
+
+    it('should mark archives stuck in progress without a job as failed', async () => {
+      mockFileService.listArchives.mockResolvedValue(['stuck-id']);
+      mockFileService.loadArchiveMetadata.mockResolvedValue({
+        id: 'stuck-id',
+        url: 'https://example.com',
+        domain: 'example.com',
+        timestamp: new Date(),
+        status: ArchiveStatus.IN_PROGRESS,
+        version: 1,
+        metadata: { pageCount: 0, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+        pages: [],
+        errors: [],
+      });
+
+      await archiveService.restoreJobs();
+
+      expect(mockFileService.saveArchiveMetadata).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'stuck-id',
+          status: ArchiveStatus.FAILED,
+          errors: [expect.objectContaining({ message: 'Archive was interrupted by a server restart' })],
+        })
+      );
+    });
+  });
+
   describe('concurrent archiving safety', () => {
     it('should handle multiple archives concurrently', async () => {
       const url1 = 'https://example1.com';
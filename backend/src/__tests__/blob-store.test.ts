@@ -0,0 +1,156 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { BlobStore } from '../services/blob-store';
+import { FileService } from '../services/file-service';
+import { AssetType } from '../types';
+
+describe('BlobStore', () => {
+  let tempDir: string;
+  let blobStore: BlobStore;
+
+  const listBlobs = async (): Promise<string[]> => {
+    const prefixes = (await fs.readdir(tempDir, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory() && entry.name !== 'manifests');
+    const blobs = await Promise.all(prefixes.map(prefix => fs.readdir(path.join(tempDir, prefix.name))));
+    return blobs.flat().sort();
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'blob-store-test-'));
+    blobStore = new BlobStore({ directory: tempDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store identical content once and share it between archives', async () => {
+    const content = Buffer.from('body { color: red; }');
+
+    const hash = await blobStore.put('archive-1', 'assets/css/style.css', content);
+    await blobStore.put('archive-2', 'assets/css/style.css', content);
+    await blobStore.put('archive-2', 'assets/css/copy.css', content);
+
+    expect(await listBlobs()).toEqual([hash]);
+    expect(await blobStore.getReferenceCount(hash)).toBe(3);
+    expect(await blobStore.read('archive-2', 'assets/css/copy.css')).toEqual(content);
+    expect(await blobStore.read('archive-1', 'assets/css/missing.css')).toBeNull();
+  });
+
+  it('should only delete blobs once no archive references them', async () => {
+    const shared = await blobStore.put('archive-1', 'assets/images/logo.png', Buffer.from('logo'));
+    await blobStore.put('archive-2', 'assets/images/logo.png', Buffer.from('logo'));
+    const own = await blobStore.put('archive-1', 'assets/js/app.js', Buffer.from('app()'));
+
+    expect(await blobStore.release('archive-1')).toBe(1);
+    expect(await listBlobs()).toEqual([shared]);
+    expect(await blobStore.getReferenceCount(own)).toBe(0);
+
+    expect(await blobStore.release('archive-2')).toBe(1);
+    expect(await listBlobs()).toEqual([]);
+  });
+
+  it('should drop the previous blob when a path is overwritten', async () => {
+    const first = await blobStore.put('archive-1', 'responses/abc', Buffer.from('first'));
+    const second = await blobStore.put('archive-1', 'responses/abc', Buffer.from('second'));
+
+    expect(await listBlobs()).toEqual([second]);
+    expect(await blobStore.getReferenceCount(first)).toBe(0);
+    expect((await blobStore.read('archive-1', 'responses/abc'))!.toString()).toBe('second');
+  });
+
+  it('should report logical, on-disk and shared sizes', async () => {
+    await blobStore.put('archive-1', 'assets/a', Buffer.alloc(100));
+    await blobStore.put('archive-1', 'assets/b', Buffer.alloc(100));
+    await blobStore.put('archive-1', 'assets/c', Buffer.alloc(30, 1));
+    await blobStore.put('archive-2', 'assets/c', Buffer.alloc(30, 1));
+
+    expect(await blobStore.getUsage('archive-1')).toEqual({ logicalSize: 230, diskSize: 130, sharedSize: 30 });
+    expect(await blobStore.getUsage('unknown')).toEqual({ logicalSize: 0, diskSize: 0, sharedSize: 0 });
+  });
+
+  it('should keep references across restarts and concurrent writes', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => blobStore.put('archive-1', `assets/${i}`, Buffer.from(`asset ${i % 3}`)))
+    );
+
+    const restarted = new BlobStore({ directory: tempDir });
+    expect(await listBlobs()).toHaveLength(3);
+    expect((await restarted.read('archive-1', 'assets/4'))!.toString()).toBe('asset 1');
+    expect(await restarted.getUsage('archive-1')).toMatchObject({ logicalSize: 70, diskSize: 21 });
+  });
+
+  it('should record files in an append-only manifest per archive', async () => {
+    await blobStore.put('archive-1', 'assets/a', Buffer.from('a'));
+    const replaced = await blobStore.put('archive-1', 'assets/a', Buffer.from('b'));
+    await blobStore.put('archive-2', 'assets/a', Buffer.from('a'));
+
+    expect((await fs.readdir(path.join(tempDir, 'manifests'))).sort()).toEqual(['archive-1.jsonl', 'archive-2.jsonl']);
+    const manifest = await fs.readFile(path.join(tempDir, 'manifests', 'archive-1.jsonl'), 'utf-8');
+    expect(manifest.trim().split('\n')).toHaveLength(2);
+
+    // A line cut short by a crash is skipped, and the next one starts on a fresh line
+    await fs.appendFile(path.join(tempDir, 'manifests', 'archive-1.jsonl'), '{"path":"assets/b","ha');
+    const restarted = new BlobStore({ directory: tempDir });
+    expect(await restarted.getHash('archive-1', 'assets/a')).toBe(replaced);
+    expect(await restarted.getHash('archive-1', 'assets/b')).toBeNull();
+
+    await restarted.put('archive-1', 'assets/c', Buffer.from('c'));
+    const reloaded = new BlobStore({ directory: tempDir });
+    expect((await reloaded.read('archive-1', 'assets/c'))!.toString()).toBe('c');
+    expect(await reloaded.getReferenceCount(replaced)).toBe(1);
+  });
+});
+
+describe('FileService with the blob store', () => {
+  let tempDir: string;
+  let fileService: FileService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'file-service-blobs-test-'));
+    fileService = new FileService({ baseStoragePath: tempDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should share unchanged assets between versions and keep them until the last one is deleted', async () => {
+    const css = Buffer.from('body { color: red; }'.repeat(50));
+    for (const archiveId of ['version-1', 'version-2']) {
+      await fileService.initializeArchiveStorage(archiveId);
+      await fileService.saveHtml('<html></html>', 'index.html', archiveId);
+      await fileService.saveAsset('https://example.com/style.css', css, archiveId, AssetType.CSS);
+    }
+
+    expect(await fileService.listArchives()).toEqual(expect.arrayContaining(['version-1', 'version-2']));
+    expect(await fileService.listArchives()).toHaveLength(2);
+
+    const size = await fileService.getArchiveSize('version-2');
+    expect(size.logicalSize - size.diskSize).toBe(0);
+    expect(size.sharedSize).toBe(css.length);
+
+    await fileService.deleteArchive('version-1');
+    expect(await fileService.getAsset('assets/css/style.css', 'version-2')).toEqual(css);
+    expect((await fileService.getArchiveSize('version-2')).sharedSize).toBe(0);
+  });
+
+  it('should read assets of archives stored before the blob store', async () => {
+    await fileService.initializeArchiveStorage('legacy');
+    await fs.writeFile(path.join(tempDir, 'legacy', 'assets', 'js', 'app.js'), 'app()');
+
+    expect((await fileService.getAsset('assets/js/app.js', 'legacy')).toString()).toBe('app()');
+  });
+
+  it('should hash assets whether or not they are in the blob store', async () => {
+    const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+    await fileService.initializeArchiveStorage('legacy');
+    await fs.writeFile(path.join(tempDir, 'legacy', 'assets', 'js', 'app.js'), 'app()');
+    await fileService.saveAsset('https://example.com/app.js', Buffer.from('app(2)'), 'current', AssetType.JAVASCRIPT);
+
+    expect(await fileService.getAssetHash('assets/js/app.js', 'legacy')).toBe(sha256('app()'));
+    expect(await fileService.getAssetHash('assets/js/app.js', 'current')).toBe(sha256('app(2)'));
+  });
+});
@@ -0,0 +1,69 @@
+import { CaptureBaseline } from '../services/capture-baseline';
+import { FileService } from '../services/file-service';
+import { Archive, AssetType, HttpCapture } from '../types';
+
+describe('CaptureBaseline', () => {
+  const capture = (responseHeaders: Array<[string, string]>, bodyPath?: string): HttpCapture => ({
+    method: 'GET',
+    requestTarget: '/',
+    requestHeaders: [],
+    httpVersion: '1.1',
+    statusCode: 200,
+    statusText: 'OK',
+    responseHeaders,
+    fetchedAt: new Date(),
+    bodyPath,
+  });
+  const asset = (url: string, http?: HttpCapture) => ({
+    originalUrl: url, localPath: '', type: AssetType.IMAGE, size: 0, contentType: '', http,
+  });
+
+  let fileService: { getResponseBody: jest.Mock };
+  let baseline: CaptureBaseline;
+
+  beforeEach(() => {
+    fileService = { getResponseBody: jest.fn(async () => Buffer.from('logo-bytes')) };
+    baseline = new CaptureBaseline({
+      id: 'base-id',
+      version: 3,
+      pages: [
+        {
+          url: 'https://example.com/',
+          path: 'index.html',
+          title: 'Home',
+          timestamp: new Date(),
+          links: [],
+          assets: [
+            asset('https://example.com/logo.png', capture([['Last-Modified', 'Wed, 01 May 2024 10:00:00 GMT']], 'responses/logo')),
+            asset('https://example.com/app.js', capture([['ETag', '"v1"']])),
+          ],
+        },
+        { url: 'https://example.com/old', path: 'old.html', title: 'Old', timestamp: new Date(), links: [], assets: [] },
+      ],
+    } as unknown as Archive, fileService as unknown as FileService);
+  });
+
+  it('should send validators only for captures it can reuse', () => {
+    expect(baseline.getConditionalHeaders('https://example.com/logo.png')).toEqual({
+      'If-Modified-Since': 'Wed, 01 May 2024 10:00:00 GMT',
+    });
+    // Without a stored body a 304 could not be answered from the earlier version
+    expect(baseline.getConditionalHeaders('https://example.com/app.js')).toEqual({});
+    expect(baseline.getConditionalHeaders('https://example.com/new.png')).toEqual({});
+  });
+
+  it('should compare responses with the earlier capture', async () => {
+    expect(await baseline.compare('https://example.com/logo.png', Buffer.from('logo-bytes'))).toBe('unchanged');
+    expect(await baseline.compare('https://example.com/logo.png', Buffer.from('other-bytes'))).toBe('changed');
+    expect(await baseline.compare('https://example.com/app.js', Buffer.from('js'))).toBe('changed');
+    expect(await baseline.compare('https://example.com/new.png', Buffer.from('new'))).toBe('new');
+    expect(fileService.getResponseBody).toHaveBeenCalledWith('responses/logo', 'base-id');
+  });
+
+  it('should list resources missing from the new version', () => {
+    expect(baseline.getRemoved(['https://example.com/'], ['https://example.com/logo.png'])).toEqual({
+      pages: ['https://example.com/old'],
+      assets: ['https://example.com/app.js'],
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { ChangeDetectionService } from '../services/change-detection-service';
+import { FileService } from '../services/file-service';
+import { WebhookService, WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../services/webhook-service';
+import { Archive, ArchiveStatus } from '../types';
+
+describe('ChangeDetectionService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let fileService: FileService;
+  let service: ChangeDetectionService;
+
+  /**
+   * Store a version with the given page bodies, by URL
+   */
+  const storeVersion = async (id: string, version: number, pages: { [url: string]: string }): Promise<Archive> => {
+    await fileService.initializeArchiveStorage(id);
+    const archive: Archive = {
+      id,
+      url: 'https://example.com/',
+      domain: 'example.com',
+      timestamp: new Date(),
+      status: ArchiveStatus.COMPLETED,
+      version,
+      metadata: { pageCount: 0, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+      pages: [],
+      errors: [],
+    };
+
+    for (const [url, body] of Object.entries(pages)) {
+      const pagePath = `${new URL(url).pathname.slice(1) || 'index'}.html`;
+      await fileService.saveHtml(`<html><body>${body}</body></html>`, pagePath, id);
+      archive.pages.push({ url, path: pagePath, title: '', timestamp: new Date(), links: [], assets: [] });
+    }
+    return archive;
+  };
+
+  const home = (lines: string[]) => lines.map(line => `<p>${line}</p>`).join('');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'change-detection-test-'));
+    filePath = path.join(tempDir, 'change-detection.json');
+    fileService = new FileService({ baseStoragePath: tempDir });
+    service = new ChangeDetectionService(fileService, { filePath });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should alert when text similarity drops below the threshold', async () => {
+    const lines = Array.from({ length: 9 }, (_, i) => `Line ${i}`);
+    const v1 = await storeVersion('v1', 1, { 'https://example.com/': home(lines) });
+    const v2 = await storeVersion('v2', 2, {
+      'https://example.com/': home([...lines.slice(0, 8), 'Line changed']),
+      'https://example.com/new': home(['Brand new']),
+    });
+
+    const summary = await service.detectChanges(v1, v2);
+
+    expect(summary).toMatchObject({
+      url: 'https://example.com/',
+      archiveId: 'v2',
+      previousArchiveId: 'v1',
+      changed: true,
+      similarityThreshold: 0.99,
+      addedLines: 2,
+      removedLines: 1,
+      changedSelectors: [],
+    });
+    expect(summary!.similarity).toBeCloseTo(16 / 19);
+    expect(summary!.pages.map(page => [page.url, page.status])).toEqual([
+      ['https://example.com/', 'changed'],
+      ['https://example.com/new', 'new'],
+    ]);
+    expect(service.listAlerts()).toEqual([expect.objectContaining({ archiveId: 'v2', read: false })]);
+
+    // Loosening the threshold keeps small edits quiet
+    await service.saveWatch({ url: 'https://example.com', similarityThreshold: 0.5 });
+    expect((await service.detectChanges(v1, v2))!.changed).toBe(false);
+    expect(service.listAlerts()).toHaveLength(1);
+  });
+
+  it('should leave out ignored regions and patterns', async () => {
+    const v1 = await storeVersion('v1', 1, {
+      'https://example.com/': '<p>Prices</p><p>Updated 10:15</p><div class="ad">Buy now</div>',
+    });
+    const v2 = await storeVersion('v2', 2, {
+      'https://example.com/': '<p>Prices</p><p>Updated 11:42</p><div class="ad">Sale</div>',
+    });
+    await service.saveWatch({ url: 'https://example.com/', ignoreSelectors: ['.ad'], ignorePatterns: ['\\d{1,2}:\\d{2}'] });
+
+    const summary = await service.detectChanges(v1, v2);
+
+    expect(summary).toMatchObject({ changed: false, similarity: 1, pages: [] });
+    expect(service.listAlerts()).toEqual([]);
+  });
+
+  it('should only compare watched selectors and alert on any change to them', async () => {
+    const v1 = await storeVersion('v1', 1, {
+      'https://example.com/': '<h1>Shop</h1><span class="price">$10</span><p>News</p>',
+    });
+    const v2 = await storeVersion('v2', 2, {
+      'https://example.com/': '<h1>Shop</h1><span class="price">$12</span><p>Other news</p>',
+    });
+    await service.saveWatch({ url: 'https://example.com/', similarityThreshold: 0, selectors: ['h1', '.price'] });
+
+    const summary = await service.detectChanges(v1, v2);
+
+    expect(summary).toMatchObject({ changed: true, addedLines: 1, removedLines: 1, changedSelectors: ['.price'] });
+  });
+
+  it('should skip URLs whose watch is disabled', async () => {
+    const v1 = await storeVersion('v1', 1, { 'https://example.com/': home(['Old']) });
+    const v2 = await storeVersion('v2', 2, { 'https://example.com/': home(['New']) });
+    await service.saveWatch({ url: 'https://example.com/', enabled: false });
+
+    expect(await service.detectChanges(v1, v2)).toBeNull();
+  });
+
+  it('should keep watches and the alert feed on disk', async () => {
+    const v1 = await storeVersion('v1', 1, { 'https://example.com/': home(['Old']) });
+    const v2 = await storeVersion('v2', 2, { 'https://example.com/': home(['New']) });
+    const { watch, created } = await service.saveWatch({ url: 'https://example.com', similarityThreshold: 0.9 });
+    await service.detectChanges(v1, v2);
+    const [alert] = service.listAlerts();
+
+    expect(created).toBe(true);
+    expect(await service.saveWatch({ url: 'https://example.com/', similarityThreshold: 0.8 }))
+      .toMatchObject({ watch: { id: watch.id, similarityThreshold: 0.8 }, created: false });
+    expect(await service.markAlertsRead()).toBe(1);
+
+    const reloaded = new ChangeDetectionService(fileService, { filePath });
+    await reloaded.load();
+    expect(reloaded.listWatches('https://example.com/')).toEqual([
+      expect.objectContaining({ id: watch.id, similarityThreshold: 0.8, createdAt: watch.createdAt }),
+    ]);
+    expect(reloaded.listAlerts()).toEqual([{ ...alert, read: true }]);
+    expect(reloaded.listAlerts({ unread: true })).toEqual([]);
+    expect(await reloaded.removeWatch(watch.id)).toBe(true);
+    expect(await reloaded.removeWatch(watch.id)).toBe(false);
+  });
+
+  it('should reject unusable settings', async () => {
+    await expect(service.saveWatch({ url: 'https://example.com/', similarityThreshold: 1.5 }))
+      .rejects.toThrow('Invalid change watch');
+    await expect(service.saveWatch({ url: 'https://example.com/', selectors: ['p[unclosed'] }))
+      .rejects.toThrow('bad selector');
+    await expect(service.saveWatch({ url: 'https://example.com/', ignorePatterns: ['(unclosed'] }))
+      .rejects.toThrow('bad pattern');
+    expect(service.listWatches()).toEqual([]);
+  });
+
+  it('should send alerts to archive.changed webhook subscribers', async () => {
+    const received: { signature: string; body: string }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ signature: String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]), body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const webhookService = new WebhookService({ filePath: path.join(tempDir, 'webhooks.json') });
+      const hook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+      const subscription = await webhookService.createSubscription({ url: hook, events: ['archive.changed'] });
+      service = new ChangeDetectionService(fileService, { filePath, webhookService });
+      const v1 = await storeVersion('v1', 1, { 'https://example.com/': home(['Old']) });
+      const v2 = await storeVersion('v2', 2, { 'https://example.com/': home(['New']) });
+
+      await service.detectChanges(v1, v2);
+      for (let i = 0; i < 50 && received.length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      expect(received).toHaveLength(1);
+      expect(received[0].signature).toBe(signWebhookPayload(received[0].body, subscription.secret));
+      expect(JSON.parse(received[0].body)).toMatchObject({
+        event: 'archive.changed',
+        archive: { id: 'v2' },
+        change: { id: service.listAlerts()[0].id, archiveId: 'v2', changed: true },
+      });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { CrawlControl } from '../services/crawl-control';
+
+describe('CrawlControl', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cancel the job once its time limit runs out', () => {
+    const control = new CrawlControl();
+    control.setTimeLimit(1000);
+
+    jest.advanceTimersByTime(999);
+    expect(control.cancelled).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(control.cancelled).toBe(true);
+    expect(control.timedOut).toBe(true);
+  });
+
+  it('should not count time spent paused', () => {
+    const control = new CrawlControl();
+    control.setTimeLimit(1000);
+
+    jest.advanceTimersByTime(600);
+    control.pause();
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(control.cancelled).toBe(false);
+
+    control.resume();
+    jest.advanceTimersByTime(399);
+    expect(control.cancelled).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(control.timedOut).toBe(true);
+  });
+
+  it('should not time out after the limit is cleared or the job is cancelled', () => {
+    const cleared = new CrawlControl();
+    cleared.setTimeLimit(1000);
+    cleared.clearTimeLimit();
+
+    const cancelled = new CrawlControl();
+    cancelled.setTimeLimit(1000);
+    cancelled.cancel();
+
+    jest.advanceTimersByTime(2000);
+    expect(cleared.cancelled).toBe(false);
+    expect(cancelled.timedOut).toBe(false);
+  });
+});
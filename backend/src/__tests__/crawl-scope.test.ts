@@ -0,0 +1,108 @@
+import { CrawlScopeMatcher, compileScopePattern, getRegistrableDomain, validateCrawlScope } from '../utils/crawl-scope';
+
+describe('crawl-scope', () => {
+  describe('getRegistrableDomain', () => {
+    it('should strip subdomains, keeping multi-label suffixes', () => {
+      expect(getRegistrableDomain('www.blog.example.com')).toBe('example.com');
+      expect(getRegistrableDomain('shop.example.co.uk')).toBe('example.co.uk');
+      expect(getRegistrableDomain('example.com')).toBe('example.com');
+      expect(getRegistrableDomain('127.0.0.1')).toBe('127.0.0.1');
+    });
+  });
+
+  describe('compileScopePattern', () => {
+    it('should match path globs against the path and query', () => {
+      const { regex, matchesPath } = compileScopePattern('/blog/*');
+      expect(matchesPath).toBe(true);
+      expect(regex.test('/blog/post?page=2')).toBe(true);
+      expect(regex.test('/blog/2024/post')).toBe(false);
+      expect(compileScopePattern('/blog/**').regex.test('/blog/2024/post')).toBe(true);
+    });
+
+    it('should match other globs and regular expressions against the whole URL', () => {
+      expect(compileScopePattern('https://*.example.com/**').regex.test('https://docs.example.com/a/b')).toBe(true);
+      expect(compileScopePattern('re:[?&]sort=').regex.test('https://example.com/list?page=1&sort=asc')).toBe(true);
+      expect(() => compileScopePattern('re:(')).toThrow('Invalid scope pattern re:(');
+    });
+  });
+
+  describe('validateCrawlScope', () => {
+    it('should accept valid scopes', () => {
+      expect(validateCrawlScope({})).toBeNull();
+      expect(validateCrawlScope({ mode: 'prefix', include: ['/docs/**'], exclude: ['re:\\?print'], assetHosts: ['*.cdn.net'] })).toBeNull();
+    });
+
+    it('should describe the first problem', () => {
+      expect(validateCrawlScope('host')).toBe('scope must be an object');
+      expect(validateCrawlScope({ mode: 'site' })).toBe('scope.mode must be one of host, subdomains, domain, prefix');
+      expect(validateCrawlScope({ include: '/blog/*' })).toBe('scope.include must be an array of non-empty strings');
+      expect(validateCrawlScope({ useDefaultExcludes: 'no' })).toBe('scope.useDefaultExcludes must be a boolean');
+      expect(validateCrawlScope({ exclude: ['re:[a-'] })).toMatch(/^Invalid scope pattern re:\[a-/);
+    });
+  });
+
+  describe('CrawlScopeMatcher', () => {
+    const startUrl = 'https://www.example.com/docs/intro';
+
+    it('should stay on the starting host by default, skipping common non-content pages', () => {
+      const scope = new CrawlScopeMatcher(startUrl);
+
+      expect(scope.isPageInScope('https://www.example.com/about')).toBe(true);
+      expect(scope.isPageInScope('https://blog.example.com/')).toBe(false);
+      expect(scope.isPageInScope('https://www.example.com/login')).toBe(false);
+      expect(new CrawlScopeMatcher(startUrl, { useDefaultExcludes: false }).isPageInScope('https://www.example.com/login')).toBe(true);
+    });
+
+    it('should apply each scope mode', () => {
+      const subdomains = new CrawlScopeMatcher(startUrl, { mode: 'subdomains' });
+      expect(subdomains.isPageInScope('https://api.www.example.com/')).toBe(true);
+      expect(subdomains.isPageInScope('https://blog.example.com/')).toBe(false);
+
+      const domain = new CrawlScopeMatcher(startUrl, { mode: 'domain' });
+      expect(domain.isPageInScope('https://blog.example.com/')).toBe(true);
+      expect(domain.isPageInScope('https://example.org/')).toBe(false);
+
+      const prefix = new CrawlScopeMatcher(startUrl, { mode: 'prefix' });
+      expect(prefix.isPageInScope('https://www.example.com/docs/setup')).toBe(true);
+      expect(prefix.isPageInScope('https://www.example.com/pricing')).toBe(false);
+    });
+
+    it('should require an include pattern match and no exclude pattern match', () => {
+      const scope = new CrawlScopeMatcher(startUrl, { include: ['/docs/**', '/blog/*'], exclude: ['re:/drafts/'] });
+
+      expect(scope.isPageInScope('https://www.example.com/blog/post')).toBe(true);
+      expect(scope.isPageInScope('https://www.example.com/docs/drafts/next')).toBe(false);
+      expect(scope.isPageInScope('https://www.example.com/pricing')).toBe(false);
+    });
+
+    it('should only restrict asset hosts when some are configured', () => {
+      expect(new CrawlScopeMatcher(startUrl).isAssetAllowed('https://cdn.other.net/app.js')).toBe(true);
+
+      const scope = new CrawlScopeMatcher(startUrl, { assetHosts: ['*.cloudfront.net', 'fonts.gstatic.com'] });
+      expect(scope.isAssetAllowed('https://www.example.com/style.css')).toBe(true);
+      expect(scope.isAssetAllowed('https://d1.cloudfront.net/app.js')).toBe(true);
+      expect(scope.isAssetAllowed('https://fonts.gstatic.com/font.woff2')).toBe(true);
+      expect(scope.isAssetAllowed('https://tracker.example.net/pixel.gif')).toBe(false);
+    });
+
+    it('should describe the resolved scope', () => {
+      expect(new CrawlScopeMatcher(startUrl).describe()).toEqual({
+        mode: 'host',
+        host: 'www.example.com',
+        include: [],
+        exclude: [],
+        useDefaultExcludes: true,
+      });
+      expect(new CrawlScopeMatcher(startUrl, { mode: 'prefix', assetHosts: ['CDN.example.net'] }).describe()).toEqual({
+        mode: 'prefix',
+        host: 'www.example.com',
+        pathPrefix: '/docs/',
+        include: [],
+        exclude: [],
+        useDefaultExcludes: true,
+        assetHosts: ['cdn.example.net'],
+      });
+      expect(new CrawlScopeMatcher(startUrl, { mode: 'domain' }).describe().host).toBe('example.com');
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CrawlSession } from '../services/crawl-session';
+import { CrawlControl } from '../services/crawl-control';
+import { CrawlerService } from '../services/crawler-service';
+import { CaptureBaseline } from '../services/capture-baseline';
+import { FileService } from '../services/file-service';
+import { Archive, CrawlerOptions } from '../types';
+
+/**
+ * Start a local site serving the given pages, delaying each response
+ *
+ * Pages that need absolute URLs can be given as functions of the site's base URL.
+ */
+async function startFixtureSite(
+  pages: { [path: string]: string | ((baseUrl: string) => string) },
+  responseDelay: number = 0
+): Promise<{ server: http.Server; baseUrl: string }> {
+  const server = http.createServer((req, res) => {
+    setTimeout(() => {
+      const content = pages[req.url || ''];
+      const body = typeof content === 'function' ? content(baseUrl) : content;
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'text/html' });
+      res.end(body || 'Not Found');
+    }, responseDelay);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, baseUrl };
+}
+
+function page(title: string, links: string[]): string {
+  const anchors = links.map(link => `<a href="${link}">${link}</a>`).join('');
+  return `<html><head><title>${title}</title></head><body>${anchors}</body></html>`;
+}
+
+describe('CrawlSession', () => {
+  const options: CrawlerOptions = {
+    maxDepth: 3,
+    maxPages: 10,
+    timeout: 5000,
+    respectRobots: false,
+  };
+
+  let siteA: Awaited<ReturnType<typeof startFixtureSite>>;
+  let siteB: Awaited<ReturnType<typeof startFixtureSite>>;
+
+  beforeAll(async () => {
+    siteA = await startFixtureSite({
+      '/': page('A Home', ['/a1', '/a2']),
+      '/a1': page('A One', ['/']),
+      '/a2': page('A Two', ['/missing']),
+    }, 20);
+    siteB = await startFixtureSite({
+      '/': page('B Home', ['/b1']),
+      '/b1': page('B One', ['/b2']),
+      '/b2': page('B Two', []),
+    }, 20);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => siteA.server.close(resolve));
+    await new Promise(resolve => siteB.server.close(resolve));
+  });
+
+  it('should keep overlapping crawls on one service isolated', async () => {
+    const crawlerService = new CrawlerService();
+
+    const [resultA, resultB] = await Promise.all([
+      crawlerService.crawlSite(`${siteA.baseUrl}/`, options),
+      crawlerService.crawlSite(`${siteB.baseUrl}/`, options),
+    ]);
+
+    expect(resultA.pages.map(p => p.title)).toEqual(['A Home', 'A One', 'A Two']);
+    expect(resultB.pages.map(p => p.title)).toEqual(['B Home', 'B One', 'B Two']);
+    expect(resultA.errors.map(e => e.url)).toEqual([`${siteA.baseUrl}/missing`]);
+    expect(resultB.errors).toEqual([]);
+    expect(resultA.cancelled).toBe(false);
+    expect(resultB.cancelled).toBe(false);
+  });
+
+  it('should fetch robots.txt once for all crawls on one service', async () => {
+    let robotsRequests = 0;
+    const site = await startFixtureSite({
+      '/robots.txt': () => {
+        robotsRequests++;
+        return 'User-agent: *\nDisallow: /private';
+      },
+      '/': page('Home', ['/private']),
+    });
+    const crawlerService = new CrawlerService();
+
+    try {
+      await crawlerService.crawlSite(`${site.baseUrl}/`, { ...options, respectRobots: true });
+      const result = await crawlerService.crawlSite(`${site.baseUrl}/`, { ...options, respectRobots: true });
+
+      expect(robotsRequests).toBe(1);
+      expect(result.skippedUrls.map(skipped => skipped.url)).toEqual([`${site.baseUrl}/private`]);
+      expect((await crawlerService.robotsService.isAllowed(`${site.baseUrl}/private`)).allowed).toBe(false);
+      expect(robotsRequests).toBe(1);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should report progress for its own crawl only', async () => {
+    const session = new CrawlSession(`${siteB.baseUrl}/`, options);
+
+    expect(session.getProgress()).toEqual({ pagesFound: 0, pagesCrawled: 0, currentUrl: undefined });
+
+    await session.run();
+
+    expect(session.getProgress()).toEqual({ pagesFound: 3, pagesCrawled: 3, currentUrl: undefined });
+  });
+
+  it('should stop and return partial results when cancelled', async () => {
+    const session = new CrawlSession(`${siteA.baseUrl}/`, options);
+
+    const running = session.run();
+    setTimeout(() => session.cancel(), 50);
+    const result = await running;
+
+    expect(result.cancelled).toBe(true);
+    expect(session.cancelled).toBe(true);
+    expect(result.pages.length).toBeLessThan(3);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should stop a crawl when its control is cancelled without affecting others', async () => {
+    const crawlerService = new CrawlerService();
+    const control = new CrawlControl();
+
+    const cancelled = crawlerService.crawlSite(`${siteA.baseUrl}/`, options, undefined, control);
+    const other = crawlerService.crawlSite(`${siteB.baseUrl}/`, options);
+    control.cancel();
+
+    const [cancelledResult, otherResult] = await Promise.all([cancelled, other]);
+
+    expect(cancelledResult.cancelled).toBe(true);
+    expect(otherResult.cancelled).toBe(false);
+    expect(otherResult.pages).toHaveLength(3);
+  });
+
+  it('should wait while paused and keep the pending frontier', async () => {
+    const control = new CrawlControl();
+    const session = new CrawlSession(`${siteA.baseUrl}/`, options, undefined, control);
+
+    const running = session.run();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    control.pause();
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    const pausedProgress = session.getProgress();
+    expect(pausedProgress.pagesCrawled).toBeLessThan(3);
+    expect(control.getFrontier().length).toBeGreaterThan(0);
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(session.getProgress().pagesCrawled).toBe(pausedProgress.pagesCrawled);
+
+    control.resume();
+    const result = await running;
+
+    expect(result.pages).toHaveLength(3);
+    expect(result.frontier).toEqual([]);
+  });
+
+  it('should keep the interrupted page in the frontier when cancelled', async () => {
+    const session = new CrawlSession(`${siteA.baseUrl}/`, options);
+
+    const running = session.run();
+    setTimeout(() => session.cancel(), 5);
+    const result = await running;
+
+    expect(result.pages).toEqual([]);
+    expect(result.frontier).toEqual([{ url: `${siteA.baseUrl}/`, depth: 0 }]);
+  });
+
+  it('should continue an interrupted crawl from its checkpoint', async () => {
+    const first = await new CrawlSession(`${siteA.baseUrl}/`, { ...options, maxPages: 1 }).run();
+    expect(first.pages.map(p => p.title)).toEqual(['A Home']);
+
+    // Only part of the frontier was saved; links of the checkpointed pages are queued again
+    const frontier = [{ url: `${siteA.baseUrl}/a2`, depth: 1, referrer: `${siteA.baseUrl}/` }];
+    const crawledTitles: string[] = [];
+    const session = new CrawlSession(
+      `${siteA.baseUrl}/`,
+      options,
+      progress => progress.crawledPage && crawledTitles.push(progress.crawledPage.title),
+      undefined,
+      undefined,
+      { pages: first.pages, frontier }
+    );
+    const result = await session.run();
+
+    expect(crawledTitles).toEqual(['A Two', 'A One']);
+    expect(result.pages.map(p => p.title)).toEqual(['A Home', 'A Two', 'A One']);
+  });
+
+  it('should record the raw HTTP exchange of each page', async () => {
+    const session = new CrawlSession(`${siteB.baseUrl}/`, { ...options, maxPages: 1 });
+    const result = await session.run();
+
+    const http = result.pages[0].http!;
+    expect(http.method).toBe('GET');
+    expect(http.requestTarget).toBe('/');
+    expect(http.requestHeaders).toContainEqual(['User-Agent', expect.stringContaining('WebArchiver')]);
+    expect(http.httpVersion).toBe('1.1');
+    expect(http.statusCode).toBe(200);
+    expect(http.statusText).toBe('OK');
+    expect(http.responseHeaders).toContainEqual(['Content-Type', 'text/html']);
+    expect(http.ipAddress).toBe('127.0.0.1');
+  });
+
+  it('should record the redirects followed to reach a page', async () => {
+    const server = http.createServer((req, res) => {
+      if (req.url === '/old') {
+        res.writeHead(301, { Location: '/moved' });
+      } else if (req.url === '/moved') {
+        res.writeHead(302, { Location: '/new' });
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', ETag: '"v1"' });
+        res.write(page('New', []));
+      }
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const session = new CrawlSession(`${baseUrl}/old`, { ...options, maxPages: 1 });
+      const result = await session.run();
+
+      const http = result.pages[0].http!;
+      expect(http.requestTarget).toBe('/new');
+      expect(http.statusCode).toBe(200);
+      expect(http.responseHeaders).toContainEqual(['ETag', '"v1"']);
+      expect(http.redirects).toEqual([
+        { url: `${baseUrl}/old`, statusCode: 301, location: `${baseUrl}/moved` },
+        { url: `${baseUrl}/moved`, statusCode: 302, location: `${baseUrl}/new` },
+      ]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should collect URLs from inline styles, <base href> and meta refresh', async () => {
+    const site = await startFixtureSite({
+      '/blog/': `<html><head>
+        <base href="/static/">
+        <meta http-equiv="Refresh" content="30; URL='../next'">
+        <style>
+          @import "print.css";
+          body { background: url(images/bg.png); }
+          @font-face { src: url("/fonts/body.woff2") format("woff2"); }
+          .shape { fill: url(#gradient); }
+        </style>
+      </head><body style="background-image: url('images/hero.jpg')">
+        <img src="logo.png"><div style="background: url(images/bg.png)"></div>
+      </body></html>`,
+    });
+
+    try {
+      const session = new CrawlSession(`${site.baseUrl}/blog/`, { ...options, maxPages: 1 });
+      const result = await session.run();
+
+      const [crawledPage] = result.pages;
+      expect(crawledPage.assets.map(asset => [asset.originalUrl, asset.type])).toEqual([
+        [`${site.baseUrl}/static/logo.png`, 'image'],
+        [`${site.baseUrl}/static/print.css`, 'css'],
+        [`${site.baseUrl}/static/images/bg.png`, 'image'],
+        [`${site.baseUrl}/fonts/body.woff2`, 'font'],
+        [`${site.baseUrl}/static/images/hero.jpg`, 'image'],
+      ]);
+      expect(crawledPage.links).toEqual([`${site.baseUrl}/next`]);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should collect responsive, lazy-loaded and poster images by policy', async () => {
+    const site = await startFixtureSite({
+      '/': `<html><body>
+        <picture>
+          <source srcset="/wide.webp 1x, /wide@2x.webp 2x">
+          <img src="/fallback.jpg" srcset="/small.jpg 480w, /large.jpg 1080w">
+        </picture>
+        <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="/real.jpg" data-srcset="/real.jpg 1x, /real@2x.jpg 2x">
+        <video poster="/poster.jpg"></video>
+      </body></html>`,
+    });
+
+    const crawlAssets = async (responsiveImages: 'all' | 'largest') => {
+      const session = new CrawlSession(`${site.baseUrl}/`, { ...options, maxPages: 1, responsiveImages });
+      const [crawledPage] = (await session.run()).pages;
+      return crawledPage.assets.map(asset => asset.originalUrl.replace(site.baseUrl, ''));
+    };
+
+    try {
+      expect(await crawlAssets('all')).toEqual([
+        '/fallback.jpg', '/wide.webp', '/wide@2x.webp', '/small.jpg', '/large.jpg', '/real.jpg', '/real@2x.jpg', '/poster.jpg',
+      ]);
+      expect(await crawlAssets('largest')).toEqual([
+        '/fallback.jpg', '/wide@2x.webp', '/large.jpg', '/real@2x.jpg', '/real.jpg', '/poster.jpg',
+      ]);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should archive script-rendered pages in dom render mode', async () => {
+    const site = await startFixtureSite({
+      '/': `<html><body><div id="app"></div><script src="/app.js"></script></body></html>`,
+      '/app.js': `fetch('/data.json').then(response => response.json()).then(data => {
+        document.getElementById('app').innerHTML = '<a href="/' + data.page + '">' + data.page + '</a><img src="/hero.png">';
+      });`,
+      '/data.json': JSON.stringify({ page: 'about' }),
+    });
+
+    try {
+      const session = new CrawlSession(`${site.baseUrl}/`, { ...options, maxPages: 1, renderMode: 'dom', renderTimeout: 3000 });
+      const [crawledPage] = (await session.run()).pages;
+
+      expect(crawledPage.htmlContent).toContain('<a href="/about">about</a>');
+      expect(crawledPage.links).toEqual([`${site.baseUrl}/about`]);
+      expect(crawledPage.assets.map(asset => [asset.originalUrl.replace(site.baseUrl, ''), asset.type])).toEqual([
+        ['/hero.png', 'image'],
+        ['/app.js', 'javascript'],
+        ['/data.json', 'other'],
+      ]);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should seed the frontier from sitemaps in priority order', async () => {
+    const site = await startFixtureSite({
+      '/': page('Home', []),
+      '/robots.txt': baseUrl => `User-agent: *\nDisallow: /private\nSitemap: ${baseUrl}/pages.xml\n`,
+      '/pages.xml': baseUrl => `<urlset>
+        <url><loc>${baseUrl}/archive</loc><priority>0.2</priority></url>
+        <url><loc>${baseUrl}/featured</loc><priority>0.9</priority></url>
+        <url><loc>${baseUrl}/private/draft</loc><priority>1.0</priority></url>
+        <url><loc>https://elsewhere.example/page</loc><priority>1.0</priority></url>
+      </urlset>`,
+      '/archive': page('Archive', []),
+      '/featured': page('Featured', []),
+    });
+    const sitemap = `${site.baseUrl}/pages.xml`;
+
+    try {
+      const session = new CrawlSession(`${site.baseUrl}/`, { ...options, respectRobots: true, seedFromSitemap: true });
+      const result = await session.run();
+
+      expect(result.pages.map(crawled => [crawled.title, crawled.depth, crawled.referrer])).toEqual([
+        ['Home', 0, undefined],
+        ['Featured', 1, sitemap],
+        ['Archive', 1, sitemap],
+      ]);
+      expect(result.skippedUrls.map(skipped => [skipped.url, skipped.sourceUrl])).toEqual([
+        [`${site.baseUrl}/private/draft`, sitemap],
+      ]);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should follow links and keep assets within the configured scope', async () => {
+    const site = await startFixtureSite({
+      '/docs/': baseUrl => `<html><body>
+        <a href="/docs/setup">Setup</a><a href="/docs/old-setup">Old</a><a href="/blog/">Blog</a>
+        <img src="/docs/diagram.png"><img src="${baseUrl.replace('127.0.0.1', 'localhost')}/tracker.gif">
+      </body></html>`,
+      '/docs/setup': page('Setup', []),
+      '/docs/old-setup': page('Old setup', []),
+      '/blog/': page('Blog', []),
+    });
+
+    try {
+      const session = new CrawlSession(`${site.baseUrl}/docs/`, {
+        ...options,
+        scope: { mode: 'prefix', exclude: ['/docs/old-*'], assetHosts: ['cdn.example.net'] },
+      });
+      const result = await session.run();
+
+      expect(result.pages.map(crawled => crawled.url)).toEqual([`${site.baseUrl}/docs/`, `${site.baseUrl}/docs/setup`]);
+      expect(result.pages[0].assets.map(asset => asset.originalUrl)).toEqual([`${site.baseUrl}/docs/diagram.png`]);
+    } finally {
+      await new Promise(resolve => site.server.close(resolve));
+    }
+  });
+
+  it('should reuse pages the server reports unchanged since the baseline', async () => {
+    const requestedWith: string[] = [];
+    const server = http.createServer((req, res) => {
+      requestedWith.push(`${req.url} ${req.headers['if-none-match'] || '-'}`);
+      if (req.url === '/' && req.headers['if-none-match'] === '"home"') {
+        res.writeHead(304);
+      } else {
+        res.writeHead(req.url === '/' ? 500 : 200, { 'Content-Type': 'text/html' });
+        res.write(page(req.url === '/a' ? 'A new' : 'B', []));
+      }
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const capture = (bodyPath: string, etag: string) => ({
+      method: 'GET', requestTarget: '/', requestHeaders: [], httpVersion: '1.1', statusCode: 200, statusText: 'OK',
+      responseHeaders: [['ETag', etag]] as Array<[string, string]>, fetchedAt: new Date(), bodyPath,
+    });
+    const bodies: { [bodyPath: string]: string } = {
+      'responses/home': page('Home', ['/a', '/b']),
+      'responses/a': page('A old', []),
+    };
+    const fileService = { getResponseBody: jest.fn(async (bodyPath: string) => Buffer.from(bodies[bodyPath])) };
+    const baseline = new CaptureBaseline({
+      id: 'base-id',
+      url: `${baseUrl}/`,
+      version: 1,
+      pages: [
+        { url: `${baseUrl}/`, path: 'index.html', title: 'Home', timestamp: new Date(), assets: [], links: [], http: capture('responses/home', '"home"') },
+        { url: `${baseUrl}/a`, path: 'a.html', title: 'A old', timestamp: new Date(), assets: [], links: [], http: capture('responses/a', '"a1"') },
+      ],
+    } as unknown as Archive, fileService as unknown as FileService);
+
+    try {
+      const session = new CrawlSession(`${baseUrl}/`, options, undefined, undefined, baseline);
+      const result = await session.run();
+
+      expect(requestedWith).toEqual(['/ "home"', '/a "a1"', '/b -']);
+      expect(result.pages.map(crawled => [crawled.title, crawled.change])).toEqual([
+        ['Home', 'unchanged'],
+        ['A new', 'changed'],
+        ['B', 'new'],
+      ]);
+      expect(result.pages[0].htmlContent).toBe(bodies['responses/home']);
+      expect(result.pages[0].http?.responseHeaders).toEqual([['ETag', '"home"']]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should only run once', async () => {
+    const session = new CrawlSession(`${siteB.baseUrl}/`, options);
+    await session.run();
+
+    await expect(session.run()).rejects.toThrow('already been run');
+  });
+});
@@ -1,6 +1,8 @@
 import { CrawlerService } from '../services/crawler-service';
 import { CrawlerOptions, ErrorType, AssetType } from '../types';
 import puppeteer from 'puppeteer';
+import http from 'http';
+import { AddressInfo } from 'net';
 
 // Mock Puppeteer
 jest.mock('puppeteer');
@@ -142,7 +144,7 @@ describe('CrawlerService', () => {
     });
 
     it('should respect max depth limit', async () => {
-      const shallowOptions = { ...defaultOptions, maxDepth: 1 };
+      const shallowOptions = { ...defaultOptions, maxDepth: 0 };
 
       const result = await crawlerService.crawlSite('https://example.com', shallowOptions);
       
@@ -358,6 +360,49 @@ describe('CrawlerService', () => {
     });
   });
 
+  describe('depth tracking', () => {
+    // Fixture site: / -> /level1 -> /level2 -> /level3
+    const fixturePages: { [path: string]: string } = {
+      '/': '<html><head><title>Home</title></head><body><a href="/level1">Level 1</a></body></html>',
+      '/level1': '<html><head><title>Level 1</title></head><body><a href="/level2">Level 2</a></body></html>',
+      '/level2': '<html><head><title>Level 2</title></head><body><a href="/level3">Level 3</a></body></html>',
+      '/level3': '<html><head><title>Level 3</title></head><body><a href="/">Home</a></body></html>',
+    };
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const body = fixturePages[req.url || ''];
+        res.writeHead(body ? 200 : 404, { 'Content-Type': 'text/html' });
+        res.end(body || 'Not Found');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should stop expanding links past maxDepth', async () => {
+      const result = await crawlerService.crawlSite(`${baseUrl}/`, { ...defaultOptions, maxDepth: 1 });
+
+      expect(result.pages.map(p => p.url)).toEqual([`${baseUrl}/`, `${baseUrl}/level1`]);
+    });
+
+    it('should record depth and referring page for each page', async () => {
+      const result = await crawlerService.crawlSite(`${baseUrl}/`, { ...defaultOptions, maxDepth: 10 });
+
+      expect(result.pages.map(p => [p.url, p.depth, p.referrer])).toEqual([
+        [`${baseUrl}/`, 0, undefined],
+        [`${baseUrl}/level1`, 1, `${baseUrl}/`],
+        [`${baseUrl}/level2`, 2, `${baseUrl}/level1`],
+        [`${baseUrl}/level3`, 3, `${baseUrl}/level2`],
+      ]);
+    });
+  });
+
   describe('asset type determination', () => {
     it('should determine asset types correctly from content type and URL', () => {
       // Test the asset type determination logic directly
@@ -0,0 +1,58 @@
+import { getMinCronSpacing, getNextCronTime, parseCron } from '../utils/cron';
+
+describe('cron', () => {
+  const next = (expression: string, after: string) =>
+    getNextCronTime(parseCron(expression), new Date(after)).toISOString();
+
+  it('should parse values, ranges, steps, lists and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 jan-mar MON-FRI');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('minute must be between 0 and 59');
+    expect(() => parseCron('* * * * */0')).toThrow('invalid step');
+    expect(() => parseCron('5-1 * * * *')).toThrow('invalid range');
+    expect(() => parseCron('* * * foo *')).toThrow('month must be between 1 and 12');
+  });
+
+  it('should find the next matching minute in UTC', () => {
+    expect(next('*/15 * * * *', '2024-05-01T10:07:30Z')).toBe('2024-05-01T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2024-05-01T10:15:00Z')).toBe('2024-05-01T10:30:00.000Z');
+    expect(next('30 2 * * *', '2024-05-01T10:00:00Z')).toBe('2024-05-02T02:30:00.000Z');
+    expect(next('0 0 1 * *', '2024-12-15T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('0 12 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T12:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2024-05-01 is a Wednesday; the 10th comes before the next Monday only for the OR rule
+    expect(next('0 0 10 * 1', '2024-05-07T00:00:00Z')).toBe('2024-05-10T00:00:00.000Z');
+    expect(next('0 0 10 * 1', '2024-05-10T00:00:00Z')).toBe('2024-05-13T00:00:00.000Z');
+    expect(next('0 0 * * 1', '2024-05-07T00:00:00Z')).toBe('2024-05-13T00:00:00.000Z');
+  });
+
+  it('should find the shortest time between consecutive runs', () => {
+    const spacing = (expression: string) => getMinCronSpacing(parseCron(expression));
+
+    expect(spacing('* * * * *')).toBe(1);
+    expect(spacing('*/10 * * * *')).toBe(10);
+    expect(spacing('0,50 * * * *')).toBe(10);
+    // 2:58 and 3:00 both match
+    expect(spacing('0,58 2,3 * * *')).toBe(2);
+    expect(spacing('0,58 2,4 * * *')).toBe(58);
+    expect(spacing('58 23,0 * * *')).toBe(60);
+    expect(spacing('@daily')).toBe(Infinity);
+  });
+
+  it('should fail for expressions that never match', () => {
+    expect(() => getNextCronTime(parseCron('0 0 30 2 *'), new Date())).toThrow('never matches');
+  });
+});
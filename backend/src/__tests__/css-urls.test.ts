@@ -0,0 +1,81 @@
+import { extractCssUrls } from '../utils/css-urls';
+import { CssDependencyResolver } from '../utils/css-dependency-resolver';
+import { Asset, AssetType } from '../types';
+
+describe('extractCssUrls', () => {
+  it('should list imports and url() references once each', () => {
+    const css = `
+      @import url("reset.css");
+      @import 'theme.css' screen;
+      body { background: url(images/bg.png) repeat; }
+      .logo { background-image: url( 'images/logo.svg' ); }
+      .again { background: url(images/bg.png); }
+      @font-face { src: url("fonts/body.woff2") format("woff2"), url(fonts/body.woff) format("woff"); }
+    `;
+
+    expect(extractCssUrls(css)).toEqual([
+      { url: 'reset.css', isImport: true },
+      { url: 'theme.css', isImport: true },
+      { url: 'images/bg.png', isImport: false },
+      { url: 'images/logo.svg', isImport: false },
+      { url: 'fonts/body.woff2', isImport: false },
+      { url: 'fonts/body.woff', isImport: false },
+    ]);
+  });
+
+  it('should skip comments, fragments and data URLs', () => {
+    const css = `
+      /* .old { background: url(old.png); } */
+      .shape { fill: url(#gradient); }
+      .dot { background: url(data:image/png;base64,iVBORw0KGgo=); }
+    `;
+
+    expect(extractCssUrls(css)).toEqual([]);
+  });
+});
+
+describe('CssDependencyResolver', () => {
+  const asset = (originalUrl: string, type: AssetType = AssetType.CSS): Asset => ({
+    originalUrl,
+    localPath: '',
+    type,
+    size: 0,
+    contentType: 'text/css',
+  });
+
+  it('should return resources that are not part of the archive yet, once each', () => {
+    const main = asset('https://example.com/css/main.css');
+    const resolver = new CssDependencyResolver([main, asset('https://example.com/logo.png', AssetType.IMAGE)]);
+
+    const dependencies = resolver.resolve(main, `
+      @import "theme.css";
+      .logo { background: url(/logo.png); }
+      .hero { background: url(../images/hero.jpg); }
+      @font-face { src: url(https://cdn.example.net/font.woff2); }
+    `);
+
+    expect(dependencies.map(dependency => [dependency.originalUrl, dependency.type])).toEqual([
+      ['https://example.com/css/theme.css', AssetType.CSS],
+      ['https://example.com/images/hero.jpg', AssetType.IMAGE],
+      ['https://cdn.example.net/font.woff2', AssetType.FONT],
+    ]);
+    expect(resolver.resolve(main, '.again { background: url(../images/hero.jpg); }')).toEqual([]);
+  });
+
+  it('should stop at import cycles', () => {
+    const a = asset('https://example.com/a.css');
+    const resolver = new CssDependencyResolver([a]);
+
+    const [b] = resolver.resolve(a, '@import "b.css";');
+    expect(b.originalUrl).toBe('https://example.com/b.css');
+    expect(resolver.resolve(b, '@import "a.css"; @import "b.css";')).toEqual([]);
+  });
+
+  it('should cap the number of resources it discovers', () => {
+    const main = asset('https://example.com/main.css');
+    const resolver = new CssDependencyResolver([main], 2);
+
+    const css = [1, 2, 3].map(i => `.i${i} { background: url(/${i}.png); }`).join('\n');
+    expect(resolver.resolve(main, css)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,111 @@
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DomRenderer } from '../services/dom-renderer';
+import { AssetType } from '../types';
+
+/**
+ * Start a local single-page app; `/slow` never answers within the tests' budgets
+ */
+async function startFixtureApp(): Promise<{ server: http.Server; baseUrl: string; received: string[] }> {
+  const received: string[] = [];
+  const files: { [path: string]: [string, string] } = {
+    '/app.js': ['application/javascript', `
+      fetch('/api/items.json')
+        .then(response => response.json())
+        .then(items => {
+          document.getElementById('root').innerHTML = items.map(item => '<li>' + item + '</li>').join('');
+        });
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', '/api/title.txt');
+      xhr.onload = () => { document.title = xhr.responseText; };
+      xhr.send();
+    `],
+    '/api/items.json': ['application/json', JSON.stringify(['First', 'Second'])],
+    '/api/title.txt': ['text/plain', 'Rendered title'],
+  };
+
+  const server = http.createServer((req, res) => {
+    received.push(`${req.method} ${req.url}`);
+    if (req.url === '/slow') {
+      setTimeout(() => res.end('late'), 5000);
+      return;
+    }
+    const file = files[req.url || ''];
+    res.writeHead(file ? 200 : 404, { 'Content-Type': file ? file[0] : 'text/plain' });
+    res.end(file ? file[1] : 'Not Found');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, baseUrl, received };
+}
+
+describe('DomRenderer', () => {
+  let app: Awaited<ReturnType<typeof startFixtureApp>>;
+
+  beforeAll(async () => {
+    app = await startFixtureApp();
+  });
+
+  afterAll(async () => {
+    app.server.closeAllConnections();
+    await new Promise(resolve => app.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    app.received.length = 0;
+  });
+
+  it('should snapshot the DOM after scripts ran and record their requests', async () => {
+    const renderer = new DomRenderer(axios.create(), { timeout: 3000 });
+
+    const result = await renderer.render(
+      `${app.baseUrl}/`,
+      '<html><head><title>Loading</title></head><body><ul id="root"></ul><script src="/app.js"></script></body></html>'
+    );
+
+    expect(result.timedOut).toBe(false);
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('<ul id="root"><li>First</li><li>Second</li></ul>');
+    expect(result.html).toContain('<title>Rendered title</title>');
+    expect(result.requests).toEqual([
+      { url: `${app.baseUrl}/app.js`, type: AssetType.JAVASCRIPT },
+      { url: `${app.baseUrl}/api/items.json`, type: AssetType.OTHER },
+      { url: `${app.baseUrl}/api/title.txt`, type: AssetType.OTHER },
+    ]);
+  });
+
+  it('should refuse requests that are not GET or exceed the request budget', async () => {
+    const renderer = new DomRenderer(axios.create(), { timeout: 3000, maxRequests: 1 });
+
+    const result = await renderer.render(`${app.baseUrl}/`, `<body><script>
+      fetch('/api/items.json', { method: 'POST' }).catch(error => { document.body.dataset.post = error.message; });
+      fetch('/api/items.json').then(() => fetch('/api/title.txt')).catch(error => { document.body.dataset.budget = error.message; });
+    </script></body>`);
+
+    expect(result.html).toContain('data-post="Only GET requests are made while rendering');
+    expect(result.html).toContain('data-budget="Request budget of 1 exhausted');
+    expect(result.requests.map(request => request.url)).toEqual([`${app.baseUrl}/api/items.json`]);
+    expect(app.received).toEqual(['GET /api/items.json']);
+  });
+
+  it('should snapshot the page as it is when the time budget runs out', async () => {
+    const renderer = new DomRenderer(axios.create(), { timeout: 1000 });
+
+    const result = await renderer.render(`${app.baseUrl}/`, `<body><p id="status">waiting</p><script>
+      fetch('/slow').then(() => { document.getElementById('status').textContent = 'done'; });
+    </script></body>`);
+
+    expect(result.timedOut).toBe(true);
+    expect(result.html).toContain('<p id="status">waiting</p>');
+  });
+
+  it('should report script errors without failing the render', async () => {
+    const renderer = new DomRenderer(axios.create(), { timeout: 3000 });
+
+    const result = await renderer.render(`${app.baseUrl}/`, '<body><script>undefinedFunction();</script><p>Static</p></body>');
+
+    expect(result.html).toContain('<p>Static</p>');
+    expect(result.errors).toHaveLength(1);
+  });
+});
@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { FileService } from '../services/file-service';
 import { Archive, ArchiveStatus, AssetType, ErrorType } from '../types';
 
@@ -12,9 +13,19 @@ describe('FileService', () => {
   const testStoragePath = '/test/storage';
   const testArchiveId = 'test-archive-123';
 
+  const blobManifestPath = path.join(testStoragePath, '.blobs', 'manifests');
+
   beforeEach(() => {
     fileService = new FileService({ baseStoragePath: testStoragePath });
     jest.clearAllMocks();
+    mockFs.readFile.mockResolvedValue(undefined as any);
+    // The blob store starts out empty
+    mockFs.readdir.mockImplementation((async (dirPath: unknown) => {
+      if (dirPath === blobManifestPath) {
+        throw Object.assign(new Error('Not found'), { code: 'ENOENT' });
+      }
+      return [];
+    }) as any);
   });
 
   describe('initializeArchiveStorage', () => {
@@ -105,9 +116,15 @@ describe('FileService', () => {
 
       const result = await fileService.saveAsset(originalUrl, assetContent, testArchiveId, AssetType.CSS);
 
-      expect(mockFs.writeFile).toHaveBeenCalledWith(
+      // The content is stored in the blob store under its SHA-256
+      const hash = createHash('sha256').update(assetContent).digest('hex');
+      expect(mockFs.rename).toHaveBeenCalledWith(
+        expect.stringContaining(hash),
+        path.join(testStoragePath, '.blobs', hash.slice(0, 2), hash)
+      );
+      expect(mockFs.writeFile).not.toHaveBeenCalledWith(
         path.join(testStoragePath, testArchiveId, 'assets', 'css', 'main.css'),
-        assetContent
+        expect.anything()
       );
       expect(result).toBe(path.join('assets', 'css', 'main.css'));
     });
@@ -180,7 +197,7 @@ describe('FileService', () => {
   });
 
   describe('getAsset', () => {
-    it('should retrieve asset content', async () => {
+    it('should retrieve asset content stored in the archive directory', async () => {
       const expectedContent = Buffer.from('asset-data');
       mockFs.readFile.mockResolvedValue(expectedContent);
 
@@ -302,6 +319,42 @@ describe('FileService', () => {
     });
   });
 
+  describe('crawl checkpoint', () => {
+    const checkpointPath = path.join(testStoragePath, testArchiveId, 'crawled-pages.jsonl');
+
+    it('should append crawled pages as JSON lines', async () => {
+      mockFs.appendFile.mockResolvedValue();
+      const page = { url: 'https://example.com', path: 'index.html', title: 'Test', timestamp: new Date(), assets: [], links: [] };
+
+      await fileService.appendCrawledPage(testArchiveId, page);
+
+      expect(mockFs.appendFile).toHaveBeenCalledWith(checkpointPath, JSON.stringify(page) + '\n', 'utf-8');
+    });
+
+    it('should load checkpointed pages and skip a line cut short', async () => {
+      const line = JSON.stringify({
+        url: 'https://example.com',
+        path: 'index.html',
+        title: 'Test',
+        timestamp: '2023-01-01T00:00:00.000Z',
+        assets: [],
+        links: [],
+      });
+      mockFs.readFile.mockResolvedValue(`${line}\n{"url":"https://exa`);
+
+      const pages = await fileService.loadCrawledPages(testArchiveId);
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should return no pages without a checkpoint', async () => {
+      mockFs.readFile.mockRejectedValue(Object.assign(new Error('Not found'), { code: 'ENOENT' }));
+
+      await expect(fileService.loadCrawledPages(testArchiveId)).resolves.toEqual([]);
+    });
+  });
+
   describe('listArchives', () => {
     it('should return list of archive directories', async () => {
       const mockEntries = [
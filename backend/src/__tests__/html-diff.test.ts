@@ -0,0 +1,66 @@
+import { diffDom, diffText, extractText } from '../utils/html-diff';
+
+describe('html diff', () => {
+  const page = (body: string) => `<!DOCTYPE html><html><head><title>Shop</title><style>p { color: red }</style></head><body>${body}</body></html>`;
+
+  it('should extract visible text one block per line', () => {
+    expect(extractText(page('<h1>Welcome  to\n the <em>shop</em></h1><p>Open daily<br>9 to 5</p><script>track()</script>'))).toEqual([
+      'Shop',
+      'Welcome to the shop',
+      'Open daily',
+      '9 to 5',
+    ]);
+  });
+
+  it('should extract only selected text and leave out ignored regions', () => {
+    const html = page('<div class="price">$10 <span class="ad">Sale!</span></div><p>Intro</p><div class="price">$12</div>');
+
+    expect(extractText(html, { select: '.price', ignore: ['.ad'] })).toEqual(['$10', '$12']);
+    expect(extractText(html, { ignore: ['.price', 'title'] })).toEqual(['Intro']);
+  });
+
+  it('should diff the text of two versions', () => {
+    const diff = diffText(
+      page('<h1>Welcome</h1><p>Prices from $10</p><p>Open daily</p>'),
+      page('<h1>Welcome</h1><p>Prices from $12</p><p>Open daily</p><p>New: gift cards</p>')
+    );
+
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(1);
+    expect(diff.hunks).toEqual([{
+      fromStart: 1,
+      fromCount: 4,
+      toStart: 1,
+      toCount: 5,
+      lines: [' Shop', ' Welcome', '-Prices from $10', '+Prices from $12', ' Open daily', '+New: gift cards'],
+    }]);
+  });
+
+  it('should list added and removed subtrees at their root and attribute changes', () => {
+    const diff = diffDom(
+      page('<div id="main" class="narrow"><p>Intro</p></div><aside><ul><li>a</li><li>b</li></ul></aside>'),
+      page('<div id="main" class="wide"><p>Intro changed</p><img src="hero.png"></div>')
+    );
+
+    expect(diff).toEqual({
+      added: 1,
+      removed: 4,
+      changedAttributes: 1,
+      truncated: false,
+      changes: [
+        { type: 'attributes', path: 'html > body > div#main', attributes: { class: { from: 'narrow', to: 'wide' } } },
+        { type: 'removed', path: 'html > body > aside', elements: 4 },
+        { type: 'added', path: 'html > body > div#main > img', elements: 1 },
+      ],
+    });
+  });
+
+  it('should cap the listed changes but keep counting', () => {
+    const items = (count: number) => Array.from({ length: count }, (_, i) => `<p class="c${i}">${i}</p>`).join('');
+    const diff = diffDom(page(items(5)), page(items(5).replace(/class="c/g, 'class="d')), 3);
+
+    expect(diff.changedAttributes).toBe(5);
+    expect(diff.changes).toHaveLength(3);
+    expect(diff.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HtmlRewriteOptions,
+  parseMetaRefresh,
+  parseSrcset,
+  rewriteHtml,
+  selectLargestCandidate,
+  serializeSrcset,
+} from '../utils/html-rewriter';
+import { UrlRewriter } from '../utils/url-rewriter';
+import { AssetType } from '../types';
+
+/**
+ * Golden files: each `<name>.input.html` is rewritten and compared to `<name>.expected.html`,
+ * with the rewrite options in `<name>.options.json` when there is one.
+ * Run with UPDATE_GOLDEN=1 to regenerate the expected files after an intended change.
+ */
+const fixturesDir = path.join(__dirname, 'fixtures', 'html-rewriter');
+const fixtures = fs.readdirSync(fixturesDir)
+  .filter(file => file.endsWith('.input.html'))
+  .map(file => file.replace(/\.input\.html$/, ''));
+
+describe('rewriteHtml', () => {
+  const createRewriter = (options: HtmlRewriteOptions = {}) => {
+    const rewriter = new UrlRewriter({ archiveId: 'golden', baseUrl: 'https://example.com/blog/post', ...options });
+    rewriter.addAssetMapping({
+      originalUrl: 'https://example.com/images/share.png',
+      localPath: 'assets/images/share_1a2b3c.png',
+      assetType: AssetType.IMAGE,
+    });
+    return rewriter;
+  };
+
+  it('should have golden files', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)('should match the golden file for %s', name => {
+    const input = fs.readFileSync(path.join(fixturesDir, `${name}.input.html`), 'utf-8');
+    const expectedPath = path.join(fixturesDir, `${name}.expected.html`);
+
+    const optionsPath = path.join(fixturesDir, `${name}.options.json`);
+    const options = fs.existsSync(optionsPath) ? JSON.parse(fs.readFileSync(optionsPath, 'utf-8')) : {};
+
+    const output = createRewriter(options).rewriteHtmlUrls(input);
+
+    if (process.env.UPDATE_GOLDEN) {
+      fs.writeFileSync(expectedPath, output);
+    }
+    expect(output).toBe(fs.readFileSync(expectedPath, 'utf-8'));
+  });
+
+  it('should leave markup without URLs unchanged', () => {
+    const html = '<p class="note">Café &amp; <b>bold</b></p>\n<ul><li>One</li></ul>';
+    const handlers = { rewriteUrl: jest.fn((url: string) => url), rewriteCss: jest.fn((css: string) => css) };
+
+    expect(rewriteHtml(html, handlers)).toBe(html);
+    expect(handlers.rewriteUrl).not.toHaveBeenCalled();
+  });
+
+  it('should tell page links apart from resources', () => {
+    const rewriteUrl = jest.fn((url: string) => url);
+
+    rewriteHtml('<a href="/page">Page</a><img src="/image.png">', { rewriteUrl, rewriteCss: css => css });
+
+    expect(rewriteUrl.mock.calls).toEqual([
+      ['/page', true],
+      ['/image.png', false],
+    ]);
+  });
+});
+
+describe('parseMetaRefresh', () => {
+  it('should read the delay and URL', () => {
+    expect(parseMetaRefresh('0;url=/next')).toEqual({ delay: '0', url: '/next' });
+    expect(parseMetaRefresh(' 5 ; URL = "https://example.com/new" ')).toEqual({ delay: '5', url: 'https://example.com/new' });
+    expect(parseMetaRefresh("3, 'page.html'")).toEqual({ delay: '3', url: 'page.html' });
+  });
+
+  it('should accept refreshes without a URL and reject other content', () => {
+    expect(parseMetaRefresh('30')).toEqual({ delay: '30' });
+    expect(parseMetaRefresh('url=/next')).toBeNull();
+  });
+});
+
+describe('parseSrcset', () => {
+  it('should split candidates and descriptors', () => {
+    expect(parseSrcset('a.jpg 480w,b.jpg 1080w , c.jpg')).toEqual([
+      { url: 'a.jpg', descriptor: '480w' },
+      { url: 'b.jpg', descriptor: '1080w' },
+      { url: 'c.jpg', descriptor: '' },
+    ]);
+  });
+
+  it('should keep commas that are part of a URL', () => {
+    expect(parseSrcset('data:image/png;base64,AAAA 1x, photo,v2.jpg 2x')).toEqual([
+      { url: 'data:image/png;base64,AAAA', descriptor: '1x' },
+      { url: 'photo,v2.jpg', descriptor: '2x' },
+    ]);
+  });
+
+  it('should end a candidate at a trailing comma', () => {
+    expect(parseSrcset('a.jpg, b.jpg,')).toEqual([
+      { url: 'a.jpg', descriptor: '' },
+      { url: 'b.jpg', descriptor: '' },
+    ]);
+  });
+
+  it('should round-trip through serializeSrcset', () => {
+    expect(serializeSrcset(parseSrcset('a.jpg 1x,b.jpg   2x'))).toBe('a.jpg 1x, b.jpg 2x');
+  });
+});
+
+describe('selectLargestCandidate', () => {
+  it('should prefer the widest candidate', () => {
+    expect(selectLargestCandidate(parseSrcset('a.jpg 480w, b.jpg 1080w, c.jpg 2x'))).toEqual({ url: 'b.jpg', descriptor: '1080w' });
+  });
+
+  it('should compare densities, counting a missing descriptor as 1x', () => {
+    expect(selectLargestCandidate(parseSrcset('a.jpg, b.jpg 1.5x, c.jpg 0.5x'))).toEqual({ url: 'b.jpg', descriptor: '1.5x' });
+    expect(selectLargestCandidate(parseSrcset('a.jpg'))).toEqual({ url: 'a.jpg', descriptor: '' });
+    expect(selectLargestCandidate([])).toBeUndefined();
+  });
+});
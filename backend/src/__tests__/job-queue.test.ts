@@ -0,0 +1,111 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { JobQueue } from '../services/job-queue';
+import { ArchiveStatus, JobState } from '../types';
+
+describe('JobQueue', () => {
+  let tempDir: string;
+  let filePath: string;
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'job-queue-test-'));
+    filePath = path.join(tempDir, 'jobs.json');
+    queue = new JobQueue({ filePath });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should add jobs in the queued state', async () => {
+    const job = await queue.add({ id: 'job-1', url: 'https://example.com' });
+
+    expect(job).toEqual(
+      expect.objectContaining({ id: 'job-1', state: JobState.QUEUED, priority: 0, attempts: 0 })
+    );
+    expect(queue.get('job-1')?.state).toBe(JobState.QUEUED);
+  });
+
+  it('should reject duplicate job IDs', async () => {
+    await queue.add({ id: 'job-1', url: 'https://example.com' });
+
+    await expect(queue.add({ id: 'job-1', url: 'https://example.com' })).rejects.toThrow('Job already exists');
+  });
+
+  it('should pick the highest priority job first, then the oldest', async () => {
+    await queue.add({ id: 'normal-1', url: 'https://a.com' });
+    await queue.add({ id: 'low', url: 'https://b.com', priority: -1 });
+    await queue.add({ id: 'urgent', url: 'https://c.com', priority: 5 });
+    await queue.add({ id: 'normal-2', url: 'https://d.com' });
+
+    expect(queue.next()?.id).toBe('urgent');
+    expect(queue.list(JobState.QUEUED).map(job => job.id)).toEqual(['urgent', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('should track running and finished jobs', async () => {
+    await queue.add({ id: 'job-1', url: 'https://example.com' });
+    await queue.add({ id: 'job-2', url: 'https://example.org' });
+
+    await queue.markRunning('job-1');
+    expect(queue.next()?.id).toBe('job-2');
+    expect(queue.get('job-1')).toEqual(expect.objectContaining({ state: JobState.RUNNING, attempts: 1 }));
+
+    await queue.markDone('job-1', ArchiveStatus.COMPLETED);
+    expect(queue.get('job-1')).toEqual(
+      expect.objectContaining({ state: JobState.DONE, result: ArchiveStatus.COMPLETED })
+    );
+    expect(queue.list().map(job => job.state)).toEqual([JobState.QUEUED, JobState.DONE]);
+  });
+
+  it('should persist jobs across instances', async () => {
+    await queue.add({ id: 'job-1', url: 'https://example.com', priority: 2, options: { maxPages: 5 } });
+    await queue.markRunning('job-1');
+
+    const reloaded = new JobQueue({ filePath });
+    const jobs = await reloaded.load();
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toEqual(
+      expect.objectContaining({ id: 'job-1', state: JobState.RUNNING, priority: 2, options: { maxPages: 5 } })
+    );
+    expect(jobs[0].createdAt).toBeInstanceOf(Date);
+    expect(jobs[0].startedAt).toBeInstanceOf(Date);
+  });
+
+  it('should requeue interrupted jobs', async () => {
+    await queue.add({ id: 'job-1', url: 'https://example.com' });
+    await queue.markRunning('job-1');
+
+    await queue.requeue('job-1');
+
+    expect(queue.next()?.id).toBe('job-1');
+    expect(queue.get('job-1')?.attempts).toBe(1);
+  });
+
+  it('should start empty when the queue file does not exist', async () => {
+    await expect(queue.load()).resolves.toEqual([]);
+  });
+
+  it('should keep only the most recent finished jobs', async () => {
+    queue = new JobQueue({ filePath, maxFinishedJobs: 2 });
+    for (const id of ['job-1', 'job-2', 'job-3']) {
+      await queue.add({ id, url: `https://example.com/${id}` });
+      await queue.markRunning(id);
+      await queue.markDone(id, ArchiveStatus.COMPLETED);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(queue.list().map(job => job.id)).toEqual(['job-3', 'job-2']);
+  });
+
+  it('should remove jobs', async () => {
+    await queue.add({ id: 'job-1', url: 'https://example.com' });
+
+    await queue.remove('job-1');
+
+    expect(queue.get('job-1')).toBeNull();
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+import axios from 'axios';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { RequestScheduler, parseRetryAfter } from '../services/request-scheduler';
+
+describe('RequestScheduler', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => handler(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should limit concurrent requests per host', async () => {
+    const scheduler = new RequestScheduler({ concurrencyPerHost: 2, minDelay: 0 });
+    const active: { [host: string]: number } = {};
+    const maxActive: { [host: string]: number } = {};
+    const request = (url: string) => scheduler.schedule(url, async () => {
+      const host = new URL(url).host;
+      active[host] = (active[host] || 0) + 1;
+      maxActive[host] = Math.max(maxActive[host] || 0, active[host]);
+      await delay(30);
+      active[host]--;
+    });
+
+    await Promise.all([
+      ...[1, 2, 3, 4, 5].map(() => request('https://example.com/')),
+      ...[1, 2, 3].map(() => request('https://cdn.example.net/')),
+    ]);
+
+    expect(maxActive).toEqual({ 'example.com': 2, 'cdn.example.net': 2 });
+  });
+
+  it('should space requests to a host by the minimum delay or a longer Crawl-delay', async () => {
+    const starts: number[] = [];
+    const record = async () => {
+      starts.push(Date.now());
+    };
+
+    const scheduler = new RequestScheduler({ minDelay: 100 });
+    await Promise.all([1, 2, 3].map(() => scheduler.schedule('https://example.com/', record)));
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(95);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(95);
+
+    starts.length = 0;
+    const getCrawlDelay = jest.fn(async () => 0.3);
+    const polite = new RequestScheduler({ minDelay: 0, getCrawlDelay });
+    await Promise.all([1, 2].map(() => polite.schedule('https://example.com/', record)));
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(295);
+    expect(getCrawlDelay).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 429 responses after their Retry-After', async () => {
+    let requests = 0;
+    handler = (req, res) => {
+      requests++;
+      if (requests === 1) {
+        res.writeHead(429, { 'Retry-After': '1' });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+    };
+
+    const scheduler = new RequestScheduler({ minDelay: 0, retryBaseDelay: 10 });
+    const startedAt = Date.now();
+    const response = await scheduler.schedule(baseUrl, () => axios.get(baseUrl));
+
+    expect(response.data).toBe('ok');
+    expect(requests).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+  });
+
+  it('should retry transient network errors with backoff', async () => {
+    let requests = 0;
+    handler = (req, res) => {
+      requests++;
+      if (requests < 3) {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+    };
+
+    const scheduler = new RequestScheduler({ minDelay: 0, retryBaseDelay: 10 });
+    const response = await scheduler.schedule(baseUrl, () => axios.get(baseUrl));
+
+    expect(response.data).toBe('ok');
+    expect(requests).toBe(3);
+  });
+
+  it('should give up after the retry budget, on other errors and on long Retry-After values', async () => {
+    let requests = 0;
+    let status = 503;
+    let headers: http.OutgoingHttpHeaders = {};
+    handler = (req, res) => {
+      requests++;
+      res.writeHead(status, headers);
+      res.end();
+    };
+
+    const scheduler = new RequestScheduler({ minDelay: 0, maxRetries: 2, retryBaseDelay: 10, maxRetryDelay: 1000 });
+    await expect(scheduler.schedule(baseUrl, () => axios.get(baseUrl))).rejects.toThrow('status code 503');
+    expect(requests).toBe(3);
+
+    requests = 0;
+    status = 404;
+    await expect(scheduler.schedule(baseUrl, () => axios.get(baseUrl))).rejects.toThrow('status code 404');
+    expect(requests).toBe(1);
+
+    requests = 0;
+    status = 429;
+    headers = { 'Retry-After': '3600' };
+    await expect(scheduler.schedule(baseUrl, () => axios.get(baseUrl))).rejects.toThrow('status code 429');
+    expect(requests).toBe(1);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const scheduler = new RequestScheduler({ concurrencyPerHost: 1, minDelay: 0 });
+    const controller = new AbortController();
+    const task = jest.fn(() => delay(100));
+
+    const first = scheduler.schedule('https://example.com/', task);
+    const second = scheduler.schedule('https://example.com/', task, controller.signal);
+    controller.abort();
+
+    await expect(second).rejects.toThrow('Request cancelled');
+    await first;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2025 07:28:00 GMT');
+      expect(parseRetryAfter('120', now)).toBe(120000);
+      expect(parseRetryAfter('Wed, 21 Oct 2025 07:28:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Wed, 21 Oct 2025 07:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  parseRobotsTxt,
+  findGroupForUserAgent,
+  matchRobotsRules,
+  getCrawlDelay,
+} from '../utils/robots-parser';
+
+describe('robots.txt parser', () => {
+  const robotsContent = `
+# Example robots.txt
+User-agent: *
+Disallow: /private
+Allow: /private/public-page
+Crawl-delay: 2
+
+User-agent: WebArchiver
+User-agent: OtherBot
+Disallow: /no-archive/
+Disallow: /*.pdf$
+Crawl-delay: 5
+
+Sitemap: https://example.com/sitemap.xml
+Sitemap: https://example.com/news-sitemap.xml
+`;
+
+  describe('parseRobotsTxt', () => {
+    it('should parse groups and rules', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(robots.groups).toHaveLength(2);
+      expect(robots.groups[0].userAgents).toEqual(['*']);
+      expect(robots.groups[0].rules).toEqual([
+        { allow: false, path: '/private' },
+        { allow: true, path: '/private/public-page' },
+      ]);
+      expect(robots.groups[1].userAgents).toEqual(['webarchiver', 'otherbot']);
+    });
+
+    it('should parse sitemap directives', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(robots.sitemaps).toEqual([
+        'https://example.com/sitemap.xml',
+        'https://example.com/news-sitemap.xml',
+      ]);
+    });
+
+    it('should ignore comments, blank lines and unknown directives', () => {
+      const robots = parseRobotsTxt('User-agent: * # everyone\nHost: example.com\nDisallow: /tmp # temp files\n');
+
+      expect(robots.groups).toHaveLength(1);
+      expect(robots.groups[0].rules).toEqual([{ allow: false, path: '/tmp' }]);
+    });
+
+    it('should treat an empty Disallow as allowing everything', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow:\n');
+
+      expect(robots.groups[0].rules).toEqual([]);
+      expect(matchRobotsRules(robots, 'https://example.com/anything', 'WebArchiver').allowed).toBe(true);
+    });
+
+    it('should handle empty content', () => {
+      expect(parseRobotsTxt('')).toEqual({ groups: [], sitemaps: [] });
+    });
+  });
+
+  describe('findGroupForUserAgent', () => {
+    it('should prefer a specific group over the wildcard group', () => {
+      const robots = parseRobotsTxt(robotsContent);
+      const group = findGroupForUserAgent(robots, 'WebArchiver');
+
+      expect(group?.userAgents).toContain('webarchiver');
+    });
+
+    it('should fall back to the wildcard group', () => {
+      const robots = parseRobotsTxt(robotsContent);
+      const group = findGroupForUserAgent(robots, 'SomeOtherCrawler');
+
+      expect(group?.userAgents).toEqual(['*']);
+    });
+
+    it('should return null when no group applies', () => {
+      const robots = parseRobotsTxt('User-agent: Googlebot\nDisallow: /\n');
+
+      expect(findGroupForUserAgent(robots, 'WebArchiver')).toBeNull();
+    });
+  });
+
+  describe('matchRobotsRules', () => {
+    it('should disallow URLs matching a Disallow rule', () => {
+      const robots = parseRobotsTxt(robotsContent);
+      const match = matchRobotsRules(robots, 'https://example.com/no-archive/page', 'WebArchiver');
+
+      expect(match).toEqual({ allowed: false, rule: 'Disallow: /no-archive/' });
+    });
+
+    it('should allow URLs that match no rule', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(matchRobotsRules(robots, 'https://example.com/about', 'WebArchiver')).toEqual({ allowed: true });
+    });
+
+    it('should apply the longest matching rule', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(matchRobotsRules(robots, 'https://example.com/private/secret', 'SomeBot').allowed).toBe(false);
+      expect(matchRobotsRules(robots, 'https://example.com/private/public-page', 'SomeBot')).toEqual({
+        allowed: true,
+        rule: 'Allow: /private/public-page',
+      });
+    });
+
+    it('should prefer Allow when rules are equally specific', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page\n');
+
+      expect(matchRobotsRules(robots, 'https://example.com/page', 'WebArchiver').allowed).toBe(true);
+    });
+
+    it('should support wildcards and end anchors', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(matchRobotsRules(robots, 'https://example.com/docs/file.pdf', 'WebArchiver').allowed).toBe(false);
+      expect(matchRobotsRules(robots, 'https://example.com/docs/file.pdf?download=1', 'WebArchiver').allowed).toBe(true);
+    });
+
+    it('should match against the query string', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow: /*?session=\n');
+
+      expect(matchRobotsRules(robots, 'https://example.com/page?session=abc', 'WebArchiver').allowed).toBe(false);
+      expect(matchRobotsRules(robots, 'https://example.com/page', 'WebArchiver').allowed).toBe(true);
+    });
+
+    it('should always allow robots.txt itself', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow: /\n');
+
+      expect(matchRobotsRules(robots, 'https://example.com/robots.txt', 'WebArchiver').allowed).toBe(true);
+    });
+  });
+
+  describe('getCrawlDelay', () => {
+    it('should return the crawl delay for the matching group', () => {
+      const robots = parseRobotsTxt(robotsContent);
+
+      expect(getCrawlDelay(robots, 'WebArchiver')).toBe(5);
+      expect(getCrawlDelay(robots, 'SomeBot')).toBe(2);
+    });
+
+    it('should return undefined when no delay is declared', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow: /tmp\n');
+
+      expect(getCrawlDelay(robots, 'WebArchiver')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { AxiosInstance } from 'axios';
+import { RobotsService } from '../services/robots-service';
+
+describe('RobotsService', () => {
+  let mockHttpClient: { get: jest.Mock };
+  let robotsService: RobotsService;
+
+  beforeEach(() => {
+    mockHttpClient = { get: jest.fn() };
+    robotsService = new RobotsService(mockHttpClient as unknown as AxiosInstance);
+  });
+
+  it('should fetch robots.txt from the URL origin', async () => {
+    mockHttpClient.get.mockResolvedValueOnce({
+      status: 200,
+      data: 'User-agent: *\nDisallow: /private\n',
+    });
+
+    const match = await robotsService.isAllowed('https://example.com/private/page');
+
+    expect(match).toEqual({ allowed: false, rule: 'Disallow: /private' });
+    expect(mockHttpClient.get).toHaveBeenCalledWith(
+      'https://example.com/robots.txt',
+      expect.objectContaining({ responseType: 'text' })
+    );
+  });
+
+  it('should cache robots.txt per host', async () => {
+    mockHttpClient.get.mockResolvedValue({ status: 200, data: 'User-agent: *\nDisallow: /private\n' });
+
+    await robotsService.isAllowed('https://example.com/a');
+    await robotsService.isAllowed('https://example.com/b');
+    await robotsService.isAllowed('https://other.com/c');
+
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one request between concurrent lookups', async () => {
+    mockHttpClient.get.mockResolvedValue({ status: 200, data: '' });
+
+    await Promise.all([
+      robotsService.isAllowed('https://example.com/a'),
+      robotsService.isAllowed('https://example.com/b'),
+    ]);
+
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow everything when robots.txt is missing', async () => {
+    mockHttpClient.get.mockResolvedValueOnce({ status: 404, data: 'Not Found' });
+
+    const match = await robotsService.isAllowed('https://example.com/anything');
+
+    expect(match.allowed).toBe(true);
+  });
+
+  it('should disallow everything when robots.txt is unreachable', async () => {
+    mockHttpClient.get.mockResolvedValueOnce({ status: 503, data: '' });
+
+    const match = await robotsService.isAllowed('https://example.com/anything');
+
+    expect(match.allowed).toBe(false);
+  });
+
+  it('should disallow everything on network errors', async () => {
+    mockHttpClient.get.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    const match = await robotsService.isAllowed('https://example.com/anything');
+
+    expect(match.allowed).toBe(false);
+  });
+
+  it('should expose crawl delay and sitemaps', async () => {
+    mockHttpClient.get.mockResolvedValueOnce({
+      status: 200,
+      data: 'User-agent: WebArchiver\nCrawl-delay: 3\n\nSitemap: https://example.com/sitemap.xml\n',
+    });
+
+    expect(await robotsService.getCrawlDelay('https://example.com/')).toBe(3);
+    expect(await robotsService.getSitemaps('https://example.com/')).toEqual([
+      'https://example.com/sitemap.xml',
+    ]);
+  });
+
+  it('should allow invalid URLs without fetching', async () => {
+    const match = await robotsService.isAllowed('not-a-url');
+
+    expect(match.allowed).toBe(true);
+    expect(mockHttpClient.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { ArchiveService } from '../services/archive-service';
+import { ScheduleService } from '../services/schedule-service';
+import { ArchiveJob, JobState } from '../types';
+
+describe('ScheduleService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let archiveService: { createArchive: jest.Mock; getJobs: jest.Mock };
+  let service: ScheduleService;
+
+  const minutesFrom = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'schedule-service-test-'));
+    filePath = path.join(tempDir, 'schedules.json');
+    archiveService = {
+      createArchive: jest.fn(async () => ({ id: `archive-${archiveService.createArchive.mock.calls.length}` })),
+      getJobs: jest.fn((): ArchiveJob[] => []),
+    };
+    service = new ScheduleService(archiveService as unknown as ArchiveService, { filePath });
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create schedules with their first run one interval or cron match away', async () => {
+    const interval = await service.create({ url: 'https://example.com', intervalMinutes: 60 });
+    const cron = await service.create({ url: 'https://example.org', cron: '0 3 * * *', enabled: false });
+
+    expect(interval.url).toBe('https://example.com/');
+    expect(interval.nextRunAt!.getTime() - interval.createdAt.getTime()).toBe(60 * 60 * 1000);
+    expect(cron.nextRunAt).toBeUndefined();
+    expect(service.list('https://example.com').map(schedule => schedule.id)).toEqual([interval.id]);
+  });
+
+  it('should reject invalid timings', async () => {
+    await expect(service.create({ url: 'https://example.com' })).rejects.toThrow('Invalid schedule');
+    await expect(
+      service.create({ url: 'https://example.com', cron: '* * * * *', intervalMinutes: 60 })
+    ).rejects.toThrow('Invalid schedule');
+    await expect(service.create({ url: 'https://example.com', cron: '61 * * * *' })).rejects.toThrow('Invalid schedule');
+    await expect(service.create({ url: 'https://example.com', intervalMinutes: 1 })).rejects.toThrow('intervalMinutes');
+    await expect(service.create({ url: 'https://example.com', cron: '* * * * *' })).rejects.toThrow('more often than every 5 minutes');
+    await expect(service.create({ url: 'https://example.com', cron: '0,58 * * * *' })).rejects.toThrow('more often than every 5 minutes');
+  });
+
+  it('should create archives for due schedules and advance their next run', async () => {
+    const schedule = await service.create({ url: 'https://example.com', intervalMinutes: 60, options: { maxPages: 5 } });
+    await service.create({ url: 'https://example.org', intervalMinutes: 120 });
+    const now = minutesFrom(schedule.createdAt, 61);
+
+    await service.runDueSchedules(now);
+
+    expect(archiveService.createArchive).toHaveBeenCalledTimes(1);
+    expect(archiveService.createArchive).toHaveBeenCalledWith('https://example.com/', { maxPages: 5 });
+    expect(service.get(schedule.id)).toEqual(expect.objectContaining({
+      lastRunAt: now,
+      lastArchiveId: 'archive-1',
+      nextRunAt: minutesFrom(now, 60),
+    }));
+  });
+
+  it('should skip runs while the previous archive is still active', async () => {
+    const schedule = await service.create({ url: 'https://example.com', intervalMinutes: 60 });
+    const firstRun = minutesFrom(schedule.createdAt, 60);
+    await service.runDueSchedules(firstRun);
+
+    archiveService.getJobs.mockReturnValue([{ id: 'archive-1', state: JobState.RUNNING }]);
+    const secondRun = minutesFrom(firstRun, 60);
+    await service.runDueSchedules(secondRun);
+
+    expect(archiveService.createArchive).toHaveBeenCalledTimes(1);
+    expect(service.get(schedule.id)).toEqual(expect.objectContaining({
+      lastRunAt: firstRun,
+      lastSkippedAt: secondRun,
+      nextRunAt: minutesFrom(secondRun, 60),
+    }));
+
+    // An archive of the URL requested by hand also counts as an active run
+    archiveService.getJobs.mockReturnValue([{ id: 'archive-1', state: JobState.DONE }]);
+    archiveService.createArchive.mockRejectedValueOnce(new Error('Archive for https://example.com/ is already in progress'));
+    const thirdRun = minutesFrom(secondRun, 60);
+    await service.runDueSchedules(thirdRun);
+
+    expect(service.get(schedule.id)).toEqual(expect.objectContaining({ lastSkippedAt: thirdRun, lastArchiveId: 'archive-1' }));
+  });
+
+  it('should recompute the next run when timing changes or the schedule is re-enabled', async () => {
+    const schedule = await service.create({ url: 'https://example.com', intervalMinutes: 60 });
+
+    const disabled = await service.update(schedule.id, { enabled: false });
+    expect(disabled.nextRunAt).toBeUndefined();
+
+    const cron = await service.update(schedule.id, { enabled: true, cron: '0 * * * *' });
+    expect(cron.intervalMinutes).toBeUndefined();
+    expect(cron.nextRunAt!.getUTCMinutes()).toBe(0);
+
+    await expect(service.update('missing', { enabled: false })).rejects.toThrow('Schedule not found');
+  });
+
+  it('should persist schedules across restarts', async () => {
+    const schedule = await service.create({ url: 'https://example.com', cron: '@daily' });
+
+    const restarted = new ScheduleService(archiveService as unknown as ArchiveService, { filePath });
+    const [loaded] = await restarted.load();
+
+    expect(loaded).toEqual(schedule);
+    expect(loaded.nextRunAt).toBeInstanceOf(Date);
+    expect(await restarted.remove(schedule.id)).toBe(true);
+    expect(await restarted.remove(schedule.id)).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { SearchIndexService, tokenize } from '../services/search-index-service';
+import { FileService } from '../services/file-service';
+import { Archive, ArchiveStatus } from '../types';
+
+describe('SearchIndexService', () => {
+  let tempDir: string;
+  let directory: string;
+  let fileService: FileService;
+  let service: SearchIndexService;
+
+  /**
+   * Store the metadata of an archive the index can refer to
+   */
+  const storeArchive = async (id: string, url: string, version: number, timestamp: string): Promise<Archive> => {
+    await fileService.initializeArchiveStorage(id);
+    const archive: Archive = {
+      id,
+      url,
+      domain: new URL(url).hostname,
+      timestamp: new Date(timestamp),
+      status: ArchiveStatus.COMPLETED,
+      version,
+      metadata: { pageCount: 0, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+      pages: [],
+      errors: [],
+    };
+    await fileService.saveArchiveMetadata(archive);
+    return archive;
+  };
+
+  const page = (url: string, pagePath: string, title = '') => ({ url, path: pagePath, title });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'search-index-test-'));
+    directory = path.join(tempDir, '.search-index');
+    fileService = new FileService({ baseStoragePath: tempDir });
+    service = new SearchIndexService(fileService, { directory });
+
+    await storeArchive('v1', 'https://example.com/', 1, '2024-05-01T00:00:00Z');
+    await storeArchive('v2', 'https://example.com/', 2, '2024-06-01T00:00:00Z');
+    await storeArchive('docs', 'https://docs.other.org/', 1, '2024-05-15T00:00:00Z');
+
+    await service.indexPage('v1', page('https://example.com/', 'index.html'),
+      '<html><head><title>Example</title></head><body><h1>Welcome</h1><p>Spring sale on garden tools.</p></body></html>');
+    await service.indexPage('v2', page('https://example.com/', 'index.html'),
+      '<html><head><title>Example</title></head><body><h1>Welcome</h1><p>Summer sale on garden furniture.</p></body></html>');
+    await service.indexPage('v2', page('https://example.com/garden', 'garden.html', 'Garden furniture'),
+      '<html><body><h1>Garden furniture</h1><p>Tables and chairs for your garden.</p><script>var garden = 1;</script></body></html>');
+    await service.indexPage('docs', page('https://docs.other.org/', 'index.html'),
+      '<html><body><p>How to sell garden tools online.</p></body></html>');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should tokenize text into lowercase words', () => {
+    expect(tokenize('Café — 24/7, "Open"!')).toEqual(['café', '24', '7', 'open']);
+  });
+
+  it('should rank pages with every word, title and heading matches first', async () => {
+    const { hits, total } = await service.search({ q: 'garden furniture' });
+
+    expect(total).toBe(2);
+    expect(hits.map(hit => [hit.archiveId, hit.path])).toEqual([
+      ['v2', 'garden.html'],
+      ['v2', 'index.html'],
+    ]);
+    expect(hits[0]).toMatchObject({
+      url: 'https://example.com/',
+      domain: 'example.com',
+      version: 2,
+      pageUrl: 'https://example.com/garden',
+      title: 'Garden furniture',
+    });
+    expect(hits[1].title).toBe('Example');
+    expect(hits[1].snippet).toBe('Welcome Summer sale on garden furniture.');
+  });
+
+  it('should match quoted phrases as written', async () => {
+    const { hits } = await service.search({ q: '"garden tools"' });
+    expect(hits.map(hit => hit.archiveId).sort()).toEqual(['docs', 'v1']);
+
+    expect((await service.search({ q: '"tools garden"' })).total).toBe(0);
+  });
+
+  it('should leave out scripts and filter by domain and archive date', async () => {
+    expect((await service.search({ q: 'var' })).total).toBe(0);
+
+    const byDomain = await service.search({ q: 'garden', domain: 'other.org' });
+    expect(byDomain.hits.map(hit => hit.archiveId)).toEqual(['docs']);
+
+    const byDate = await service.search({ q: 'garden', from: new Date('2024-05-10'), to: new Date('2024-05-31') });
+    expect(byDate.hits.map(hit => hit.archiveId)).toEqual(['docs']);
+
+    const limited = await service.search({ q: 'garden', limit: 1 });
+    expect(limited.hits).toHaveLength(1);
+    expect(limited.total).toBe(4);
+  });
+
+  it('should keep the index on disk and drop deleted archives', async () => {
+    const reloaded = new SearchIndexService(fileService, { directory });
+    await reloaded.load();
+    expect((await reloaded.search({ q: 'garden' })).total).toBe(4);
+
+    await reloaded.removeArchive('v2');
+    expect((await reloaded.search({ q: 'garden' })).hits.map(hit => hit.archiveId).sort()).toEqual(['docs', 'v1']);
+    await expect(fs.access(path.join(directory, 'v2.jsonl'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,40 @@
+import { createHunks, diffSequences } from '../utils/sequence-diff';
+
+describe('sequence diff', () => {
+  const lines = (text: string) => text.split('');
+
+  it('should find a shortest edit script as runs', () => {
+    expect(diffSequences(lines('ABCABBA'), lines('CBABAC'))
+      .reduce((edits, run) => edits + (run.type === 'equal' ? 0 : run.count), 0)).toBe(5);
+
+    expect(diffSequences(lines('abcd'), lines('abxd'))).toEqual([
+      { type: 'equal', fromIndex: 0, toIndex: 0, count: 2 },
+      { type: 'delete', fromIndex: 2, toIndex: 2, count: 1 },
+      { type: 'insert', fromIndex: 3, toIndex: 2, count: 1 },
+      { type: 'equal', fromIndex: 3, toIndex: 3, count: 1 },
+    ]);
+    expect(diffSequences([], [])).toEqual([]);
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', fromIndex: 0, toIndex: 0, count: 1 }]);
+  });
+
+  it('should replace the middle as a whole past the edit limit', () => {
+    expect(diffSequences(lines('xabcy'), lines('xdefy'), 2)).toEqual([
+      { type: 'equal', fromIndex: 0, toIndex: 0, count: 1 },
+      { type: 'delete', fromIndex: 1, toIndex: 1, count: 3 },
+      { type: 'insert', fromIndex: 4, toIndex: 1, count: 3 },
+      { type: 'equal', fromIndex: 4, toIndex: 4, count: 1 },
+    ]);
+  });
+
+  it('should group nearby changes into hunks with context', () => {
+    const from = lines('abcdefghijklmnop');
+    const to = lines('abcXefghijklmnYp');
+    const hunks = createHunks(from, to, diffSequences(from, to), 2);
+
+    expect(hunks).toEqual([
+      { fromStart: 2, fromCount: 5, toStart: 2, toCount: 5, lines: [' b', ' c', '-d', '+X', ' e', ' f'] },
+      { fromStart: 13, fromCount: 4, toStart: 13, toCount: 4, lines: [' m', ' n', '-o', '+Y', ' p'] },
+    ]);
+    expect(createHunks(from, to, diffSequences(from, to), 5)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { compareSitemapUrls, parseSitemap } from '../utils/sitemap-parser';
+
+describe('sitemap-parser', () => {
+  describe('parseSitemap', () => {
+    it('should parse URLs with their lastmod and priority', () => {
+      const sitemap = parseSitemap(`<?xml version="1.0" encoding="UTF-8"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+          <url>
+            <loc> https://example.com/ </loc>
+            <lastmod>2024-05-01</lastmod>
+            <priority>1.0</priority>
+          </url>
+          <url>
+            <loc>https://example.com/blog?page=1&amp;sort=new</loc>
+            <image:image><image:loc>https://example.com/photo.jpg</image:loc></image:image>
+          </url>
+          <url><loc>https://example.com/invalid</loc><lastmod>soon</lastmod><priority>7</priority></url>
+          <url><priority>0.9</priority></url>
+        </urlset>`);
+
+      expect(sitemap).toEqual({
+        urls: [
+          { url: 'https://example.com/', lastmod: new Date('2024-05-01'), priority: 1 },
+          { url: 'https://example.com/blog?page=1&sort=new' },
+          { url: 'https://example.com/invalid' },
+        ],
+        sitemaps: [],
+      });
+    });
+
+    it('should parse sitemap indexes', () => {
+      const sitemap = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/posts.xml</loc><lastmod>2024-01-01</lastmod></sitemap>
+        <sitemap><loc>https://example.com/pages.xml.gz</loc></sitemap>
+      </sitemapindex>`);
+
+      expect(sitemap).toEqual({
+        urls: [],
+        sitemaps: ['https://example.com/posts.xml', 'https://example.com/pages.xml.gz'],
+      });
+    });
+
+    it('should return nothing for content that is not a sitemap', () => {
+      expect(parseSitemap('<html><body>Not found</body></html>')).toEqual({ urls: [], sitemaps: [] });
+    });
+  });
+
+  describe('compareSitemapUrls', () => {
+    it('should order by priority, then by most recent lastmod', () => {
+      const urls = [
+        { url: 'old', lastmod: new Date('2020-01-01') },
+        { url: 'low', priority: 0.1, lastmod: new Date('2024-01-01') },
+        { url: 'undated' },
+        { url: 'important', priority: 0.9 },
+        { url: 'new', lastmod: new Date('2024-01-01') },
+      ];
+
+      expect(urls.sort(compareSitemapUrls).map(entry => entry.url)).toEqual(['important', 'new', 'old', 'undated', 'low']);
+    });
+  });
+});
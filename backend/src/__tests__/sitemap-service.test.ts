@@ -0,0 +1,67 @@
+import { AxiosInstance } from 'axios';
+import { gzipSync } from 'zlib';
+import { RobotsService } from '../services/robots-service';
+import { SitemapService } from '../services/sitemap-service';
+
+describe('SitemapService', () => {
+  let mockHttpClient: { get: jest.Mock };
+  let files: { [url: string]: string | Buffer };
+  let sitemapService: SitemapService;
+
+  const urlset = (...urls: string[]) =>
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.map(url => `<url>${url}</url>`).join('')}</urlset>`;
+
+  beforeEach(() => {
+    files = {};
+    mockHttpClient = {
+      get: jest.fn(async (url: string) => {
+        const file = files[url];
+        return file === undefined
+          ? { status: 404, data: Buffer.from('Not Found') }
+          : { status: 200, data: typeof file === 'string' ? Buffer.from(file) : file };
+      }),
+    };
+    sitemapService = new SitemapService(mockHttpClient as unknown as AxiosInstance);
+  });
+
+  it('should follow robots.txt sitemaps, sitemap indexes and gzipped sitemaps', async () => {
+    files['https://example.com/robots.txt'] = 'User-agent: *\nSitemap: https://example.com/index.xml\n';
+    files['https://example.com/index.xml'] = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://example.com/posts.xml.gz</loc></sitemap>
+      <sitemap><loc>https://example.com/missing.xml</loc></sitemap>
+    </sitemapindex>`;
+    files['https://example.com/posts.xml.gz'] = gzipSync(urlset(
+      '<loc>https://example.com/posts/old</loc><lastmod>2020-01-01</lastmod>',
+      '<loc>https://example.com/posts/new</loc><lastmod>2024-01-01</lastmod>'
+    ));
+    files['https://example.com/sitemap.xml'] = urlset(
+      '<loc>https://example.com/about</loc><priority>0.8</priority>',
+      '<loc>https://example.com/posts/new</loc>'
+    );
+
+    const urls = await sitemapService.discover(
+      'https://example.com/blog',
+      new RobotsService(mockHttpClient as unknown as AxiosInstance)
+    );
+
+    expect(urls).toEqual([
+      { url: 'https://example.com/about', priority: 0.8, sitemap: 'https://example.com/sitemap.xml' },
+      { url: 'https://example.com/posts/new', lastmod: new Date('2024-01-01'), sitemap: 'https://example.com/sitemap.xml' },
+      { url: 'https://example.com/posts/old', lastmod: new Date('2020-01-01'), sitemap: 'https://example.com/posts.xml.gz' },
+    ]);
+  });
+
+  it('should stop following sitemap indexes at the sitemap limit', async () => {
+    const limited = new SitemapService(mockHttpClient as unknown as AxiosInstance, { maxSitemaps: 3 });
+    // Every sitemap index points at the next one
+    for (let i = 0; i < 10; i++) {
+      files[i === 0 ? 'https://example.com/sitemap.xml' : `https://example.com/sitemap-${i}.xml`] =
+        `<sitemapindex><sitemap><loc>https://example.com/sitemap-${i + 1}.xml</loc></sitemap></sitemapindex>`;
+    }
+
+    await limited.discover('https://example.com/', new RobotsService(mockHttpClient as unknown as AxiosInstance));
+
+    const sitemapRequests = mockHttpClient.get.mock.calls.filter(([url]) => url.includes('sitemap'));
+    expect(sitemapRequests).toHaveLength(3);
+  });
+});
@@ -356,6 +356,12 @@ describe('UrlRewriter', () => {
       expect(result).toContain(`/api/archives/${archiveId}/content/assets/css/theme.css`);
     });
 
+    it('should rewrite @import url() statements only once', () => {
+      const css = '@import url("https://example.com/fonts.css") screen;';
+      const result = rewriter.rewriteCssUrls(css);
+      expect(result).toBe(`@import url("/api/archives/${archiveId}/content/assets/css/fonts.css") screen;`);
+    });
+
     it('should rewrite url() functions in CSS properties', () => {
       const css = 'background-image: url("https://example.com/bg.jpg");';
       const result = rewriter.rewriteCssUrls(css);
@@ -0,0 +1,170 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { PassThrough } from 'stream';
+import { gunzipSync } from 'zlib';
+import { FileService } from '../services/file-service';
+import { WarcExportService } from '../services/warc-export-service';
+import { Archive, ArchiveStatus, AssetType, HttpCapture } from '../types';
+
+/**
+ * Split an uncompressed WARC file into records of header fields and block
+ */
+function parseWarc(content: Buffer): Array<{ fields: { [name: string]: string }; block: string }> {
+  const records: Array<{ fields: { [name: string]: string }; block: string }> = [];
+  let offset = 0;
+
+  while (offset < content.length) {
+    const headEnd = content.indexOf('\r\n\r\n', offset);
+    const [, ...lines] = content.subarray(offset, headEnd).toString('utf-8').split('\r\n');
+    const fields: { [name: string]: string } = {};
+    lines.forEach(line => {
+      const separator = line.indexOf(': ');
+      fields[line.slice(0, separator)] = line.slice(separator + 2);
+    });
+
+    const blockStart = headEnd + 4;
+    const blockEnd = blockStart + parseInt(fields['Content-Length'], 10);
+    records.push({ fields, block: content.subarray(blockStart, blockEnd).toString('utf-8') });
+    offset = blockEnd + 4;
+  }
+
+  return records;
+}
+
+describe('WarcExportService', () => {
+  let tempDir: string;
+  let fileService: FileService;
+  let exportService: WarcExportService;
+
+  const httpCapture = (requestTarget: string, contentType: string): HttpCapture => ({
+    method: 'GET',
+    requestTarget,
+    requestHeaders: [['Host', 'example.com'], ['User-Agent', 'TestAgent/1.0']],
+    httpVersion: '1.1',
+    statusCode: 200,
+    statusText: 'OK',
+    responseHeaders: [['Content-Type', contentType]],
+    fetchedAt: new Date('2024-05-01T10:00:00Z'),
+    ipAddress: '93.184.216.34',
+  });
+
+  const exportToBuffer = async (archive: Archive): Promise<Buffer> => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    await exportService.exportArchive(archive, output);
+    output.end();
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'warc-export-test-'));
+    fileService = new FileService({ baseStoragePath: tempDir });
+    exportService = new WarcExportService(fileService);
+    await fileService.initializeArchiveStorage('archive-1');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write warcinfo, response, request and metadata records for pages and assets', async () => {
+    await fileService.saveHtml('<html>rewritten</html>', 'index.html', 'archive-1');
+    const pageBody = await fileService.saveResponseBody('https://example.com/', Buffer.from('<html>original</html>'), 'archive-1');
+    const cssPath = await fileService.saveAsset('https://example.com/style.css', Buffer.from('body{}'), 'archive-1', AssetType.CSS);
+    const cssBody = await fileService.saveResponseBody('https://example.com/style.css', Buffer.from('body{}'), 'archive-1');
+
+    const css = {
+      originalUrl: 'https://example.com/style.css',
+      localPath: cssPath,
+      type: AssetType.CSS,
+      size: 6,
+      contentType: 'text/css',
+      http: { ...httpCapture('/style.css', 'text/css'), bodyPath: cssBody },
+    };
+    const archive: Archive = {
+      id: 'archive-1',
+      url: 'https://example.com/',
+      domain: 'example.com',
+      timestamp: new Date('2024-05-01T10:00:00Z'),
+      status: ArchiveStatus.COMPLETED,
+      version: 2,
+      metadata: { pageCount: 1, assetCount: 1, totalSize: 6, crawlDuration: 100 },
+      pages: [
+        {
+          url: 'https://example.com/',
+          path: 'index.html',
+          title: 'Example',
+          timestamp: new Date('2024-05-01T10:00:00Z'),
+          assets: [css, { ...css }],
+          links: ['https://example.com/about'],
+          depth: 0,
+          http: { ...httpCapture('/', 'text/html'), bodyPath: pageBody },
+        },
+      ],
+      errors: [],
+    };
+
+    const records = parseWarc(gunzipSync(await exportToBuffer(archive)));
+
+    expect(records.map(record => record.fields['WARC-Type'])).toEqual([
+      'warcinfo',
+      'response', 'request', 'metadata',
+      'response', 'request', 'metadata',
+    ]);
+
+    const [warcinfo, pageResponse, pageRequest, pageMetadata] = records;
+    expect(warcinfo.fields['WARC-Filename']).toBe('example.com-v2-archive-1.warc.gz');
+    expect(warcinfo.block).toContain('format: WARC File Format 1.1\r\n');
+    expect(warcinfo.block).toContain('http-header-user-agent: TestAgent/1.0\r\n');
+
+    expect(pageResponse.fields['WARC-Target-URI']).toBe('https://example.com/');
+    expect(pageResponse.fields['WARC-Date']).toBe('2024-05-01T10:00:00Z');
+    expect(pageResponse.fields['WARC-IP-Address']).toBe('93.184.216.34');
+    expect(pageResponse.fields['WARC-Warcinfo-ID']).toBe(warcinfo.fields['WARC-Record-ID']);
+    expect(pageResponse.fields['Content-Type']).toBe('application/http;msgtype=response');
+    expect(pageResponse.block).toBe('HTTP/1.1 200 OK\r\nContent-Type: text/html\r\nContent-Length: 21\r\n\r\n<html>original</html>');
+
+    expect(pageRequest.block.startsWith('GET / HTTP/1.1\r\nHost: example.com\r\n')).toBe(true);
+    expect(pageRequest.fields['WARC-Concurrent-To']).toBe(pageResponse.fields['WARC-Record-ID']);
+
+    expect(pageMetadata.fields['WARC-Concurrent-To']).toBe(pageResponse.fields['WARC-Record-ID']);
+    expect(pageMetadata.block).toContain('title: Example\r\n');
+    expect(pageMetadata.block).toContain('outlink: https://example.com/about\r\n');
+    expect(pageMetadata.block).toContain('embed: https://example.com/style.css\r\n');
+
+    expect(records[4].fields['WARC-Target-URI']).toBe('https://example.com/style.css');
+    expect(records[6].block).toContain('via: https://example.com/\r\n');
+  });
+
+  it('should write captures without a recorded HTTP exchange as resource records', async () => {
+    await fileService.saveHtml('<html>stored</html>', 'index.html', 'archive-1');
+    const archive: Archive = {
+      id: 'archive-1',
+      url: 'https://example.com/',
+      domain: 'example.com',
+      timestamp: new Date('2024-05-01T10:00:00Z'),
+      status: ArchiveStatus.PARTIAL,
+      version: 1,
+      metadata: { pageCount: 1, assetCount: 0, totalSize: 0, crawlDuration: 100 },
+      pages: [
+        {
+          url: 'https://example.com/',
+          path: 'index.html',
+          title: 'Example',
+          timestamp: new Date('2024-05-01T10:00:00Z'),
+          assets: [],
+          links: [],
+        },
+      ],
+      errors: [],
+    };
+
+    const records = parseWarc(gunzipSync(await exportToBuffer(archive)));
+
+    expect(records.map(record => record.fields['WARC-Type'])).toEqual(['warcinfo', 'resource', 'metadata']);
+    expect(records[1].fields['Content-Type']).toBe('text/html; charset=utf-8');
+    expect(records[1].block).toBe('<html>stored</html>');
+  });
+});
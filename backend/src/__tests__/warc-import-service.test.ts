@@ -0,0 +1,209 @@
+import { deflateRawSync, gzipSync } from 'zlib';
+import { WarcImportService } from '../services/warc-import-service';
+import { AssetType, ErrorType } from '../types';
+import { WarcRecord, serializeWarcRecord } from '../utils/warc';
+import { readZipEntries } from '../utils/zip-reader';
+
+/**
+ * Build a zip file; entries are deflated unless `stored` is set
+ */
+function buildZip(files: Array<{ name: string; content: Buffer; stored?: boolean }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const data = file.stored ? file.content : deflateRawSync(file.content);
+    const method = file.stored ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(file.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(file.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const date = new Date('2024-05-01T10:00:00Z');
+
+function response(url: string, id: string, head: string, body: Buffer | string): WarcRecord {
+  return {
+    type: 'response',
+    id,
+    date,
+    targetUri: url,
+    contentType: 'application/http;msgtype=response',
+    block: Buffer.concat([Buffer.from(`${head}\r\n\r\n`), Buffer.from(body)]),
+  };
+}
+
+function request(url: string, responseId: string, head: string): WarcRecord {
+  return {
+    type: 'request',
+    date,
+    targetUri: url,
+    contentType: 'application/http;msgtype=request',
+    fields: [['WARC-Concurrent-To', responseId]],
+    block: Buffer.from(`${head}\r\n\r\n`),
+  };
+}
+
+const homeHtml = '<html><head><title>Home</title><link rel="stylesheet" href="/style.css"></head>' +
+  '<body><img src="logo.png"><a href="/about">About</a></body></html>';
+const aboutHtml = '<html><head><title>About</title></head><body><h1>About us</h1></body></html>';
+
+const sampleRecords: WarcRecord[] = [
+  { type: 'warcinfo', date, contentType: 'application/warc-fields', block: Buffer.from('software: other-tool\r\n') },
+  response('https://example.com/', '<urn:uuid:home>', 'HTTP/1.1 200 OK\r\nContent-Type: text/html; charset=utf-8', homeHtml),
+  request('https://example.com/', '<urn:uuid:home>', 'GET / HTTP/1.1\r\nHost: example.com\r\nUser-Agent: OtherTool/2.0'),
+  response(
+    'https://example.com/style.css',
+    '<urn:uuid:css>',
+    'HTTP/1.1 200 OK\r\nContent-Type: text/css\r\nContent-Encoding: gzip',
+    gzipSync('body { background: url(bg.jpg); }')
+  ),
+  response('https://example.com/logo.png', '<urn:uuid:logo>', 'HTTP/1.1 200 OK\r\nContent-Type: image/png', 'png-bytes'),
+  response('https://example.com/bg.jpg', '<urn:uuid:bg>', 'HTTP/1.1 200 OK\r\nContent-Type: image/jpeg', 'jpg-bytes'),
+  response('https://example.com/old', '<urn:uuid:old>', 'HTTP/1.1 301 Moved Permanently\r\nLocation: /about', ''),
+  response('https://example.com/about', '<urn:uuid:about>', 'HTTP/1.1 200 OK\r\nContent-Type: text/html', aboutHtml),
+  { type: 'revisit', date, targetUri: 'https://example.com/favicon.ico', block: Buffer.alloc(0) },
+  // Later captures of a URL are ignored
+  response('https://example.com/', '<urn:uuid:home-again>', 'HTTP/1.1 200 OK\r\nContent-Type: text/html', '<p>later</p>'),
+];
+
+const buildWarc = (records: WarcRecord[]): Buffer => Buffer.concat(records.map(serializeWarcRecord));
+
+describe('WarcImportService', () => {
+  const importService = new WarcImportService();
+
+  it('should read pages, assets and HTTP exchanges from a WARC file', () => {
+    const imported = importService.parseFile('capture.warc', buildWarc(sampleRecords));
+
+    expect(imported.url).toBe('https://example.com/');
+    expect(imported.timestamp).toEqual(date);
+    expect(imported.pages.map(page => [page.url, page.path, page.title])).toEqual([
+      ['https://example.com/', 'index.html', 'Home'],
+      ['https://example.com/about', 'about/index.html', 'About'],
+    ]);
+    expect(imported.pages[0].links).toEqual(['https://example.com/about']);
+    expect(imported.pages[0].htmlContent).toBe(homeHtml);
+    expect(imported.pages[0].http).toMatchObject({
+      method: 'GET',
+      requestTarget: '/',
+      requestHeaders: [['Host', 'example.com'], ['User-Agent', 'OtherTool/2.0']],
+      httpVersion: '1.1',
+      statusCode: 200,
+      statusText: 'OK',
+      fetchedAt: date,
+    });
+
+    // Bodies are decoded; the redirect and revisit have no content
+    expect(imported.assets.map(({ asset, content }) => [asset.originalUrl, asset.type, content.toString()])).toEqual([
+      ['https://example.com/style.css', AssetType.CSS, 'body { background: url(bg.jpg); }'],
+      ['https://example.com/logo.png', AssetType.IMAGE, 'png-bytes'],
+      ['https://example.com/bg.jpg', AssetType.IMAGE, 'jpg-bytes'],
+    ]);
+    expect(imported.errors).toEqual([
+      expect.objectContaining({ type: ErrorType.CONTENT_ERROR, url: 'https://example.com/favicon.ico', recoverable: true }),
+    ]);
+  });
+
+  it('should attach referenced assets to pages and the rest to the main page', () => {
+    const imported = importService.parseFile('capture.warc.gz', gzipSync(buildWarc(sampleRecords)));
+
+    expect(imported.pages[0].assets.map(asset => asset.originalUrl)).toEqual([
+      'https://example.com/style.css',
+      'https://example.com/logo.png',
+      // Only referenced from the stylesheet
+      'https://example.com/bg.jpg',
+    ]);
+    expect(imported.pages[1].assets).toEqual([]);
+    // Pages share the asset objects, so storing an asset updates every page
+    expect(imported.pages[0].assets[0]).toBe(imported.assets[0].asset);
+  });
+
+  it('should read WACZ packages and use their main page', () => {
+    const wacz = buildZip([
+      { name: 'datapackage.json', content: Buffer.from(JSON.stringify({ profile: 'data-package' })) },
+      {
+        name: 'pages/pages.jsonl',
+        content: Buffer.from('{"format":"json-pages-1.0","id":"pages"}\n{"url":"https://example.com/about","ts":"2024-05-01T10:00:00Z"}\n'),
+      },
+      { name: 'archive/data.warc.gz', content: gzipSync(buildWarc(sampleRecords)), stored: true },
+    ]);
+
+    const imported = importService.parseFile('capture.wacz', wacz);
+
+    expect(imported.url).toBe('https://example.com/about');
+    expect(imported.pages.map(page => page.url)).toEqual(['https://example.com/about', 'https://example.com/']);
+    expect(imported.pages[0].assets.map(asset => asset.originalUrl)).toEqual(['https://example.com/bg.jpg']);
+  });
+
+  it('should read resource records without HTTP exchanges', () => {
+    const imported = importService.parseFile('resources.warc', buildWarc([
+      { type: 'resource', date, targetUri: 'https://example.com/page.html', contentType: 'text/html', block: Buffer.from(aboutHtml) },
+    ]));
+
+    expect(imported.pages).toHaveLength(1);
+    expect(imported.pages[0].path).toBe('page.html');
+    expect(imported.pages[0].http).toBeUndefined();
+  });
+
+  it('should reject files that are not archives or have no pages', () => {
+    expect(() => importService.parseFile('notes.txt', Buffer.from('hello'))).toThrow('Unsupported import file notes.txt');
+    expect(() => importService.parseFile('broken.warc', Buffer.from('WARC/1.1\r\nWARC-Type: resource\r\n\r\n')))
+      .toThrow('Invalid WARC file');
+    expect(() => importService.parseFile('empty.wacz', buildZip([{ name: 'datapackage.json', content: Buffer.from('{}') }])))
+      .toThrow('Invalid WACZ file: empty.wacz has no WARC files under archive/');
+    expect(() => importService.parseFile('images.warc', buildWarc(sampleRecords.slice(4, 6))))
+      .toThrow('Invalid WARC file: no HTML pages found in images.warc');
+  });
+});
+
+describe('readZipEntries', () => {
+  it('should read stored and deflated entries', () => {
+    const zip = buildZip([
+      { name: 'a.txt', content: Buffer.from('stored content'), stored: true },
+      { name: 'dir/b.txt', content: Buffer.from('deflated content '.repeat(20)) },
+    ]);
+
+    const entries = readZipEntries(zip);
+
+    expect(entries.map(entry => entry.name)).toEqual(['a.txt', 'dir/b.txt']);
+    expect(entries[0].read().toString()).toBe('stored content');
+    expect(entries[1].read().toString()).toBe('deflated content '.repeat(20));
+  });
+
+  it('should reject content without a central directory', () => {
+    expect(() => readZipEntries(Buffer.from('PK\u0003\u0004 truncated file without a directory'))).toThrow(
+      'Invalid zip file: end of central directory not found'
+    );
+  });
+});
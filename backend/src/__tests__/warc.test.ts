@@ -0,0 +1,132 @@
+import { gzipSync } from 'zlib';
+import {
+  buildHttpRequestBlock,
+  buildHttpResponseBlock,
+  decodeHttpBody,
+  formatWarcDate,
+  formatWarcFields,
+  getField,
+  gzipWarcRecord,
+  parseHttpMessage,
+  parseWarc,
+  serializeWarcRecord,
+  warcDigest,
+} from '../utils/warc';
+import { HttpCapture } from '../types';
+
+describe('WARC utilities', () => {
+  const capture: HttpCapture = {
+    method: 'GET',
+    requestTarget: '/page?q=1',
+    requestHeaders: [['Host', 'example.com'], ['User-Agent', 'TestAgent/1.0']],
+    httpVersion: '1.1',
+    statusCode: 200,
+    statusText: 'OK',
+    responseHeaders: [
+      ['Content-Type', 'text/html'],
+      ['Content-Encoding', 'gzip'],
+      ['Content-Length', '42'],
+      ['Set-Cookie', 'a=1'],
+      ['Set-Cookie', 'b=2'],
+    ],
+    fetchedAt: new Date('2024-05-01T10:20:30.456Z'),
+  };
+
+  it('should compute base32 SHA-1 digests', () => {
+    expect(warcDigest(Buffer.from(''))).toBe('sha1:3I42H3S6NNFQ2MSVX7XZKYAYSCX5QBYJ');
+    expect(warcDigest(Buffer.from('abc'))).toBe('sha1:VGMT4NSHA2AWVOR6EVYXQUGCNSONBWE5');
+  });
+
+  it('should format WARC dates in UTC with second precision', () => {
+    expect(formatWarcDate(capture.fetchedAt)).toBe('2024-05-01T10:20:30Z');
+  });
+
+  it('should serialize a record with its header, block and terminator', () => {
+    const block = Buffer.from('hello');
+    const record = serializeWarcRecord({
+      type: 'resource',
+      id: '<urn:uuid:00000000-0000-0000-0000-000000000000>',
+      date: capture.fetchedAt,
+      targetUri: 'https://example.com/',
+      contentType: 'text/plain',
+      block,
+    }).toString('utf-8');
+
+    expect(record).toBe(
+      'WARC/1.1\r\n' +
+      'WARC-Type: resource\r\n' +
+      'WARC-Record-ID: <urn:uuid:00000000-0000-0000-0000-000000000000>\r\n' +
+      'WARC-Date: 2024-05-01T10:20:30Z\r\n' +
+      'WARC-Target-URI: https://example.com/\r\n' +
+      `WARC-Block-Digest: ${warcDigest(block)}\r\n` +
+      'Content-Type: text/plain\r\n' +
+      'Content-Length: 5\r\n' +
+      '\r\n' +
+      'hello\r\n\r\n'
+    );
+  });
+
+  it('should build request and response messages from a capture', () => {
+    expect(buildHttpRequestBlock(capture).toString('utf-8')).toBe(
+      'GET /page?q=1 HTTP/1.1\r\nHost: example.com\r\nUser-Agent: TestAgent/1.0\r\n\r\n'
+    );
+
+    const response = buildHttpResponseBlock(capture, Buffer.from('<p>hi</p>')).toString('utf-8');
+    expect(response).toBe(
+      'HTTP/1.1 200 OK\r\n' +
+      'Content-Type: text/html\r\n' +
+      'X-Archive-Orig-Content-Encoding: gzip\r\n' +
+      'X-Archive-Orig-Content-Length: 42\r\n' +
+      'Set-Cookie: a=1\r\n' +
+      'Set-Cookie: b=2\r\n' +
+      'Content-Length: 9\r\n' +
+      '\r\n' +
+      '<p>hi</p>'
+    );
+  });
+
+  it('should format warc-fields, skipping empty values', () => {
+    expect(formatWarcFields([['title', 'A\nB'], ['via', undefined], ['depth', 0]]).toString('utf-8')).toBe(
+      'title: A B\r\ndepth: 0\r\n'
+    );
+  });
+
+  it('should parse the records of plain and gzipped WARC files', () => {
+    const records = [
+      { type: 'resource' as const, date: capture.fetchedAt, targetUri: 'https://example.com/a', block: Buffer.from('first') },
+      { type: 'resource' as const, date: capture.fetchedAt, targetUri: 'https://example.com/b', block: Buffer.from('second\r\n\r\n') },
+    ];
+
+    for (const file of [
+      Buffer.concat(records.map(serializeWarcRecord)),
+      Buffer.concat(records.map(gzipWarcRecord)),
+    ]) {
+      const parsed = parseWarc(file);
+      expect(parsed.map(record => [record.type, getField(record.fields, 'warc-target-uri'), record.block.toString()])).toEqual([
+        ['resource', 'https://example.com/a', 'first'],
+        ['resource', 'https://example.com/b', 'second\r\n\r\n'],
+      ]);
+    }
+
+    expect(() => parseWarc(Buffer.from('HTTP/1.1 200 OK\r\n\r\n'))).toThrow('Invalid WARC file');
+  });
+
+  it('should parse HTTP messages and decode chunked, compressed bodies', () => {
+    const compressed = gzipSync('<p>hello</p>');
+    const chunked = Buffer.concat([
+      Buffer.from(`${compressed.length.toString(16)}\r\n`),
+      compressed,
+      Buffer.from('\r\n0\r\n\r\n'),
+    ]);
+    const message = parseHttpMessage(Buffer.concat([
+      Buffer.from('HTTP/1.1 200 OK\r\nContent-Encoding: gzip\r\nTransfer-Encoding: chunked\r\nX-Folded: a\r\n b\r\n\r\n'),
+      chunked,
+    ]));
+
+    expect(message.startLine).toBe('HTTP/1.1 200 OK');
+    expect(getField(message.headers, 'x-folded')).toBe('a b');
+    expect(decodeHttpBody(message.headers, message.body).toString()).toBe('<p>hello</p>');
+    // Bodies that are not actually encoded are kept as recorded
+    expect(decodeHttpBody([['Content-Encoding', 'gzip']], Buffer.from('plain')).toString()).toBe('plain');
+  });
+});
@@ -0,0 +1,145 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { WebhookService, signWebhookPayload } from '../services/webhook-service';
+import { Archive, ArchiveStatus, ErrorType } from '../types';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let service: WebhookService;
+  let server: http.Server;
+  let hook: string;
+  let received: ReceivedRequest[];
+  let responseStatuses: number[];
+
+  const archive: Archive = {
+    id: 'archive-1',
+    url: 'https://example.com/',
+    domain: 'example.com',
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+    status: ArchiveStatus.PARTIAL,
+    version: 2,
+    metadata: { pageCount: 1, assetCount: 0, totalSize: 100, crawlDuration: 50 },
+    pages: [{ url: 'https://example.com/', path: 'index.html', title: '', timestamp: new Date(), links: [], assets: [] }],
+    errors: [{
+      timestamp: new Date('2024-05-01T00:00:01Z'),
+      type: ErrorType.NETWORK_ERROR,
+      message: 'Failed to fetch https://example.com/missing',
+      recoverable: true,
+    }],
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'webhook-service-test-'));
+    filePath = path.join(tempDir, 'webhooks.json');
+    service = new WebhookService({ filePath, retryDelay: 10 });
+
+    // Local receiver answering with the queued statuses, then 200
+    received = [];
+    responseStatuses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    hook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should POST a signed summary of the archive to matching subscriptions', async () => {
+    const subscription = await service.createSubscription({ url: hook, events: ['archive.partial'], secret: 'a-secret-of-16-chars' });
+    await service.createSubscription({ url: `${hook}/other`, events: ['archive.created'] });
+
+    await service.dispatch('archive.partial', archive);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(headers['x-webhook-signature']).toBe(signWebhookPayload(body, 'a-secret-of-16-chars'));
+    expect(headers['x-webhook-event']).toBe('archive.partial');
+
+    const payload = JSON.parse(body);
+    expect(headers['x-webhook-delivery']).toBe(payload.id);
+    expect(payload).toMatchObject({
+      event: 'archive.partial',
+      archive: { id: 'archive-1', status: 'partial', version: 2, metadata: { pageCount: 1 } },
+      errors: [{ message: 'Failed to fetch https://example.com/missing' }],
+    });
+    expect(payload.archive.pages).toBeUndefined();
+
+    expect(service.listDeliveries(subscription.id)).toEqual([
+      expect.objectContaining({ id: payload.id, status: 'succeeded', attempts: 1, responseStatus: 200 }),
+    ]);
+  });
+
+  it('should retry failed deliveries with the same payload', async () => {
+    const subscription = await service.createSubscription({ url: hook });
+    responseStatuses.push(500, 503);
+
+    await service.dispatch('archive.completed', { ...archive, status: ArchiveStatus.COMPLETED });
+
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(request => request.body)).size).toBe(1);
+    expect(service.listDeliveries(subscription.id)).toEqual([
+      expect.objectContaining({ status: 'succeeded', attempts: 3, responseStatus: 200 }),
+    ]);
+  });
+
+  it('should give up after the last attempt and log the failure', async () => {
+    service = new WebhookService({ filePath, retryDelay: 10, maxAttempts: 2 });
+    const subscription = await service.createSubscription({ url: hook });
+    responseStatuses.push(500, 500);
+
+    await service.dispatch('archive.failed', { ...archive, status: ArchiveStatus.FAILED });
+
+    expect(received).toHaveLength(2);
+    const [delivery] = service.listDeliveries(subscription.id);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 2, responseStatus: 500 });
+    expect(delivery.error).toContain('500');
+    expect(delivery.nextAttemptAt).toBeUndefined();
+  });
+
+  it('should persist subscriptions and deliveries without listing secrets', async () => {
+    const subscription = await service.createSubscription({ url: hook, events: ['archive.created'] });
+    expect(subscription.secret).toMatch(/^[0-9a-f]{64}$/);
+    await service.dispatch('archive.created', archive);
+
+    const reloaded = new WebhookService({ filePath });
+    await reloaded.load();
+
+    expect(reloaded.listSubscriptions()).toEqual([
+      { id: subscription.id, url: hook, events: ['archive.created'], createdAt: subscription.createdAt },
+    ]);
+    expect(reloaded.listDeliveries(subscription.id)).toEqual([
+      expect.objectContaining({ status: 'succeeded', createdAt: expect.any(Date) }),
+    ]);
+
+    expect(await reloaded.removeSubscription(subscription.id)).toBe(true);
+    expect(reloaded.listDeliveries(subscription.id)).toEqual([]);
+    expect(await reloaded.removeSubscription(subscription.id)).toBe(false);
+  });
+
+  it('should reject invalid subscriptions', async () => {
+    await expect(service.createSubscription({ url: 'ftp://example.com/hook' })).rejects.toThrow('Invalid webhook');
+    await expect(service.createSubscription({ url: hook, events: [] })).rejects.toThrow('events');
+    await expect(service.createSubscription({ url: hook, events: ['archive.deleted' as any] })).rejects.toThrow('events');
+    await expect(service.createSubscription({ url: hook, secret: 'short' })).rejects.toThrow('secret');
+    expect(service.listSubscriptions()).toEqual([]);
+  });
+});
@@ -17,6 +17,7 @@ export interface AppConfig {
     respectRobots: boolean;
   };
   maxConcurrentArchives: number;
+  maxImportSizeMb: number;
 }
 
 export const config: AppConfig = {
@@ -33,6 +34,7 @@ export const config: AppConfig = {
     respectRobots: process.env.CRAWLER_RESPECT_ROBOTS === 'true',
   },
   maxConcurrentArchives: parseInt(process.env.MAX_CONCURRENT_ARCHIVES || '3', 10),
+  maxImportSizeMb: parseInt(process.env.MAX_IMPORT_SIZE_MB || '200', 10),
 };
 
 export default config;
\ No newline at end of file
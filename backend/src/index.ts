@@ -4,12 +4,59 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
-import archiveRoutes from './routes/archives';
+import path from 'path';
+import { createArchiveRouter } from './routes/archives';
+import { createJobRouter } from './routes/jobs';
+import { createScheduleRouter } from './routes/schedules';
+import { createChangeRouter } from './routes/changes';
+import { createWebhookRouter } from './routes/webhooks';
+import { createSearchRouter } from './routes/search';
+import { ArchiveService } from './services/archive-service';
+import { ChangeDetectionService } from './services/change-detection-service';
+import { FileService } from './services/file-service';
+import { ScheduleService } from './services/schedule-service';
+import { WebhookService } from './services/webhook-service';
+import { SearchIndexService } from './services/search-index-service';
+import { isPagePromise } from './services/dom-renderer';
 import config from './config';
 
 const app: Application = express();
 const { port: PORT, nodeEnv: NODE_ENV } = config;
 
+const storageBasePath = path.join(process.cwd(), config.storageBasePath);
+const fileService = new FileService({ baseStoragePath: storageBasePath });
+
+// Archive lifecycle events are POSTed to subscribed URLs
+const webhookService = new WebhookService({
+  filePath: path.join(storageBasePath, 'webhooks.json'),
+});
+
+// Finished archives are checked against the previous version of their URL
+const changeDetectionService = new ChangeDetectionService(fileService, {
+  filePath: path.join(storageBasePath, 'change-detection.json'),
+  webhookService,
+});
+
+// Saved pages are indexed for full-text search; hidden so it is not listed as an archive
+const searchIndexService = new SearchIndexService(fileService, {
+  directory: path.join(storageBasePath, '.search-index'),
+});
+
+// Archive routes and the job listing share one service so they see the same queue
+const archiveService = new ArchiveService({
+  storageBasePath,
+  defaultCrawlerOptions: config.crawler,
+  maxConcurrentArchives: config.maxConcurrentArchives,
+  changeDetectionService,
+  webhookService,
+  searchIndexService,
+}, fileService);
+
+// Scheduled runs create archives through the same service and queue
+const scheduleService = new ScheduleService(archiveService, {
+  filePath: path.join(storageBasePath, 'schedules.json'),
+});
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: config.rateLimitWindowMs,
@@ -79,12 +126,22 @@ app.get('/api', (req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       archives: '/api/archives',
+      jobs: '/api/jobs',
+      schedules: '/api/schedules',
+      changes: '/api/changes',
+      webhooks: '/api/webhooks',
+      search: '/api/search',
     },
   });
 });
 
 // API routes
-app.use('/api/archives', archiveRoutes);
+app.use('/api/archives', createArchiveRouter(archiveService));
+app.use('/api/jobs', createJobRouter(archiveService));
+app.use('/api/schedules', createScheduleRouter(scheduleService));
+app.use('/api/changes', createChangeRouter(changeDetectionService));
+app.use('/api/webhooks', createWebhookRouter(webhookService));
+app.use('/api/search', createSearchRouter(searchIndexService));
 
 // 404 handler
 app.use('*', (req: Request, res: Response) => {
@@ -143,17 +200,49 @@ process.on('uncaughtException', (err) => {
 });
 
 process.on('unhandledRejection', (reason, promise) => {
+  // Scripts of pages captured in 'dom' render mode often leave rejections unhandled
+  if (isPagePromise(promise)) {
+    console.warn('Unhandled rejection in a rendered page:', reason);
+    return;
+  }
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
   process.exit(1);
 });
 
 // Only start the server if this file is run directly (not during testing)
 if (require.main === module) {
-  server = app.listen(PORT, () => {
-    console.log(`🚀 Server running on port ${PORT} in ${NODE_ENV} mode`);
-    console.log(`📊 Health check available at http://localhost:${PORT}/health`);
-    console.log(`🔄 Ready check available at http://localhost:${PORT}/ready`);
-    console.log(`📡 API documentation at http://localhost:${PORT}/api`);
+  // Pick up queued and interrupted jobs from the previous run, once subscribers can hear
+  // about them and the search index is ready for their pages. Requests are only accepted
+  // afterwards, so new jobs cannot be saved over the jobs still being restored
+  const jobsRestored = Promise.all([
+    webhookService.load().catch(error => {
+      console.error('Failed to load webhooks:', error);
+    }),
+    searchIndexService.load().catch(error => {
+      console.error('Failed to load search index:', error);
+    }),
+  ])
+    .then(() => archiveService.restoreJobs())
+    .catch(error => {
+      console.error('Failed to restore archive jobs:', error);
+    });
+
+  // Scheduled runs add jobs too, so they also wait for the restore
+  scheduleService.load().then(() => jobsRestored).then(() => scheduleService.start()).catch(error => {
+    console.error('Failed to load archive schedules:', error);
+  });
+
+  changeDetectionService.load().catch(error => {
+    console.error('Failed to load change detection state:', error);
+  });
+
+  jobsRestored.then(() => {
+    server = app.listen(PORT, () => {
+      console.log(`🚀 Server running on port ${PORT} in ${NODE_ENV} mode`);
+      console.log(`📊 Health check available at http://localhost:${PORT}/health`);
+      console.log(`🔄 Ready check available at http://localhost:${PORT}/ready`);
+      console.log(`📡 API documentation at http://localhost:${PORT}/api`);
+    });
   });
 }
 
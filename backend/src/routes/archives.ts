@@ -1,23 +1,10 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { ArchiveService } from '../services/archive-service';
-import { CrawlerOptions } from '../types';
+import { isValidUrl, parseCrawlerOptions, sanitizeUrl } from './validation';
+import { ArchiveEvent } from '../services/archive-events';
 import path from 'path';
 import config from '../config';
 
-// Basic input sanitization
-function sanitizeUrl(url: string): string {
-  return url.trim().replace(/[<>'"]/g, '');
-}
-
-function isValidUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    return ['http:', 'https:'].includes(urlObj.protocol);
-  } catch {
-    return false;
-  }
-}
-
 // Factory function to create router with optional service injection
 export function createArchiveRouter(injectedArchiveService?: ArchiveService): Router {
     const router = Router();
@@ -29,13 +16,40 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
         maxConcurrentArchives: config.maxConcurrentArchives,
     });
 
+    // Shared error responses for the cancel, pause and resume endpoints
+    const sendJobActionError = (res: Response, error: unknown, action: string) => {
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+        if (message.includes('Archive not found')) {
+            return res.status(404).json({
+                error: 'Archive not found',
+                code: 'ARCHIVE_NOT_FOUND',
+                details: message,
+            });
+        }
+
+        if (message.includes('is not in progress')) {
+            return res.status(409).json({
+                error: `Cannot ${action} an archive that is not in progress`,
+                code: 'ARCHIVE_NOT_IN_PROGRESS',
+                details: message,
+            });
+        }
+
+        return res.status(500).json({
+            error: `Failed to ${action} archive`,
+            code: 'INTERNAL_ERROR',
+            details: message,
+        });
+    };
+
     /**
      * POST /api/archives
      * Create a new archive
      */
     router.post('/', async (req: Request, res: Response) => {
         try {
-            const { url, options } = req.body;
+            const { url, options, priority = 0 } = req.body;
 
             if (!url) {
                 return res.status(400).json({
@@ -61,48 +75,20 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
             }
 
             // Validate crawler options if provided
-            let crawlerOptions: Partial<CrawlerOptions> | undefined;
-            if (options) {
-                crawlerOptions = {};
-                if (options.maxDepth !== undefined) {
-                    if (typeof options.maxDepth !== 'number' || options.maxDepth < 1 || options.maxDepth > 10) {
-                        return res.status(400).json({
-                            error: 'maxDepth must be a number between 1 and 10',
-                            code: 'INVALID_MAX_DEPTH',
-                        });
-                    }
-                    crawlerOptions.maxDepth = options.maxDepth;
-                }
-                if (options.maxPages !== undefined) {
-                    if (typeof options.maxPages !== 'number' || options.maxPages < 1 || options.maxPages > 1000) {
-                        return res.status(400).json({
-                            error: 'maxPages must be a number between 1 and 1000',
-                            code: 'INVALID_MAX_PAGES',
-                        });
-                    }
-                    crawlerOptions.maxPages = options.maxPages;
-                }
-                if (options.timeout !== undefined) {
-                    if (typeof options.timeout !== 'number' || options.timeout < 1000 || options.timeout > 120000) {
-                        return res.status(400).json({
-                            error: 'timeout must be a number between 1000 and 120000 milliseconds',
-                            code: 'INVALID_TIMEOUT',
-                        });
-                    }
-                    crawlerOptions.timeout = options.timeout;
-                }
-                if (options.respectRobots !== undefined) {
-                    if (typeof options.respectRobots !== 'boolean') {
-                        return res.status(400).json({
-                            error: 'respectRobots must be a boolean',
-                            code: 'INVALID_RESPECT_ROBOTS',
-                        });
-                    }
-                    crawlerOptions.respectRobots = options.respectRobots;
-                }
-            }
-
-            const archive = await archiveService.createArchive(sanitizedUrl, crawlerOptions);
+            const parsedOptions = parseCrawlerOptions(options);
+            if ('error' in parsedOptions) {
+                return res.status(400).json(parsedOptions);
+            }
+            const crawlerOptions = parsedOptions.options;
+
+            if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < -10 || priority > 10) {
+                return res.status(400).json({
+                    error: 'priority must be an integer between -10 and 10',
+                    code: 'INVALID_PRIORITY',
+                });
+            }
+
+            const archive = await archiveService.createArchive(sanitizedUrl, crawlerOptions, priority);
 
             return res.status(201).json({
                 success: true,
@@ -121,10 +107,10 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
                 });
             }
 
-            if (message.includes('Maximum concurrent archives')) {
-                return res.status(429).json({
+            if (message.includes('Invalid incremental base')) {
+                return res.status(400).json({
                     error: message,
-                    code: 'TOO_MANY_CONCURRENT_ARCHIVES',
+                    code: 'INVALID_INCREMENTAL_FROM',
                 });
             }
 
@@ -143,6 +129,75 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
         }
     });
 
+    // Uploads are sent as the raw request body, with the file name in a header
+    const parseUpload = express.raw({ type: () => true, limit: `${config.maxImportSizeMb}mb` });
+    const receiveUpload = (req: Request, res: Response, next: NextFunction) => {
+        parseUpload(req, res, (error?: unknown) => {
+            if (!error) {
+                return next();
+            }
+
+            const tooLarge = (error as { type?: string }).type === 'entity.too.large';
+            return res.status(tooLarge ? 413 : 400).json({
+                error: tooLarge ? `File is larger than ${config.maxImportSizeMb} MB` : 'Failed to read upload',
+                code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+                details: error instanceof Error ? error.message : String(error),
+            });
+        });
+    };
+
+    /**
+     * POST /api/archives/import
+     * Import a .warc, .warc.gz or .wacz file as a new archive
+     *
+     * The file is the request body; its name goes in the `X-Filename` header (URL-encoded)
+     * or the `filename` query parameter.
+     */
+    router.post('/import', receiveUpload, async (req: Request, res: Response) => {
+        const content = req.body;
+        if (!Buffer.isBuffer(content) || content.length === 0) {
+            return res.status(400).json({
+                error: 'A .warc, .warc.gz or .wacz file is required',
+                code: 'MISSING_FILE',
+            });
+        }
+
+        let fileName = req.get('X-Filename') || (req.query.filename as string | undefined) || 'upload.warc';
+        try {
+            fileName = decodeURIComponent(fileName);
+        } catch {
+            // Use the name as sent
+        }
+
+        try {
+            const archive = await archiveService.importArchive(path.basename(fileName), content);
+
+            return res.status(201).json({
+                success: true,
+                data: archive,
+                message: `Imported ${archive.pages.length} pages from ${archive.importedFrom}`,
+            });
+        } catch (error) {
+            console.error('Error importing archive:', error);
+
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+            if (/Invalid (WARC|WACZ|zip) file|Unsupported/.test(message)) {
+                return res.status(400).json({
+                    error: 'File is not a readable WARC or WACZ archive',
+                    code: 'INVALID_ARCHIVE_FILE',
+                    details: message,
+                });
+            }
+
+            return res.status(500).json({
+                error: 'Failed to import archive',
+                code: 'INTERNAL_ERROR',
+                details: message,
+            });
+        }
+    });
+
     /**
      * GET /api/archives
      * List all archives
@@ -248,6 +303,73 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
         }
     });
 
+    /**
+     * GET /api/archives/diff
+     * Compare two archive versions: added, removed and changed pages with text and
+     * DOM diffs, and asset changes by content hash
+     * Query params: from, to (archive IDs), path (URL path of a single page to compare)
+     */
+    router.get('/diff', async (req: Request, res: Response) => {
+        try {
+            const { from, to, path } = req.query;
+
+            if (typeof from !== 'string' || !from || typeof to !== 'string' || !to) {
+                return res.status(400).json({
+                    error: 'from and to archive IDs are required',
+                    code: 'MISSING_ARCHIVE_ID',
+                });
+            }
+
+            if (path !== undefined && (typeof path !== 'string' || !path.startsWith('/'))) {
+                return res.status(400).json({
+                    error: 'path must be a URL path starting with /',
+                    code: 'INVALID_PATH',
+                });
+            }
+
+            const diff = await archiveService.diffArchives(from, to, path);
+
+            return res.json({
+                success: true,
+                data: diff,
+            });
+        } catch (error) {
+            console.error('Error comparing archives:', error);
+
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+            if (message.includes('Archive not found')) {
+                return res.status(404).json({
+                    error: 'Archive not found',
+                    code: 'ARCHIVE_NOT_FOUND',
+                    details: message,
+                });
+            }
+
+            if (message.includes('Page not found')) {
+                return res.status(404).json({
+                    error: 'Page not found in either version',
+                    code: 'PAGE_NOT_FOUND',
+                    details: message,
+                });
+            }
+
+            if (message.includes('still in progress')) {
+                return res.status(409).json({
+                    error: 'Cannot compare an archive that is still in progress',
+                    code: 'ARCHIVE_IN_PROGRESS',
+                    details: message,
+                });
+            }
+
+            return res.status(500).json({
+                error: 'Failed to compare archives',
+                code: 'INTERNAL_ERROR',
+                details: message,
+            });
+        }
+    });
+
     /**
      * GET /api/archives/:id
      * Get specific archive details
@@ -427,6 +549,275 @@ export function createArchiveRouter(injectedArchiveService?: ArchiveService): Ro
         }
     });
 
+    /**
+     * POST /api/archives/:id/cancel
+     * Cancel a running archive job; captured content is saved as a partial archive
+     */
+    router.post('/:id/cancel', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!id) {
+                return res.status(400).json({
+                    error: 'Archive ID is required',
+                    code: 'MISSING_ARCHIVE_ID',
+                });
+            }
+
+            const progress = await archiveService.cancelArchive(id);
+
+            return res.json({
+                success: true,
+                data: progress,
+                message: 'Archive cancelled',
+            });
+        } catch (error) {
+            console.error('Error trying to cancel archive:', error);
+            return sendJobActionError(res, error, 'cancel');
+        }
+    });
+
+    /**
+     * POST /api/archives/:id/pause
+     * Pause a running archive job and persist its crawl frontier
+     */
+    router.post('/:id/pause', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!id) {
+                return res.status(400).json({
+                    error: 'Archive ID is required',
+                    code: 'MISSING_ARCHIVE_ID',
+                });
+            }
+
+            const progress = await archiveService.pauseArchive(id);
+
+            return res.json({
+                success: true,
+                data: progress,
+                message: 'Archive paused',
+            });
+        } catch (error) {
+            console.error('Error trying to pause archive:', error);
+            return sendJobActionError(res, error, 'pause');
+        }
+    });
+
+    /**
+     * POST /api/archives/:id/resume
+     * Resume a paused archive job
+     */
+    router.post('/:id/resume', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!id) {
+                return res.status(400).json({
+                    error: 'Archive ID is required',
+                    code: 'MISSING_ARCHIVE_ID',
+                });
+            }
+
+            const progress = await archiveService.resumeArchive(id);
+
+            return res.json({
+                success: true,
+                data: progress,
+                message: 'Archive resumed',
+            });
+        } catch (error) {
+            console.error('Error trying to resume archive:', error);
+            return sendJobActionError(res, error, 'resume');
+        }
+    });
+
+    /**
+     * GET /api/archives/:id/size
+     * Get the logical and deduplicated on-disk size of an archive
+     */
+    router.get('/:id/size', async (req: Request, res: Response) => {
+        try {
+            const size = await archiveService.getArchiveSize(req.params.id);
+
+            return res.json({
+                success: true,
+                data: size,
+            });
+        } catch (error) {
+            console.error('Error getting archive size:', error);
+
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+            if (message.includes('Archive not found')) {
+                return res.status(404).json({
+                    error: 'Archive not found',
+                    code: 'ARCHIVE_NOT_FOUND',
+                    details: message,
+                });
+            }
+
+            return res.status(500).json({
+                error: 'Failed to get archive size',
+                code: 'INTERNAL_ERROR',
+                details: message,
+            });
+        }
+    });
+
+    /**
+     * GET /api/archives/:id/export.warc.gz
+     * Download an archive as a WARC 1.1 file
+     */
+    router.get('/:id/export.warc.gz', async (req: Request, res: Response) => {
+        const { id } = req.params;
+
+        let warcExport;
+        try {
+            warcExport = await archiveService.prepareWarcExport(id);
+        } catch (error) {
+            console.error('Error exporting archive:', error);
+
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+            if (message.includes('Archive not found')) {
+                return res.status(404).json({
+                    error: 'Archive not found',
+                    code: 'ARCHIVE_NOT_FOUND',
+                    details: message,
+                });
+            }
+
+            if (message.includes('still in progress')) {
+                return res.status(409).json({
+                    error: 'Cannot export an archive that is still in progress',
+                    code: 'ARCHIVE_IN_PROGRESS',
+                    details: message,
+                });
+            }
+
+            return res.status(500).json({
+                error: 'Failed to export archive',
+                code: 'INTERNAL_ERROR',
+                details: message,
+            });
+        }
+
+        res.set('Content-Type', 'application/gzip');
+        res.set('Content-Disposition', `attachment; filename="${warcExport.fileName}"`);
+        res.set('X-Archive-ID', id);
+
+        try {
+            await warcExport.writeTo(res);
+            return res.end();
+        } catch (error) {
+            // Headers are already sent, so the only way to signal failure is to abort the download
+            console.error('Error writing WARC export:', error);
+            return res.destroy(error instanceof Error ? error : undefined);
+        }
+    });
+
+    /**
+     * GET /api/archives/:id/events
+     * Stream progress deltas, page, asset, error and final status events (Server-Sent Events)
+     *
+     * Reconnecting clients send the last event ID they received in the `Last-Event-ID`
+     * header or the `lastEventId` query parameter and get the events they missed.
+     */
+    router.get('/:id/events', async (req: Request, res: Response) => {
+        const { id } = req.params;
+
+        const startStream = () => {
+            res.status(200);
+            res.set({
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            });
+            res.flushHeaders();
+            res.write('retry: 3000\n\n');
+        };
+
+        const sendEvent = (event: ArchiveEvent) => {
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            // The compression middleware buffers output unless flushed
+            (res as Response & { flush?: () => void }).flush?.();
+        };
+
+        // Finished (or unknown) archives: report the stored status once
+        if (!archiveService.getArchiveProgress(id)) {
+            let archive;
+            try {
+                archive = await archiveService.getArchive(id);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error occurred';
+                res.status(404).json({
+                    error: 'Archive not found',
+                    code: 'ARCHIVE_NOT_FOUND',
+                    details: message,
+                });
+                return;
+            }
+
+            startStream();
+            sendEvent({
+                id: 0,
+                archiveId: id,
+                type: 'status',
+                timestamp: new Date(),
+                data: {
+                    status: archive.status,
+                    cancelled: archive.cancelled,
+                    metadata: archive.metadata,
+                    errorCount: archive.errors?.length || 0,
+                },
+            });
+            res.end();
+            return;
+        }
+
+        const lastEventHeader = req.get('Last-Event-ID') ?? req.query.lastEventId;
+        const lastEventId = typeof lastEventHeader === 'string' && /^\d+$/.test(lastEventHeader)
+            ? parseInt(lastEventHeader, 10)
+            : undefined;
+
+        let heartbeat: NodeJS.Timeout | undefined;
+        let unsubscribe: (() => void) | null = null;
+        const close = () => {
+            clearInterval(heartbeat);
+            unsubscribe?.();
+            unsubscribe = null;
+        };
+
+        startStream();
+        unsubscribe = archiveService.subscribeToEvents(id, event => {
+            sendEvent(event);
+            // The stream ends with the job's final status
+            if (event.type === 'status') {
+                close();
+                res.end();
+            }
+        }, lastEventId);
+
+        if (res.writableEnded) {
+            close();
+            return;
+        }
+        if (!unsubscribe) {
+            // The job's progress was cleared between the check and the subscription
+            res.end();
+            return;
+        }
+
+        heartbeat = setInterval(() => {
+            res.write(': ping\n\n');
+            (res as Response & { flush?: () => void }).flush?.();
+        }, 15000);
+        req.on('close', close);
+    });
+
     /**
      * GET /api/archives/:id/progress
      * Get archive progress (for active archives)
@@ -0,0 +1,205 @@
+import { Router, Request, Response } from 'express';
+import { ChangeDetectionService } from '../services/change-detection-service';
+import { isValidUrl, sanitizeUrl } from './validation';
+
+/**
+ * Answer service errors about invalid watches, or with 500
+ */
+function sendChangeError(res: Response, error: unknown, action: string) {
+    console.error(`Error trying to ${action}:`, error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (message.includes('Invalid URL')) {
+        return res.status(400).json({
+            error: message,
+            code: 'INVALID_URL',
+        });
+    }
+
+    if (message.includes('Invalid change watch')) {
+        return res.status(400).json({
+            error: message,
+            code: 'INVALID_CHANGE_WATCH',
+        });
+    }
+
+    return res.status(500).json({
+        error: `Failed to ${action}`,
+        code: 'INTERNAL_ERROR',
+        details: message,
+    });
+}
+
+// Factory function to create the change detection router around the shared service
+export function createChangeRouter(changeDetectionService: ChangeDetectionService): Router {
+    const router = Router();
+
+    /**
+     * GET /api/changes/alerts
+     * List detected changes, newest first
+     * Query params: url (only alerts of this URL), unread (true for unread alerts only)
+     */
+    router.get('/alerts', async (req: Request, res: Response) => {
+        try {
+            const { url, unread } = req.query;
+
+            if (url !== undefined && typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const alerts = changeDetectionService.listAlerts({
+                url: url ? sanitizeUrl(url) : undefined,
+                unread: unread === 'true',
+            });
+
+            return res.json({
+                success: true,
+                data: alerts,
+                count: alerts.length,
+            });
+        } catch (error) {
+            return sendChangeError(res, error, 'list change alerts');
+        }
+    });
+
+    /**
+     * POST /api/changes/alerts/read
+     * Mark alerts as read
+     * Body: { ids? } (all alerts when omitted)
+     */
+    router.post('/alerts/read', async (req: Request, res: Response) => {
+        try {
+            const { ids } = req.body;
+
+            if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+                return res.status(400).json({
+                    error: 'ids must be a list of alert IDs',
+                    code: 'INVALID_ALERT_IDS',
+                });
+            }
+
+            const marked = await changeDetectionService.markAlertsRead(ids);
+
+            return res.json({
+                success: true,
+                data: { marked },
+            });
+        } catch (error) {
+            return sendChangeError(res, error, 'mark change alerts as read');
+        }
+    });
+
+    /**
+     * GET /api/changes/watches
+     * List change detection settings
+     * Query params: url (only the watch of this URL)
+     */
+    router.get('/watches', async (req: Request, res: Response) => {
+        try {
+            const { url } = req.query;
+
+            if (url !== undefined && typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const watches = changeDetectionService.listWatches(url ? sanitizeUrl(url) : undefined);
+
+            return res.json({
+                success: true,
+                data: watches,
+                count: watches.length,
+            });
+        } catch (error) {
+            return sendChangeError(res, error, 'list change watches');
+        }
+    });
+
+    /**
+     * PUT /api/changes/watches
+     * Set how re-archives of a URL are checked for changes, replacing earlier settings
+     * Body: { url, enabled?, similarityThreshold?, selectors?, ignoreSelectors?, ignorePatterns? }
+     */
+    router.put('/watches', async (req: Request, res: Response) => {
+        try {
+            const { url, enabled, similarityThreshold, selectors, ignoreSelectors, ignorePatterns } = req.body;
+
+            if (!url) {
+                return res.status(400).json({
+                    error: 'URL is required',
+                    code: 'MISSING_URL',
+                });
+            }
+
+            if (typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const sanitizedUrl = sanitizeUrl(url);
+            if (!isValidUrl(sanitizedUrl)) {
+                return res.status(400).json({
+                    error: 'Invalid URL format. Must be a valid HTTP or HTTPS URL',
+                    code: 'INVALID_URL_FORMAT',
+                });
+            }
+
+            if (enabled !== undefined && typeof enabled !== 'boolean') {
+                return res.status(400).json({
+                    error: 'enabled must be a boolean',
+                    code: 'INVALID_ENABLED',
+                });
+            }
+
+            const { watch, created } = await changeDetectionService.saveWatch({
+                url: sanitizedUrl,
+                enabled,
+                similarityThreshold,
+                selectors,
+                ignoreSelectors,
+                ignorePatterns,
+            });
+
+            return res.status(created ? 201 : 200).json({
+                success: true,
+                data: watch,
+            });
+        } catch (error) {
+            return sendChangeError(res, error, 'save change watch');
+        }
+    });
+
+    /**
+     * DELETE /api/changes/watches/:id
+     * Delete a watch; its URL is checked with the default settings again
+     */
+    router.delete('/watches/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!(await changeDetectionService.removeWatch(id))) {
+                return res.status(404).json({
+                    error: 'Change watch not found',
+                    code: 'WATCH_NOT_FOUND',
+                });
+            }
+
+            return res.json({
+                success: true,
+                message: 'Change watch deleted successfully',
+            });
+        } catch (error) {
+            return sendChangeError(res, error, 'delete change watch');
+        }
+    });
+
+    return router;
+}
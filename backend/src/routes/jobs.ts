@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { ArchiveService } from '../services/archive-service';
+import { JobState } from '../types';
+
+// Factory function to create the jobs router around the shared archive service
+export function createJobRouter(archiveService: ArchiveService): Router {
+    const router = Router();
+
+    /**
+     * GET /api/jobs
+     * List archive jobs: running, then queued in run order, then finished
+     * Query params: state (queued | running | done)
+     */
+    router.get('/', async (req: Request, res: Response) => {
+        try {
+            const { state } = req.query;
+
+            if (state !== undefined && !Object.values(JobState).includes(state as JobState)) {
+                return res.status(400).json({
+                    error: `state must be one of: ${Object.values(JobState).join(', ')}`,
+                    code: 'INVALID_JOB_STATE',
+                });
+            }
+
+            const jobs = archiveService.getJobs(state as JobState | undefined);
+
+            return res.json({
+                success: true,
+                data: jobs,
+                count: jobs.length,
+            });
+        } catch (error) {
+            console.error('Error listing jobs:', error);
+
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+            return res.status(500).json({
+                error: 'Failed to list jobs',
+                code: 'INTERNAL_ERROR',
+                details: message,
+            });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,233 @@
+import { Router, Request, Response } from 'express';
+import { ScheduleChanges, ScheduleService } from '../services/schedule-service';
+import { isValidUrl, parseCrawlerOptions, sanitizeUrl } from './validation';
+
+/**
+ * Check the types of the timing and enabled fields of a schedule request
+ * @returns The error to answer with 400, or null if the fields are well-formed
+ */
+function validateScheduleFields(body: any): { error: string; code: string } | null {
+    if (body.cron !== undefined && (typeof body.cron !== 'string' || !body.cron.trim())) {
+        return {
+            error: 'cron must be a non-empty cron expression',
+            code: 'INVALID_SCHEDULE',
+        };
+    }
+    if (body.intervalMinutes !== undefined && typeof body.intervalMinutes !== 'number') {
+        return {
+            error: 'intervalMinutes must be a number',
+            code: 'INVALID_SCHEDULE',
+        };
+    }
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+        return {
+            error: 'enabled must be a boolean',
+            code: 'INVALID_ENABLED',
+        };
+    }
+    if (body.options?.incrementalFrom !== undefined) {
+        return {
+            error: 'incrementalFrom cannot be used in a schedule',
+            code: 'INVALID_INCREMENTAL_FROM',
+        };
+    }
+    return null;
+}
+
+/**
+ * Answer service errors about invalid or missing schedules, or with 500
+ */
+function sendScheduleError(res: Response, error: unknown, action: string) {
+    console.error(`Error trying to ${action}:`, error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (message.includes('Invalid URL')) {
+        return res.status(400).json({
+            error: message,
+            code: 'INVALID_URL',
+        });
+    }
+
+    if (message.includes('Invalid schedule')) {
+        return res.status(400).json({
+            error: message,
+            code: 'INVALID_SCHEDULE',
+        });
+    }
+
+    if (message.includes('Schedule not found')) {
+        return res.status(404).json({
+            error: 'Schedule not found',
+            code: 'SCHEDULE_NOT_FOUND',
+            details: message,
+        });
+    }
+
+    return res.status(500).json({
+        error: `Failed to ${action}`,
+        code: 'INTERNAL_ERROR',
+        details: message,
+    });
+}
+
+// Factory function to create the schedules router around the shared schedule service
+export function createScheduleRouter(scheduleService: ScheduleService): Router {
+    const router = Router();
+
+    /**
+     * GET /api/schedules
+     * List recurring archive schedules
+     * Query params: url (only schedules of this URL)
+     */
+    router.get('/', async (req: Request, res: Response) => {
+        try {
+            const { url } = req.query;
+
+            if (url !== undefined && typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const schedules = scheduleService.list(url ? sanitizeUrl(url) : undefined);
+
+            return res.json({
+                success: true,
+                data: schedules,
+                count: schedules.length,
+            });
+        } catch (error) {
+            return sendScheduleError(res, error, 'list schedules');
+        }
+    });
+
+    /**
+     * POST /api/schedules
+     * Create a recurring archive of a URL
+     * Body: { url, options?, cron? | intervalMinutes?, enabled? }
+     */
+    router.post('/', async (req: Request, res: Response) => {
+        try {
+            const { url, options, cron, intervalMinutes, enabled } = req.body;
+
+            if (!url) {
+                return res.status(400).json({
+                    error: 'URL is required',
+                    code: 'MISSING_URL',
+                });
+            }
+
+            if (typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const sanitizedUrl = sanitizeUrl(url);
+            if (!isValidUrl(sanitizedUrl)) {
+                return res.status(400).json({
+                    error: 'Invalid URL format. Must be a valid HTTP or HTTPS URL',
+                    code: 'INVALID_URL_FORMAT',
+                });
+            }
+
+            const fieldError = validateScheduleFields(req.body);
+            if (fieldError) {
+                return res.status(400).json(fieldError);
+            }
+
+            const parsedOptions = parseCrawlerOptions(options);
+            if ('error' in parsedOptions) {
+                return res.status(400).json(parsedOptions);
+            }
+
+            const schedule = await scheduleService.create({
+                url: sanitizedUrl,
+                options: parsedOptions.options,
+                cron: cron?.trim(),
+                intervalMinutes,
+                enabled,
+            });
+
+            return res.status(201).json({
+                success: true,
+                data: schedule,
+            });
+        } catch (error) {
+            return sendScheduleError(res, error, 'create schedule');
+        }
+    });
+
+    /**
+     * PATCH /api/schedules/:id
+     * Change the options, timing or enabled state of a schedule
+     * Body: { options?, cron? | intervalMinutes?, enabled? }
+     */
+    router.patch('/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const { options, cron, intervalMinutes, enabled } = req.body;
+
+            const fieldError = validateScheduleFields(req.body);
+            if (fieldError) {
+                return res.status(400).json(fieldError);
+            }
+
+            const changes: ScheduleChanges = {};
+            if (options !== undefined) {
+                const parsedOptions = parseCrawlerOptions(options);
+                if ('error' in parsedOptions) {
+                    return res.status(400).json(parsedOptions);
+                }
+                changes.options = parsedOptions.options;
+            }
+            if (cron !== undefined) {
+                changes.cron = cron.trim();
+            }
+            if (intervalMinutes !== undefined) {
+                changes.intervalMinutes = intervalMinutes;
+            }
+            if (enabled !== undefined) {
+                changes.enabled = enabled;
+            }
+
+            const schedule = await scheduleService.update(id, changes);
+
+            return res.json({
+                success: true,
+                data: schedule,
+            });
+        } catch (error) {
+            return sendScheduleError(res, error, 'update schedule');
+        }
+    });
+
+    /**
+     * DELETE /api/schedules/:id
+     * Delete a schedule; archives it already created are kept
+     */
+    router.delete('/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!(await scheduleService.remove(id))) {
+                return res.status(404).json({
+                    error: 'Schedule not found',
+                    code: 'SCHEDULE_NOT_FOUND',
+                });
+            }
+
+            return res.json({
+                success: true,
+                message: 'Schedule deleted successfully',
+            });
+        } catch (error) {
+            return sendScheduleError(res, error, 'delete schedule');
+        }
+    });
+
+    return router;
+}
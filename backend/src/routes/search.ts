@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { SearchIndexService } from '../services/search-index-service';
+
+/** Hits returned when no limit is given, and the most that can be asked for */
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Parse a `from` or `to` query parameter; a plain date covers that whole day, in UTC
+ * @returns The time, undefined when the parameter is missing, or null when it is invalid
+ */
+function parseDateParam(value: unknown, endOfDay: boolean): Date | undefined | null {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        return null;
+    }
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+}
+
+// Factory function to create the search router around the shared index
+export function createSearchRouter(searchIndexService: SearchIndexService): Router {
+    const router = Router();
+
+    /**
+     * GET /api/search
+     * Find archived pages containing every word of a query, best matches first
+     * Query params: q (words, or "quoted phrases"), domain, from and to (archive dates), limit
+     */
+    router.get('/', async (req: Request, res: Response) => {
+        try {
+            const { q, domain, limit } = req.query;
+
+            if (!q || typeof q !== 'string' || !q.trim()) {
+                return res.status(400).json({
+                    error: 'Search query is required',
+                    code: 'MISSING_QUERY',
+                });
+            }
+
+            if (domain !== undefined && typeof domain !== 'string') {
+                return res.status(400).json({
+                    error: 'Domain must be a string',
+                    code: 'INVALID_DOMAIN',
+                });
+            }
+
+            const from = parseDateParam(req.query.from, false);
+            const to = parseDateParam(req.query.to, true);
+            if (from === null || to === null) {
+                return res.status(400).json({
+                    error: 'from and to must be dates, such as 2024-05-01 or 2024-05-01T12:00:00Z',
+                    code: 'INVALID_DATE',
+                });
+            }
+
+            const maxHits = limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(limit);
+            if (!Number.isInteger(maxHits) || maxHits < 1 || maxHits > MAX_SEARCH_LIMIT) {
+                return res.status(400).json({
+                    error: `Limit must be a whole number between 1 and ${MAX_SEARCH_LIMIT}`,
+                    code: 'INVALID_LIMIT',
+                });
+            }
+
+            const { hits, total } = await searchIndexService.search({
+                q: q.trim(),
+                domain: domain?.trim() || undefined,
+                from,
+                to,
+                limit: maxHits,
+            });
+
+            return res.json({
+                success: true,
+                data: hits,
+                count: hits.length,
+                total,
+            });
+        } catch (error) {
+            console.error('Error searching archives:', error);
+            return res.status(500).json({
+                error: 'Failed to search archives',
+                code: 'INTERNAL_ERROR',
+                details: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        }
+    });
+
+    return router;
+}
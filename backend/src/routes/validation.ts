@@ -0,0 +1,165 @@
+import { CrawlerOptions } from '../types';
+import { validateCrawlScope } from '../utils/crawl-scope';
+
+// Basic input sanitization
+export function sanitizeUrl(url: string): string {
+  return url.trim().replace(/[<>'"]/g, '');
+}
+
+export function isValidUrl(url: string): boolean {
+  try {
+    const urlObj = new URL(url);
+    return ['http:', 'https:'].includes(urlObj.protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the crawler options sent with a request
+ * @returns The options to use, or the error to answer with 400 for the first invalid option
+ */
+export function parseCrawlerOptions(options: any): { options?: Partial<CrawlerOptions> } | { error: string; code: string } {
+    if (!options) {
+        return { options: undefined };
+    }
+
+    const crawlerOptions: Partial<CrawlerOptions> = {};
+    if (options.maxDepth !== undefined) {
+        if (typeof options.maxDepth !== 'number' || options.maxDepth < 1 || options.maxDepth > 10) {
+            return {
+                error: 'maxDepth must be a number between 1 and 10',
+                code: 'INVALID_MAX_DEPTH',
+            };
+        }
+        crawlerOptions.maxDepth = options.maxDepth;
+    }
+    if (options.maxPages !== undefined) {
+        if (typeof options.maxPages !== 'number' || options.maxPages < 1 || options.maxPages > 1000) {
+            return {
+                error: 'maxPages must be a number between 1 and 1000',
+                code: 'INVALID_MAX_PAGES',
+            };
+        }
+        crawlerOptions.maxPages = options.maxPages;
+    }
+    if (options.timeout !== undefined) {
+        if (typeof options.timeout !== 'number' || options.timeout < 1000 || options.timeout > 120000) {
+            return {
+                error: 'timeout must be a number between 1000 and 120000 milliseconds',
+                code: 'INVALID_TIMEOUT',
+            };
+        }
+        crawlerOptions.timeout = options.timeout;
+    }
+    if (options.respectRobots !== undefined) {
+        if (typeof options.respectRobots !== 'boolean') {
+            return {
+                error: 'respectRobots must be a boolean',
+                code: 'INVALID_RESPECT_ROBOTS',
+            };
+        }
+        crawlerOptions.respectRobots = options.respectRobots;
+    }
+    if (options.responsiveImages !== undefined) {
+        if (options.responsiveImages !== 'all' && options.responsiveImages !== 'largest') {
+            return {
+                error: "responsiveImages must be 'all' or 'largest'",
+                code: 'INVALID_RESPONSIVE_IMAGES',
+            };
+        }
+        crawlerOptions.responsiveImages = options.responsiveImages;
+    }
+    if (options.promoteLazyImages !== undefined) {
+        if (typeof options.promoteLazyImages !== 'boolean') {
+            return {
+                error: 'promoteLazyImages must be a boolean',
+                code: 'INVALID_PROMOTE_LAZY_IMAGES',
+            };
+        }
+        crawlerOptions.promoteLazyImages = options.promoteLazyImages;
+    }
+    if (options.renderMode !== undefined) {
+        if (options.renderMode !== 'static' && options.renderMode !== 'dom') {
+            return {
+                error: "renderMode must be 'static' or 'dom'",
+                code: 'INVALID_RENDER_MODE',
+            };
+        }
+        crawlerOptions.renderMode = options.renderMode;
+    }
+    if (options.renderTimeout !== undefined) {
+        if (typeof options.renderTimeout !== 'number' || options.renderTimeout < 1000 || options.renderTimeout > 60000) {
+            return {
+                error: 'renderTimeout must be a number between 1000 and 60000 milliseconds',
+                code: 'INVALID_RENDER_TIMEOUT',
+            };
+        }
+        crawlerOptions.renderTimeout = options.renderTimeout;
+    }
+    if (options.maxRenderRequests !== undefined) {
+        if (typeof options.maxRenderRequests !== 'number' || options.maxRenderRequests < 0 || options.maxRenderRequests > 500) {
+            return {
+                error: 'maxRenderRequests must be a number between 0 and 500',
+                code: 'INVALID_MAX_RENDER_REQUESTS',
+            };
+        }
+        crawlerOptions.maxRenderRequests = options.maxRenderRequests;
+    }
+    if (options.seedFromSitemap !== undefined) {
+        if (typeof options.seedFromSitemap !== 'boolean') {
+            return {
+                error: 'seedFromSitemap must be a boolean',
+                code: 'INVALID_SEED_FROM_SITEMAP',
+            };
+        }
+        crawlerOptions.seedFromSitemap = options.seedFromSitemap;
+    }
+    if (options.scope !== undefined) {
+        const scopeError = validateCrawlScope(options.scope);
+        if (scopeError) {
+            return {
+                error: scopeError,
+                code: 'INVALID_SCOPE',
+            };
+        }
+        crawlerOptions.scope = options.scope;
+    }
+    if (options.maxConcurrencyPerHost !== undefined) {
+        if (!Number.isInteger(options.maxConcurrencyPerHost) || options.maxConcurrencyPerHost < 1 || options.maxConcurrencyPerHost > 10) {
+            return {
+                error: 'maxConcurrencyPerHost must be an integer between 1 and 10',
+                code: 'INVALID_MAX_CONCURRENCY_PER_HOST',
+            };
+        }
+        crawlerOptions.maxConcurrencyPerHost = options.maxConcurrencyPerHost;
+    }
+    if (options.minRequestDelay !== undefined) {
+        if (typeof options.minRequestDelay !== 'number' || options.minRequestDelay < 0 || options.minRequestDelay > 60000) {
+            return {
+                error: 'minRequestDelay must be a number between 0 and 60000 milliseconds',
+                code: 'INVALID_MIN_REQUEST_DELAY',
+            };
+        }
+        crawlerOptions.minRequestDelay = options.minRequestDelay;
+    }
+    if (options.maxRetries !== undefined) {
+        if (!Number.isInteger(options.maxRetries) || options.maxRetries < 0 || options.maxRetries > 10) {
+            return {
+                error: 'maxRetries must be an integer between 0 and 10',
+                code: 'INVALID_MAX_RETRIES',
+            };
+        }
+        crawlerOptions.maxRetries = options.maxRetries;
+    }
+    if (options.incrementalFrom !== undefined) {
+        if (typeof options.incrementalFrom !== 'string' || options.incrementalFrom.trim() === '') {
+            return {
+                error: 'incrementalFrom must be the ID of an earlier version of the URL',
+                code: 'INVALID_INCREMENTAL_FROM',
+            };
+        }
+        crawlerOptions.incrementalFrom = options.incrementalFrom;
+    }
+    return { options: crawlerOptions };
+}
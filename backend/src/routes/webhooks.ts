@@ -0,0 +1,148 @@
+import { Router, Request, Response } from 'express';
+import { WebhookService } from '../services/webhook-service';
+import { isValidUrl, sanitizeUrl } from './validation';
+
+/**
+ * Answer service errors about invalid subscriptions, or with 500
+ */
+function sendWebhookError(res: Response, error: unknown, action: string) {
+    console.error(`Error trying to ${action}:`, error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (message.includes('Invalid webhook')) {
+        return res.status(400).json({
+            error: message,
+            code: 'INVALID_WEBHOOK',
+        });
+    }
+
+    return res.status(500).json({
+        error: `Failed to ${action}`,
+        code: 'INTERNAL_ERROR',
+        details: message,
+    });
+}
+
+// Factory function to create the webhook router around the shared service
+export function createWebhookRouter(webhookService: WebhookService): Router {
+    const router = Router();
+
+    /**
+     * GET /api/webhooks
+     * List webhook subscriptions, without their secrets
+     */
+    router.get('/', async (req: Request, res: Response) => {
+        try {
+            const subscriptions = webhookService.listSubscriptions();
+
+            return res.json({
+                success: true,
+                data: subscriptions,
+                count: subscriptions.length,
+            });
+        } catch (error) {
+            return sendWebhookError(res, error, 'list webhooks');
+        }
+    });
+
+    /**
+     * POST /api/webhooks
+     * Subscribe a URL to archive lifecycle events
+     * Body: { url, events?, secret? } (all events and a generated secret when omitted)
+     * The response is the only one that includes the secret
+     */
+    router.post('/', async (req: Request, res: Response) => {
+        try {
+            const { url, events, secret } = req.body;
+
+            if (!url) {
+                return res.status(400).json({
+                    error: 'URL is required',
+                    code: 'MISSING_URL',
+                });
+            }
+
+            if (typeof url !== 'string') {
+                return res.status(400).json({
+                    error: 'URL must be a string',
+                    code: 'INVALID_URL_TYPE',
+                });
+            }
+
+            const sanitizedUrl = sanitizeUrl(url);
+            if (!isValidUrl(sanitizedUrl)) {
+                return res.status(400).json({
+                    error: 'Invalid URL format. Must be a valid HTTP or HTTPS URL',
+                    code: 'INVALID_URL_FORMAT',
+                });
+            }
+
+            const subscription = await webhookService.createSubscription({
+                url: sanitizedUrl,
+                events,
+                secret,
+            });
+
+            return res.status(201).json({
+                success: true,
+                data: subscription,
+            });
+        } catch (error) {
+            return sendWebhookError(res, error, 'create webhook');
+        }
+    });
+
+    /**
+     * DELETE /api/webhooks/:id
+     * Unsubscribe and drop the subscription's delivery log
+     */
+    router.delete('/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!(await webhookService.removeSubscription(id))) {
+                return res.status(404).json({
+                    error: 'Webhook not found',
+                    code: 'WEBHOOK_NOT_FOUND',
+                });
+            }
+
+            return res.json({
+                success: true,
+                message: 'Webhook deleted successfully',
+            });
+        } catch (error) {
+            return sendWebhookError(res, error, 'delete webhook');
+        }
+    });
+
+    /**
+     * GET /api/webhooks/:id/deliveries
+     * Delivery log of a subscription, newest first
+     */
+    router.get('/:id/deliveries', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            if (!webhookService.getSubscription(id)) {
+                return res.status(404).json({
+                    error: 'Webhook not found',
+                    code: 'WEBHOOK_NOT_FOUND',
+                });
+            }
+
+            const deliveries = webhookService.listDeliveries(id);
+
+            return res.json({
+                success: true,
+                data: deliveries,
+                count: deliveries.length,
+            });
+        } catch (error) {
+            return sendWebhookError(res, error, 'list webhook deliveries');
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,221 @@
+import { Archive, ArchivedPage, AssetType, ChangeCounts, ChangeStatus } from '../types';
+import { DomDiff, TextDiff, diffDom, diffText } from '../utils/html-diff';
+import { FileService } from './file-service';
+
+/**
+ * How one page differs between two versions; diffs are only set for changed pages
+ */
+export interface PageDiff {
+  url: string;
+  status: ChangeStatus;
+  fromPath?: string;
+  toPath?: string;
+  text?: TextDiff;
+  dom?: DomDiff;
+}
+
+/**
+ * An asset that was added, removed or whose content changed between two versions
+ */
+export interface AssetDiff {
+  url: string;
+  type: AssetType;
+  status: ChangeStatus;
+  /** SHA-256 of the content in each version */
+  fromHash?: string;
+  toHash?: string;
+  fromSize?: number;
+  toSize?: number;
+}
+
+/**
+ * Differences between two archives, with pages and assets aligned by URL
+ */
+export interface ArchiveDiff {
+  from: { id: string; version: number; timestamp: Date };
+  to: { id: string; version: number; timestamp: Date };
+  /** Page the diff was limited to, if any */
+  path?: string;
+  pages: PageDiff[];
+  /** Added, removed and changed assets; unchanged ones are only counted */
+  assets: AssetDiff[];
+  summary: { pages: ChangeCounts; assets: ChangeCounts };
+}
+
+/**
+ * A captured asset with the content hash it had in one version
+ */
+interface HashedAsset {
+  type: AssetType;
+  size: number;
+  hash?: string;
+}
+
+/**
+ * Computes page and asset level differences between two versions of a site
+ *
+ * Pages are compared by their stored HTML with the archive ID taken out, since links
+ * to archived assets embed it; changed pages get a normalized text diff and a
+ * structural diff of their element tree. Assets are compared by content hash.
+ */
+export class ArchiveDiffService {
+  private fileService: FileService;
+
+  constructor(fileService: FileService) {
+    this.fileService = fileService;
+  }
+
+  /**
+   * Diff two archives, optionally only one page and its assets
+   * @param pagePath - URL path (and query) of the page to limit the diff to, such as `/about`
+   * @throws Error if neither archive has a page at `pagePath`
+   */
+  async diffArchives(from: Archive, to: Archive, pagePath?: string): Promise<ArchiveDiff> {
+    const fromPages = this.selectPages(from, pagePath);
+    const toPages = this.selectPages(to, pagePath);
+    if (pagePath && fromPages.size === 0 && toPages.size === 0) {
+      throw new Error(`Page not found: no page at ${pagePath} in either version`);
+    }
+
+    const pages: PageDiff[] = [];
+    for (const url of new Set([...fromPages.keys(), ...toPages.keys()])) {
+      pages.push(await this.diffPage(url, from, fromPages.get(url), to, toPages.get(url)));
+    }
+
+    const fromAssets = await this.hashAssets(from, [...fromPages.values()]);
+    const toAssets = await this.hashAssets(to, [...toPages.values()]);
+    const assetStatuses: ChangeStatus[] = [];
+    const assets: AssetDiff[] = [];
+    for (const url of new Set([...fromAssets.keys(), ...toAssets.keys()])) {
+      const before = fromAssets.get(url);
+      const after = toAssets.get(url);
+      const status = getChangeStatus(before?.hash, after?.hash, before !== undefined, after !== undefined);
+      assetStatuses.push(status);
+      if (status !== 'unchanged') {
+        assets.push({
+          url,
+          type: (after || before)!.type,
+          status,
+          fromHash: before?.hash,
+          toHash: after?.hash,
+          fromSize: before?.size,
+          toSize: after?.size,
+        });
+      }
+    }
+
+    return {
+      from: { id: from.id, version: from.version, timestamp: from.timestamp },
+      to: { id: to.id, version: to.version, timestamp: to.timestamp },
+      path: pagePath,
+      pages,
+      assets,
+      summary: {
+        pages: countStatuses(pages.map(page => page.status)),
+        assets: countStatuses(assetStatuses),
+      },
+    };
+  }
+
+  private async diffPage(
+    url: string,
+    from: Archive,
+    fromPage: ArchivedPage | undefined,
+    to: Archive,
+    toPage: ArchivedPage | undefined
+  ): Promise<PageDiff> {
+    const diff: PageDiff = { url, status: 'changed', fromPath: fromPage?.path, toPath: toPage?.path };
+    if (!fromPage || !toPage) {
+      diff.status = fromPage ? 'removed' : 'new';
+      return diff;
+    }
+
+    const fromHtml = await this.loadPageHtml(from, fromPage);
+    const toHtml = await this.loadPageHtml(to, toPage);
+    if (fromHtml === toHtml) {
+      diff.status = 'unchanged';
+      return diff;
+    }
+
+    diff.text = diffText(fromHtml, toHtml);
+    diff.dom = diffDom(fromHtml, toHtml);
+    return diff;
+  }
+
+  /**
+   * Stored HTML of a page, comparable across versions; missing pages read as empty
+   */
+  private async loadPageHtml(archive: Archive, page: ArchivedPage): Promise<string> {
+    try {
+      const html = await this.fileService.getHtml(page.path, archive.id);
+      return html.split(archive.id).join('');
+    } catch (error) {
+      console.warn(`Failed to load page ${page.url} of archive ${archive.id}:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Content hashes of the assets of some pages, by URL
+   */
+  private async hashAssets(archive: Archive, pages: ArchivedPage[]): Promise<Map<string, HashedAsset>> {
+    const assets = new Map<string, HashedAsset>();
+    for (const asset of pages.flatMap(page => page.assets)) {
+      if (assets.has(asset.originalUrl)) {
+        continue;
+      }
+      const hashed: HashedAsset = { type: asset.type, size: asset.size };
+      assets.set(asset.originalUrl, hashed);
+      if (asset.localPath) {
+        hashed.hash = await this.fileService.getAssetHash(asset.localPath, archive.id).catch(() => undefined);
+      }
+    }
+    return assets;
+  }
+
+  private selectPages(archive: Archive, pagePath?: string): Map<string, ArchivedPage> {
+    const pages = new Map<string, ArchivedPage>();
+    for (const page of archive.pages) {
+      if (!pagePath || getUrlPath(page.url) === pagePath) {
+        pages.set(page.url, page);
+      }
+    }
+    return pages;
+  }
+}
+
+function getUrlPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Status of a resource present in one or both versions; content that could not be
+ * hashed counts as changed
+ */
+function getChangeStatus(
+  fromHash: string | undefined,
+  toHash: string | undefined,
+  inFrom: boolean,
+  inTo: boolean
+): ChangeStatus {
+  if (!inFrom) {
+    return 'new';
+  }
+  if (!inTo) {
+    return 'removed';
+  }
+  return fromHash && fromHash === toHash ? 'unchanged' : 'changed';
+}
+
+function countStatuses(statuses: ChangeStatus[]): ChangeCounts {
+  const counts: ChangeCounts = { unchanged: 0, changed: 0, new: 0, removed: 0 };
+  for (const status of statuses) {
+    counts[status]++;
+  }
+  return counts;
+}
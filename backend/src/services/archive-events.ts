@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import { Archive, ArchiveError, ArchiveStatus, AssetType, ChangeSummary } from '../types';
+import type { ArchiveProgress } from './archive-service';
+
+export type ArchiveEventType = 'progress' | 'page' | 'asset' | 'error' | 'change' | 'status';
+
+/**
+ * Changed fields of an archive's progress; the first event of a stream carries all fields
+ */
+export interface ProgressDelta {
+  status?: ArchiveStatus;
+  paused?: boolean;
+  queued?: boolean;
+  currentUrl?: string;
+  startTime?: Date;
+  progress?: Partial<ArchiveProgress['progress']>;
+}
+
+export interface PageEventData {
+  url: string;
+  title: string;
+  depth?: number;
+  referrer?: string;
+}
+
+export interface AssetEventData {
+  url: string;
+  type: AssetType;
+  size: number;
+  failed: boolean;
+}
+
+export interface StatusEventData {
+  status: ArchiveStatus;
+  cancelled?: boolean;
+  metadata: Archive['metadata'];
+  errorCount: number;
+}
+
+interface ArchiveEventDataMap {
+  progress: ProgressDelta;
+  page: PageEventData;
+  asset: AssetEventData;
+  error: ArchiveError;
+  change: ChangeSummary;
+  status: StatusEventData;
+}
+
+/**
+ * An event pushed to clients following an archive job
+ */
+export type ArchiveEvent = {
+  [T in ArchiveEventType]: {
+    /** Sequence number, increasing per archive; used as the SSE event ID */
+    id: number;
+    archiveId: string;
+    type: T;
+    timestamp: Date;
+    data: ArchiveEventDataMap[T];
+  };
+}[ArchiveEventType];
+
+export type ArchiveEventListener = (event: ArchiveEvent) => void;
+
+export interface SubscribeOptions {
+  /** ID of the last event the client received; newer events are replayed */
+  lastEventId?: number;
+  /** Full progress sent first when events cannot be replayed */
+  snapshot?: () => ProgressDelta;
+}
+
+type ProgressSnapshot = Required<Omit<ProgressDelta, 'currentUrl'>> & { currentUrl?: string };
+
+/**
+ * Publishes archive job events to subscribers and keeps a short history per archive
+ * so reconnecting clients can catch up on what they missed
+ */
+export class ArchiveEventBus {
+  private emitter = new EventEmitter();
+  private history = new Map<string, ArchiveEvent[]>();
+  private sequences = new Map<string, number>();
+  private lastProgress = new Map<string, ProgressSnapshot>();
+  private historySize: number;
+
+  constructor(historySize: number = 200) {
+    this.historySize = historySize;
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event for an archive
+   */
+  publish<T extends ArchiveEventType>(archiveId: string, type: T, data: ArchiveEventDataMap[T]): ArchiveEvent {
+    const id = (this.sequences.get(archiveId) || 0) + 1;
+    this.sequences.set(archiveId, id);
+
+    const event = { id, archiveId, type, timestamp: new Date(), data } as ArchiveEvent;
+    const history = this.history.get(archiveId) || [];
+    history.push(event);
+    if (history.length > this.historySize) {
+      history.splice(0, history.length - this.historySize);
+    }
+    this.history.set(archiveId, history);
+
+    this.emitter.emit(archiveId, event);
+    return event;
+  }
+
+  /**
+   * Publish the fields of an archive's progress that changed since the last progress event
+   */
+  publishProgress(progress: ArchiveProgress): void {
+    const current: ProgressSnapshot = {
+      status: progress.status,
+      paused: progress.paused,
+      queued: progress.queued,
+      currentUrl: progress.currentUrl,
+      startTime: progress.startTime,
+      progress: { ...progress.progress },
+    };
+    const previous = this.lastProgress.get(progress.archiveId);
+    this.lastProgress.set(progress.archiveId, current);
+
+    const delta = previous ? diffProgress(previous, current) : current;
+    if (Object.keys(delta).length > 0) {
+      this.publish(progress.archiveId, 'progress', delta);
+    }
+  }
+
+  /**
+   * Subscribe to an archive's events
+   *
+   * Events after `lastEventId` are replayed when they are still in the history;
+   * otherwise the snapshot is sent first, followed by the final status event if the
+   * job has already finished.
+   * @returns Function that removes the subscription
+   */
+  subscribe(archiveId: string, listener: ArchiveEventListener, options: SubscribeOptions = {}): () => void {
+    const history = this.history.get(archiveId) || [];
+    const { lastEventId, snapshot } = options;
+    const canReplay =
+      lastEventId !== undefined &&
+      (lastEventId >= (this.sequences.get(archiveId) || 0) || history.some(event => event.id === lastEventId + 1));
+
+    if (canReplay) {
+      history.filter(event => event.id > lastEventId!).forEach(listener);
+    } else {
+      if (snapshot) {
+        listener({
+          id: this.sequences.get(archiveId) || 0,
+          archiveId,
+          type: 'progress',
+          timestamp: new Date(),
+          data: snapshot(),
+        });
+      }
+      const finalEvent = history.find(event => event.type === 'status');
+      if (finalEvent) {
+        listener(finalEvent);
+      }
+    }
+
+    this.emitter.on(archiveId, listener);
+    return () => {
+      this.emitter.off(archiveId, listener);
+    };
+  }
+
+  /**
+   * Forget an archive's history once its job is no longer tracked
+   */
+  clear(archiveId: string): void {
+    this.history.delete(archiveId);
+    this.sequences.delete(archiveId);
+    this.lastProgress.delete(archiveId);
+  }
+}
+
+/**
+ * Get the fields that differ between two progress snapshots
+ */
+function diffProgress(previous: ProgressSnapshot, current: ProgressSnapshot): ProgressDelta {
+  const delta: ProgressDelta = {};
+
+  if (previous.status !== current.status) delta.status = current.status;
+  if (previous.paused !== current.paused) delta.paused = current.paused;
+  if (previous.queued !== current.queued) delta.queued = current.queued;
+  if (previous.currentUrl !== current.currentUrl) delta.currentUrl = current.currentUrl;
+  if (previous.startTime.getTime() !== current.startTime.getTime()) delta.startTime = current.startTime;
+
+  const counters: Partial<ArchiveProgress['progress']> = {};
+  for (const key of Object.keys(current.progress) as Array<keyof ArchiveProgress['progress']>) {
+    if (previous.progress[key] !== current.progress[key]) {
+      counters[key] = current.progress[key];
+    }
+  }
+  if (Object.keys(counters).length > 0) {
+    delta.progress = counters;
+  }
+
+  return delta;
+}
@@ -1,21 +1,49 @@
 import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
+import * as path from 'path';
 import {
   Archive,
+  ArchiveSize,
   ArchiveStatus,
   CrawlerOptions,
+  CrawlCheckpoint,
+  CrawlScopeReport,
   ArchiveError,
   ErrorType,
   ArchivedPage,
   Asset,
   AssetType,
   ArchiveVersion,
+  ArchiveJob,
+  JobState,
+  HttpCapture,
+  ChangeStatus,
+  ChangeCounts,
+  IncrementalReport,
+  WebhookEvent,
+  SkippedUrl,
+  SkipReason,
 } from '../types';
 import { CrawlerService } from './crawler-service';
+import { CrawlControl } from './crawl-control';
+import { RequestScheduler } from './request-scheduler';
+import { RobotsService } from './robots-service';
+import { CaptureBaseline } from './capture-baseline';
+import { ArchiveDiff, ArchiveDiffService } from './archive-diff-service';
 import { FileService } from './file-service';
+import { JobQueue } from './job-queue';
+import { WarcExportService } from './warc-export-service';
+import { WarcImportService } from './warc-import-service';
+import { ArchiveEventBus, ArchiveEventListener } from './archive-events';
+import { ChangeDetectionService } from './change-detection-service';
+import { WebhookService, getStatusEvent } from './webhook-service';
+import { SearchIndexService } from './search-index-service';
 import { extractDomain, normalizeUrl } from '../utils/url-utils';
 import { createArchive } from '../utils/validation';
 import { AssetPathMapping } from '../utils/url-rewriter';
+import { CssDependencyResolver } from '../utils/css-dependency-resolver';
+import { CrawlScopeMatcher } from '../utils/crawl-scope';
+import { captureHttpExchange, createRedirectRecorder, getResponseHeader } from '../utils/http-capture';
 
 /**
  * Configuration options for the ArchiveService
@@ -25,10 +53,23 @@ export interface ArchiveServiceOptions {
   storageBasePath: string;
   /** Default crawler configuration options */
   defaultCrawlerOptions?: Partial<CrawlerOptions>;
-  /** Maximum number of concurrent archiving operations */
+  /** Maximum number of concurrent archiving operations; further jobs wait in the queue */
   maxConcurrentArchives?: number;
+  /** Compares each finished archive with the previous version of its URL */
+  changeDetectionService?: ChangeDetectionService;
+  /** Tells webhook subscribers when archives are created and when they end */
+  webhookService?: WebhookService;
+  /** Indexes the text of each saved page for full-text search */
+  searchIndexService?: SearchIndexService;
 }
 
+/** Work time after which a job is stopped, keeping what it captured; time spent paused does not count */
+const ARCHIVE_TIME_LIMIT = 600000; // 10 minutes
+const CANCELLED_ASSETS_TIME_LIMIT = 120000; // 2 minutes
+
+/** Jobs interrupted this many times are given up on instead of restarted */
+const MAX_JOB_ATTEMPTS = 3;
+
 /**
  * Progress information for an active archive operation
  */
@@ -58,6 +99,10 @@ export interface ArchiveProgress {
   estimatedCompletion?: Date;
   /** Currently processing URL */
   currentUrl?: string;
+  /** Whether the job is paused */
+  paused: boolean;
+  /** Whether the job is waiting in the queue for a free slot */
+  queued: boolean;
 }
 
 /**
@@ -69,19 +114,42 @@ export interface ArchiveProgress {
 export class ArchiveService {
   private fileService: FileService;
   private crawlerService: CrawlerService;
+  private warcExportService: WarcExportService;
+  private archiveDiffService: ArchiveDiffService;
+  private warcImportService = new WarcImportService();
+  private robotsService: RobotsService;
   private activeArchives = new Map<string, ArchiveProgress>();
+  private crawlControls = new Map<string, CrawlControl>();
+  private jobQueue: JobQueue;
+  private runningJobs = new Set<string>();
+  private pendingArchives = new Map<string, Archive>();
+  private events = new ArchiveEventBus();
+  private changeDetectionService?: ChangeDetectionService;
+  private webhookService?: WebhookService;
+  private searchIndexService?: SearchIndexService;
   private maxConcurrentArchives: number;
   private defaultCrawlerOptions: CrawlerOptions;
 
   constructor(
     options: ArchiveServiceOptions,
     fileService?: FileService,
-    crawlerService?: CrawlerService
+    crawlerService?: CrawlerService,
+    jobQueue?: JobQueue
   ) {
     this.fileService = fileService || new FileService({
       baseStoragePath: options.storageBasePath,
     });
     this.crawlerService = crawlerService || new CrawlerService();
+    // Assets are checked against the robots.txt files the crawl already fetched
+    this.robotsService = this.crawlerService.robotsService;
+    this.warcExportService = new WarcExportService(this.fileService);
+    this.archiveDiffService = new ArchiveDiffService(this.fileService);
+    this.jobQueue = jobQueue || new JobQueue({
+      filePath: path.join(options.storageBasePath, 'jobs.json'),
+    });
+    this.changeDetectionService = options.changeDetectionService;
+    this.webhookService = options.webhookService;
+    this.searchIndexService = options.searchIndexService;
     this.maxConcurrentArchives = options.maxConcurrentArchives || 3;
     this.defaultCrawlerOptions = {
       maxDepth: 3, // Increased depth for more comprehensive archiving
@@ -96,19 +164,21 @@ export class ArchiveService {
    * Create a new archive for the given URL
    * 
    * This method initiates the archiving process by:
-   * 1. Validating the URL and checking concurrent limits
+   * 1. Validating the URL
    * 2. Creating archive metadata and storage structure
-   * 3. Starting the crawling and downloading process
+   * 3. Adding a job to the persistent queue, which starts crawling once a slot is free
    * 4. Tracking progress and handling errors
    * 
    * @param url - The URL to archive (must be valid HTTP/HTTPS)
    * @param options - Optional crawler configuration to override defaults
+   * @param priority - Queue priority; higher priorities run first
    * @returns Promise resolving to the created Archive object
-   * @throws Error if URL is invalid, concurrent limit reached, or archive already in progress
+   * @throws Error if URL is invalid or archive already in progress
    */
   async createArchive(
     url: string,
-    options?: Partial<CrawlerOptions>
+    options?: Partial<CrawlerOptions>,
+    priority: number = 0
   ): Promise<Archive> {
     // Validate URL
     const normalizedUrl = normalizeUrl(url);
@@ -121,13 +191,6 @@ export class ArchiveService {
       throw new Error(`Cannot extract domain from URL: ${url}`);
     }
 
-    // Check concurrent archive limit
-    if (this.activeArchives.size >= this.maxConcurrentArchives) {
-      throw new Error(
-        `Maximum concurrent archives limit reached (${this.maxConcurrentArchives}). Please wait for existing archives to complete.`
-      );
-    }
-
     // Check if archive for this URL is already in progress
     const existingArchive = Array.from(this.activeArchives.values()).find(
       progress => progress.url === normalizedUrl && progress.status === ArchiveStatus.IN_PROGRESS
@@ -136,6 +199,14 @@ export class ArchiveService {
       throw new Error(`Archive for ${normalizedUrl} is already in progress`);
     }
 
+    // Incremental archives build on an earlier version of the same URL
+    if (options?.incrementalFrom) {
+      const base = await this.getArchive(options.incrementalFrom).catch(() => null);
+      if (!base || base.url !== normalizedUrl) {
+        throw new Error(`Invalid incremental base: ${options.incrementalFrom} is not a version of ${normalizedUrl}`);
+      }
+    }
+
     // Get the next version number for this URL
     const latestVersion = await this.getLatestVersionNumber(normalizedUrl);
     const nextVersion = latestVersion + 1;
@@ -146,20 +217,7 @@ export class ArchiveService {
     archive.version = nextVersion;
 
     // Initialize progress tracking
-    const progress: ArchiveProgress = {
-      archiveId,
-      url: normalizedUrl,
-      status: ArchiveStatus.IN_PROGRESS,
-      progress: {
-        pagesDiscovered: 0,
-        pagesCrawled: 0,
-        assetsDownloaded: 0,
-        totalSize: 0,
-      },
-      errors: [],
-      startTime: new Date(),
-    };
-    this.activeArchives.set(archiveId, progress);
+    this.trackJob(archiveId, normalizedUrl);
 
     try {
       // Initialize storage
@@ -168,20 +226,125 @@ export class ArchiveService {
       // Save initial archive metadata
       await this.fileService.saveArchiveMetadata(archive);
 
-      // Start archiving process asynchronously
-      this.performArchiving(archive, options).catch(error => {
-        console.error(`Archive ${archiveId} failed:`, error);
-      });
+      // Queue the job; it starts right away if a slot is free
+      this.pendingArchives.set(archiveId, archive);
+      await this.jobQueue.add({ id: archiveId, url: normalizedUrl, priority, options });
+      this.notifyWebhooks('archive.created', archive);
+      this.startQueuedJobs();
 
       return archive;
     } catch (error) {
       // Clean up on initialization failure
       this.activeArchives.delete(archiveId);
+      this.crawlControls.delete(archiveId);
+      this.pendingArchives.delete(archiveId);
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to create archive: ${message}`);
     }
   }
 
+  /**
+   * Import a WARC or WACZ file made by another tool as a new archive
+   *
+   * Captures are stored like crawled content: assets are saved first, then pages are
+   * rewritten to point at them. The archive becomes the next version of its main page's
+   * URL, so it can be compared with crawled versions.
+   *
+   * @param fileName - Name of the uploaded file
+   * @param content - Content of the `.warc`, `.warc.gz` or `.wacz` file
+   * @returns Promise resolving to the imported Archive
+   * @throws Error if the file cannot be read or stored
+   */
+  async importArchive(fileName: string, content: Buffer): Promise<Archive> {
+    const startTime = Date.now();
+    let archiveId: string | undefined;
+
+    try {
+      const imported = this.warcImportService.parseFile(fileName, content);
+
+      const normalizedUrl = normalizeUrl(imported.url);
+      if (!normalizedUrl) {
+        throw new Error(`Invalid URL: ${imported.url}`);
+      }
+
+      const latestVersion = await this.getLatestVersionNumber(normalizedUrl);
+      archiveId = uuidv4();
+      const archive = createArchive(normalizedUrl, archiveId);
+      archive.version = latestVersion + 1;
+      archive.timestamp = imported.timestamp;
+      archive.importedFrom = fileName;
+
+      await this.fileService.initializeArchiveStorage(archiveId);
+
+      const errors = [...imported.errors];
+      const allAssets = imported.assets.map(({ asset }) => asset);
+      let totalSize = 0;
+
+      // Stylesheets go last, so the assets they reference already have local paths
+      const orderedAssets = [...imported.assets].sort(
+        (a, b) => Number(a.asset.type === AssetType.CSS) - Number(b.asset.type === AssetType.CSS)
+      );
+      for (const { asset, content: assetContent } of orderedAssets) {
+        try {
+          await this.storeAsset(asset, assetContent, asset.http, archiveId, allAssets);
+          totalSize += asset.size;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push({
+            timestamp: new Date(),
+            type: ErrorType.STORAGE_ERROR,
+            message: `Failed to store asset ${asset.originalUrl}: ${message}`,
+            url: asset.originalUrl,
+            recoverable: true,
+          });
+        }
+      }
+
+      const processedPages: ArchivedPage[] = [];
+      for (const page of imported.pages) {
+        try {
+          processedPages.push(await this.processPage(page, archiveId));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push({
+            timestamp: new Date(),
+            type: ErrorType.STORAGE_ERROR,
+            message: `Failed to process page ${page.url}: ${message}`,
+            url: page.url,
+            recoverable: false,
+          });
+        }
+      }
+
+      const finalArchive: Archive = {
+        ...archive,
+        status: errors.length > 0 ? ArchiveStatus.PARTIAL : ArchiveStatus.COMPLETED,
+        pages: processedPages,
+        errors,
+        metadata: {
+          pageCount: processedPages.length,
+          assetCount: allAssets.length,
+          totalSize,
+          crawlDuration: Date.now() - startTime,
+        },
+      };
+      await this.fileService.saveArchiveMetadata(finalArchive);
+      this.notifyWebhooks('archive.created', finalArchive);
+      this.notifyStatus(finalArchive);
+
+      console.log(`📦 Imported ${fileName}: ${processedPages.length} pages, ${allAssets.length} assets`);
+      return finalArchive;
+    } catch (error) {
+      // Leave no half-imported archive behind
+      if (archiveId) {
+        await this.fileService.deleteArchive(archiveId).catch(() => undefined);
+        await this.searchIndexService?.removeArchive(archiveId).catch(() => undefined);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to import archive: ${message}`);
+    }
+  }
+
   /**
    * Get archive by ID
    */
@@ -297,12 +460,135 @@ export class ArchiveService {
 
     try {
       await this.fileService.deleteArchive(archiveId);
+      await this.searchIndexService?.removeArchive(archiveId);
+      await this.jobQueue.remove(archiveId);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to delete archive: ${message}`);
     }
   }
 
+  /**
+   * List archive jobs, optionally filtered by state
+   */
+  getJobs(state?: JobState): ArchiveJob[] {
+    return this.jobQueue.list(state);
+  }
+
+  /**
+   * Load the persisted job queue and restart jobs interrupted by a restart
+   *
+   * Jobs that were running when the process stopped are queued again and continue from
+   * the pages they had crawled and their saved frontier. Archives left in progress
+   * without a job to finish them are marked as failed.
+   */
+  async restoreJobs(): Promise<void> {
+    const jobs = await this.jobQueue.load();
+
+    for (const job of jobs) {
+      if (job.state === JobState.DONE) {
+        continue;
+      }
+
+      if (job.state === JobState.RUNNING) {
+        if (job.attempts >= MAX_JOB_ATTEMPTS) {
+          console.warn(`⚠️ Giving up on archive ${job.id} after ${job.attempts} interrupted attempts`);
+          await this.jobQueue.markDone(job.id, ArchiveStatus.FAILED);
+          continue;
+        }
+        console.log(`🔁 Restarting interrupted archive ${job.id} (${job.url})`);
+        await this.jobQueue.requeue(job.id);
+      }
+
+      this.trackJob(job.id, job.url);
+    }
+
+    await this.failOrphanedArchives();
+    this.startQueuedJobs();
+  }
+
+  /**
+   * Cancel a running archive job
+   *
+   * The crawl and asset downloads stop cooperatively; whatever was captured so far is
+   * saved as a PARTIAL archive together with the remaining crawl frontier. The assets of
+   * pages crawled before the cancel are still downloaded unless the job is cancelled again.
+   */
+  async cancelArchive(archiveId: string): Promise<ArchiveProgress> {
+    const { progress, control } = await this.getRunningJob(archiveId);
+
+    control.cancel();
+    progress.paused = false;
+    this.events.publishProgress(progress);
+    console.log(`🛑 Cancelled archive ${archiveId}`);
+
+    // Jobs still waiting in the queue are finalized right away
+    if (progress.queued) {
+      await this.finishCancelledQueuedJob(archiveId, progress);
+    }
+
+    return progress;
+  }
+
+  /**
+   * Pause a running archive job and persist its crawl frontier
+   *
+   * The page or asset batch in flight finishes before the job stops.
+   */
+  async pauseArchive(archiveId: string): Promise<ArchiveProgress> {
+    const { progress, control } = await this.getRunningJob(archiveId);
+
+    control.pause();
+    progress.paused = true;
+    this.events.publishProgress(progress);
+    await this.fileService.saveFrontier(archiveId, control.getFrontier());
+    console.log(`⏸️ Paused archive ${archiveId}`);
+
+    return progress;
+  }
+
+  /**
+   * Resume a paused archive job
+   */
+  async resumeArchive(archiveId: string): Promise<ArchiveProgress> {
+    const { progress, control } = await this.getRunningJob(archiveId);
+
+    control.resume();
+    progress.paused = false;
+    this.events.publishProgress(progress);
+    console.log(`▶️ Resumed archive ${archiveId}`);
+
+    return progress;
+  }
+
+  /**
+   * Subscribe to progress, page, asset, error and status events of an active archive job
+   * @param lastEventId - ID of the last event a reconnecting client received
+   * @returns Function that removes the subscription, or null if the archive has no active job
+   */
+  subscribeToEvents(
+    archiveId: string,
+    listener: ArchiveEventListener,
+    lastEventId?: number
+  ): (() => void) | null {
+    const progress = this.activeArchives.get(archiveId);
+    if (!progress) {
+      return null;
+    }
+
+    return this.events.subscribe(archiveId, listener, {
+      lastEventId,
+      snapshot: () => ({
+        status: progress.status,
+        paused: progress.paused,
+        queued: progress.queued,
+        currentUrl: progress.currentUrl,
+        startTime: progress.startTime,
+        progress: { ...progress.progress },
+      }),
+    });
+  }
+
   /**
    * Get progress information for an active archive
    */
@@ -317,6 +603,19 @@ export class ArchiveService {
     return Array.from(this.activeArchives.values());
   }
 
+  /**
+   * Get the storage used by an archive
+   *
+   * Files shared with other versions through the blob store count towards both
+   * archives' logical size, but are only stored once.
+   */
+  async getArchiveSize(archiveId: string): Promise<ArchiveSize> {
+    if (!(await this.fileService.archiveExists(archiveId))) {
+      throw new Error(`Archive not found: ${archiveId}`);
+    }
+    return await this.fileService.getArchiveSize(archiveId);
+  }
+
   /**
    * Check if an archive exists
    */
@@ -356,20 +655,25 @@ export class ArchiveService {
         // Rewrite URLs in HTML content to point to archived assets
         const rewrittenHtml = this.fileService.rewriteUrls(htmlContent, archive.url, archiveId);
         
+        const page = archive.pages.find(page => page.path === pagePath || `pages/${page.path}` === pagePath);
         return {
           content: rewrittenHtml,
-          contentType: 'text/html; charset=utf-8',
+          contentType: this.getOriginalContentType(page?.http, 'text/html; charset=utf-8', true),
         };
       }
 
+      // Serve assets with the Content-Type their server sent
+      const asset = this.findAsset(archive, contentPath);
+
       // Handle CSS files - need URL rewriting
       // Check for CSS files by extension OR if they're in the css directory
-      const isCssFile = contentPath.endsWith('.css') || contentPath.includes('/assets/css/');
+      const isCssFile = contentPath.endsWith('.css') || contentPath.includes('/assets/css/') || asset?.type === AssetType.CSS;
       if (isCssFile) {
         const cssContent = await this.fileService.getAsset(contentPath, archiveId);
         
-        // Force CSS content type for files in css directory
-        const contentType = contentPath.includes('/assets/css/') ? 'text/css' : this.getContentTypeFromPath(contentPath);
+        // Without an original Content-Type, files in the css directory are served as CSS
+        const fallbackType = contentPath.includes('/assets/css/') ? 'text/css' : this.getContentTypeFromPath(contentPath);
+        const contentType = this.getOriginalContentType(asset?.http, asset?.contentType || fallbackType, true);
         
         // Rewrite URLs in CSS content to point to archived assets
         const cssString = cssContent.toString('utf-8');
@@ -383,7 +687,7 @@ export class ArchiveService {
 
       // Handle other asset requests (images, JS, fonts, etc.)
       const assetContent = await this.fileService.getAsset(contentPath, archiveId);
-      const contentType = this.getContentTypeFromPath(contentPath);
+      const contentType = this.getOriginalContentType(asset?.http, asset?.contentType || this.getContentTypeFromPath(contentPath));
       
       return {
         content: assetContent,
@@ -395,8 +699,286 @@ export class ArchiveService {
     }
   }
 
+  /**
+   * Prepare a WARC 1.1 export of a finished archive
+   *
+   * Validation happens up front so callers can report errors before streaming.
+   * @returns File name for the export and a function that writes it to a stream
+   * @throws Error if the archive does not exist or is still in progress
+   */
+  async prepareWarcExport(
+    archiveId: string
+  ): Promise<{ fileName: string; writeTo: (output: NodeJS.WritableStream) => Promise<void> }> {
+    const archive = await this.getArchive(archiveId);
+    if (archive.status === ArchiveStatus.IN_PROGRESS) {
+      throw new Error(`Archive ${archiveId} is still in progress`);
+    }
+
+    return {
+      fileName: this.warcExportService.getFileName(archive),
+      writeTo: output => this.warcExportService.exportArchive(archive, output),
+    };
+  }
+
+  /**
+   * Compare two archives page by page and asset by asset
+   * @param pagePath - URL path of a single page to compare, such as `/about`
+   * @throws Error if an archive does not exist or is still in progress, or no page has the path
+   */
+  async diffArchives(fromId: string, toId: string, pagePath?: string): Promise<ArchiveDiff> {
+    const from = await this.getArchive(fromId);
+    const to = await this.getArchive(toId);
+    for (const archive of [from, to]) {
+      if (archive.status === ArchiveStatus.IN_PROGRESS) {
+        throw new Error(`Archive ${archive.id} is still in progress`);
+      }
+    }
+
+    return this.archiveDiffService.diffArchives(from, to, pagePath);
+  }
+
   // Private methods
 
+  /**
+   * Start queued jobs while there are free slots
+   */
+  private startQueuedJobs(): void {
+    while (this.runningJobs.size < this.maxConcurrentArchives) {
+      const job = this.jobQueue.next();
+      if (!job || this.runningJobs.has(job.id)) {
+        return;
+      }
+
+      this.runningJobs.add(job.id);
+      this.runJob(job)
+        .catch(error => {
+          console.error(`Archive ${job.id} failed:`, error);
+        })
+        .finally(() => {
+          this.runningJobs.delete(job.id);
+          this.startQueuedJobs();
+        });
+    }
+  }
+
+  /**
+   * Run a queued job to completion and record its outcome
+   */
+  private async runJob(job: ArchiveJob): Promise<void> {
+    const markRunning = this.jobQueue.markRunning(job.id);
+    const progress = this.activeArchives.get(job.id) || this.trackJob(job.id, job.url);
+    progress.queued = false;
+    progress.startTime = new Date();
+    this.events.publishProgress(progress);
+    await markRunning;
+
+    try {
+      const archive = this.pendingArchives.get(job.id) || await this.fileService.loadArchiveMetadata(job.id);
+      this.pendingArchives.delete(job.id);
+
+      await this.performArchiving({ ...archive, status: ArchiveStatus.IN_PROGRESS }, job.options);
+    } catch (error) {
+      progress.status = ArchiveStatus.FAILED;
+      this.crawlControls.delete(job.id);
+      this.publishFinalStatus(progress);
+      this.scheduleProgressCleanup(job.id);
+      this.fileService.loadArchiveMetadata(job.id)
+        .then(archive => this.notifyStatus({ ...archive, status: ArchiveStatus.FAILED, errors: [...archive.errors, ...progress.errors] }))
+        .catch(() => undefined);
+      throw error;
+    } finally {
+      await this.jobQueue.markDone(job.id, progress.status);
+    }
+  }
+
+  /**
+   * Set up progress tracking and a crawl control for a job
+   */
+  private trackJob(archiveId: string, url: string): ArchiveProgress {
+    const progress: ArchiveProgress = {
+      archiveId,
+      url,
+      status: ArchiveStatus.IN_PROGRESS,
+      progress: {
+        pagesDiscovered: 0,
+        pagesCrawled: 0,
+        assetsDownloaded: 0,
+        totalSize: 0,
+      },
+      errors: [],
+      startTime: new Date(),
+      paused: false,
+      queued: true,
+    };
+    this.activeArchives.set(archiveId, progress);
+    this.crawlControls.set(archiveId, new CrawlControl());
+    return progress;
+  }
+
+  /**
+   * Finalize a job that was cancelled before it left the queue
+   */
+  private async finishCancelledQueuedJob(archiveId: string, progress: ArchiveProgress): Promise<void> {
+    // Leave the queue first so the job cannot be started while we finalize it
+    const markDone = this.jobQueue.markDone(archiveId, ArchiveStatus.PARTIAL);
+    progress.status = ArchiveStatus.PARTIAL;
+    this.crawlControls.delete(archiveId);
+    this.publishFinalStatus(progress, { cancelled: true });
+    this.scheduleProgressCleanup(archiveId);
+
+    const archive = this.pendingArchives.get(archiveId) || await this.fileService.loadArchiveMetadata(archiveId);
+    this.pendingArchives.delete(archiveId);
+    const finalArchive: Archive = { ...archive, status: ArchiveStatus.PARTIAL, cancelled: true };
+    await this.fileService.saveArchiveMetadata(finalArchive);
+    this.notifyStatus(finalArchive);
+    await markDone;
+  }
+
+  /**
+   * Mark archives stuck in progress without an active job as failed
+   */
+  private async failOrphanedArchives(): Promise<void> {
+    const archives = await this.getArchives();
+
+    for (const archive of archives) {
+      if (archive.status !== ArchiveStatus.IN_PROGRESS || this.activeArchives.has(archive.id)) {
+        continue;
+      }
+
+      console.warn(`⚠️ Archive ${archive.id} was interrupted and has no job to resume, marking it as failed`);
+      const failedArchive: Archive = {
+        ...archive,
+        status: ArchiveStatus.FAILED,
+        errors: [
+          ...archive.errors,
+          {
+            timestamp: new Date(),
+            type: ErrorType.NETWORK_ERROR,
+            message: 'Archive was interrupted by a server restart',
+            recoverable: false,
+          },
+        ],
+      };
+      await this.fileService.saveArchiveMetadata(failedArchive);
+      this.notifyStatus(failedArchive);
+    }
+  }
+
+  /**
+   * Keep progress info for a minute after a job ends so clients can see the outcome
+   */
+  private scheduleProgressCleanup(archiveId: string): void {
+    setTimeout(() => {
+      this.activeArchives.delete(archiveId);
+      this.events.clear(archiveId);
+    }, 60000);
+  }
+
+  /**
+   * Record an error on a job and publish it to event subscribers
+   */
+  private recordError(progress: ArchiveProgress, error: ArchiveError): void {
+    progress.errors.push(error);
+    this.events.publish(progress.archiveId, 'error', error);
+  }
+
+  /**
+   * Publish the final progress and status of a job that has ended
+   */
+  private publishFinalStatus(progress: ArchiveProgress, archive: Partial<Archive> = {}): void {
+    this.events.publishProgress(progress);
+    this.events.publish(progress.archiveId, 'status', {
+      status: progress.status,
+      cancelled: archive.cancelled,
+      metadata: archive.metadata || {
+        pageCount: progress.progress.pagesCrawled,
+        assetCount: progress.progress.assetsDownloaded,
+        totalSize: progress.progress.totalSize,
+        crawlDuration: Date.now() - progress.startTime.getTime(),
+      },
+      errorCount: progress.errors.length,
+    });
+  }
+
+  /**
+   * Send an archive event to webhook subscribers in the background
+   */
+  private notifyWebhooks(event: WebhookEvent, archive: Archive): void {
+    this.webhookService?.dispatch(event, archive).catch(error => {
+      console.warn(`Failed to send ${event} webhooks for archive ${archive.id}:`, error);
+    });
+  }
+
+  /**
+   * Send the event matching the final status of an archive to webhook subscribers
+   */
+  private notifyStatus(archive: Archive): void {
+    const event = getStatusEvent(archive.status);
+    if (event) {
+      this.notifyWebhooks(event, archive);
+    }
+  }
+
+  /**
+   * Compare a finished archive with the latest earlier version of its URL, if any, and
+   * publish the outcome; a failed comparison does not fail the archive
+   */
+  private async detectChanges(archive: Archive): Promise<void> {
+    if (!this.changeDetectionService) {
+      return;
+    }
+
+    try {
+      const versions = await this.getArchiveVersions(archive.url);
+      const previous = versions.find(version =>
+        version.version < archive.version &&
+        (version.status === ArchiveStatus.COMPLETED || version.status === ArchiveStatus.PARTIAL) &&
+        !version.cancelled
+      );
+      if (!previous) {
+        return;
+      }
+
+      const summary = await this.changeDetectionService.detectChanges(previous, archive);
+      if (summary) {
+        this.events.publish(archive.id, 'change', summary);
+      }
+    } catch (error) {
+      console.warn(`Failed to detect changes in archive ${archive.id}:`, error);
+    }
+  }
+
+  /**
+   * Load what an interrupted crawl of an archive left behind, if anything
+   */
+  private async loadCrawlCheckpoint(archiveId: string): Promise<CrawlCheckpoint | undefined> {
+    const pages = await this.fileService.loadCrawledPages(archiveId);
+    if (pages.length === 0) {
+      return undefined;
+    }
+
+    const frontier = await this.fileService.loadFrontier(archiveId);
+    console.log(`♻️ Resuming archive ${archiveId} from ${pages.length} crawled pages`);
+    return { pages, frontier };
+  }
+
+  /**
+   * Get the progress and control of an archive job that is still running
+   */
+  private async getRunningJob(archiveId: string): Promise<{ progress: ArchiveProgress; control: CrawlControl }> {
+    const progress = this.activeArchives.get(archiveId);
+    const control = this.crawlControls.get(archiveId);
+
+    if (!progress || !control || progress.status !== ArchiveStatus.IN_PROGRESS || control.cancelled) {
+      if (!progress && !(await this.fileService.archiveExists(archiveId))) {
+        throw new Error(`Archive not found: ${archiveId}`);
+      }
+      throw new Error(`Archive ${archiveId} is not in progress`);
+    }
+
+    return { progress, control };
+  }
+
   /**
    * Perform the actual archiving process
    */
@@ -411,39 +993,65 @@ export class ArchiveService {
       throw new Error(`Archive progress not found for ${archiveId}`);
     }
 
+    const control = this.crawlControls.get(archiveId) || new CrawlControl();
+    let assetControl = control;
+    let scope: CrawlScopeReport | undefined;
+
     try {
       // Merge crawler options
       const crawlerOptions: CrawlerOptions = {
         ...this.defaultCrawlerOptions,
         ...options,
       };
+      const scopeMatcher = new CrawlScopeMatcher(archive.url, crawlerOptions.scope);
+      scope = scopeMatcher.describe();
+      const baseline = crawlerOptions.incrementalFrom
+        ? new CaptureBaseline(await this.getArchive(crawlerOptions.incrementalFrom), this.fileService)
+        : undefined;
 
-      // Set up a timeout for the entire archiving process (10 minutes max)
-      const archiveTimeout = 600000; // 10 minutes
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error('Archive process timed out after 10 minutes'));
-        }, archiveTimeout);
-      });
+      // Stop the job after 10 minutes of work; it keeps what it captured, like a cancelled job
+      control.setTimeLimit(ARCHIVE_TIME_LIMIT);
+
+      // Continue a crawl that a restart interrupted instead of starting over
+      const resumeFrom = await this.loadCrawlCheckpoint(archiveId);
+      let checkpointWrites = Promise.resolve();
 
       // Initialize crawler before starting
       await this.crawlerService.initialize();
       
-      // Start crawling with progress updates and timeout
-      const crawlResult = await Promise.race([
-        this.crawlerService.crawlSite(archive.url, crawlerOptions, (crawlProgress) => {
-          // Update progress in real-time
-          progress.progress.pagesDiscovered = crawlProgress.pagesFound;
-          progress.progress.pagesCrawled = crawlProgress.pagesCrawled;
-          progress.currentUrl = crawlProgress.currentUrl;
-          console.log(`Progress: ${crawlProgress.pagesCrawled}/${crawlProgress.pagesFound} pages crawled`);
-        }),
-        timeoutPromise
-      ]);
+      // Start crawling with progress updates
+      const crawlResult = await this.crawlerService.crawlSite(archive.url, crawlerOptions, (crawlProgress) => {
+        // Update progress in real-time
+        progress.progress.pagesDiscovered = crawlProgress.pagesFound;
+        progress.progress.pagesCrawled = crawlProgress.pagesCrawled;
+        progress.currentUrl = crawlProgress.currentUrl;
+        console.log(`Progress: ${crawlProgress.pagesCrawled}/${crawlProgress.pagesFound} pages crawled`);
+
+        const { crawledPage, error } = crawlProgress;
+        if (crawledPage) {
+          this.events.publish(archiveId, 'page', {
+            url: crawledPage.url,
+            title: crawledPage.title,
+            depth: crawledPage.depth,
+            referrer: crawledPage.referrer,
+          });
+          checkpointWrites = checkpointWrites
+            .then(() => this.fileService.appendCrawledPage(archiveId, crawledPage))
+            .catch(error => console.warn(`Failed to checkpoint page ${crawledPage.url} of archive ${archiveId}:`, error));
+        }
+        if (error) {
+          this.events.publish(archiveId, 'error', error);
+        }
+        this.events.publishProgress(progress);
+      }, control, baseline, resumeFrom);
+      await checkpointWrites;
 
       // Update progress
       progress.progress.pagesDiscovered = crawlResult.pages.length;
+      progress.currentUrl = undefined;
+      // Crawl errors were already published as they happened
       progress.errors.push(...crawlResult.errors);
+      this.events.publishProgress(progress);
 
       // Collect all assets first
       const allAssets: Asset[] = [];
@@ -451,20 +1059,36 @@ export class ArchiveService {
         allAssets.push(...page.assets);
       }
 
+      // Keep the remaining frontier of paused or cancelled crawls so they can be continued
+      if (control.interrupted) {
+        await this.fileService.saveFrontier(archiveId, crawlResult.cancelled ? crawlResult.frontier : []);
+      }
+
+      // The pages captured before a cancel still need their assets. They are downloaded
+      // under a control of their own, which a second cancel stops
+      if (control.cancelled) {
+        assetControl = new CrawlControl();
+        assetControl.setTimeLimit(CANCELLED_ASSETS_TIME_LIMIT);
+        this.crawlControls.set(archiveId, assetControl);
+      }
+
       // Download and save assets first (this sets the localPath for each asset)
-      await this.downloadAssets(allAssets, archiveId, progress);
+      await this.downloadAssets(
+        crawlResult.pages, allAssets, archiveId, progress, assetControl, crawlerOptions, scopeMatcher, crawlResult.skippedUrls, baseline
+      );
 
       // Now process and save each page with correct asset mappings
       const processedPages: ArchivedPage[] = [];
       for (const page of crawlResult.pages) {
         try {
-          const processedPage = await this.processPage(page, archiveId);
+          const processedPage = await this.processPage(page, archiveId, crawlerOptions);
           processedPages.push(processedPage);
           
           progress.progress.pagesCrawled++;
+          this.events.publishProgress(progress);
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
-          progress.errors.push({
+          this.recordError(progress, {
             timestamp: new Date(),
             type: ErrorType.STORAGE_ERROR,
             message: `Failed to process page ${page.url}: ${message}`,
@@ -474,25 +1098,46 @@ export class ArchiveService {
         }
       }
 
+      if (control.timedOut) {
+        this.recordError(progress, {
+          timestamp: new Date(),
+          type: ErrorType.TIMEOUT_ERROR,
+          message: `Archive partially completed due to timeout: Archive process timed out after ${ARCHIVE_TIME_LIMIT / 60000} minutes`,
+          recoverable: false,
+        });
+      }
+
       // Update archive with final results
       const finalArchive: Archive = {
         ...archive,
-        status: progress.errors.length > 0 ? ArchiveStatus.PARTIAL : ArchiveStatus.COMPLETED,
+        status: control.cancelled || progress.errors.length > 0 ? ArchiveStatus.PARTIAL : ArchiveStatus.COMPLETED,
+        cancelled: (control.cancelled && !control.timedOut) || undefined,
         pages: processedPages,
         errors: progress.errors,
+        skippedUrls: crawlResult.skippedUrls,
         metadata: {
           pageCount: processedPages.length,
           assetCount: allAssets.length,
           totalSize: progress.progress.totalSize,
           crawlDuration: crawlResult.duration,
+          scope,
         },
+        incremental: baseline && this.createIncrementalReport(baseline, processedPages, !crawlResult.cancelled),
       };
 
       // Save final archive metadata
       await this.fileService.saveArchiveMetadata(finalArchive);
 
+      // Cancelled crawls are incomplete, so comparing them would report missing pages as removed
+      if (!control.cancelled) {
+        await this.detectChanges(finalArchive);
+      }
+
       // Update progress status
       progress.status = finalArchive.status;
+      progress.paused = false;
+      this.publishFinalStatus(progress, finalArchive);
+      this.notifyStatus(finalArchive);
 
     } catch (error) {
       // Handle archiving failure
@@ -502,7 +1147,7 @@ export class ArchiveService {
       
       // If it's a timeout, mark as partial instead of failed
       progress.status = isTimeout ? ArchiveStatus.PARTIAL : ArchiveStatus.FAILED;
-      progress.errors.push({
+      this.recordError(progress, {
         timestamp: new Date(),
         type: isTimeout ? ErrorType.TIMEOUT_ERROR : ErrorType.NETWORK_ERROR,
         message: isTimeout ? 
@@ -522,33 +1167,56 @@ export class ArchiveService {
             assetCount: progress.progress.assetsDownloaded,
             totalSize: progress.progress.totalSize,
             crawlDuration: Date.now() - progress.startTime.getTime(),
+            scope,
           },
         };
         await this.fileService.saveArchiveMetadata(finalArchive);
+        this.publishFinalStatus(progress, finalArchive);
+        this.notifyStatus(finalArchive);
       } catch (saveError) {
         console.error(`Failed to save archive state:`, saveError);
+        this.publishFinalStatus(progress);
+        this.notifyStatus({ ...archive, status: progress.status, errors: progress.errors });
       }
     } finally {
+      control.clearTimeLimit();
+      assetControl.clearTimeLimit();
+      this.crawlControls.delete(archiveId);
+      await this.fileService.clearCrawlCheckpoint(archiveId).catch(error => {
+        console.warn(`Failed to clear crawl checkpoint of archive ${archiveId}:`, error);
+      });
+
       // Clean up active archive tracking
-      setTimeout(() => {
-        this.activeArchives.delete(archiveId);
-      }, 60000); // Keep progress info for 1 minute after completion
+      this.scheduleProgressCleanup(archiveId);
     }
   }
 
   /**
    * Process a single page: save HTML and extract assets
    */
-  private async processPage(page: ArchivedPage, archiveId: string): Promise<ArchivedPage> {
+  private async processPage(page: ArchivedPage, archiveId: string, options?: Partial<CrawlerOptions>): Promise<ArchivedPage> {
     // Use the actual HTML content from the crawler, or fallback to a basic page
     const htmlContent = page.htmlContent || `<!DOCTYPE html><html><head><title>${page.title}</title></head><body><h1>Page: ${page.url}</h1><p>Content not available</p></body></html>`;
     
     // Rewrite URLs in HTML content to point to archived assets
-    const rewrittenHtml = await this.rewriteHtmlUrls(htmlContent, page, archiveId);
+    const rewrittenHtml = await this.rewriteHtmlUrls(htmlContent, page, archiveId, options);
     
     // Save rewritten HTML content
     await this.fileService.saveHtml(rewrittenHtml, page.path, archiveId);
 
+    // A page that cannot be indexed is still archived, it just won't turn up in searches
+    if (this.searchIndexService) {
+      await this.searchIndexService.indexPage(archiveId, page, rewrittenHtml).catch(error => {
+        console.warn(`Failed to index page ${page.url} of archive ${archiveId}:`, error);
+      });
+    }
+
+    // Keep the page as received for WARC export
+    if (page.http && page.htmlContent !== undefined) {
+      const bodyPath = await this.fileService.saveResponseBody(page.url, Buffer.from(page.htmlContent, 'utf-8'), archiveId);
+      page.http = { ...page.http, bodyPath };
+    }
+
     // Remove htmlContent from the page object to avoid storing it in metadata
     const { htmlContent: _, ...pageWithoutHtml } = page;
     return pageWithoutHtml;
@@ -557,7 +1225,12 @@ export class ArchiveService {
   /**
    * Rewrite URLs in HTML content to point to archived assets
    */
-  private async rewriteHtmlUrls(htmlContent: string, page: ArchivedPage, archiveId: string): Promise<string> {
+  private async rewriteHtmlUrls(
+    htmlContent: string,
+    page: ArchivedPage,
+    archiveId: string,
+    options?: Partial<CrawlerOptions>
+  ): Promise<string> {
     const { UrlRewriter } = await import('../utils/url-rewriter');
     
     // Create asset mappings for this page
@@ -571,6 +1244,8 @@ export class ArchiveService {
     const rewriter = new UrlRewriter({
       archiveId,
       baseUrl: page.url,
+      responsiveImages: options?.responsiveImages,
+      promoteLazyImages: options?.promoteLazyImages,
     });
     
     // Add asset mappings
@@ -608,104 +1283,271 @@ export class ArchiveService {
 
   /**
    * Download and save all assets
+   *
+   * Stylesheets are stored last: the resources they reference are downloaded first,
+   * recursively through `@import`s, so their URLs can be rewritten to the stored copies.
+   * Resources found this way are added to `assets` and to the pages using the stylesheet,
+   * unless they are outside the asset `scope` or disallowed by robots.txt; the latter are added
+   * to `skippedUrls`. Requests are scheduled per host with the crawl's politeness settings. With a
+   * `baseline`, assets that have not changed since the earlier version are reused from it.
    */
   private async downloadAssets(
+    pages: ArchivedPage[],
     assets: Asset[],
     archiveId: string,
-    progress: ArchiveProgress
+    progress: ArchiveProgress,
+    control: CrawlControl,
+    crawlerOptions: CrawlerOptions,
+    scope: CrawlScopeMatcher,
+    skippedUrls: SkippedUrl[],
+    baseline?: CaptureBaseline
   ): Promise<void> {
-    const downloadPromises = assets.map(async (asset) => {
+    const resolver = new CssDependencyResolver(assets);
+    const scheduler = new RequestScheduler({
+      concurrencyPerHost: crawlerOptions.maxConcurrencyPerHost,
+      minDelay: crawlerOptions.minRequestDelay,
+      maxRetries: crawlerOptions.maxRetries,
+      getCrawlDelay: crawlerOptions.respectRobots ? url => this.robotsService.getCrawlDelay(url) : undefined,
+    });
+    const stylesheets: Array<{ asset: Asset; content: Buffer; http: HttpCapture }> = [];
+    let discovered: Asset[] = [];
+
+    const completeAsset = (asset: Asset) => {
+      progress.progress.assetsDownloaded++;
+      progress.progress.totalSize += asset.size;
+      this.events.publish(archiveId, 'asset', {
+        url: asset.originalUrl,
+        type: asset.type,
+        size: asset.size,
+        failed: false,
+      });
+      this.events.publishProgress(progress);
+
+      console.log(`✅ Downloaded asset: ${asset.originalUrl} (${asset.size} bytes) -> ${asset.localPath}`);
+    };
+
+    const failAsset = async (asset: Asset, error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Failed to download asset ${asset.originalUrl}:`, message);
+
+      this.recordError(progress, {
+        timestamp: new Date(),
+        type: ErrorType.STORAGE_ERROR,
+        message: `Failed to download asset ${asset.originalUrl}: ${message}`,
+        url: asset.originalUrl,
+        recoverable: true,
+      });
+      this.events.publish(archiveId, 'asset', {
+        url: asset.originalUrl,
+        type: asset.type,
+        size: 0,
+        failed: true,
+      });
+
+      // Create fallback content for failed downloads
+      const fallbackContent = Buffer.from(`/* Failed to load asset: ${asset.originalUrl} */`);
       try {
-        console.log(`📥 Downloading asset: ${asset.originalUrl}`);
-        
-        // Actually download the asset content
-        let assetContent = await this.downloadAssetContent(asset.originalUrl);
-        
-        // If it's a CSS file, rewrite URLs within it
-        if (asset.type === AssetType.CSS && assetContent.length > 0) {
-          try {
-            const cssText = assetContent.toString('utf-8');
-            const rewrittenCss = await this.rewriteCssUrls(cssText, asset.originalUrl, archiveId, assets);
-            assetContent = Buffer.from(rewrittenCss, 'utf-8');
-            console.log(`🎨 Rewrote CSS URLs in: ${asset.originalUrl}`);
-          } catch (error) {
-            console.warn(`⚠️ Failed to rewrite CSS URLs in ${asset.originalUrl}:`, error);
-          }
-        }
-        
         const localPath = await this.fileService.saveAsset(
           asset.originalUrl,
-          assetContent,
+          fallbackContent,
           archiveId,
           asset.type
         );
-
-        // Update asset with actual local path and size
         asset.localPath = localPath;
-        asset.size = assetContent.length;
-        
-        progress.progress.assetsDownloaded++;
-        progress.progress.totalSize += asset.size;
-        
-        console.log(`✅ Downloaded asset: ${asset.originalUrl} (${assetContent.length} bytes) -> ${localPath}`);
+        asset.size = fallbackContent.length;
+      } catch (fallbackError) {
+        console.error(`❌ Failed to save fallback content for ${asset.originalUrl}:`, fallbackError);
+      }
+    };
+
+    const downloadAsset = async (asset: Asset) => {
+      try {
+        console.log(`📥 Downloading asset: ${asset.originalUrl}`);
 
+        // Actually download the asset content
+        const download = await this.downloadAssetContent(asset.originalUrl, scheduler, control, baseline);
+        asset.change = download.change;
+
+        if (asset.type === AssetType.CSS) {
+          stylesheets.push({ asset, ...download });
+          const dependencies: Asset[] = [];
+          for (const dependency of resolver.resolve(asset, download.content.toString('utf-8'))) {
+            if (await this.isDependencyAllowed(dependency.originalUrl, asset.originalUrl, scope, crawlerOptions, skippedUrls)) {
+              dependencies.push(dependency);
+            }
+          }
+          this.attachDependencies(pages, asset, dependencies);
+          discovered.push(...dependencies);
+          return;
+        }
+
+        await this.storeAsset(asset, download.content, download.http, archiveId, assets);
+        completeAsset(asset);
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        console.error(`❌ Failed to download asset ${asset.originalUrl}:`, message);
-        
-        progress.errors.push({
-          timestamp: new Date(),
-          type: ErrorType.STORAGE_ERROR,
-          message: `Failed to download asset ${asset.originalUrl}: ${message}`,
-          url: asset.originalUrl,
-          recoverable: true,
-        });
-        
-        // Create fallback content for failed downloads
-        const fallbackContent = Buffer.from(`/* Failed to load asset: ${asset.originalUrl} */`);
-        try {
-          const localPath = await this.fileService.saveAsset(
-            asset.originalUrl,
-            fallbackContent,
-            archiveId,
-            asset.type
-          );
-          asset.localPath = localPath;
-          asset.size = fallbackContent.length;
-        } catch (fallbackError) {
-          console.error(`❌ Failed to save fallback content for ${asset.originalUrl}:`, fallbackError);
+        // Downloads aborted by a cancel are skipped, not failed
+        if (control.cancelled) {
+          return;
         }
+        await failAsset(asset, error);
+      }
+    };
+
+    // Download in rounds: each round fetches what the stylesheets of the previous one referenced
+    let queue = [...assets];
+    while (queue.length > 0) {
+      // The scheduler limits how many of these run at once for each host
+      await Promise.allSettled(queue.map(downloadAsset));
+      if (control.cancelled) {
+        console.log(`🛑 Skipped remaining asset downloads for cancelled archive ${archiveId}`);
+      }
+
+      if (discovered.length > 0) {
+        console.log(`🎨 Found ${discovered.length} resources referenced from stylesheets`);
+      }
+      assets.push(...discovered);
+      queue = control.cancelled ? [] : discovered;
+      discovered = [];
+    }
+
+    // Every dependency now has its local path, so the stylesheets can be rewritten. Stylesheets
+    // can import each other, so they all get their paths before the first one is rewritten
+    for (const { asset } of stylesheets) {
+      asset.localPath = this.fileService.getAssetPath(asset.originalUrl, asset.type);
+    }
+    for (const { asset, content, http } of stylesheets) {
+      try {
+        await this.storeAsset(asset, content, http, archiveId, assets);
+        completeAsset(asset);
+      } catch (error) {
+        await failAsset(asset, error);
       }
+    }
+  }
+
+  /**
+   * Check a resource found in a stylesheet against the asset scope and robots.txt, like the
+   * assets found in pages, recording it as skipped when robots.txt disallows it
+   */
+  private async isDependencyAllowed(
+    url: string,
+    stylesheetUrl: string,
+    scope: CrawlScopeMatcher,
+    crawlerOptions: CrawlerOptions,
+    skippedUrls: SkippedUrl[]
+  ): Promise<boolean> {
+    if (!scope.isAssetAllowed(url)) {
+      return false;
+    }
+    if (!crawlerOptions.respectRobots) {
+      return true;
+    }
+
+    const match = await this.robotsService.isAllowed(url);
+    if (match.allowed) {
+      return true;
+    }
+
+    console.log(`🤖 Skipping ${url} (robots.txt ${match.rule})`);
+    skippedUrls.push({
+      url,
+      reason: SkipReason.ROBOTS_DISALLOWED,
+      rule: match.rule,
+      sourceUrl: stylesheetUrl,
+      timestamp: new Date(),
     });
+    return false;
+  }
+
+  /**
+   * Add resources found in a stylesheet to the pages that use the stylesheet
+   */
+  private attachDependencies(pages: ArchivedPage[], stylesheet: Asset, dependencies: Asset[]): void {
+    if (dependencies.length === 0) {
+      return;
+    }
+    for (const page of pages) {
+      if (page.assets.includes(stylesheet)) {
+        page.assets.push(...dependencies);
+      }
+    }
+  }
+
+  /**
+   * Save an asset's content, rewriting URLs in stylesheets, and keep the content as
+   * received for WARC export
+   */
+  private async storeAsset(
+    asset: Asset,
+    content: Buffer,
+    http: HttpCapture | undefined,
+    archiveId: string,
+    allAssets: Asset[]
+  ): Promise<void> {
+    let assetContent = content;
+
+    // If it's a CSS file, rewrite URLs within it
+    if (asset.type === AssetType.CSS && assetContent.length > 0) {
+      try {
+        const cssText = assetContent.toString('utf-8');
+        const rewrittenCss = await this.rewriteCssUrls(cssText, asset.originalUrl, archiveId, allAssets);
+        assetContent = Buffer.from(rewrittenCss, 'utf-8');
+        console.log(`🎨 Rewrote CSS URLs in: ${asset.originalUrl}`);
+      } catch (error) {
+        console.warn(`⚠️ Failed to rewrite CSS URLs in ${asset.originalUrl}:`, error);
+      }
+    }
+
+    const localPath = await this.fileService.saveAsset(
+      asset.originalUrl,
+      assetContent,
+      archiveId,
+      asset.type
+    );
 
-    // Wait for all downloads to complete (with some concurrency control)
-    const batchSize = 5;
-    for (let i = 0; i < downloadPromises.length; i += batchSize) {
-      const batch = downloadPromises.slice(i, i + batchSize);
-      await Promise.allSettled(batch);
+    // Update asset with actual local path, size, type and HTTP exchange
+    asset.localPath = localPath;
+    asset.size = assetContent.length;
+    asset.contentType = getResponseHeader(http, 'Content-Type') || asset.contentType;
+    if (http) {
+      const bodyPath = await this.fileService.saveResponseBody(asset.originalUrl, content, archiveId);
+      asset.http = { ...http, bodyPath };
     }
   }
 
   /**
-   * Download actual asset content from URL
+   * Download actual asset content from URL, waiting while the archive is paused
+   *
+   * With a baseline, the request is conditional and a 304 response reuses the earlier capture.
    */
-  private async downloadAssetContent(url: string): Promise<Buffer> {
+  private async downloadAssetContent(
+    url: string,
+    scheduler: RequestScheduler,
+    control: CrawlControl,
+    baseline?: CaptureBaseline
+  ): Promise<{ content: Buffer; http: HttpCapture; change?: ChangeStatus }> {
+    let redirectRecorder = createRedirectRecorder(url);
+    let response: AxiosResponse;
     try {
-      const response = await axios.get(url, {
-        responseType: 'arraybuffer',
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; WebArchiver/1.0; +https://webarchiver.com/bot)',
-          'Accept': '*/*',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-        },
-        maxRedirects: 5,
-        validateStatus: (status) => status < 400,
-      });
-      
-      return Buffer.from(response.data);
+      response = await scheduler.schedule(url, async () => {
+        await control.waitWhilePaused();
+        redirectRecorder = createRedirectRecorder(url);
+        return axios.get(url, {
+          responseType: 'arraybuffer',
+          timeout: 15000,
+          signal: control.signal,
+          beforeRedirect: redirectRecorder.beforeRedirect,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; WebArchiver/1.0; +https://webarchiver.com/bot)',
+            'Accept': '*/*',
+            'Accept-Language': 'en-US,en;q=0.5',
+            'Accept-Encoding': 'gzip, deflate',
+            'Connection': 'keep-alive',
+            ...baseline?.getConditionalHeaders(url),
+          },
+          maxRedirects: 5,
+          validateStatus: (status) => status < 400,
+        });
+      }, control.signal);
     } catch (error: any) {
       if (error.code === 'ECONNABORTED') {
         throw new Error(`Download timeout for ${url}`);
@@ -715,6 +1557,84 @@ export class ArchiveService {
         throw new Error(`Network error downloading ${url}: ${error.message || String(error)}`);
       }
     }
+
+    if (!baseline) {
+      return { content: Buffer.from(response.data), http: captureHttpExchange(response, redirectRecorder.redirects) };
+    }
+    if (response.status === 304) {
+      return { ...await baseline.reuse(url), change: 'unchanged' };
+    }
+    const content = Buffer.from(response.data);
+    return {
+      content,
+      http: captureHttpExchange(response, redirectRecorder.redirects),
+      change: await baseline.compare(url, content),
+    };
+  }
+
+  /**
+   * Summarize how an incremental archive's pages and assets changed since its base version
+   * @param finished - Whether the crawl finished; resources of interrupted crawls are not reported removed
+   */
+  private createIncrementalReport(baseline: CaptureBaseline, pages: ArchivedPage[], finished: boolean): IncrementalReport {
+    const countChanges = (resources: Array<{ change?: ChangeStatus }>): ChangeCounts => {
+      const counts: ChangeCounts = { unchanged: 0, changed: 0, new: 0, removed: 0 };
+      // Resources that failed to download have no status
+      for (const { change } of resources) {
+        if (change) {
+          counts[change]++;
+        }
+      }
+      return counts;
+    };
+
+    // An asset used by several pages is counted once
+    const assets = new Map<string, Asset>();
+    pages.forEach(page => page.assets.forEach(asset => assets.set(asset.originalUrl, asset)));
+
+    const removed = finished
+      ? baseline.getRemoved(pages.map(page => page.url), [...assets.keys()])
+      : { pages: [], assets: [] };
+    const report: IncrementalReport = {
+      baseArchiveId: baseline.archiveId,
+      baseVersion: baseline.version,
+      pages: countChanges(pages),
+      assets: countChanges([...assets.values()]),
+      removedPages: removed.pages,
+      removedAssets: removed.assets,
+    };
+    report.pages.removed = removed.pages.length;
+    report.assets.removed = removed.assets.length;
+    return report;
+  }
+
+  /**
+   * Find the asset stored at a content path
+   */
+  private findAsset(archive: Archive, contentPath: string): Asset | undefined {
+    const assetPath = contentPath.replace(/^\/+/, '');
+    for (const page of archive.pages) {
+      const asset = page.assets.find(asset => asset.localPath === assetPath);
+      if (asset) {
+        return asset;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Content type a capture was originally served with, or the fallback for captures
+   * without one
+   *
+   * HTML and CSS are stored as UTF-8 text after URL rewriting, so their charset is
+   * replaced rather than passed on.
+   */
+  private getOriginalContentType(http: HttpCapture | undefined, fallback: string, storedAsUtf8: boolean = false): string {
+    const original = getResponseHeader(http, 'Content-Type');
+    if (!original) {
+      return fallback;
+    }
+    return storedAsUtf8 ? `${original.split(';')[0].trim()}; charset=utf-8` : original;
   }
 
   /**
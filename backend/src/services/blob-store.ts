@@ -0,0 +1,266 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ArchiveSize } from '../types';
+
+export interface BlobStoreOptions {
+  /** Directory the blobs and the manifests of archives are stored in */
+  directory: string;
+}
+
+/**
+ * Line of an archive's manifest: the blob a stored file points at
+ *
+ * Manifests are append-only; a later line for the same path replaces the earlier one.
+ */
+interface ManifestEntry {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+/**
+ * Content-addressed store for file bodies shared by all archives
+ *
+ * Bodies are stored once under their SHA-256, so versions of a URL share the assets
+ * that did not change between them. Every file of an archive that points at a blob
+ * counts as a reference; a blob is deleted once its last reference is released.
+ *
+ * Each archive records its files in its own append-only manifest, so storing a file
+ * costs one appended line however many files the store holds. Reference counts are
+ * rebuilt from the manifests when the store is first used.
+ *
+ * Changes run one at a time. Blobs are written before a manifest refers to them and
+ * deleted only after no manifest does, so a crash leaves at worst an unreferenced
+ * blob behind, never a dangling reference.
+ */
+export class BlobStore {
+  private directory: string;
+  private manifestDirectory: string;
+  private loading: Promise<void> | null = null;
+  /** Blob holding each stored file, by archive and path within the archive */
+  private files = new Map<string, Map<string, string>>();
+  /** Size of each blob, by SHA-256 */
+  private blobSizes = new Map<string, number>();
+  private refCounts = new Map<string, number>();
+  /** Archives whose manifest ends in a line cut short by a crash */
+  private unterminated = new Set<string>();
+  private lock: Promise<void> = Promise.resolve();
+
+  constructor(options: BlobStoreOptions) {
+    this.directory = options.directory;
+    this.manifestDirectory = path.join(options.directory, 'manifests');
+  }
+
+  /**
+   * Store a file of an archive, replacing the file previously stored at that path
+   * @returns SHA-256 of the content
+   */
+  async put(archiveId: string, filePath: string, content: Buffer): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const key = this.toKey(filePath);
+
+    return this.exclusive(async () => {
+      await this.load();
+
+      const files = this.files.get(archiveId) || new Map<string, string>();
+      const previous = files.get(key);
+      if (previous === hash) {
+        return hash;
+      }
+
+      if (!this.blobSizes.has(hash)) {
+        const blobPath = this.getBlobPath(hash);
+        await fs.mkdir(path.dirname(blobPath), { recursive: true });
+        // Write to a temporary file first so a blob is never read half-written
+        await fs.writeFile(`${blobPath}.tmp`, content);
+        await fs.rename(`${blobPath}.tmp`, blobPath);
+      }
+
+      await this.appendToManifest(archiveId, { path: key, hash, size: content.length });
+      this.blobSizes.set(hash, content.length);
+      this.files.set(archiveId, files);
+      files.set(key, hash);
+      this.addReference(hash);
+      const orphaned = previous ? this.removeReference(previous) : [];
+
+      await this.deleteBlobs(orphaned);
+      return hash;
+    });
+  }
+
+  /**
+   * Read a file of an archive
+   * @returns The content, or null if the file is not in the store
+   */
+  async read(archiveId: string, filePath: string): Promise<Buffer | null> {
+    const hash = await this.getHash(archiveId, filePath);
+    return hash ? fs.readFile(this.getBlobPath(hash)) : null;
+  }
+
+  /**
+   * SHA-256 of a file of an archive
+   * @returns The hash, or null if the file is not in the store
+   */
+  async getHash(archiveId: string, filePath: string): Promise<string | null> {
+    await this.load();
+    return this.files.get(archiveId)?.get(this.toKey(filePath)) || null;
+  }
+
+  /**
+   * Drop all references held by an archive, deleting blobs no other archive uses
+   * @returns Number of blobs deleted
+   */
+  async release(archiveId: string): Promise<number> {
+    return this.exclusive(async () => {
+      await this.load();
+      const files = this.files.get(archiveId);
+      if (!files) {
+        return 0;
+      }
+
+      await fs.rm(this.getManifestPath(archiveId), { force: true });
+      this.files.delete(archiveId);
+      this.unterminated.delete(archiveId);
+      const orphaned = Array.from(files.values()).flatMap(hash => this.removeReference(hash));
+
+      await this.deleteBlobs(orphaned);
+      return orphaned.length;
+    });
+  }
+
+  /**
+   * Size of the files an archive keeps in the store
+   */
+  async getUsage(archiveId: string): Promise<ArchiveSize> {
+    await this.load();
+    const ownReferences = new Map<string, number>();
+    this.files.get(archiveId)?.forEach(hash => {
+      ownReferences.set(hash, (ownReferences.get(hash) || 0) + 1);
+    });
+
+    const usage: ArchiveSize = { logicalSize: 0, diskSize: 0, sharedSize: 0 };
+    ownReferences.forEach((count, hash) => {
+      const size = this.blobSizes.get(hash) || 0;
+      usage.logicalSize += size * count;
+      usage.diskSize += size;
+      if ((this.refCounts.get(hash) || 0) > count) {
+        usage.sharedSize += size;
+      }
+    });
+    return usage;
+  }
+
+  /**
+   * Number of stored files, across all archives, that point at a blob
+   */
+  async getReferenceCount(hash: string): Promise<number> {
+    await this.load();
+    return this.refCounts.get(hash) || 0;
+  }
+
+  /**
+   * Read the manifests of all archives once; concurrent callers share the same read
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readManifests().catch(error => {
+        this.loading = null;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to load blob manifests: ${message}`);
+      });
+    }
+    return this.loading;
+  }
+
+  private async readManifests(): Promise<void> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.manifestDirectory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      fileNames = [];
+    }
+
+    this.files.clear();
+    this.blobSizes.clear();
+    this.refCounts.clear();
+    this.unterminated.clear();
+    for (const fileName of fileNames.filter(name => name.endsWith('.jsonl'))) {
+      const files = new Map<string, string>();
+      const content = await fs.readFile(path.join(this.manifestDirectory, fileName), 'utf-8');
+      for (const line of content.split('\n')) {
+        // A line cut short by a crash never had its file reported as stored
+        let entry: ManifestEntry;
+        try {
+          entry = JSON.parse(line) as ManifestEntry;
+        } catch {
+          continue;
+        }
+        files.set(entry.path, entry.hash);
+        this.blobSizes.set(entry.hash, entry.size);
+      }
+      const archiveId = path.basename(fileName, '.jsonl');
+      this.files.set(archiveId, files);
+      if (content && !content.endsWith('\n')) {
+        this.unterminated.add(archiveId);
+      }
+    }
+
+    this.files.forEach(files => files.forEach(hash => this.addReference(hash)));
+  }
+
+  private async appendToManifest(archiveId: string, entry: ManifestEntry): Promise<void> {
+    await fs.mkdir(this.manifestDirectory, { recursive: true });
+    // Start on a fresh line so a line cut short does not swallow this one
+    const prefix = this.unterminated.has(archiveId) ? '\n' : '';
+    await fs.appendFile(this.getManifestPath(archiveId), prefix + JSON.stringify(entry) + '\n', 'utf-8');
+    this.unterminated.delete(archiveId);
+  }
+
+  private addReference(hash: string): void {
+    this.refCounts.set(hash, (this.refCounts.get(hash) || 0) + 1);
+  }
+
+  /**
+   * @returns The blob, if this was its last reference
+   */
+  private removeReference(hash: string): string[] {
+    const count = (this.refCounts.get(hash) || 0) - 1;
+    if (count > 0) {
+      this.refCounts.set(hash, count);
+      return [];
+    }
+
+    this.refCounts.delete(hash);
+    this.blobSizes.delete(hash);
+    return [hash];
+  }
+
+  private async deleteBlobs(hashes: string[]): Promise<void> {
+    await Promise.all(hashes.map(hash => fs.rm(this.getBlobPath(hash), { force: true })));
+  }
+
+  /**
+   * Run changes one at a time, whether or not earlier ones failed
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private getManifestPath(archiveId: string): string {
+    return path.join(this.manifestDirectory, `${archiveId}.jsonl`);
+  }
+
+  private getBlobPath(hash: string): string {
+    return path.join(this.directory, hash.slice(0, 2), hash);
+  }
+
+  private toKey(filePath: string): string {
+    return path.posix.normalize(filePath.split(path.sep).join('/')).replace(/^\/+/, '');
+  }
+}
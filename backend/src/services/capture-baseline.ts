@@ -0,0 +1,98 @@
+import { Archive, ChangeStatus, HttpCapture } from '../types';
+import { getResponseHeader } from '../utils/http-capture';
+import { FileService } from './file-service';
+
+/**
+ * The captures of an earlier version, used to re-archive a site incrementally
+ *
+ * Requests for resources the earlier version captured carry its ETag and Last-Modified
+ * validators, so servers can answer 304 Not Modified; the earlier response body is
+ * then reused instead of downloading it again. Only captures whose response body was
+ * stored can be reused.
+ */
+export class CaptureBaseline {
+  readonly archiveId: string;
+  readonly version: number;
+  private captures = new Map<string, HttpCapture>();
+  private pageUrls: string[];
+  private assetUrls: string[];
+
+  constructor(archive: Archive, private fileService: FileService) {
+    this.archiveId = archive.id;
+    this.version = archive.version;
+    this.pageUrls = archive.pages.map(page => page.url);
+    this.assetUrls = [...new Set(archive.pages.flatMap(page => page.assets.map(asset => asset.originalUrl)))];
+
+    for (const page of archive.pages) {
+      this.addCapture(page.url, page.http);
+      for (const asset of page.assets) {
+        this.addCapture(asset.originalUrl, asset.http);
+      }
+    }
+  }
+
+  /**
+   * Request headers asking the server to answer 304 if the resource has not changed
+   * @returns No headers when the earlier version has no reusable capture of the URL
+   */
+  getConditionalHeaders(url: string): { [name: string]: string } {
+    const capture = this.captures.get(url);
+    const headers: { [name: string]: string } = {};
+    const etag = getResponseHeader(capture, 'ETag');
+    const lastModified = getResponseHeader(capture, 'Last-Modified');
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+    if (lastModified) {
+      headers['If-Modified-Since'] = lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * The earlier capture of a URL, with its stored response body
+   * @throws Error if the earlier version has no reusable capture of the URL
+   */
+  async reuse(url: string): Promise<{ content: Buffer; http: HttpCapture }> {
+    const http = this.captures.get(url);
+    if (!http?.bodyPath) {
+      throw new Error(`No earlier capture of ${url} in archive ${this.archiveId}`);
+    }
+    const content = await this.fileService.getResponseBody(http.bodyPath, this.archiveId);
+    return { content, http };
+  }
+
+  /**
+   * Compare a response body with the earlier capture of the same URL
+   */
+  async compare(url: string, content: Buffer): Promise<ChangeStatus> {
+    if (!this.captures.has(url)) {
+      // URLs captured without a stored body cannot be compared
+      return this.pageUrls.includes(url) || this.assetUrls.includes(url) ? 'changed' : 'new';
+    }
+    try {
+      const { content: earlier } = await this.reuse(url);
+      return earlier.equals(content) ? 'unchanged' : 'changed';
+    } catch {
+      return 'changed';
+    }
+  }
+
+  /**
+   * Pages and assets of the earlier version that are missing from the given URLs
+   */
+  getRemoved(pageUrls: string[], assetUrls: string[]): { pages: string[]; assets: string[] } {
+    const pages = new Set(pageUrls);
+    const assets = new Set(assetUrls);
+    return {
+      pages: this.pageUrls.filter(url => !pages.has(url)),
+      assets: this.assetUrls.filter(url => !assets.has(url)),
+    };
+  }
+
+  private addCapture(url: string, http?: HttpCapture): void {
+    if (http?.bodyPath && !this.captures.has(url)) {
+      this.captures.set(url, http);
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { v4 as uuidv4 } from 'uuid';
+import { Archive, ArchivedPage, ChangeAlert, ChangeSummary, ChangeWatch } from '../types';
+import { extractText } from '../utils/html-diff';
+import { diffSequences } from '../utils/sequence-diff';
+import { normalizeUrl } from '../utils/url-utils';
+import { FileService } from './file-service';
+import { WebhookService } from './webhook-service';
+
+export interface ChangeDetectionServiceOptions {
+  /** Path of the JSON file watches and alerts are persisted to */
+  filePath: string;
+  /** Most alerts kept in the feed; older ones are dropped */
+  maxAlerts?: number;
+  /** Sends detected changes to subscribers of archive.changed */
+  webhookService?: WebhookService;
+}
+
+export type NewChangeWatch = Pick<ChangeWatch, 'url'> &
+  Partial<Pick<ChangeWatch, 'enabled' | 'similarityThreshold' | 'selectors' | 'ignoreSelectors' | 'ignorePatterns'>>;
+
+export interface AlertFilter {
+  url?: string;
+  unread?: boolean;
+}
+
+/** Similarity used for URLs without a watch; small edits such as a changed date do not alert */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.99;
+
+interface StoredState {
+  watches: ChangeWatch[];
+  alerts: ChangeAlert[];
+}
+
+/**
+ * Text of one page prepared for comparison, overall and per watched selector
+ */
+interface ComparedText {
+  lines: string[];
+  selections: string[][];
+}
+
+/**
+ * Checks each finished archive against the previous version of its URL and tells
+ * people when the site changed
+ *
+ * Pages are compared by their visible text, after leaving out ignored regions and
+ * patterns. Changes are kept in a notifications feed and sent as archive.changed
+ * webhooks; watches and the feed share one JSON file.
+ */
+export class ChangeDetectionService {
+  private filePath: string;
+  private maxAlerts: number;
+  private webhookService?: WebhookService;
+  private watches: ChangeWatch[] = [];
+  private alerts: ChangeAlert[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private fileService: FileService, options: ChangeDetectionServiceOptions) {
+    this.filePath = options.filePath;
+    this.maxAlerts = options.maxAlerts ?? 500;
+    this.webhookService = options.webhookService;
+  }
+
+  /**
+   * Load watches and alerts from disk, replacing any held in memory
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const state = JSON.parse(content) as StoredState;
+
+      // Convert timestamp strings back to Date objects
+      this.watches = state.watches.map(watch => ({ ...watch, createdAt: new Date(watch.createdAt) }));
+      this.alerts = state.alerts.map(alert => ({ ...alert, createdAt: new Date(alert.createdAt) }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.watches = [];
+        this.alerts = [];
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to load change detection state: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * List watches in creation order, optionally only the one of a URL
+   */
+  listWatches(url?: string): ChangeWatch[] {
+    const normalizedUrl = url ? normalizeUrl(url) : null;
+    return this.watches
+      .filter(watch => !url || watch.url === normalizedUrl)
+      .map(watch => ({ ...watch }));
+  }
+
+  /**
+   * Create the watch of a URL, or replace its settings if it has one
+   * @throws Error if the URL or a setting is invalid
+   */
+  async saveWatch(settings: NewChangeWatch): Promise<{ watch: ChangeWatch; created: boolean }> {
+    const normalizedUrl = normalizeUrl(settings.url);
+    if (!normalizedUrl) {
+      throw new Error(`Invalid URL: ${settings.url}`);
+    }
+
+    const existing = this.watches.find(watch => watch.url === normalizedUrl);
+    const watch: ChangeWatch = {
+      id: existing?.id || uuidv4(),
+      url: normalizedUrl,
+      enabled: settings.enabled ?? true,
+      similarityThreshold: settings.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+      selectors: settings.selectors,
+      ignoreSelectors: settings.ignoreSelectors,
+      ignorePatterns: settings.ignorePatterns,
+      createdAt: existing?.createdAt || new Date(),
+    };
+    validateWatch(watch);
+
+    if (existing) {
+      Object.assign(existing, watch);
+    } else {
+      this.watches.push(watch);
+    }
+    await this.save();
+
+    return { watch: { ...watch }, created: !existing };
+  }
+
+  /**
+   * Delete a watch; its URL goes back to the default settings
+   * @returns Whether the watch existed
+   */
+  async removeWatch(id: string): Promise<boolean> {
+    const count = this.watches.length;
+    this.watches = this.watches.filter(watch => watch.id !== id);
+    if (this.watches.length === count) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * List alerts, newest first
+   */
+  listAlerts(filter: AlertFilter = {}): ChangeAlert[] {
+    const normalizedUrl = filter.url ? normalizeUrl(filter.url) : null;
+    return this.alerts
+      .filter(alert => (!filter.url || alert.url === normalizedUrl) && (!filter.unread || !alert.read))
+      .map(alert => ({ ...alert }));
+  }
+
+  /**
+   * Mark alerts as read, or all of them when no IDs are given
+   * @returns Number of alerts that were unread
+   */
+  async markAlertsRead(ids?: string[]): Promise<number> {
+    let count = 0;
+    for (const alert of this.alerts) {
+      if (!alert.read && (!ids || ids.includes(alert.id))) {
+        alert.read = true;
+        count++;
+      }
+    }
+    if (count > 0) {
+      await this.save();
+    }
+    return count;
+  }
+
+  /**
+   * Compare a finished archive with the previous version of its URL
+   *
+   * A change is recorded in the feed and sent to archive.changed webhook subscribers;
+   * deliveries happen in the background, retried and logged by the WebhookService.
+   * @returns Summary of the comparison, or null if the URL's watch is disabled
+   */
+  async detectChanges(previous: Archive, current: Archive): Promise<ChangeSummary | null> {
+    const url = normalizeUrl(current.url) || current.url;
+    const watch = this.watches.find(candidate => candidate.url === url);
+    if (watch && !watch.enabled) {
+      return null;
+    }
+
+    const selectors = watch?.selectors || [];
+    const ignorePatterns = (watch?.ignorePatterns || []).map(pattern => new RegExp(pattern, 'g'));
+    const prepare = async (archive: Archive, page: ArchivedPage | undefined): Promise<ComparedText> => {
+      if (!page) {
+        return { lines: [], selections: selectors.map(() => []) };
+      }
+      const html = await this.loadPageHtml(archive, page);
+      const extract = (select?: string) => extractText(html, { select, ignore: watch?.ignoreSelectors })
+        .map(line => ignorePatterns.reduce((text, pattern) => text.replace(pattern, ''), line).trim())
+        .filter(line => line.length > 0);
+      const selections = selectors.map(selector => extract(selector));
+      return { lines: selectors.length > 0 ? selections.flat() : extract(), selections };
+    };
+
+    const previousPages = new Map(previous.pages.map(page => [page.url, page]));
+    const currentPages = new Map(current.pages.map(page => [page.url, page]));
+    const summary: ChangeSummary = {
+      url,
+      archiveId: current.id,
+      version: current.version,
+      previousArchiveId: previous.id,
+      previousVersion: previous.version,
+      changed: false,
+      similarity: 1,
+      similarityThreshold: watch?.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+      addedLines: 0,
+      removedLines: 0,
+      pages: [],
+      changedSelectors: [],
+    };
+
+    let commonLines = 0;
+    let totalLines = 0;
+    for (const pageUrl of new Set([...previousPages.keys(), ...currentPages.keys()])) {
+      const before = await prepare(previous, previousPages.get(pageUrl));
+      const after = await prepare(current, currentPages.get(pageUrl));
+
+      let common = 0;
+      for (const run of diffSequences(before.lines, after.lines)) {
+        if (run.type === 'equal') common += run.count;
+        if (run.type === 'insert') summary.addedLines += run.count;
+        if (run.type === 'delete') summary.removedLines += run.count;
+      }
+      const lines = before.lines.length + after.lines.length;
+      commonLines += common;
+      totalLines += lines;
+
+      const status = !previousPages.has(pageUrl) ? 'new' : !currentPages.has(pageUrl) ? 'removed'
+        : common * 2 === lines ? 'unchanged' : 'changed';
+      if (status !== 'unchanged') {
+        summary.pages.push({ url: pageUrl, status, similarity: lines === 0 ? 1 : (common * 2) / lines });
+      }
+      if (previousPages.has(pageUrl) && currentPages.has(pageUrl)) {
+        selectors.forEach((selector, index) => {
+          const changed = before.selections[index].join('\n') !== after.selections[index].join('\n');
+          if (changed && !summary.changedSelectors.includes(selector)) {
+            summary.changedSelectors.push(selector);
+          }
+        });
+      }
+    }
+
+    summary.similarity = totalLines === 0 ? 1 : (commonLines * 2) / totalLines;
+    summary.changed = summary.similarity < summary.similarityThreshold || summary.changedSelectors.length > 0;
+
+    if (summary.changed) {
+      const alert: ChangeAlert = { ...summary, id: uuidv4(), createdAt: new Date(), read: false };
+      this.alerts.unshift(alert);
+      this.alerts.splice(this.maxAlerts);
+      await this.save();
+      this.notifyWebhooks(current, alert);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Send an alert to webhook subscribers without waiting for the deliveries
+   */
+  private notifyWebhooks(archive: Archive, alert: ChangeAlert): void {
+    this.webhookService?.dispatch('archive.changed', archive, alert).catch(error => {
+      console.warn(`Failed to send archive.changed webhooks for alert ${alert.id}:`, error);
+    });
+  }
+
+  /**
+   * Stored HTML of a page, comparable across versions; missing pages read as empty
+   */
+  private async loadPageHtml(archive: Archive, page: ArchivedPage): Promise<string> {
+    try {
+      const html = await this.fileService.getHtml(page.path, archive.id);
+      return html.split(archive.id).join('');
+    } catch (error) {
+      console.warn(`Failed to load page ${page.url} of archive ${archive.id}:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Write watches and alerts to disk after any pending write completes
+   */
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify({ watches: this.watches, alerts: this.alerts }, null, 2);
+    const write = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a truncated file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to save change detection state: ${message}`);
+      }
+    });
+
+    // Keep the chain going even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * @throws Error unless the threshold, selectors and patterns are all usable
+ */
+function validateWatch(watch: ChangeWatch): void {
+  const threshold = watch.similarityThreshold;
+  if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+    throw new Error('Invalid change watch: similarityThreshold must be a number between 0 and 1');
+  }
+
+  const $ = cheerio.load('');
+  for (const field of ['selectors', 'ignoreSelectors', 'ignorePatterns'] as const) {
+    const values = watch[field];
+    if (values !== undefined && (!Array.isArray(values) || values.some(value => typeof value !== 'string' || !value.trim()))) {
+      throw new Error(`Invalid change watch: ${field} must be a list of non-empty strings`);
+    }
+  }
+
+  for (const selector of [...(watch.selectors || []), ...(watch.ignoreSelectors || [])]) {
+    try {
+      $(selector);
+    } catch {
+      throw new Error(`Invalid change watch: bad selector ${selector}`);
+    }
+  }
+  for (const pattern of watch.ignorePatterns || []) {
+    try {
+      new RegExp(pattern, 'g');
+    } catch {
+      throw new Error(`Invalid change watch: bad pattern ${pattern}`);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { FrontierEntry } from '../types';
+
+/**
+ * Cooperative cancel/pause/resume handle for one archive job
+ *
+ * The crawl session and asset downloads check the control between units of work,
+ * so pausing takes effect after the page or asset batch in flight finishes, while
+ * cancelling also aborts in-flight requests through `signal`.
+ */
+export class CrawlControl {
+  private abortController = new AbortController();
+  private isPaused = false;
+  private hasBeenPaused = false;
+  private resumeWaiters: Array<() => void> = [];
+  private frontierSource: (() => FrontierEntry[]) | null = null;
+  private timeLimit: { remaining: number; startedAt: number; handle?: NodeJS.Timeout } | null = null;
+  private hasTimedOut = false;
+
+  /**
+   * Signal that fires when the job is cancelled, for aborting HTTP requests
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Whether the job was cancelled because it ran out of time
+   */
+  get timedOut(): boolean {
+    return this.hasTimedOut;
+  }
+
+  /**
+   * Whether the job was ever paused or cancelled
+   */
+  get interrupted(): boolean {
+    return this.cancelled || this.hasBeenPaused;
+  }
+
+  cancel(): void {
+    if (this.cancelled) {
+      return;
+    }
+    this.isPaused = false;
+    this.clearTimeLimit();
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  pause(): void {
+    if (this.cancelled) {
+      return;
+    }
+    if (!this.isPaused && this.timeLimit?.handle) {
+      clearTimeout(this.timeLimit.handle);
+      this.timeLimit.handle = undefined;
+      this.timeLimit.remaining -= Date.now() - this.timeLimit.startedAt;
+    }
+    this.isPaused = true;
+    this.hasBeenPaused = true;
+  }
+
+  resume(): void {
+    if (this.isPaused && this.timeLimit && !this.cancelled) {
+      this.startTimer();
+    }
+    this.isPaused = false;
+    this.releaseWaiters();
+  }
+
+  /**
+   * Cancel the job once it has run for the given time; time spent paused does not count
+   */
+  setTimeLimit(milliseconds: number): void {
+    this.clearTimeLimit();
+    this.timeLimit = { remaining: milliseconds, startedAt: Date.now() };
+    if (!this.isPaused) {
+      this.startTimer();
+    }
+  }
+
+  clearTimeLimit(): void {
+    if (this.timeLimit?.handle) {
+      clearTimeout(this.timeLimit.handle);
+    }
+    this.timeLimit = null;
+  }
+
+  /**
+   * Resolve immediately unless paused; otherwise wait until resumed or cancelled
+   */
+  waitWhilePaused(): Promise<void> {
+    if (!this.isPaused || this.cancelled) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  /**
+   * Register the function that reports the crawl's pending frontier
+   */
+  setFrontierSource(source: () => FrontierEntry[]): void {
+    this.frontierSource = source;
+  }
+
+  /**
+   * Get the URLs still waiting to be crawled
+   */
+  getFrontier(): FrontierEntry[] {
+    return this.frontierSource ? this.frontierSource() : [];
+  }
+
+  private startTimer(): void {
+    const timeLimit = this.timeLimit!;
+    timeLimit.startedAt = Date.now();
+    timeLimit.handle = setTimeout(() => {
+      this.hasTimedOut = true;
+      this.cancel();
+    }, Math.max(0, timeLimit.remaining));
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,910 @@
+import axios, { AxiosInstance } from 'axios';
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import {
+  CrawlerOptions,
+  CrawlResult,
+  ArchivedPage,
+  ArchiveError,
+  ErrorType,
+  AssetType,
+  Asset,
+  SkippedUrl,
+  SkipReason,
+  FrontierEntry,
+  CrawlCheckpoint,
+} from '../types';
+import { isValidUrl, extractDomain, isSameDomain, normalizeUrl, resolveUrl } from '../utils/url-utils';
+import { captureHttpExchange, createRedirectRecorder } from '../utils/http-capture';
+import { extractCssUrls, getCssReferenceType } from '../utils/css-urls';
+import { CrawlScopeMatcher } from '../utils/crawl-scope';
+import {
+  LAZY_SRC_ATTRIBUTES,
+  LAZY_SRCSET_ATTRIBUTES,
+  SrcsetCandidate,
+  parseMetaRefresh,
+  parseSrcset,
+  selectLargestCandidate,
+} from '../utils/html-rewriter';
+import { RobotsService } from './robots-service';
+import { CrawlControl } from './crawl-control';
+import { DomRenderer, RenderedRequest } from './dom-renderer';
+import { SitemapService } from './sitemap-service';
+import { RequestScheduler } from './request-scheduler';
+import { CaptureBaseline } from './capture-baseline';
+
+/**
+ * Progress snapshot reported while a crawl session runs
+ *
+ * Snapshots are reported periodically and right after each page or error; those
+ * immediate reports carry the page or error that triggered them.
+ */
+export interface CrawlProgress {
+  pagesFound: number;
+  pagesCrawled: number;
+  currentUrl?: string;
+  crawledPage?: ArchivedPage;
+  error?: ArchiveError;
+}
+
+export type CrawlProgressCallback = (progress: CrawlProgress) => void;
+
+/**
+ * Create the HTTP client used by a single crawl session
+ */
+function createHttpClient(): AxiosInstance {
+  return axios.create({
+    timeout: 30000,
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; WebArchiver/1.0; +https://webarchiver.com/bot)',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+      'Accept-Encoding': 'gzip, deflate',
+      'Connection': 'keep-alive',
+    },
+    maxRedirects: 5,
+    validateStatus: (status) => status < 400,
+  });
+}
+
+/**
+ * State and logic for crawling one website
+ *
+ * Every archive job gets its own session, so concurrent crawls never share a
+ * frontier, visited set, error list or HTTP client. A session can only be run once.
+ */
+export class CrawlSession {
+  private readonly startUrl: string;
+  private readonly options: CrawlerOptions;
+  private readonly progressCallback?: CrawlProgressCallback;
+  private readonly control: CrawlControl;
+  private readonly baseline?: CaptureBaseline;
+  private readonly resumeFrom?: CrawlCheckpoint;
+  private readonly sharedRobotsService?: RobotsService;
+  private readonly httpClient: AxiosInstance = createHttpClient();
+  private readonly domRenderer: DomRenderer;
+  private readonly sitemapService: SitemapService;
+  private visitedUrls = new Set<string>();
+  private crawledPages: ArchivedPage[] = [];
+  private errors: ArchiveError[] = [];
+  private skippedUrls: SkippedUrl[] = [];
+  private robotsService: RobotsService | null = null;
+  private startTime: number = 0;
+  private frontier: FrontierEntry[] = [];
+  private queuedUrls = new Set<string>();
+  private currentUrl: string = '';
+  private currentDomain: string = '';
+  private scope!: CrawlScopeMatcher;
+  private scheduler!: RequestScheduler;
+  private started = false;
+
+  constructor(
+    url: string,
+    options: CrawlerOptions,
+    progressCallback?: CrawlProgressCallback,
+    control: CrawlControl = new CrawlControl(),
+    baseline?: CaptureBaseline,
+    resumeFrom?: CrawlCheckpoint,
+    robotsService?: RobotsService
+  ) {
+    this.startUrl = url;
+    this.options = options;
+    this.progressCallback = progressCallback;
+    this.control = control;
+    this.baseline = baseline;
+    this.resumeFrom = resumeFrom;
+    this.sharedRobotsService = robotsService;
+    this.domRenderer = new DomRenderer(this.httpClient, {
+      timeout: options.renderTimeout,
+      maxRequests: options.maxRenderRequests,
+    });
+    this.sitemapService = new SitemapService(this.httpClient, { timeout: options.timeout });
+    this.control.setFrontierSource(() => this.getFrontier());
+  }
+
+  /**
+   * Whether the session has been cancelled
+   */
+  get cancelled(): boolean {
+    return this.control.cancelled;
+  }
+
+  /**
+   * Stop the crawl; in-flight requests are aborted and run() resolves with the pages crawled so far
+   */
+  cancel(): void {
+    if (!this.cancelled) {
+      console.log(`🛑 Cancelling crawl of ${this.startUrl}`);
+      this.control.cancel();
+    }
+  }
+
+  /**
+   * Pause the crawl after the page currently being fetched
+   */
+  pause(): void {
+    this.control.pause();
+  }
+
+  resume(): void {
+    this.control.resume();
+  }
+
+  /**
+   * Get the current progress of this session
+   */
+  getProgress(): CrawlProgress {
+    return {
+      pagesFound: this.frontier.length + this.visitedUrls.size,
+      pagesCrawled: this.crawledPages.length,
+      currentUrl: this.currentUrl || undefined,
+    };
+  }
+
+  /**
+   * Get the entries still waiting to be crawled
+   */
+  getFrontier(): FrontierEntry[] {
+    return this.frontier.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Crawl the website starting from the session's URL
+   *
+   * Pages are crawled breadth-first. `options.maxDepth` is the largest hop distance
+   * from the starting page, so a maxDepth of 1 archives the starting page and the
+   * pages it links to, and a maxDepth of 2 also archives the pages those link to.
+   */
+  async run(): Promise<CrawlResult> {
+    if (this.started) {
+      throw new Error('Crawl session has already been run');
+    }
+    this.started = true;
+    this.startTime = Date.now();
+    const url = this.startUrl;
+    const options = this.options;
+
+    try {
+      console.log(`🚀 Starting crawl of ${url}`);
+      
+      const normalizedUrl = normalizeUrl(url);
+      if (!normalizedUrl) {
+        throw new Error(`Invalid URL: ${url}`);
+      }
+      
+      const domain = extractDomain(normalizedUrl);
+      if (!domain) {
+        throw new Error(`Invalid domain for URL: ${url}`);
+      }
+      this.currentDomain = domain;
+      this.scope = new CrawlScopeMatcher(normalizedUrl, options.scope);
+
+      if (options.respectRobots) {
+        this.robotsService = this.sharedRobotsService || new RobotsService(this.httpClient);
+      }
+      const robotsService = this.robotsService;
+      this.scheduler = new RequestScheduler({
+        concurrencyPerHost: options.maxConcurrencyPerHost,
+        minDelay: options.minRequestDelay,
+        maxRetries: options.maxRetries,
+        getCrawlDelay: robotsService ? pageUrl => robotsService.getCrawlDelay(pageUrl) : undefined,
+      });
+
+      console.log(`📍 Target domain: ${this.currentDomain}`);
+      console.log(`📍 Starting URL: ${normalizedUrl}`);
+      
+      if (this.resumeFrom) {
+        await this.restoreCheckpoint(this.resumeFrom);
+      }
+
+      // Initialize with the starting URL - this ensures we start from the exact URL entered
+      if (!this.visitedUrls.has(normalizedUrl)) {
+        this.enqueue({ url: normalizedUrl, depth: 0 }, true);
+        
+        // Mark the starting URL as high priority by ensuring it's processed first
+        console.log(`📋 Queue initialized with starting URL: ${normalizedUrl}`);
+      }
+
+      if (options.seedFromSitemap) {
+        await this.seedFromSitemaps(normalizedUrl);
+      }
+
+      // Set up progress reporting
+      const progressInterval = setInterval(() => {
+        if (this.progressCallback) {
+          this.progressCallback(this.getProgress());
+        }
+      }, 500); // Report progress every 500ms
+
+      try {
+        // Process URLs from the queue
+        while (!this.cancelled && this.frontier.length > 0 && this.crawledPages.length < options.maxPages) {
+          await this.control.waitWhilePaused();
+          if (this.cancelled) {
+            break;
+          }
+
+          const entry = this.frontier.shift()!;
+          const currentUrl = entry.url;
+          this.queuedUrls.delete(currentUrl);
+          
+          if (this.visitedUrls.has(currentUrl)) {
+            console.log(`⏭️  Skipping already visited: ${currentUrl}`);
+            continue;
+          }
+
+          this.currentUrl = currentUrl;
+
+          // Queued links were checked when discovered; this also covers the starting URL
+          if (!(await this.isAllowedByRobots(currentUrl))) {
+            this.visitedUrls.add(currentUrl);
+            continue;
+          }
+
+          const isStartingUrl = this.crawledPages.length === 0;
+          console.log(`🔍 Crawling [${this.crawledPages.length + 1}/${options.maxPages}] (depth ${entry.depth}): ${currentUrl}${isStartingUrl ? ' (STARTING URL)' : ''}`);
+          
+          this.visitedUrls.add(currentUrl);
+          
+          const page = await this.crawlPageWithHttp(currentUrl, options.timeout);
+          if (page) {
+            page.depth = entry.depth;
+            page.referrer = entry.referrer;
+            this.crawledPages.push(page);
+            this.progressCallback?.({ ...this.getProgress(), crawledPage: page });
+            console.log(`✅ Successfully crawled: "${page.title}" (${page.assets.length} assets, ${page.links.length} links)`);
+            
+            // Add new URLs to queue (respecting depth and domain restrictions)
+            const childDepth = entry.depth + 1;
+            if (childDepth > options.maxDepth) {
+              console.log(`📏 Reached max depth (${options.maxDepth}), not following links from ${currentUrl}`);
+            } else if (this.crawledPages.length < options.maxPages) {
+              const newUrls = await this.extractValidUrls(page.links, page.url);
+              // Filter out URLs we've already visited or queued
+              const uniqueNewUrls = newUrls.filter(newUrl => 
+                !this.visitedUrls.has(newUrl) && !this.queuedUrls.has(newUrl)
+              );
+              uniqueNewUrls.forEach(newUrl => this.enqueue({ url: newUrl, depth: childDepth, referrer: currentUrl }));
+              if (uniqueNewUrls.length > 0) {
+                console.log(`📋 Added ${uniqueNewUrls.length} new URLs to queue at depth ${childDepth} (filtered from ${newUrls.length} found)`);
+              }
+            }
+          } else if (this.cancelled) {
+            // Keep the interrupted page in the frontier so it is not lost
+            this.visitedUrls.delete(currentUrl);
+            this.enqueue(entry, true);
+          } else {
+            console.log(`❌ Failed to crawl: ${currentUrl}`);
+          }
+        }
+        
+        if (this.cancelled) {
+          console.log(`🛑 Crawl cancelled after ${this.crawledPages.length} pages`);
+        } else {
+          console.log(`🎉 Crawl completed! Found ${this.crawledPages.length} pages with ${this.errors.length} errors`);
+        }
+        
+        // Verify that the starting URL was crawled
+        const startingPageFound = this.crawledPages.some(page => page.url === normalizedUrl);
+        if (!startingPageFound && this.crawledPages.length > 0) {
+          console.warn(`⚠️  Warning: Starting URL ${normalizedUrl} was not successfully crawled`);
+        } else if (startingPageFound) {
+          console.log(`✅ Starting URL ${normalizedUrl} was successfully crawled`);
+        }
+      } finally {
+        clearInterval(progressInterval);
+        this.currentUrl = '';
+      }
+      
+      const duration = Date.now() - this.startTime;
+      const totalSize = this.crawledPages.reduce(
+        (sum, page) => sum + page.assets.reduce((assetSum, asset) => assetSum + asset.size, 0),
+        0
+      );
+
+      return {
+        pages: this.crawledPages,
+        errors: this.errors,
+        skippedUrls: this.skippedUrls,
+        totalSize,
+        duration,
+        cancelled: this.cancelled,
+        frontier: this.getFrontier(),
+      };
+    } catch (error) {
+      console.error('❌ Crawl failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.addError(ErrorType.NETWORK_ERROR, `Failed to crawl site: ${errorMessage}`, url);
+      throw error;
+    } finally {
+      this.currentUrl = '';
+    }
+  }
+
+  /**
+   * Pick up an interrupted crawl from its checkpoint
+   *
+   * Its pages count as crawled. The frontier is only saved when a job pauses, so the
+   * links of the restored pages are queued again as well, after the saved frontier.
+   */
+  private async restoreCheckpoint(checkpoint: CrawlCheckpoint): Promise<void> {
+    for (const page of checkpoint.pages) {
+      this.crawledPages.push(page);
+      this.visitedUrls.add(page.url);
+    }
+
+    const isNew = (url: string) => !this.visitedUrls.has(url) && !this.queuedUrls.has(url);
+    checkpoint.frontier.filter(entry => isNew(entry.url)).forEach(entry => this.enqueue(entry));
+
+    for (const page of checkpoint.pages) {
+      const childDepth = (page.depth ?? 0) + 1;
+      if (childDepth <= this.options.maxDepth) {
+        const newUrls = await this.extractValidUrls(page.links, page.url);
+        newUrls.filter(isNew).forEach(newUrl => this.enqueue({ url: newUrl, depth: childDepth, referrer: page.url }));
+      }
+    }
+
+    console.log(`♻️  Resuming crawl with ${this.crawledPages.length} pages already crawled and ${this.frontier.length} queued`);
+  }
+
+  /**
+   * Add an entry to the crawl frontier
+   */
+  private enqueue(entry: FrontierEntry, atFront: boolean = false): void {
+    if (atFront) {
+      this.frontier.unshift(entry);
+    } else {
+      this.frontier.push(entry);
+    }
+    this.queuedUrls.add(entry.url);
+  }
+
+  /**
+   * Extract valid URLs from a list of links
+   */
+  private async extractValidUrls(links: string[], sourceUrl: string): Promise<string[]> {
+    const validUrls: string[] = [];
+    const seenUrls = new Set<string>();
+    
+    console.log(`🔗 Processing ${links.length} links found on page`);
+    
+    for (const link of links) {
+      const normalizedLink = normalizeUrl(link);
+      if (!normalizedLink) {
+        continue;
+      }
+      
+      // Skip if we've already seen this URL in this batch
+      if (seenUrls.has(normalizedLink)) {
+        continue;
+      }
+      seenUrls.add(normalizedLink);
+      
+      // Skip if already visited or queued
+      if (this.visitedUrls.has(normalizedLink)) {
+        continue;
+      }
+      
+      if (await this.isCrawlable(normalizedLink, sourceUrl)) {
+        validUrls.push(normalizedLink);
+      }
+    }
+    
+    console.log(`✅ Found ${validUrls.length} valid URLs from ${links.length} total links`);
+    
+    // Prioritize URLs that are likely to be more important:
+    // 1. Shorter paths (closer to root)
+    // 2. URLs that don't have query parameters
+    // 3. URLs that look like content pages
+    return validUrls
+      .sort((a, b) => {
+        const aUrl = new URL(a);
+        const bUrl = new URL(b);
+        
+        // Prioritize URLs without query parameters
+        const aHasQuery = aUrl.search.length > 0 ? 1 : 0;
+        const bHasQuery = bUrl.search.length > 0 ? 1 : 0;
+        if (aHasQuery !== bHasQuery) {
+          return aHasQuery - bHasQuery;
+        }
+        
+        // Then prioritize shorter paths
+        return aUrl.pathname.length - bUrl.pathname.length;
+      })
+      .slice(0, 30); // Increased limit to find more pages
+  }
+
+  /**
+   * Check whether a normalized URL may be added to the frontier
+   */
+  private async isCrawlable(url: string, sourceUrl: string): Promise<boolean> {
+    // Check if it's a valid URL
+    if (!isValidUrl(url)) {
+      return false;
+    }
+    
+    // Check the scope mode, include and exclude patterns
+    if (!this.scope.isPageInScope(url)) {
+      return false;
+    }
+
+    // Skip (and record) URLs excluded by robots.txt
+    return this.isAllowedByRobots(url, sourceUrl);
+  }
+
+  /**
+   * Queue the pages listed in the site's sitemaps after the starting URL
+   *
+   * Sitemap pages count as linked from the starting page, so they are crawled at
+   * depth 1 and only when `maxDepth` allows following links. They are queued in the
+   * order of their `priority` and `lastmod`, and at most `maxPages` of them.
+   */
+  private async seedFromSitemaps(startUrl: string): Promise<void> {
+    if (this.options.maxDepth < 1) {
+      console.log('🗺️  Not seeding from sitemaps, maxDepth does not allow following links');
+      return;
+    }
+
+    // Sitemap: lines are read from robots.txt even when its rules are not enforced
+    const robotsService = this.robotsService || this.sharedRobotsService || new RobotsService(this.httpClient);
+    const sitemapUrls = await this.sitemapService.discover(startUrl, robotsService);
+
+    let seeded = 0;
+    for (const entry of sitemapUrls) {
+      if (this.cancelled || seeded >= this.options.maxPages) {
+        break;
+      }
+      const url = normalizeUrl(entry.url);
+      if (!url || this.queuedUrls.has(url) || !(await this.isCrawlable(url, entry.sitemap))) {
+        continue;
+      }
+      this.enqueue({ url, depth: 1, referrer: entry.sitemap });
+      seeded++;
+    }
+    console.log(`🗺️  Seeded ${seeded} of ${sitemapUrls.length} sitemap URLs`);
+  }
+
+  /**
+   * Check a URL against robots.txt, recording it as skipped when disallowed
+   */
+  private async isAllowedByRobots(url: string, sourceUrl?: string): Promise<boolean> {
+    if (!this.robotsService) {
+      return true;
+    }
+
+    const match = await this.robotsService.isAllowed(url);
+    if (match.allowed) {
+      return true;
+    }
+
+    if (!this.skippedUrls.some(skipped => skipped.url === url)) {
+      console.log(`🤖 Skipping ${url} (robots.txt ${match.rule})`);
+      this.skippedUrls.push({
+        url,
+        reason: SkipReason.ROBOTS_DISALLOWED,
+        rule: match.rule,
+        sourceUrl,
+        timestamp: new Date(),
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Generate a local path for a page
+   */
+  private generatePagePath(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      let path = urlObj.pathname;
+      
+      // Handle root path
+      if (path === '/' || path === '') {
+        return 'index.html';
+      }
+      
+      // If path already has an extension, use it as-is
+      if (path.includes('.') && !path.endsWith('/')) {
+        return path.startsWith('/') ? path.slice(1) : path;
+      }
+      
+      // For paths without extensions, add index.html
+      if (path.endsWith('/')) {
+        path = `${path}index.html`;
+      } else {
+        path = `${path}/index.html`;
+      }
+      
+      // Remove leading slash
+      return path.startsWith('/') ? path.slice(1) : path;
+    } catch (error) {
+      console.warn(`Failed to generate page path for ${url}:`, error);
+      return `page_${Date.now()}.html`;
+    }
+  }
+
+  /**
+   * Generate a local path for an asset
+   */
+  private generateAssetPath(url: string, type: AssetType): string {
+    try {
+      const urlObj = new URL(url);
+      const pathname = urlObj.pathname;
+      const filename = pathname.split('/').pop() || 'asset';
+      
+      const typeFolder = type.toLowerCase();
+      return `assets/${typeFolder}/${filename}`;
+    } catch {
+      return `assets/other/asset_${Date.now()}`;
+    }
+  }
+
+  /**
+   * Add an error to the error collection
+   */
+  private addError(type: ErrorType, message: string, url?: string): void {
+    const error: ArchiveError = {
+      timestamp: new Date(),
+      type,
+      message,
+      url,
+      recoverable: type !== ErrorType.VALIDATION_ERROR,
+    };
+    this.errors.push(error);
+    this.progressCallback?.({ ...this.getProgress(), error });
+  }
+
+  /**
+   * Crawl page using HTTP only
+   */
+  private async crawlPageWithHttp(url: string, timeout: number): Promise<ArchivedPage | null> {
+    try {
+      console.log(`📄 Fetching: ${url}`);
+      
+      // Re-archiving incrementally, ask whether the page changed since the earlier version.
+      // Pages rendered in 'dom' mode were stored after rendering, so they are always fetched
+      const conditionalHeaders = this.baseline && this.options.renderMode !== 'dom'
+        ? this.baseline.getConditionalHeaders(url)
+        : {};
+
+      // Spaced out per host, honoring Crawl-delay, and retried on 429/503 and network errors
+      let redirectRecorder = createRedirectRecorder(url);
+      const response = await this.scheduler.schedule(url, () => {
+        redirectRecorder = createRedirectRecorder(url);
+        return this.httpClient.get(url, {
+          timeout,
+          signal: this.control.signal,
+          beforeRedirect: redirectRecorder.beforeRedirect,
+          headers: conditionalHeaders,
+        });
+      }, this.control.signal);
+      
+      console.log(`📊 Response: ${response.status} ${response.statusText} (${response.data.length} bytes)`);
+
+      // Unchanged pages are archived from the earlier version's capture
+      let http = captureHttpExchange(response, redirectRecorder.redirects);
+      let body: string = response.data;
+      if (response.status === 304 && this.baseline) {
+        const earlier = await this.baseline.reuse(url);
+        http = earlier.http;
+        body = earlier.content.toString('utf-8');
+        console.log(`♻️  Unchanged since version ${this.baseline.version}: ${url}`);
+      }
+
+      // In 'dom' mode the page is archived as it looks after its scripts ran
+      let html: string = body;
+      let renderedRequests: RenderedRequest[] = [];
+      if (this.options.renderMode === 'dom' && typeof body === 'string') {
+        const rendered = await this.domRenderer.render(url, body, this.control.signal);
+        html = rendered.html;
+        renderedRequests = rendered.requests;
+        console.log(`🖥️  Rendered ${url}: ${rendered.requests.length} requests, ${rendered.errors.length} script errors${rendered.timedOut ? ', timed out' : ''}`);
+      }
+      
+      const $ = cheerio.load(html);
+      const title = $('title').text().trim() || $('h1').first().text().trim() || 'Untitled Page';
+
+      // Relative URLs resolve against the <base href> when the page has one
+      const baseHref = $('base[href]').first().attr('href');
+      const baseUrl = (baseHref && resolveUrl(baseHref.trim(), url)) || url;
+      
+      // Extract assets with better error handling
+      const assets: Asset[] = [];
+      let assetCount = 0;
+      
+      // Extract images
+      $('img[src]').each((_, element) => {
+        const src = $(element).attr('src');
+        if (src && assetCount < 100) { // Limit assets to prevent overload
+          const resolvedUrl = resolveUrl(src, baseUrl);
+          if (resolvedUrl && isValidUrl(resolvedUrl)) {
+            assets.push({
+              originalUrl: resolvedUrl,
+              localPath: '', // Will be set when downloaded
+              type: AssetType.IMAGE,
+              size: 0,
+              contentType: this.getContentType(resolvedUrl, 'image/jpeg'),
+            });
+            assetCount++;
+          }
+        }
+      });
+
+      // Extract responsive, lazy-loaded and poster images
+      for (const imageUrl of this.extractResponsiveImageUrls($)) {
+        if (assetCount >= 100) {
+          break;
+        }
+        const resolvedUrl = resolveUrl(imageUrl, baseUrl);
+        if (resolvedUrl && isValidUrl(resolvedUrl) && !assets.some(asset => asset.originalUrl === resolvedUrl)) {
+          assets.push({
+            originalUrl: resolvedUrl,
+            localPath: '', // Will be set when downloaded
+            type: AssetType.IMAGE,
+            size: 0,
+            contentType: this.getContentType(resolvedUrl, 'image/jpeg'),
+          });
+          assetCount++;
+        }
+      }
+
+      // Extract CSS
+      $('link[rel="stylesheet"]').each((_, element) => {
+        const href = $(element).attr('href');
+        if (href && assetCount < 100) {
+          const resolvedUrl = resolveUrl(href, baseUrl);
+          if (resolvedUrl && isValidUrl(resolvedUrl)) {
+            assets.push({
+              originalUrl: resolvedUrl,
+              localPath: '', // Will be set when downloaded
+              type: AssetType.CSS,
+              size: 0,
+              contentType: 'text/css',
+            });
+            assetCount++;
+          }
+        }
+      });
+      
+      // Extract JavaScript
+      $('script[src]').each((_, element) => {
+        const src = $(element).attr('src');
+        if (src && assetCount < 100) {
+          const resolvedUrl = resolveUrl(src, baseUrl);
+          if (resolvedUrl && isValidUrl(resolvedUrl)) {
+            assets.push({
+              originalUrl: resolvedUrl,
+              localPath: '', // Will be set when downloaded
+              type: AssetType.JAVASCRIPT,
+              size: 0,
+              contentType: 'application/javascript',
+            });
+            assetCount++;
+          }
+        }
+      });
+      
+      // Extract fonts
+      $('link[rel="preload"][as="font"], link[href*=".woff"], link[href*=".ttf"]').each((_, element) => {
+        const href = $(element).attr('href');
+        if (href && assetCount < 100) {
+          const resolvedUrl = resolveUrl(href, baseUrl);
+          if (resolvedUrl && isValidUrl(resolvedUrl)) {
+            assets.push({
+              originalUrl: resolvedUrl,
+              localPath: '', // Will be set when downloaded
+              type: AssetType.FONT,
+              size: 0,
+              contentType: this.getContentType(resolvedUrl, 'font/woff'),
+            });
+            assetCount++;
+          }
+        }
+      });
+      
+      // Extract images, fonts and stylesheets referenced from <style> blocks and style attributes
+      const inlineCss = [
+        ...$('style').map((_, element) => $(element).text()).get(),
+        ...$('[style]').map((_, element) => $(element).attr('style') || '').get(),
+      ];
+      for (const reference of inlineCss.flatMap(extractCssUrls)) {
+        if (assetCount >= 100) {
+          break;
+        }
+        const resolvedUrl = resolveUrl(reference.url, baseUrl);
+        if (resolvedUrl && isValidUrl(resolvedUrl) && !assets.some(asset => asset.originalUrl === resolvedUrl)) {
+          const type = getCssReferenceType(reference, resolvedUrl);
+          assets.push({
+            originalUrl: resolvedUrl,
+            localPath: '', // Will be set when downloaded
+            type,
+            size: 0,
+            contentType: type === AssetType.CSS ? 'text/css' : this.getContentType(resolvedUrl, 'application/octet-stream'),
+          });
+          assetCount++;
+        }
+      }
+      
+      // Scripts, stylesheets and data the page loaded while rendering
+      for (const request of renderedRequests) {
+        if (assetCount >= 100) {
+          break;
+        }
+        if (isValidUrl(request.url) && !assets.some(asset => asset.originalUrl === request.url)) {
+          assets.push({
+            originalUrl: request.url,
+            localPath: '', // Will be set when downloaded
+            type: request.type,
+            size: 0,
+            contentType: this.getContentType(request.url, 'application/octet-stream'),
+          });
+          assetCount++;
+        }
+      }
+      
+      // Drop assets from hosts outside the scope or excluded by robots.txt before they are downloaded
+      const allowedAssets: Asset[] = [];
+      for (const asset of assets) {
+        if (this.scope.isAssetAllowed(asset.originalUrl) && await this.isAllowedByRobots(asset.originalUrl, url)) {
+          allowedAssets.push(asset);
+        }
+      }
+      
+      // Extract links
+      const links: string[] = [];
+      $('a[href]').each((_, element) => {
+        const href = $(element).attr('href');
+        if (href) {
+          const resolvedUrl = resolveUrl(href, baseUrl);
+          if (resolvedUrl && isValidUrl(resolvedUrl)) {
+            links.push(resolvedUrl);
+          }
+        }
+      });
+
+      // Follow <meta http-equiv="refresh"> redirects like links
+      $('meta[http-equiv="refresh" i]').each((_, element) => {
+        const refresh = parseMetaRefresh($(element).attr('content') || '');
+        const resolvedUrl = refresh?.url ? resolveUrl(refresh.url, baseUrl) : null;
+        if (resolvedUrl && isValidUrl(resolvedUrl)) {
+          links.push(resolvedUrl);
+        }
+      });
+      
+      console.log(`📋 Extracted: ${allowedAssets.length} assets, ${links.length} links`);
+      
+      return {
+        url,
+        path: this.generatePagePath(url),
+        title,
+        timestamp: new Date(),
+        assets: allowedAssets,
+        links,
+        htmlContent: html, // Store the actual HTML content
+        http,
+        change: this.baseline
+          ? response.status === 304 ? 'unchanged' : await this.baseline.compare(url, Buffer.from(html, 'utf-8'))
+          : undefined,
+      };
+      
+    } catch (error) {
+      // Requests aborted by cancel() are not crawl errors
+      if (this.cancelled) {
+        return null;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Failed to crawl ${url}:`, errorMessage);
+      
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          this.addError(ErrorType.NETWORK_ERROR, `HTTP ${error.response.status}: ${error.response.statusText}`, url);
+        } else if (error.code === 'ECONNABORTED') {
+          this.addError(ErrorType.TIMEOUT_ERROR, `Request timeout after ${timeout}ms`, url);
+        } else {
+          this.addError(ErrorType.NETWORK_ERROR, `Network error: ${errorMessage}`, url);
+        }
+      } else {
+        this.addError(ErrorType.NETWORK_ERROR, `Crawl error: ${errorMessage}`, url);
+      }
+      
+      return null;
+    }
+  }
+
+  /**
+   * Get file extension from URL
+   */
+  private getFileExtension(url: string, defaultExt: string): string {
+    try {
+      const pathname = new URL(url).pathname;
+      const ext = pathname.split('.').pop();
+      return ext && ext.length <= 4 ? ext : defaultExt;
+    } catch {
+      return defaultExt;
+    }
+  }
+
+  /**
+   * URLs of the images a page only references through `srcset`, `<picture>` sources,
+   * lazy-load attributes and video posters
+   *
+   * With the 'largest' policy only the largest candidate of each `srcset` is kept.
+   */
+  private extractResponsiveImageUrls($: cheerio.CheerioAPI): string[] {
+    const urls = new Set<string>();
+
+    const srcsetSelector = ['srcset', ...LAZY_SRCSET_ATTRIBUTES].map(attribute => `[${attribute}]`).join(', ');
+    $(srcsetSelector).each((_, element) => {
+      for (const attribute of ['srcset', ...LAZY_SRCSET_ATTRIBUTES]) {
+        const candidates = parseSrcset($(element).attr(attribute) || '');
+        const selected = this.options.responsiveImages === 'largest'
+          ? [selectLargestCandidate(candidates)].filter((candidate): candidate is SrcsetCandidate => !!candidate)
+          : candidates;
+        selected.forEach(candidate => urls.add(candidate.url));
+      }
+    });
+
+    $(LAZY_SRC_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ')).each((_, element) => {
+      for (const attribute of LAZY_SRC_ATTRIBUTES) {
+        const src = $(element).attr(attribute)?.trim();
+        if (src) {
+          urls.add(src);
+        }
+      }
+    });
+
+    $('video[poster]').each((_, element) => {
+      const poster = $(element).attr('poster')?.trim();
+      if (poster) {
+        urls.add(poster);
+      }
+    });
+
+    return Array.from(urls).filter(url => !/^data:/i.test(url));
+  }
+
+  /**
+   * Get content type from URL
+   */
+  private getContentType(url: string, defaultType: string): string {
+    const ext = this.getFileExtension(url, '');
+    const typeMap: { [key: string]: string } = {
+      'jpg': 'image/jpeg',
+      'jpeg': 'image/jpeg',
+      'png': 'image/png',
+      'gif': 'image/gif',
+      'svg': 'image/svg+xml',
+      'webp': 'image/webp',
+      'css': 'text/css',
+      'js': 'application/javascript',
+      'html': 'text/html',
+      'htm': 'text/html',
+      'woff': 'font/woff',
+      'woff2': 'font/woff2',
+      'ttf': 'font/ttf',
+      'otf': 'font/otf',
+    };
+    return typeMap[ext.toLowerCase()] || defaultType;
+  }
+}
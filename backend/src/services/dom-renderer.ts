@@ -0,0 +1,273 @@
+import { AxiosInstance, AxiosResponse } from 'axios';
+import { DOMWindow, FetchOptions, JSDOM, ResourceLoader, VirtualConsole } from 'jsdom';
+import { AssetType } from '../types';
+
+/** Time a page gets to run its scripts before it is snapshotted as it is */
+export const DEFAULT_RENDER_TIMEOUT = 10000;
+/** Requests a page may make while rendering; further requests fail */
+export const DEFAULT_MAX_RENDER_REQUESTS = 50;
+
+/** How long the page has to stay without pending requests to count as rendered */
+const IDLE_PERIOD = 200;
+const POLL_INTERVAL = 50;
+
+export interface DomRendererOptions {
+  timeout?: number;
+  maxRequests?: number;
+}
+
+/**
+ * A request a page made while rendering
+ */
+export interface RenderedRequest {
+  url: string;
+  type: AssetType;
+}
+
+export interface DomRenderResult {
+  /** The serialized DOM after the page's scripts ran */
+  html: string;
+  /** Scripts, stylesheets and fetch/XHR calls, in the order they were made */
+  requests: RenderedRequest[];
+  /** Uncaught script errors and failed requests */
+  errors: string[];
+  /** Whether the page was snapshotted because the time budget ran out */
+  timedOut: boolean;
+}
+
+/**
+ * Executes pages in jsdom so that content rendered by scripts can be archived
+ *
+ * Scripts run with `runScripts: 'dangerously'`, inside a separate VM context without
+ * access to Node. `<script src>`, stylesheets and `fetch` calls are loaded through the
+ * crawl's HTTP client; XHRs are still sent by jsdom, but pass through wrapped
+ * `open`/`send`. Every request is recorded and counts against the page's request
+ * budget, and only GET requests are allowed so rendering cannot change anything on the
+ * site. A script that never yields, such as an endless loop, cannot be interrupted by
+ * the time budget.
+ */
+export class DomRenderer {
+  private timeout: number;
+  private maxRequests: number;
+
+  constructor(private httpClient: AxiosInstance, options: DomRendererOptions = {}) {
+    this.timeout = options.timeout ?? DEFAULT_RENDER_TIMEOUT;
+    this.maxRequests = options.maxRequests ?? DEFAULT_MAX_RENDER_REQUESTS;
+  }
+
+  /**
+   * Run a page's scripts and snapshot the resulting DOM
+   * @param url - The URL the page was fetched from, which relative URLs resolve against
+   * @param html - The page as it was served
+   * @param signal - Aborts the render and the requests it made
+   */
+  async render(url: string, html: string, signal?: AbortSignal): Promise<DomRenderResult> {
+    const requests: RenderedRequest[] = [];
+    const errors: string[] = [];
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    let pending = 0;
+
+    const record = (requestUrl: string, type: AssetType): void => {
+      if (requests.length >= this.maxRequests) {
+        throw new Error(`Request budget of ${this.maxRequests} exhausted, not loading ${requestUrl}`);
+      }
+      requests.push({ url: requestUrl, type });
+    };
+
+    const load = async (requestUrl: string, type: AssetType): Promise<AxiosResponse<ArrayBuffer>> => {
+      record(requestUrl, type);
+      pending++;
+      try {
+        return await this.httpClient.get<ArrayBuffer>(requestUrl, {
+          responseType: 'arraybuffer',
+          // Requests are bounded by the render's time budget, which aborts them
+          signal: controller.signal,
+          // Error statuses are passed on to the page like a browser would
+          validateStatus: () => true,
+        });
+      } catch (error) {
+        errors.push(`Failed to load ${requestUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      } finally {
+        pending--;
+      }
+    };
+
+    const virtualConsole = new VirtualConsole();
+    virtualConsole.on('jsdomError', error => errors.push(error.message));
+
+    const dom = new JSDOM(html, {
+      url,
+      runScripts: 'dangerously',
+      pretendToBeVisual: true,
+      resources: new InterceptingResourceLoader(load),
+      virtualConsole,
+      beforeParse: window => {
+        interceptFetch(window, load, controller.signal);
+        interceptXhr(window, requestUrl => record(requestUrl, AssetType.OTHER), delta => {
+          pending += delta;
+        });
+      },
+    });
+
+    try {
+      const timedOut = await this.waitUntilRendered(dom.window, () => pending, controller.signal);
+      return { html: dom.serialize(), requests, errors, timedOut };
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      controller.abort();
+      dom.window.close();
+    }
+  }
+
+  /**
+   * Wait for the load event and a period without pending requests
+   * @returns true if the time budget ran out first
+   */
+  private waitUntilRendered(window: DOMWindow, getPending: () => number, signal: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+      const deadline = Date.now() + this.timeout;
+      let loaded = window.document.readyState === 'complete';
+      let idleSince: number | null = null;
+      window.addEventListener('load', () => {
+        loaded = true;
+      });
+
+      const interval = setInterval(() => {
+        const now = Date.now();
+        if (signal.aborted || now >= deadline) {
+          clearInterval(interval);
+          resolve(!signal.aborted);
+          return;
+        }
+
+        if (!loaded || getPending() > 0) {
+          idleSince = null;
+        } else if (idleSince === null) {
+          idleSince = now;
+        } else if (now - idleSince >= IDLE_PERIOD) {
+          clearInterval(interval);
+          resolve(false);
+        }
+      }, POLL_INTERVAL);
+    });
+  }
+}
+
+type LoadFunction = (url: string, type: AssetType) => Promise<AxiosResponse<ArrayBuffer>>;
+
+/**
+ * Loads `<script src>` and stylesheets through the renderer; frames and images are not loaded
+ */
+class InterceptingResourceLoader extends ResourceLoader {
+  constructor(private load: LoadFunction) {
+    super();
+  }
+
+  fetch(url: string, options: FetchOptions) {
+    const element = options.element?.localName;
+    if (element !== 'script' && element !== 'link') {
+      return null;
+    }
+
+    const request = this.load(url, element === 'script' ? AssetType.JAVASCRIPT : AssetType.CSS).then(response => {
+      if (response.status >= 400) {
+        throw new Error(`HTTP ${response.status} loading ${url}`);
+      }
+      return Buffer.from(response.data);
+    });
+    // Requests are aborted together when the render ends
+    return Object.assign(request, { abort: () => undefined });
+  }
+}
+
+/**
+ * Give the window a `fetch` that loads through the renderer; jsdom has none of its own
+ *
+ * Promises are created in the page's realm, so rejections the page leaves unhandled
+ * can be told apart from the server's own (see `isPagePromise`), and they stop
+ * settling once the render has ended, like in a closed tab.
+ */
+function interceptFetch(window: DOMWindow, load: LoadFunction, renderEnded: AbortSignal): void {
+  const PagePromise: PromiseConstructor = window.Promise;
+
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => new PagePromise<Response>((resolve, reject) => {
+    const method = (init?.method || 'GET').toUpperCase();
+    const requestUrl = new URL(typeof input === 'object' && 'url' in input ? input.url : String(input), window.location.href).href;
+    if (method !== 'GET') {
+      reject(new window.TypeError(`Only GET requests are made while rendering, not ${method} ${requestUrl}`));
+      return;
+    }
+
+    load(requestUrl, AssetType.OTHER).then(response => {
+      const body = Buffer.from(response.data);
+      const header = (name: string): string | null => {
+        const value = response.headers[name.toLowerCase()];
+        return value === undefined || value === null ? null : String(value);
+      };
+
+      // Only what pages commonly use of the Response interface
+      resolve({
+        ok: response.status >= 200 && response.status < 300,
+        status: response.status,
+        statusText: response.statusText,
+        url: requestUrl,
+        headers: { get: header, has: (name: string) => header(name) !== null },
+        text: () => PagePromise.resolve(body.toString('utf-8')),
+        json: () => new PagePromise(resolveJson => resolveJson(window.JSON.parse(body.toString('utf-8')))),
+        arrayBuffer: () => PagePromise.resolve(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength)),
+      } as unknown as Response);
+    }, error => {
+      if (!renderEnded.aborted) {
+        reject(new window.TypeError(error instanceof Error ? error.message : `Failed to fetch ${requestUrl}`));
+      }
+    });
+  });
+}
+
+/**
+ * Whether a promise belongs to a page rendered by a `DomRenderer` rather than to the
+ * server itself; pages run in their own realm with their own `Promise`
+ */
+export function isPagePromise(promise: Promise<unknown>): boolean {
+  return !(promise instanceof Promise);
+}
+
+/**
+ * Restrict jsdom's XMLHttpRequest to asynchronous GET requests within the budget, and
+ * track the ones in flight
+ */
+function interceptXhr(
+  window: DOMWindow,
+  record: (url: string) => void,
+  trackPending: (delta: number) => void
+): void {
+  const { open, send } = window.XMLHttpRequest.prototype;
+
+  window.XMLHttpRequest.prototype.open = function (
+    this: XMLHttpRequest,
+    method: string,
+    url: string | URL,
+    async: boolean = true,
+    ...credentials: (string | null | undefined)[]
+  ) {
+    const requestUrl = new URL(String(url), window.location.href).href;
+    if (method.toUpperCase() !== 'GET') {
+      throw new window.TypeError(`Only GET requests are made while rendering, not ${method} ${requestUrl}`);
+    }
+    if (!async) {
+      // jsdom runs synchronous requests in a child process
+      throw new window.TypeError(`Synchronous XMLHttpRequest is not supported while rendering: ${requestUrl}`);
+    }
+    record(requestUrl);
+    return open.call(this, method, requestUrl, true, ...credentials);
+  } as typeof open;
+
+  window.XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    trackPending(1);
+    this.addEventListener('loadend', () => trackPending(-1), { once: true });
+    return send.call(this, body);
+  };
+}
@@ -1,17 +1,24 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Archive, Asset, AssetType, ArchiveError, ErrorType } from '../types';
+import { createHash } from 'crypto';
+import { Archive, ArchivedPage, ArchiveSize, Asset, AssetType, ArchiveError, ErrorType, FrontierEntry } from '../types';
 import { UrlRewriter, AssetPathMapping, createUrlRewriter } from '../utils/url-rewriter';
+import { BlobStore } from './blob-store';
 
 export interface FileServiceOptions {
   baseStoragePath: string;
 }
 
+/** Directory under the storage path holding the shared blob store */
+const BLOB_DIRECTORY = '.blobs';
+
 export class FileService {
   private baseStoragePath: string;
+  private blobStore: BlobStore;
 
   constructor(options: FileServiceOptions) {
     this.baseStoragePath = options.baseStoragePath;
+    this.blobStore = new BlobStore({ directory: path.join(options.baseStoragePath, BLOB_DIRECTORY) });
   }
 
   /**
@@ -63,20 +70,26 @@ export class FileService {
   }
 
   /**
-   * Save asset content to the archive
+   * Get the path, relative to the archive, that saveAsset stores an asset at
    */
-  async saveAsset(originalUrl: string, content: Buffer, archiveId: string, assetType: AssetType): Promise<string> {
+  getAssetPath(originalUrl: string, assetType: AssetType): string {
     const fileName = this.generateAssetFileName(originalUrl, assetType);
     const assetSubDir = this.getAssetSubDirectory(assetType);
-    const relativePath = path.join('assets', assetSubDir, fileName);
-    const fullPath = path.join(this.getArchivePath(archiveId), relativePath);
+    return path.join('assets', assetSubDir, fileName);
+  }
+
+  /**
+   * Save asset content to the archive
+   *
+   * The content goes to the shared blob store, so identical assets of other versions
+   * are stored only once.
+   * @returns Path of the asset relative to the archive directory
+   */
+  async saveAsset(originalUrl: string, content: Buffer, archiveId: string, assetType: AssetType): Promise<string> {
+    const relativePath = this.getAssetPath(originalUrl, assetType);
     
     try {
-      // Ensure directory exists
-      await fs.mkdir(path.dirname(fullPath), { recursive: true });
-      
-      // Save asset content
-      await fs.writeFile(fullPath, content);
+      await this.blobStore.put(archiveId, relativePath, content);
       
       return relativePath;
     } catch (error) {
@@ -106,13 +119,58 @@ export class FileService {
     const fullPath = path.join(this.getArchivePath(archiveId), assetPath);
     
     try {
-      return await fs.readFile(fullPath);
+      // Archives saved before the blob store keep their assets in the archive directory
+      return (await this.blobStore.read(archiveId, assetPath)) || await fs.readFile(fullPath);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to retrieve asset: ${message}`);
     }
   }
 
+  /**
+   * SHA-256 of an asset's content, taken from the blob store when the asset is stored there
+   */
+  async getAssetHash(assetPath: string, archiveId: string): Promise<string> {
+    const hash = await this.blobStore.getHash(archiveId, assetPath);
+    if (hash) {
+      return hash;
+    }
+    const content = await this.getAsset(assetPath, archiveId);
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Save a response body exactly as it was received, before any URL rewriting
+   * @returns Path of the stored body relative to the archive directory
+   */
+  async saveResponseBody(originalUrl: string, content: Buffer, archiveId: string): Promise<string> {
+    const fileName = createHash('sha256').update(originalUrl).digest('hex');
+    const relativePath = path.join('responses', fileName);
+
+    try {
+      await this.blobStore.put(archiveId, relativePath, content);
+
+      return relativePath;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to save response body: ${message}`);
+    }
+  }
+
+  /**
+   * Retrieve a response body stored with saveResponseBody
+   */
+  async getResponseBody(bodyPath: string, archiveId: string): Promise<Buffer> {
+    const fullPath = path.join(this.getArchivePath(archiveId), bodyPath);
+
+    try {
+      return (await this.blobStore.read(archiveId, bodyPath)) || await fs.readFile(fullPath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to retrieve response body: ${message}`);
+    }
+  }
+
   /**
    * Save archive metadata to JSON file
    */
@@ -139,9 +197,7 @@ export class FileService {
       
       // Convert timestamp strings back to Date objects
       archive.timestamp = new Date(archive.timestamp);
-      archive.pages.forEach(page => {
-        page.timestamp = new Date(page.timestamp);
-      });
+      archive.pages.forEach(page => this.revivePageDates(page));
       archive.errors.forEach(error => {
         error.timestamp = new Date(error.timestamp);
       });
@@ -153,14 +209,118 @@ export class FileService {
     }
   }
 
+  /**
+   * Save the crawl frontier of a paused or cancelled archive
+   *
+   * An empty frontier removes any previously saved one.
+   */
+  async saveFrontier(archiveId: string, frontier: FrontierEntry[]): Promise<void> {
+    const frontierPath = path.join(this.getArchivePath(archiveId), 'frontier.json');
+
+    try {
+      if (frontier.length === 0) {
+        await fs.rm(frontierPath, { force: true });
+      } else {
+        await fs.writeFile(frontierPath, JSON.stringify(frontier, null, 2), 'utf-8');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to save crawl frontier: ${message}`);
+    }
+  }
+
+  /**
+   * Load the saved crawl frontier of an archive, if any
+   */
+  async loadFrontier(archiveId: string): Promise<FrontierEntry[]> {
+    const frontierPath = path.join(this.getArchivePath(archiveId), 'frontier.json');
+
+    try {
+      const content = await fs.readFile(frontierPath, 'utf-8');
+      return JSON.parse(content) as FrontierEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load crawl frontier: ${message}`);
+    }
+  }
+
+  /**
+   * Append a crawled page to the checkpoint of an archive that is still being crawled
+   *
+   * The checkpoint lets a crawl interrupted by a restart continue where it stopped.
+   */
+  async appendCrawledPage(archiveId: string, page: ArchivedPage): Promise<void> {
+    const checkpointPath = path.join(this.getArchivePath(archiveId), 'crawled-pages.jsonl');
+
+    try {
+      await fs.appendFile(checkpointPath, JSON.stringify(page) + '\n', 'utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to save crawled page: ${message}`);
+    }
+  }
+
+  /**
+   * Load the pages checkpointed by an interrupted crawl, if any
+   *
+   * A line cut short by the interruption is ignored.
+   */
+  async loadCrawledPages(archiveId: string): Promise<ArchivedPage[]> {
+    const checkpointPath = path.join(this.getArchivePath(archiveId), 'crawled-pages.jsonl');
+
+    let content: string;
+    try {
+      content = await fs.readFile(checkpointPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load crawled pages: ${message}`);
+    }
+
+    const pages: ArchivedPage[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const page = JSON.parse(line) as ArchivedPage;
+        this.revivePageDates(page);
+        pages.push(page);
+      } catch {
+        console.warn(`Skipping unreadable crawled page in archive ${archiveId}`);
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Remove the crawl checkpoint of an archive once its pages are saved
+   */
+  async clearCrawlCheckpoint(archiveId: string): Promise<void> {
+    const checkpointPath = path.join(this.getArchivePath(archiveId), 'crawled-pages.jsonl');
+
+    try {
+      await fs.rm(checkpointPath, { force: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to clear crawl checkpoint: ${message}`);
+    }
+  }
+
   /**
    * List all archives by reading directory structure
    */
   async listArchives(): Promise<string[]> {
     try {
       const entries = await fs.readdir(this.baseStoragePath, { withFileTypes: true });
+      // Hidden directories, such as the blob store, are not archives
       return entries
-        .filter(entry => entry.isDirectory())
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
         .map(entry => entry.name);
     } catch (error) {
       if (error instanceof Error && (error as any).code === 'ENOENT') {
@@ -172,12 +332,13 @@ export class FileService {
   }
 
   /**
-   * Delete an entire archive
+   * Delete an entire archive, and the stored bodies no other archive uses
    */
   async deleteArchive(archiveId: string): Promise<void> {
     const archivePath = this.getArchivePath(archiveId);
     
     try {
+      await this.blobStore.release(archiveId);
       await fs.rm(archivePath, { recursive: true, force: true });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -200,13 +361,22 @@ export class FileService {
   }
 
   /**
-   * Get the total size of an archive
+   * Get the size of an archive
+   *
+   * The logical size counts every stored file; the disk size counts bodies shared
+   * within the archive or with other versions once.
    */
-  async getArchiveSize(archiveId: string): Promise<number> {
+  async getArchiveSize(archiveId: string): Promise<ArchiveSize> {
     const archivePath = this.getArchivePath(archiveId);
     
     try {
-      return await this.getDirectorySize(archivePath);
+      const directorySize = await this.getDirectorySize(archivePath);
+      const blobUsage = await this.blobStore.getUsage(archiveId);
+      return {
+        logicalSize: directorySize + blobUsage.logicalSize,
+        diskSize: directorySize + blobUsage.diskSize,
+        sharedSize: blobUsage.sharedSize,
+      };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to calculate archive size: ${message}`);
@@ -226,6 +396,21 @@ export class FileService {
     return rewriter.rewriteHtmlUrls(html);
   }
 
+  /**
+   * Convert the timestamp strings of a page parsed from JSON back to Date objects
+   */
+  private revivePageDates(page: ArchivedPage): void {
+    page.timestamp = new Date(page.timestamp);
+    if (page.http) {
+      page.http.fetchedAt = new Date(page.http.fetchedAt);
+    }
+    page.assets.forEach(asset => {
+      if (asset.http) {
+        asset.http.fetchedAt = new Date(asset.http.fetchedAt);
+      }
+    });
+  }
+
   /**
    * Rewrite URLs in CSS content to point to local assets
    */
@@ -1,6 +1,37 @@
 // Export all services from this directory
 export { FileService } from './file-service';
 export type { FileServiceOptions } from './file-service';
+export { BlobStore } from './blob-store';
+export type { BlobStoreOptions } from './blob-store';
 export { CrawlerService } from './crawler-service';
+export { CrawlSession } from './crawl-session';
+export { CrawlControl } from './crawl-control';
+export { DomRenderer, DEFAULT_RENDER_TIMEOUT, DEFAULT_MAX_RENDER_REQUESTS, isPagePromise } from './dom-renderer';
+export type { DomRendererOptions, DomRenderResult, RenderedRequest } from './dom-renderer';
+export type { CrawlProgress, CrawlProgressCallback } from './crawl-session';
 export { ArchiveService } from './archive-service';
-export type { ArchiveServiceOptions, ArchiveProgress } from './archive-service';
\ No newline at end of file
+export type { ArchiveServiceOptions, ArchiveProgress } from './archive-service';
+export { RobotsService, ROBOTS_USER_AGENT } from './robots-service';
+export type { RobotsServiceOptions } from './robots-service';
+export { SitemapService } from './sitemap-service';
+export type { SitemapServiceOptions, DiscoveredSitemapUrl } from './sitemap-service';
+export { RequestScheduler, parseRetryAfter } from './request-scheduler';
+export type { RequestSchedulerOptions } from './request-scheduler';
+export { CaptureBaseline } from './capture-baseline';
+export { ArchiveDiffService } from './archive-diff-service';
+export type { ArchiveDiff, PageDiff, AssetDiff } from './archive-diff-service';
+export { JobQueue } from './job-queue';
+export type { JobQueueOptions, NewJob } from './job-queue';
+export { ScheduleService, MIN_SCHEDULE_INTERVAL_MINUTES, MAX_SCHEDULE_INTERVAL_MINUTES } from './schedule-service';
+export type { ScheduleServiceOptions, NewSchedule, ScheduleChanges } from './schedule-service';
+export { ChangeDetectionService, DEFAULT_SIMILARITY_THRESHOLD } from './change-detection-service';
+export type { ChangeDetectionServiceOptions, NewChangeWatch, AlertFilter } from './change-detection-service';
+export { WebhookService, WEBHOOK_EVENTS, WEBHOOK_SIGNATURE_HEADER, signWebhookPayload, getStatusEvent } from './webhook-service';
+export type { WebhookServiceOptions, NewWebhookSubscription, WebhookSubscriptionInfo } from './webhook-service';
+export { SearchIndexService, tokenize } from './search-index-service';
+export type { SearchIndexServiceOptions, SearchQuery, SearchResults } from './search-index-service';
+export { ArchiveEventBus } from './archive-events';
+export type { ArchiveEvent, ArchiveEventType, ArchiveEventListener, ProgressDelta } from './archive-events';
+export { WarcExportService } from './warc-export-service';
+export { WarcImportService } from './warc-import-service';
+export type { WarcImport, ImportedAsset } from './warc-import-service';
@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArchiveJob, ArchiveStatus, CrawlerOptions, JobState } from '../types';
+
+export interface JobQueueOptions {
+  /** Path of the JSON file the queue is persisted to */
+  filePath: string;
+  /** Number of finished jobs kept in the file */
+  maxFinishedJobs?: number;
+}
+
+export interface NewJob {
+  id: string;
+  url: string;
+  priority?: number;
+  options?: Partial<CrawlerOptions>;
+}
+
+/**
+ * Durable queue of archive jobs stored in a single JSON file
+ *
+ * State changes are applied in memory immediately and written to disk in order,
+ * so the file always reflects the latest change once its promise resolves.
+ */
+export class JobQueue {
+  private filePath: string;
+  private maxFinishedJobs: number;
+  private jobs: ArchiveJob[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(options: JobQueueOptions) {
+    this.filePath = options.filePath;
+    this.maxFinishedJobs = options.maxFinishedJobs ?? 100;
+  }
+
+  /**
+   * Load jobs from disk, replacing any jobs held in memory
+   */
+  async load(): Promise<ArchiveJob[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const jobs = JSON.parse(content) as ArchiveJob[];
+
+      // Convert timestamp strings back to Date objects
+      this.jobs = jobs.map(job => ({
+        ...job,
+        createdAt: new Date(job.createdAt),
+        startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+        finishedAt: job.finishedAt ? new Date(job.finishedAt) : undefined,
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.jobs = [];
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to load job queue: ${message}`);
+      }
+    }
+
+    return this.list();
+  }
+
+  /**
+   * List jobs: running first, then queued in the order they will run, then finished (newest first)
+   */
+  list(state?: JobState): ArchiveJob[] {
+    const running = this.jobs.filter(job => job.state === JobState.RUNNING);
+    const queued = this.getQueuedInRunOrder();
+    const done = this.jobs
+      .filter(job => job.state === JobState.DONE)
+      .sort((a, b) => (b.finishedAt?.getTime() || 0) - (a.finishedAt?.getTime() || 0));
+
+    return [...running, ...queued, ...done]
+      .filter(job => !state || job.state === state)
+      .map(job => ({ ...job }));
+  }
+
+  get(id: string): ArchiveJob | null {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    return job ? { ...job } : null;
+  }
+
+  /**
+   * Add a new queued job
+   */
+  async add(newJob: NewJob): Promise<ArchiveJob> {
+    if (this.jobs.some(job => job.id === newJob.id)) {
+      throw new Error(`Job already exists: ${newJob.id}`);
+    }
+
+    const job: ArchiveJob = {
+      id: newJob.id,
+      url: newJob.url,
+      state: JobState.QUEUED,
+      priority: newJob.priority ?? 0,
+      options: newJob.options,
+      createdAt: new Date(),
+      attempts: 0,
+    };
+    this.jobs.push(job);
+    await this.save();
+
+    return { ...job };
+  }
+
+  /**
+   * Get the queued job that should run next, without changing its state
+   */
+  next(): ArchiveJob | null {
+    const [job] = this.getQueuedInRunOrder();
+    return job ? { ...job } : null;
+  }
+
+  async markRunning(id: string): Promise<void> {
+    const job = this.findJob(id);
+    job.state = JobState.RUNNING;
+    job.startedAt = new Date();
+    job.attempts++;
+    await this.save();
+  }
+
+  async markDone(id: string, result: ArchiveStatus): Promise<void> {
+    const job = this.findJob(id);
+    job.state = JobState.DONE;
+    job.finishedAt = new Date();
+    job.result = result;
+    this.pruneFinishedJobs();
+    await this.save();
+  }
+
+  /**
+   * Put an interrupted job back in the queue
+   */
+  async requeue(id: string): Promise<void> {
+    const job = this.findJob(id);
+    job.state = JobState.QUEUED;
+    job.startedAt = undefined;
+    await this.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    const count = this.jobs.length;
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    if (this.jobs.length !== count) {
+      await this.save();
+    }
+  }
+
+  private findJob(id: string): ArchiveJob {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    return job;
+  }
+
+  private getQueuedInRunOrder(): ArchiveJob[] {
+    return this.jobs
+      .filter(job => job.state === JobState.QUEUED)
+      .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = this.jobs
+      .filter(job => job.state === JobState.DONE)
+      .sort((a, b) => (b.finishedAt?.getTime() || 0) - (a.finishedAt?.getTime() || 0));
+    const expired = new Set(finished.slice(this.maxFinishedJobs).map(job => job.id));
+
+    if (expired.size > 0) {
+      this.jobs = this.jobs.filter(job => !expired.has(job.id));
+    }
+  }
+
+  /**
+   * Write the current jobs to disk after any pending write completes
+   */
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.jobs, null, 2);
+    const write = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a truncated queue
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to save job queue: ${message}`);
+      }
+    });
+
+    // Keep the chain going even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,221 @@
+import axios from 'axios';
+
+/** HTTP statuses that ask the client to slow down; the whole host backs off */
+const BACKOFF_STATUSES = [429, 503];
+/** HTTP statuses that usually clear up on their own */
+const TRANSIENT_STATUSES = [502, 504];
+/** Network errors worth retrying */
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE', 'ESOCKETTIMEDOUT'];
+
+export interface RequestSchedulerOptions {
+  /** Requests running at once per host */
+  concurrencyPerHost?: number;
+  /** Milliseconds between the starts of two requests to the same host */
+  minDelay?: number;
+  /** Retries after 429/503 responses, 502/504 responses and transient network errors */
+  maxRetries?: number;
+  /** Backoff before the first retry, doubled for every further retry, in milliseconds */
+  retryBaseDelay?: number;
+  /** Longest backoff; a Retry-After asking for longer makes the request fail instead */
+  maxRetryDelay?: number;
+  /** Crawl-delay for a URL's host in seconds, such as `RobotsService.getCrawlDelay` */
+  getCrawlDelay?: (url: string) => Promise<number | undefined>;
+}
+
+interface HostState {
+  active: number;
+  /** Earliest time the next request may start */
+  nextStart: number;
+  /** Milliseconds between request starts, once the Crawl-delay is known */
+  interval?: Promise<number>;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Schedules HTTP requests politely per host
+ *
+ * Each host gets a limited number of concurrent requests, started at least `minDelay`
+ * (or the host's Crawl-delay, when longer) apart. Requests answered with 429 or 503 are
+ * retried with exponential backoff, or after the Retry-After the server asked for, and
+ * every other request to that host waits too. 502/504 responses and transient network
+ * errors are retried with the same backoff for the failing request only.
+ */
+export class RequestScheduler {
+  private concurrencyPerHost: number;
+  private minDelay: number;
+  private maxRetries: number;
+  private retryBaseDelay: number;
+  private maxRetryDelay: number;
+  private getCrawlDelay?: (url: string) => Promise<number | undefined>;
+  private hosts = new Map<string, HostState>();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.concurrencyPerHost = options.concurrencyPerHost ?? 2;
+    this.minDelay = options.minDelay ?? 200;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelay = options.retryBaseDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 60000;
+    this.getCrawlDelay = options.getCrawlDelay;
+  }
+
+  /**
+   * Run a request once its host has a free slot, retrying it when it fails transiently
+   * @param url - The URL requested, whose host the request is scheduled for
+   * @param request - Sends the request; called again for every retry
+   * @param signal - Stops waiting and retrying; the request itself should use it too
+   */
+  async schedule<T>(url: string, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = this.getHost(url);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host, url, signal);
+      let retryDelay: number;
+      try {
+        return await request();
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt);
+        if (delay === null || signal?.aborted) {
+          throw error;
+        }
+
+        retryDelay = delay;
+        if (isBackoffResponse(error)) {
+          host.nextStart = Math.max(host.nextStart, Date.now() + retryDelay);
+        }
+      } finally {
+        this.release(host);
+      }
+
+      console.log(`⏳ Retrying ${url} in ${retryDelay}ms (attempt ${attempt + 2} of ${this.maxRetries + 1})`);
+      await sleep(retryDelay, signal);
+    }
+  }
+
+  private getHost(url: string): HostState {
+    const hostKey = new URL(url).host;
+    let host = this.hosts.get(hostKey);
+    if (!host) {
+      host = { active: 0, nextStart: 0, waiters: [] };
+      this.hosts.set(hostKey, host);
+    }
+    return host;
+  }
+
+  /**
+   * Wait until the host has a free slot and its delay has passed, then take the slot
+   */
+  private async acquire(host: HostState, url: string, signal?: AbortSignal): Promise<void> {
+    if (!host.interval) {
+      host.interval = this.loadInterval(url);
+    }
+    const interval = await host.interval;
+
+    for (;;) {
+      throwIfAborted(signal);
+      const wait = host.nextStart - Date.now();
+      if (host.active < this.concurrencyPerHost && wait <= 0) {
+        host.active++;
+        host.nextStart = Date.now() + interval;
+        return;
+      }
+
+      if (host.active >= this.concurrencyPerHost) {
+        await new Promise<void>(resolve => {
+          const wake = () => {
+            signal?.removeEventListener('abort', wake);
+            resolve();
+          };
+          host.waiters.push(wake);
+          signal?.addEventListener('abort', wake, { once: true });
+        });
+      } else {
+        await sleep(wait, signal);
+      }
+    }
+  }
+
+  private release(host: HostState): void {
+    host.active--;
+    // Every waiter checks again; the ones that find no free slot wait again
+    host.waiters.splice(0).forEach(wake => wake());
+  }
+
+  private async loadInterval(url: string): Promise<number> {
+    const crawlDelay = this.getCrawlDelay ? await this.getCrawlDelay(url).catch(() => undefined) : undefined;
+    return crawlDelay !== undefined ? Math.max(this.minDelay, crawlDelay * 1000) : this.minDelay;
+  }
+
+  /**
+   * How long to wait before retrying a failed request
+   * @returns null if the request should not be retried
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.maxRetries || !isRetryable(error)) {
+      return null;
+    }
+
+    const backoff = Math.min(this.retryBaseDelay * 2 ** attempt, this.maxRetryDelay);
+    const retryAfter = axios.isAxiosError(error) ? parseRetryAfter(error.response?.headers?.['retry-after']) : undefined;
+    if (retryAfter === undefined) {
+      return backoff;
+    }
+    // Asked to come back later than we are willing to wait
+    return retryAfter > this.maxRetryDelay ? null : Math.max(retryAfter, backoff);
+  }
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isBackoffResponse(error: unknown): boolean {
+  return axios.isAxiosError(error) && BACKOFF_STATUSES.includes(error.response?.status ?? 0);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+    return false;
+  }
+  if (error.response) {
+    return isBackoffResponse(error) || TRANSIENT_STATUSES.includes(error.response.status);
+  }
+  return TRANSIENT_ERROR_CODES.includes(error.code || '');
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new axios.CanceledError('Request cancelled');
+  }
+}
+
+/**
+ * Wait for the given time, returning early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
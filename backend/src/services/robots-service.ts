@@ -0,0 +1,151 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  RobotsTxt,
+  RobotsMatch,
+  parseRobotsTxt,
+  matchRobotsRules,
+  getCrawlDelay,
+} from '../utils/robots-parser';
+
+/**
+ * Product token matched against robots.txt User-agent lines
+ */
+export const ROBOTS_USER_AGENT = 'WebArchiver';
+
+export interface RobotsServiceOptions {
+  /** Product token used to select robots.txt groups */
+  userAgent?: string;
+  /** How long a fetched robots.txt is cached, in milliseconds */
+  cacheTtlMs?: number;
+  /** Request timeout for robots.txt fetches, in milliseconds */
+  timeout?: number;
+}
+
+interface CachedRobots {
+  robots: RobotsTxt;
+  fetchedAt: number;
+}
+
+/**
+ * Fetches, caches and evaluates robots.txt files per host
+ *
+ * Unavailable robots.txt files (4xx) allow everything; unreachable ones
+ * (5xx or network failures) disallow everything, as described in RFC 9309.
+ */
+export class RobotsService {
+  private httpClient: AxiosInstance;
+  private userAgent: string;
+  private cacheTtlMs: number;
+  private timeout: number;
+  private cache = new Map<string, CachedRobots>();
+  private pending = new Map<string, Promise<RobotsTxt>>();
+
+  constructor(httpClient?: AxiosInstance, options: RobotsServiceOptions = {}) {
+    this.httpClient = httpClient || axios.create();
+    this.userAgent = options.userAgent || ROBOTS_USER_AGENT;
+    this.cacheTtlMs = options.cacheTtlMs ?? 24 * 60 * 60 * 1000;
+    this.timeout = options.timeout ?? 10000;
+  }
+
+  /**
+   * Check whether a URL may be crawled
+   */
+  async isAllowed(url: string): Promise<RobotsMatch> {
+    const robots = await this.getRobots(url);
+    if (!robots) {
+      return { allowed: true };
+    }
+    return matchRobotsRules(robots, url, this.userAgent);
+  }
+
+  /**
+   * Get the Crawl-delay (in seconds) for the URL's host, if one is declared
+   */
+  async getCrawlDelay(url: string): Promise<number | undefined> {
+    const robots = await this.getRobots(url);
+    return robots ? getCrawlDelay(robots, this.userAgent) : undefined;
+  }
+
+  /**
+   * Get the sitemap URLs declared in the URL's robots.txt
+   */
+  async getSitemaps(url: string): Promise<string[]> {
+    const robots = await this.getRobots(url);
+    return robots ? robots.sitemaps : [];
+  }
+
+  /**
+   * Clear all cached robots.txt files
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get parsed robots.txt for the URL's origin, fetching it if not cached
+   */
+  private async getRobots(url: string): Promise<RobotsTxt | null> {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return null;
+    }
+
+    const cached = this.cache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.robots;
+    }
+
+    // Share one in-flight request between concurrent lookups for the same host
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+
+    const robots = await pending;
+    this.cache.set(origin, { robots, fetchedAt: Date.now() });
+    return robots;
+  }
+
+  /**
+   * Download and parse robots.txt for an origin
+   */
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await this.httpClient.get(robotsUrl, {
+        timeout: this.timeout,
+        responseType: 'text',
+        validateStatus: () => true,
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        const content = typeof response.data === 'string' ? response.data : String(response.data);
+        console.log(`🤖 Loaded robots.txt for ${origin}`);
+        return parseRobotsTxt(content);
+      }
+
+      if (response.status >= 400 && response.status < 500) {
+        console.log(`🤖 No robots.txt for ${origin} (HTTP ${response.status}), allowing all`);
+        return { groups: [], sitemaps: [] };
+      }
+
+      console.warn(`⚠️ robots.txt for ${origin} unreachable (HTTP ${response.status}), disallowing all`);
+      return this.disallowAll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Failed to fetch robots.txt for ${origin}: ${message}, disallowing all`);
+      return this.disallowAll();
+    }
+  }
+
+  private disallowAll(): RobotsTxt {
+    return {
+      groups: [{ userAgents: ['*'], rules: [{ allow: false, path: '/' }] }],
+      sitemaps: [],
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ArchiveSchedule, CrawlerOptions, JobState } from '../types';
+import { CronSchedule, getMinCronSpacing, getNextCronTime, parseCron } from '../utils/cron';
+import { normalizeUrl } from '../utils/url-utils';
+import { ArchiveService } from './archive-service';
+
+export interface ScheduleServiceOptions {
+  /** Path of the JSON file schedules are persisted to */
+  filePath: string;
+  /** How often to look for due schedules, in milliseconds */
+  checkInterval?: number;
+}
+
+export interface NewSchedule {
+  url: string;
+  options?: Partial<CrawlerOptions>;
+  cron?: string;
+  intervalMinutes?: number;
+  enabled?: boolean;
+}
+
+export type ScheduleChanges = Partial<Pick<ArchiveSchedule, 'options' | 'cron' | 'intervalMinutes' | 'enabled'>>;
+
+/** Shortest interval between runs of an interval schedule */
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 5;
+export const MAX_SCHEDULE_INTERVAL_MINUTES = 366 * 24 * 60;
+
+/**
+ * Recurring archives, stored in a single JSON file and run from inside the backend process
+ *
+ * Due schedules create archives through the archive service, so scheduled runs go
+ * through the same job queue as archives requested by hand. A run is skipped while
+ * the previous archive of the same URL is still queued or crawling. Runs missed while
+ * the process was stopped are made up once, not once per missed run.
+ */
+export class ScheduleService {
+  private filePath: string;
+  private checkInterval: number;
+  private schedules: ArchiveSchedule[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+
+  constructor(private archiveService: ArchiveService, options: ScheduleServiceOptions) {
+    this.filePath = options.filePath;
+    this.checkInterval = options.checkInterval ?? 30000;
+  }
+
+  /**
+   * Load schedules from disk, replacing any schedules held in memory
+   */
+  async load(): Promise<ArchiveSchedule[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const schedules = JSON.parse(content) as ArchiveSchedule[];
+
+      // Convert timestamp strings back to Date objects
+      this.schedules = schedules.map(schedule => ({
+        ...schedule,
+        createdAt: new Date(schedule.createdAt),
+        nextRunAt: schedule.nextRunAt ? new Date(schedule.nextRunAt) : undefined,
+        lastRunAt: schedule.lastRunAt ? new Date(schedule.lastRunAt) : undefined,
+        lastSkippedAt: schedule.lastSkippedAt ? new Date(schedule.lastSkippedAt) : undefined,
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.schedules = [];
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to load schedules: ${message}`);
+      }
+    }
+
+    return this.list();
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.runDueSchedules().catch(error => {
+        console.error('Failed to run scheduled archives:', error);
+      });
+    }, this.checkInterval);
+    // Schedules alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * List schedules in creation order, optionally only those of one URL
+   */
+  list(url?: string): ArchiveSchedule[] {
+    const normalizedUrl = url ? normalizeUrl(url) : null;
+    return this.schedules
+      .filter(schedule => !url || schedule.url === normalizedUrl)
+      .map(schedule => ({ ...schedule }));
+  }
+
+  get(id: string): ArchiveSchedule | null {
+    const schedule = this.schedules.find(candidate => candidate.id === id);
+    return schedule ? { ...schedule } : null;
+  }
+
+  /**
+   * Add a schedule; its first run is one interval or cron match from now
+   * @throws Error if the URL or timing is invalid
+   */
+  async create(newSchedule: NewSchedule): Promise<ArchiveSchedule> {
+    const normalizedUrl = normalizeUrl(newSchedule.url);
+    if (!normalizedUrl) {
+      throw new Error(`Invalid URL: ${newSchedule.url}`);
+    }
+
+    const schedule: ArchiveSchedule = {
+      id: uuidv4(),
+      url: normalizedUrl,
+      options: newSchedule.options,
+      cron: newSchedule.cron,
+      intervalMinutes: newSchedule.intervalMinutes,
+      enabled: newSchedule.enabled ?? true,
+      createdAt: new Date(),
+    };
+    validateTiming(schedule);
+    schedule.nextRunAt = schedule.enabled ? getNextRunTime(schedule, schedule.createdAt) : undefined;
+
+    this.schedules.push(schedule);
+    await this.save();
+
+    return { ...schedule };
+  }
+
+  /**
+   * Change a schedule; changing its timing or enabling it counts the next run from now
+   * @throws Error if the schedule does not exist or the new timing is invalid
+   */
+  async update(id: string, changes: ScheduleChanges): Promise<ArchiveSchedule> {
+    const schedule = this.findSchedule(id);
+    const updated: ArchiveSchedule = { ...schedule, ...changes };
+    if (changes.cron !== undefined) {
+      updated.intervalMinutes = changes.intervalMinutes;
+    } else if (changes.intervalMinutes !== undefined) {
+      updated.cron = undefined;
+    }
+    validateTiming(updated);
+
+    const timingChanged = updated.cron !== schedule.cron || updated.intervalMinutes !== schedule.intervalMinutes;
+    if (!updated.enabled) {
+      updated.nextRunAt = undefined;
+    } else if (timingChanged || !schedule.enabled) {
+      updated.nextRunAt = getNextRunTime(updated, new Date());
+    }
+
+    Object.assign(schedule, updated);
+    await this.save();
+
+    return { ...schedule };
+  }
+
+  /**
+   * Delete a schedule; archives it created are kept
+   * @returns Whether the schedule existed
+   */
+  async remove(id: string): Promise<boolean> {
+    const count = this.schedules.length;
+    this.schedules = this.schedules.filter(schedule => schedule.id !== id);
+    if (this.schedules.length === count) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Create archives for all enabled schedules that are due
+   *
+   * Concurrent calls wait for the check already running instead of starting runs twice.
+   */
+  runDueSchedules(now: Date = new Date()): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runDue(now).finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  private async runDue(now: Date): Promise<void> {
+    const due = this.schedules.filter(
+      schedule => schedule.enabled && schedule.nextRunAt && schedule.nextRunAt.getTime() <= now.getTime()
+    );
+    if (due.length === 0) {
+      return;
+    }
+
+    for (const schedule of due) {
+      await this.runSchedule(schedule, now);
+      schedule.nextRunAt = getNextRunTime(schedule, now);
+    }
+    await this.save();
+  }
+
+  private async runSchedule(schedule: ArchiveSchedule, now: Date): Promise<void> {
+    if (this.isPreviousRunActive(schedule)) {
+      schedule.lastSkippedAt = now;
+      return;
+    }
+
+    try {
+      const archive = await this.archiveService.createArchive(schedule.url, schedule.options);
+      schedule.lastRunAt = now;
+      schedule.lastArchiveId = archive.id;
+      schedule.lastError = undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // An archive of the URL requested by hand counts as the previous run
+      if (message.includes('already in progress')) {
+        schedule.lastSkippedAt = now;
+      } else {
+        schedule.lastRunAt = now;
+        schedule.lastError = message;
+      }
+    }
+  }
+
+  private isPreviousRunActive(schedule: ArchiveSchedule): boolean {
+    if (!schedule.lastArchiveId) {
+      return false;
+    }
+    const job = this.archiveService.getJobs().find(candidate => candidate.id === schedule.lastArchiveId);
+    return job !== undefined && job.state !== JobState.DONE;
+  }
+
+  private findSchedule(id: string): ArchiveSchedule {
+    const schedule = this.schedules.find(candidate => candidate.id === id);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Write the current schedules to disk after any pending write completes
+   */
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.schedules, null, 2);
+    const write = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves truncated schedules
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to save schedules: ${message}`);
+      }
+    });
+
+    // Keep the chain going even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * @throws Error unless the schedule has either a valid cron expression or a valid interval
+ */
+function validateTiming(schedule: ArchiveSchedule): void {
+  if ((schedule.cron === undefined) === (schedule.intervalMinutes === undefined)) {
+    throw new Error('Invalid schedule: set either a cron expression or an interval');
+  }
+  if (schedule.cron !== undefined) {
+    let cron: CronSchedule;
+    try {
+      cron = parseCron(schedule.cron);
+      getNextCronTime(cron, new Date());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid schedule: ${message}`);
+    }
+    // Cron schedules get the same minimum spacing as intervals
+    if (getMinCronSpacing(cron) < MIN_SCHEDULE_INTERVAL_MINUTES) {
+      throw new Error(
+        `Invalid schedule: cron expression must not run more often than every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`
+      );
+    }
+  }
+  if (schedule.intervalMinutes !== undefined) {
+    const minutes = schedule.intervalMinutes;
+    if (!Number.isInteger(minutes) || minutes < MIN_SCHEDULE_INTERVAL_MINUTES || minutes > MAX_SCHEDULE_INTERVAL_MINUTES) {
+      throw new Error(
+        `Invalid schedule: intervalMinutes must be an integer between ${MIN_SCHEDULE_INTERVAL_MINUTES} and ${MAX_SCHEDULE_INTERVAL_MINUTES}`
+      );
+    }
+  }
+}
+
+function getNextRunTime(schedule: ArchiveSchedule, after: Date): Date {
+  if (schedule.cron !== undefined) {
+    return getNextCronTime(parseCron(schedule.cron), after);
+  }
+  return new Date(after.getTime() + (schedule.intervalMinutes as number) * 60 * 1000);
+}
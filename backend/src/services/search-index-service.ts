@@ -0,0 +1,296 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Archive, ArchivedPage, IndexedPage, SearchHit } from '../types';
+import { extractText } from '../utils/html-diff';
+import { FileService } from './file-service';
+
+export interface SearchIndexServiceOptions {
+  /** Directory holding the index, one file per archive */
+  directory: string;
+}
+
+export interface SearchQuery {
+  /** Words that must all appear; quoted phrases must appear as written */
+  q: string;
+  /** Only archives of this domain or its subdomains */
+  domain?: string;
+  /** Only archives made at or after this time */
+  from?: Date;
+  /** Only archives made at or before this time */
+  to?: Date;
+  /** Most hits returned */
+  limit?: number;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  /** Number of matching pages, including those past the limit */
+  total: number;
+}
+
+/** Weight of a word by where it appears on the page */
+const FIELD_WEIGHTS = { title: 3, headings: 2, text: 1 };
+
+/** Hits where the whole query appears as written rank this much higher */
+const PHRASE_BOOST = 1.5;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Lowercase words of a text, for indexing and matching
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Full-text index of the visible text, titles and headings of archived pages
+ *
+ * Pages are appended to a JSON Lines file per archive as they are saved, so indexing
+ * never rewrites earlier entries; the word index is rebuilt in memory on load. Archive
+ * versions and timestamps are looked up from the archives' metadata when searching.
+ */
+export class SearchIndexService {
+  private directory: string;
+  private pages = new Map<string, IndexedPage>();
+  /** Weighted number of times each word appears on each page, by page key */
+  private postings = new Map<string, Map<string, number>>();
+  private archives = new Map<string, Promise<Archive>>();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private fileService: FileService, options: SearchIndexServiceOptions) {
+    this.directory = options.directory;
+  }
+
+  /**
+   * Load the index from disk, replacing any held in memory
+   */
+  async load(): Promise<void> {
+    this.pages.clear();
+    this.postings.clear();
+    this.archives.clear();
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.jsonl'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load search index: ${message}`);
+    }
+
+    for (const file of files) {
+      const content = await fs.readFile(path.join(this.directory, file), 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          this.addPage(JSON.parse(line) as IndexedPage);
+        } catch {
+          // A line cut short by a crash; the page is indexed again when re-archived
+          console.warn(`Skipping unreadable search index entry in ${file}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Index the text of a saved page, replacing any earlier entry for its path
+   * @throws Error if the entry cannot be written
+   */
+  async indexPage(archiveId: string, page: Pick<ArchivedPage, 'url' | 'path' | 'title'>, html: string): Promise<void> {
+    const indexed: IndexedPage = {
+      archiveId,
+      url: page.url,
+      path: page.path,
+      title: page.title || extractText(html, { select: 'title' }).join(' '),
+      headings: extractText(html, { select: 'h1, h2, h3, h4, h5, h6' }),
+      text: extractText(html, { select: 'body' }).join(' '),
+    };
+    this.addPage(indexed);
+
+    const entry = `${JSON.stringify(indexed)}\n`;
+    const write = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.appendFile(this.getIndexPath(archiveId), entry, 'utf-8');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to index page ${page.url}: ${message}`);
+      }
+    });
+
+    // Keep the chain going even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Drop the pages of a deleted archive from the index
+   */
+  async removeArchive(archiveId: string): Promise<void> {
+    for (const [key, page] of this.pages) {
+      if (page.archiveId === archiveId) {
+        this.removePage(key);
+      }
+    }
+    this.archives.delete(archiveId);
+
+    const remove = this.writeChain.then(() => fs.rm(this.getIndexPath(archiveId), { force: true }));
+    this.writeChain = remove.catch(() => undefined);
+    await remove;
+  }
+
+  /**
+   * Find pages containing every word of a query, best matches first
+   *
+   * Words count more in titles and headings and when they are rare across the index;
+   * newer archives come first among equally good matches.
+   */
+  async search(query: SearchQuery): Promise<SearchResults> {
+    const phrases = [...query.q.matchAll(/"([^"]+)"/g)]
+      .map(match => tokenize(match[1]).join(' '))
+      .filter(phrase => phrase.length > 0);
+    const terms = [...new Set(tokenize(query.q))];
+    if (terms.length === 0) {
+      return { hits: [], total: 0 };
+    }
+
+    // Start from the rarest word so the candidate set stays small
+    const termPostings = terms.map(term => this.postings.get(term) || new Map<string, number>());
+    const [rarest, ...others] = [...termPostings].sort((a, b) => a.size - b.size);
+    const wholeQuery = terms.length > 1 ? tokenize(query.q).join(' ') : null;
+    const domain = query.domain?.toLowerCase();
+
+    const hits: SearchHit[] = [];
+    for (const key of rarest.keys()) {
+      if (others.some(postings => !postings.has(key))) {
+        continue;
+      }
+      const page = this.pages.get(key)!;
+      const words = ` ${tokenize(`${page.title} ${page.headings.join(' ')} ${page.text}`).join(' ')} `;
+      if (phrases.some(phrase => !words.includes(` ${phrase} `))) {
+        continue;
+      }
+
+      const archive = await this.getArchive(page.archiveId);
+      if (!archive) {
+        continue;
+      }
+      const timestamp = new Date(archive.timestamp);
+      if (
+        (domain && archive.domain !== domain && !archive.domain.endsWith(`.${domain}`)) ||
+        (query.from && timestamp < query.from) ||
+        (query.to && timestamp > query.to)
+      ) {
+        continue;
+      }
+
+      let score = termPostings.reduce(
+        (sum, postings) => sum + postings.get(key)! * Math.log(1 + this.pages.size / postings.size),
+        0
+      );
+      if (wholeQuery && words.includes(` ${wholeQuery} `)) {
+        score *= PHRASE_BOOST;
+      }
+
+      hits.push({
+        archiveId: archive.id,
+        url: archive.url,
+        domain: archive.domain,
+        version: archive.version,
+        timestamp,
+        pageUrl: page.url,
+        path: page.path,
+        title: page.title,
+        snippet: createSnippet(page.text, [...phrases, ...terms]),
+        score,
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime());
+    return { hits: hits.slice(0, query.limit ?? hits.length), total: hits.length };
+  }
+
+  /**
+   * Metadata of an indexed archive, or null if it no longer exists
+   */
+  private async getArchive(archiveId: string): Promise<Archive | null> {
+    let archive = this.archives.get(archiveId);
+    if (!archive) {
+      archive = this.fileService.loadArchiveMetadata(archiveId);
+      this.archives.set(archiveId, archive);
+      // Look missing archives up again next time, in case they are still being created
+      archive.catch(() => this.archives.delete(archiveId));
+    }
+    return archive.catch(() => null);
+  }
+
+  private addPage(page: IndexedPage): void {
+    const key = `${page.archiveId}/${page.path}`;
+    this.removePage(key);
+    this.pages.set(key, page);
+
+    const counts = new Map<string, number>();
+    const fields: [string, number][] = [
+      [page.title, FIELD_WEIGHTS.title],
+      [page.headings.join(' '), FIELD_WEIGHTS.headings],
+      [page.text, FIELD_WEIGHTS.text],
+    ];
+    for (const [text, weight] of fields) {
+      for (const term of tokenize(text)) {
+        counts.set(term, (counts.get(term) || 0) + weight);
+      }
+    }
+    for (const [term, count] of counts) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(key, count);
+    }
+  }
+
+  private removePage(key: string): void {
+    const page = this.pages.get(key);
+    if (!page) {
+      return;
+    }
+    this.pages.delete(key);
+    for (const term of new Set(tokenize(`${page.title} ${page.headings.join(' ')} ${page.text}`))) {
+      const postings = this.postings.get(term);
+      postings?.delete(key);
+      if (postings?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  private getIndexPath(archiveId: string): string {
+    return path.join(this.directory, `${archiveId}.jsonl`);
+  }
+}
+
+/**
+ * Text around the earliest match of any of the given words or phrases
+ */
+function createSnippet(text: string, needles: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = needles.map(needle => lower.indexOf(needle)).filter(position => position !== -1);
+  const position = positions.length > 0 ? Math.min(...positions) : 0;
+
+  // Start at a word boundary a little before the match
+  let start = Math.max(0, position - SNIPPET_CONTEXT);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < position ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
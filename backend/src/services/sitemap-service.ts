@@ -0,0 +1,106 @@
+import axios, { AxiosInstance } from 'axios';
+import { gunzipSync } from 'zlib';
+import { SitemapUrl, parseSitemap, compareSitemapUrls } from '../utils/sitemap-parser';
+import { RobotsService } from './robots-service';
+
+/**
+ * Sitemaps are limited to 50 MB uncompressed by the sitemap protocol
+ */
+const MAX_SITEMAP_SIZE = 50 * 1024 * 1024;
+
+export interface SitemapServiceOptions {
+  /** Request timeout for sitemap fetches, in milliseconds */
+  timeout?: number;
+  /** Most sitemaps (including indexes) to fetch per site */
+  maxSitemaps?: number;
+}
+
+/**
+ * A page found in one of a site's sitemaps
+ */
+export interface DiscoveredSitemapUrl extends SitemapUrl {
+  /** The sitemap that listed the page */
+  sitemap: string;
+}
+
+/**
+ * Finds the pages a site lists in its sitemaps
+ *
+ * Sitemaps are discovered through the `Sitemap:` lines of robots.txt and the
+ * conventional `/sitemap.xml`. Sitemap indexes are followed, and gzipped sitemaps are
+ * decompressed. Sitemaps that cannot be fetched or parsed are skipped.
+ */
+export class SitemapService {
+  private httpClient: AxiosInstance;
+  private timeout: number;
+  private maxSitemaps: number;
+
+  constructor(httpClient?: AxiosInstance, options: SitemapServiceOptions = {}) {
+    this.httpClient = httpClient || axios.create();
+    this.timeout = options.timeout ?? 10000;
+    this.maxSitemaps = options.maxSitemaps ?? 50;
+  }
+
+  /**
+   * List the pages of a site's sitemaps, in crawl order (see `compareSitemapUrls`)
+   * @param url - Any URL of the site
+   * @param robotsService - Used to read the `Sitemap:` lines of the site's robots.txt
+   */
+  async discover(url: string, robotsService: RobotsService): Promise<DiscoveredSitemapUrl[]> {
+    const origin = new URL(url).origin;
+    const queue = [...(await robotsService.getSitemaps(url)), `${origin}/sitemap.xml`];
+    const fetched = new Set<string>();
+    const pages = new Map<string, DiscoveredSitemapUrl>();
+
+    while (queue.length > 0 && fetched.size < this.maxSitemaps) {
+      const sitemapUrl = queue.shift()!;
+      if (fetched.has(sitemapUrl)) {
+        continue;
+      }
+      fetched.add(sitemapUrl);
+
+      const content = await this.fetchSitemap(sitemapUrl);
+      if (content === null) {
+        continue;
+      }
+
+      const sitemap = parseSitemap(content);
+      queue.push(...sitemap.sitemaps);
+      for (const entry of sitemap.urls) {
+        // Pages listed twice keep their first listing, completed by the second
+        const existing = pages.get(entry.url);
+        pages.set(entry.url, existing ? { ...entry, ...existing } : { ...entry, sitemap: sitemapUrl });
+      }
+      console.log(`🗺️  Loaded sitemap ${sitemapUrl}: ${sitemap.urls.length} URLs, ${sitemap.sitemaps.length} sitemaps`);
+    }
+
+    return Array.from(pages.values()).sort(compareSitemapUrls);
+  }
+
+  /**
+   * Download a sitemap, decompressing it if it is gzipped
+   * @returns null if the sitemap is missing or unreachable
+   */
+  private async fetchSitemap(sitemapUrl: string): Promise<string | null> {
+    try {
+      const response = await this.httpClient.get<ArrayBuffer>(sitemapUrl, {
+        timeout: this.timeout,
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_SITEMAP_SIZE,
+        validateStatus: () => true,
+      });
+      if (response.status < 200 || response.status >= 300) {
+        return null;
+      }
+
+      const body = Buffer.from(response.data);
+      // .xml.gz files are served compressed rather than with a gzip Content-Encoding
+      const isGzipped = body[0] === 0x1f && body[1] === 0x8b;
+      return (isGzipped ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_SIZE }) : body).toString('utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Failed to load sitemap ${sitemapUrl}: ${message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { once } from 'events';
+import { Archive, ArchivedPage, Asset, HttpCapture } from '../types';
+import { FileService } from './file-service';
+import {
+  WarcRecord,
+  buildHttpRequestBlock,
+  buildHttpResponseBlock,
+  createWarcRecordId,
+  formatWarcFields,
+  gzipWarcRecord,
+} from '../utils/warc';
+
+const WARC_SOFTWARE = 'web-archiving-tool/1.0';
+const WARC_SPEC_URL = 'https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/';
+
+/**
+ * A captured page or asset, with the record fields that describe it
+ */
+interface WarcCapture {
+  url: string;
+  http?: HttpCapture;
+  timestamp: Date;
+  contentType: string;
+  metadata: Array<[string, string | number | undefined]>;
+  loadStoredContent: () => Promise<Buffer>;
+}
+
+/**
+ * Writes archives as WARC 1.1 files (`.warc.gz`, one gzip member per record)
+ *
+ * Every page and asset becomes a response, request and metadata record built from the
+ * HTTP exchange recorded at capture time. Captures made before exchanges were recorded
+ * have no original headers or body, so their stored copy is written as a resource record.
+ */
+export class WarcExportService {
+  private fileService: FileService;
+
+  constructor(fileService: FileService) {
+    this.fileService = fileService;
+  }
+
+  /**
+   * File name for an archive's WARC export
+   */
+  getFileName(archive: Archive): string {
+    return `${archive.domain}-v${archive.version}-${archive.id}.warc.gz`;
+  }
+
+  /**
+   * Write an archive as a gzipped WARC file to the output stream
+   *
+   * The stream is not ended, so callers can decide how to finish the response.
+   */
+  async exportArchive(archive: Archive, output: NodeJS.WritableStream): Promise<void> {
+    const write = async (record: WarcRecord): Promise<void> => {
+      if (!output.write(gzipWarcRecord(record))) {
+        await once(output as NodeJS.EventEmitter, 'drain');
+      }
+    };
+
+    const warcinfoId = createWarcRecordId();
+    const firstRequest = archive.pages.find(page => page.http)?.http;
+    await write({
+      type: 'warcinfo',
+      id: warcinfoId,
+      date: new Date(),
+      contentType: 'application/warc-fields',
+      fields: [['WARC-Filename', this.getFileName(archive)]],
+      block: formatWarcFields([
+        ['software', WARC_SOFTWARE],
+        ['format', 'WARC File Format 1.1'],
+        ['conformsTo', WARC_SPEC_URL],
+        ['isPartOf', archive.id],
+        ['description', `Archive of ${archive.url} (version ${archive.version}, ${archive.status})`],
+        ['http-header-user-agent', firstRequest?.requestHeaders.find(([name]) => name.toLowerCase() === 'user-agent')?.[1]],
+      ]),
+    });
+
+    for (const capture of this.collectCaptures(archive)) {
+      await this.writeCapture(capture, archive.id, warcinfoId, write);
+    }
+  }
+
+  /**
+   * List the pages and unique assets of an archive as captures
+   */
+  private collectCaptures(archive: Archive): WarcCapture[] {
+    const captures: WarcCapture[] = archive.pages.map((page: ArchivedPage) => ({
+      url: page.url,
+      http: page.http,
+      timestamp: page.timestamp,
+      contentType: 'text/html; charset=utf-8',
+      metadata: [
+        ['title', page.title],
+        ['depth', page.depth],
+        ['via', page.referrer],
+        ...page.links.map((link): [string, string] => ['outlink', link]),
+        ...page.assets.map((asset): [string, string] => ['embed', asset.originalUrl]),
+      ],
+      loadStoredContent: async () => Buffer.from(await this.fileService.getHtml(page.path, archive.id), 'utf-8'),
+    }));
+
+    // Assets referenced by several pages are written once
+    const seenAssets = new Set<string>();
+    for (const page of archive.pages) {
+      for (const asset of page.assets) {
+        if (seenAssets.has(asset.originalUrl) || !asset.localPath) {
+          continue;
+        }
+        seenAssets.add(asset.originalUrl);
+        captures.push(this.toAssetCapture(asset, page, archive.id));
+      }
+    }
+
+    return captures;
+  }
+
+  private toAssetCapture(asset: Asset, page: ArchivedPage, archiveId: string): WarcCapture {
+    return {
+      url: asset.originalUrl,
+      http: asset.http,
+      timestamp: asset.http?.fetchedAt || page.timestamp,
+      contentType: asset.contentType,
+      metadata: [
+        ['via', page.url],
+        ['asset-type', asset.type],
+      ],
+      loadStoredContent: () => this.fileService.getAsset(asset.localPath, archiveId),
+    };
+  }
+
+  private async writeCapture(
+    capture: WarcCapture,
+    archiveId: string,
+    warcinfoId: string,
+    write: (record: WarcRecord) => Promise<void>
+  ): Promise<void> {
+    const date = capture.http?.fetchedAt || capture.timestamp;
+    const recordId = createWarcRecordId();
+    const common: Array<[string, string]> = [['WARC-Warcinfo-ID', warcinfoId]];
+
+    const http = capture.http;
+    if (http?.bodyPath) {
+      const payload = await this.fileService.getResponseBody(http.bodyPath, archiveId);
+      await write({
+        type: 'response',
+        id: recordId,
+        date,
+        targetUri: capture.url,
+        contentType: 'application/http;msgtype=response',
+        fields: http.ipAddress ? [...common, ['WARC-IP-Address', http.ipAddress]] : common,
+        block: buildHttpResponseBlock(http, payload),
+        payload,
+      });
+      await write({
+        type: 'request',
+        date,
+        targetUri: capture.url,
+        contentType: 'application/http;msgtype=request',
+        fields: [...common, ['WARC-Concurrent-To', recordId]],
+        block: buildHttpRequestBlock(http),
+      });
+    } else {
+      await write({
+        type: 'resource',
+        id: recordId,
+        date,
+        targetUri: capture.url,
+        contentType: capture.contentType,
+        fields: common,
+        block: await capture.loadStoredContent(),
+      });
+    }
+
+    await write({
+      type: 'metadata',
+      date,
+      targetUri: capture.url,
+      contentType: 'application/warc-fields',
+      fields: [...common, ['WARC-Concurrent-To', recordId]],
+      block: formatWarcFields(capture.metadata),
+    });
+  }
+}
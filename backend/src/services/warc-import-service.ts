@@ -0,0 +1,367 @@
+import * as cheerio from 'cheerio';
+import { ArchiveError, ArchivedPage, Asset, AssetType, ErrorType, HttpCapture } from '../types';
+import {
+  ParsedHttpMessage,
+  ParsedWarcRecord,
+  decodeHttpBody,
+  getField,
+  parseHttpMessage,
+  parseWarc,
+} from '../utils/warc';
+import { isZip, readZipEntries } from '../utils/zip-reader';
+import { isValidUrl, resolveUrl } from '../utils/url-utils';
+import { UrlRewriter } from '../utils/url-rewriter';
+
+/**
+ * An asset read from an imported file, with the content to store for it
+ */
+export interface ImportedAsset {
+  asset: Asset;
+  content: Buffer;
+}
+
+/**
+ * Pages and assets read from a WARC or WACZ file, ready to be stored as an archive
+ */
+export interface WarcImport {
+  /** URL of the main page */
+  url: string;
+  /** Capture date of the main page */
+  timestamp: Date;
+  /** HTML pages, main page first; assets are shared with `assets` */
+  pages: ArchivedPage[];
+  /** Unique non-HTML captures */
+  assets: ImportedAsset[];
+  /** Records that were skipped */
+  errors: ArchiveError[];
+}
+
+/**
+ * A response or resource record with its payload
+ */
+interface RecordedCapture {
+  url: string;
+  date: Date;
+  contentType: string;
+  body: Buffer;
+  http?: HttpCapture;
+}
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Reads captures made by other tools from `.warc`, `.warc.gz` and `.wacz` files
+ *
+ * The first capture of every URL is used. HTML responses become pages and everything
+ * else becomes an asset of the pages that reference it; assets only referenced from
+ * stylesheets or scripts are attached to the main page. Revisit records and non-2xx
+ * responses are skipped, since they carry no content of their own.
+ */
+export class WarcImportService {
+  // Page paths have to match the links UrlRewriter writes into archived HTML
+  private pagePaths = new UrlRewriter({ archiveId: '', baseUrl: 'http://localhost/' });
+
+  /**
+   * Parse an uploaded file into pages and assets
+   * @param fileName - Name of the uploaded file, used in error messages
+   * @param content - File content
+   * @throws Error if the file is not a WARC or WACZ file or contains no HTML pages
+   */
+  parseFile(fileName: string, content: Buffer): WarcImport {
+    const { records, mainPageUrl } = this.readRecords(fileName, content);
+    const errors: ArchiveError[] = [];
+    const captures = this.collectCaptures(records, errors);
+
+    const pages: ArchivedPage[] = [];
+    const assets: ImportedAsset[] = [];
+    for (const capture of captures) {
+      if (HTML_CONTENT_TYPES.includes(this.getMimeType(capture.contentType))) {
+        pages.push(this.toPage(capture));
+      } else {
+        assets.push({ asset: this.toAsset(capture), content: capture.body });
+      }
+    }
+
+    if (pages.length === 0) {
+      throw new Error(`Invalid WARC file: no HTML pages found in ${fileName}`);
+    }
+
+    // The main page named by WACZ metadata, or else the first page captured
+    const mainIndex = Math.max(0, pages.findIndex(page => page.url === mainPageUrl));
+    const [mainPage] = pages.splice(mainIndex, 1);
+    pages.unshift(mainPage);
+
+    this.attachAssets(pages, assets, captures);
+
+    return {
+      url: mainPage.url,
+      timestamp: mainPage.timestamp,
+      pages,
+      assets,
+      errors,
+    };
+  }
+
+  /**
+   * Read the WARC records of a file, unpacking WACZ packages
+   */
+  private readRecords(fileName: string, content: Buffer): { records: ParsedWarcRecord[]; mainPageUrl?: string } {
+    if (isZip(content)) {
+      return this.readWacz(fileName, content);
+    }
+
+    const isGzip = content[0] === 0x1f && content[1] === 0x8b;
+    if (!isGzip && !content.subarray(0, 5).equals(Buffer.from('WARC/'))) {
+      throw new Error(`Unsupported import file ${fileName}: expected a .warc, .warc.gz or .wacz file`);
+    }
+
+    return { records: parseWarc(content) };
+  }
+
+  /**
+   * Read the WARC files and main page of a WACZ package
+   */
+  private readWacz(fileName: string, content: Buffer): { records: ParsedWarcRecord[]; mainPageUrl?: string } {
+    const entries = readZipEntries(content);
+    const warcEntries = entries.filter(entry => /^archive\/[^/]+\.warc(\.gz)?$/.test(entry.name));
+    if (warcEntries.length === 0) {
+      throw new Error(`Invalid WACZ file: ${fileName} has no WARC files under archive/`);
+    }
+
+    const records = warcEntries.flatMap(entry => parseWarc(entry.read()));
+
+    let mainPageUrl: string | undefined;
+    const datapackage = entries.find(entry => entry.name === 'datapackage.json');
+    if (datapackage) {
+      try {
+        mainPageUrl = JSON.parse(datapackage.read().toString('utf-8')).mainPageURL;
+      } catch {
+        // The page list below is enough to find the main page
+      }
+    }
+
+    const pageList = entries.find(entry => entry.name === 'pages/pages.jsonl');
+    if (!mainPageUrl && pageList) {
+      // The first line is a header without a URL
+      for (const line of pageList.read().toString('utf-8').split('\n')) {
+        try {
+          const url = JSON.parse(line).url;
+          if (typeof url === 'string') {
+            mainPageUrl = url;
+            break;
+          }
+        } catch {
+          continue;
+        }
+      }
+    }
+
+    return { records, mainPageUrl };
+  }
+
+  /**
+   * Turn response and resource records into captures, keeping the first capture of each URL
+   */
+  private collectCaptures(records: ParsedWarcRecord[], errors: ArchiveError[]): RecordedCapture[] {
+    // Request records point at their response with WARC-Concurrent-To
+    const requestsByResponseId = new Map<string, ParsedHttpMessage>();
+    const requestsByUrl = new Map<string, ParsedHttpMessage>();
+    for (const record of records.filter(record => record.type === 'request')) {
+      const request = parseHttpMessage(record.block);
+      const responseId = getField(record.fields, 'WARC-Concurrent-To');
+      if (responseId) {
+        requestsByResponseId.set(responseId, request);
+      }
+      requestsByUrl.set(this.getTargetUri(record), request);
+    }
+
+    const captures: RecordedCapture[] = [];
+    const seenUrls = new Set<string>();
+    for (const record of records) {
+      const url = this.getTargetUri(record);
+      // Non-HTTP targets are tool metadata, such as `urn:pageinfo:` records and screenshots
+      if (!['response', 'resource', 'revisit'].includes(record.type) || seenUrls.has(url) || !isValidUrl(url)) {
+        continue;
+      }
+
+      if (record.type === 'revisit') {
+        this.addError(errors, `Skipped revisit record for ${url}: deduplicated captures are not supported`, url);
+        continue;
+      }
+
+      const date = this.getRecordDate(record);
+      if (record.type === 'resource') {
+        seenUrls.add(url);
+        captures.push({
+          url,
+          date,
+          contentType: getField(record.fields, 'Content-Type') || 'application/octet-stream',
+          body: record.block,
+        });
+        continue;
+      }
+
+      const response = parseHttpMessage(record.block);
+      const request = requestsByResponseId.get(getField(record.fields, 'WARC-Record-ID') || '') || requestsByUrl.get(url);
+      const http = this.toHttpCapture(url, date, record, response, request);
+      if (!http) {
+        this.addError(errors, `Skipped response record for ${url}: invalid HTTP status line`, url);
+        continue;
+      }
+      // Redirects and errors have no content to archive
+      if (http.statusCode < 200 || http.statusCode >= 300) {
+        continue;
+      }
+
+      seenUrls.add(url);
+      captures.push({
+        url,
+        date,
+        contentType: getField(response.headers, 'Content-Type') || 'application/octet-stream',
+        body: decodeHttpBody(response.headers, response.body),
+        http,
+      });
+    }
+
+    return captures;
+  }
+
+  /**
+   * Rebuild the HTTP exchange of a response record and its request record
+   */
+  private toHttpCapture(
+    url: string,
+    date: Date,
+    record: ParsedWarcRecord,
+    response: ParsedHttpMessage,
+    request?: ParsedHttpMessage
+  ): HttpCapture | undefined {
+    const status = response.startLine.match(/^HTTP\/(\d(?:\.\d)?)\s+(\d{3})\s*(.*)$/);
+    if (!status) {
+      return undefined;
+    }
+
+    const requestLine = request?.startLine.match(/^([A-Z]+)\s+(\S+)/);
+    const target = new URL(url);
+
+    return {
+      method: requestLine?.[1] || 'GET',
+      requestTarget: requestLine?.[2] || `${target.pathname}${target.search}`,
+      requestHeaders: request?.headers || [],
+      httpVersion: status[1],
+      statusCode: parseInt(status[2], 10),
+      statusText: status[3],
+      responseHeaders: response.headers,
+      fetchedAt: date,
+      ipAddress: getField(record.fields, 'WARC-IP-Address'),
+    };
+  }
+
+  private toPage(capture: RecordedCapture): ArchivedPage {
+    const htmlContent = capture.body.toString('utf-8');
+    const $ = cheerio.load(htmlContent);
+
+    const links: string[] = [];
+    $('a[href]').each((_, element) => {
+      const resolvedUrl = resolveUrl($(element).attr('href') || '', capture.url);
+      if (resolvedUrl && isValidUrl(resolvedUrl)) {
+        links.push(resolvedUrl);
+      }
+    });
+
+    return {
+      url: capture.url,
+      path: this.pagePaths.generatePagePath(capture.url),
+      title: $('title').text().trim() || $('h1').first().text().trim() || 'Untitled Page',
+      timestamp: capture.date,
+      assets: [],
+      links,
+      htmlContent,
+      http: capture.http,
+    };
+  }
+
+  private toAsset(capture: RecordedCapture): Asset {
+    return {
+      originalUrl: capture.url,
+      localPath: '', // Set when the asset is stored
+      type: this.getAssetType(capture.contentType, capture.url),
+      size: 0,
+      contentType: capture.contentType,
+      http: capture.http,
+    };
+  }
+
+  /**
+   * Give each page the assets its HTML references; the rest go to the main page
+   */
+  private attachAssets(pages: ArchivedPage[], assets: ImportedAsset[], captures: RecordedCapture[]): void {
+    const assetsByUrl = new Map(assets.map(({ asset }) => [asset.originalUrl, asset]));
+    const referenced = new Set<string>();
+
+    for (const page of pages) {
+      const $ = cheerio.load(page.htmlContent || '');
+      const pageAssets = new Set<Asset>();
+      $('[src], link[href]').each((_, element) => {
+        const reference = $(element).attr('src') || $(element).attr('href') || '';
+        const resolvedUrl = resolveUrl(reference, page.url);
+        const asset = resolvedUrl ? assetsByUrl.get(resolvedUrl) : undefined;
+        if (asset) {
+          pageAssets.add(asset);
+          referenced.add(asset.originalUrl);
+        }
+      });
+      page.assets = Array.from(pageAssets);
+    }
+
+    // Keep capture order for the remaining assets
+    const unreferenced = captures
+      .map(capture => assetsByUrl.get(capture.url))
+      .filter((asset): asset is Asset => asset !== undefined && !referenced.has(asset.originalUrl));
+    pages[0].assets.push(...unreferenced);
+  }
+
+  private getAssetType(contentType: string, url: string): AssetType {
+    const mimeType = this.getMimeType(contentType);
+
+    if (mimeType === 'text/css') {
+      return AssetType.CSS;
+    }
+    if (mimeType.includes('javascript') || mimeType === 'application/ecmascript') {
+      return AssetType.JAVASCRIPT;
+    }
+    if (mimeType.startsWith('image/')) {
+      return AssetType.IMAGE;
+    }
+    if (mimeType.startsWith('font/') || /\.(woff2?|ttf|otf|eot)$/i.test(new URL(url).pathname)) {
+      return AssetType.FONT;
+    }
+    return AssetType.OTHER;
+  }
+
+  private getMimeType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+  }
+
+  private getTargetUri(record: ParsedWarcRecord): string {
+    // WARC 1.0 writers sometimes wrap the URI in angle brackets
+    const uri = (getField(record.fields, 'WARC-Target-URI') || '').replace(/^<(.*)>$/, '$1');
+    // Serialize like resolveUrl does, so references found in pages match
+    return resolveUrl(uri, uri) || uri;
+  }
+
+  private getRecordDate(record: ParsedWarcRecord): Date {
+    const date = new Date(getField(record.fields, 'WARC-Date') || '');
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  private addError(errors: ArchiveError[], message: string, url?: string): void {
+    errors.push({
+      timestamp: new Date(),
+      type: ErrorType.CONTENT_ERROR,
+      message,
+      url,
+      recoverable: true,
+    });
+  }
+}
@@ -0,0 +1,347 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHmac, randomBytes } from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Archive,
+  ArchiveStatus,
+  ChangeAlert,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookSubscription,
+} from '../types';
+
+export interface WebhookServiceOptions {
+  /** Path of the JSON file subscriptions and the delivery log are persisted to */
+  filePath: string;
+  /** Attempts per delivery, including the first one */
+  maxAttempts?: number;
+  /** Wait before the first retry, in milliseconds; doubles with each further retry */
+  retryDelay?: number;
+  /** Timeout of each attempt, in milliseconds */
+  timeout?: number;
+  /** Most deliveries kept in the log; older ones are dropped */
+  maxDeliveries?: number;
+}
+
+export type NewWebhookSubscription = Pick<WebhookSubscription, 'url'> &
+  Partial<Pick<WebhookSubscription, 'events' | 'secret'>>;
+
+/** Subscription as listed to clients; the secret is only shown when it is created */
+export type WebhookSubscriptionInfo = Omit<WebhookSubscription, 'secret'>;
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'archive.created',
+  'archive.completed',
+  'archive.partial',
+  'archive.failed',
+  'archive.changed',
+];
+
+/** Header carrying the `sha256=<hex>` HMAC of the request body */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+interface StoredState {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDelivery[];
+}
+
+/**
+ * Sign a webhook request body the way receivers should check it
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Event sent when an archive ends with the given status
+ */
+export function getStatusEvent(status: ArchiveStatus): WebhookEvent | null {
+  switch (status) {
+    case ArchiveStatus.COMPLETED:
+      return 'archive.completed';
+    case ArchiveStatus.PARTIAL:
+      return 'archive.partial';
+    case ArchiveStatus.FAILED:
+      return 'archive.failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Tells other systems about archive lifecycle events through signed webhooks
+ *
+ * Each event is POSTed as JSON to the subscriptions that asked for it, signed with the
+ * subscription's secret. Failed attempts are retried with exponential backoff and every
+ * delivery is kept in a log; subscriptions and the log share one JSON file.
+ */
+export class WebhookService {
+  private filePath: string;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private timeout: number;
+  private maxDeliveries: number;
+  private subscriptions: WebhookSubscription[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(options: WebhookServiceOptions) {
+    this.filePath = options.filePath;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.timeout = options.timeout ?? 10000;
+    this.maxDeliveries = options.maxDeliveries ?? 1000;
+  }
+
+  /**
+   * Load subscriptions and the delivery log from disk, replacing any held in memory
+   *
+   * Deliveries that were still pending when the server stopped are marked as failed.
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const state = JSON.parse(content) as StoredState;
+
+      // Convert timestamp strings back to Date objects
+      this.subscriptions = state.subscriptions.map(subscription => ({
+        ...subscription,
+        createdAt: new Date(subscription.createdAt),
+      }));
+      this.deliveries = state.deliveries.map(delivery => ({
+        ...delivery,
+        createdAt: new Date(delivery.createdAt),
+        lastAttemptAt: delivery.lastAttemptAt && new Date(delivery.lastAttemptAt),
+        nextAttemptAt: delivery.nextAttemptAt && new Date(delivery.nextAttemptAt),
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.subscriptions = [];
+        this.deliveries = [];
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load webhooks: ${message}`);
+    }
+
+    const interrupted = this.deliveries.filter(delivery => delivery.status === 'pending');
+    for (const delivery of interrupted) {
+      delivery.status = 'failed';
+      delivery.error = 'Delivery was interrupted by a server restart';
+      delete delivery.nextAttemptAt;
+    }
+    if (interrupted.length > 0) {
+      await this.save();
+    }
+  }
+
+  /**
+   * List subscriptions in creation order, without their secrets
+   */
+  listSubscriptions(): WebhookSubscriptionInfo[] {
+    return this.subscriptions.map(toInfo);
+  }
+
+  /**
+   * Get a subscription without its secret
+   */
+  getSubscription(id: string): WebhookSubscriptionInfo | null {
+    const subscription = this.subscriptions.find(candidate => candidate.id === id);
+    return subscription ? toInfo(subscription) : null;
+  }
+
+  /**
+   * Subscribe a URL to archive events; all events when none are given
+   *
+   * A random secret is generated unless one is given.
+   * @returns The subscription, including its secret
+   * @throws Error if the URL, an event or the secret is invalid
+   */
+  async createSubscription(settings: NewWebhookSubscription): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url: settings.url,
+      events: settings.events ?? [...WEBHOOK_EVENTS],
+      secret: settings.secret ?? randomBytes(32).toString('hex'),
+      createdAt: new Date(),
+    };
+    validateSubscription(subscription);
+
+    this.subscriptions.push(subscription);
+    await this.save();
+    return { ...subscription };
+  }
+
+  /**
+   * Delete a subscription along with its delivery log
+   * @returns Whether the subscription existed
+   */
+  async removeSubscription(id: string): Promise<boolean> {
+    const count = this.subscriptions.length;
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.id !== id);
+    if (this.subscriptions.length === count) {
+      return false;
+    }
+    this.deliveries = this.deliveries.filter(delivery => delivery.subscriptionId !== id);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   */
+  listDeliveries(subscriptionId: string): WebhookDelivery[] {
+    return this.deliveries
+      .filter(delivery => delivery.subscriptionId === subscriptionId)
+      .map(delivery => ({ ...delivery }));
+  }
+
+  /**
+   * Send an archive event to every subscription that wants it
+   *
+   * @returns Promise resolving once each delivery has succeeded or run out of attempts;
+   * callers that do not need to wait can leave it running in the background
+   */
+  async dispatch(event: WebhookEvent, archive: Archive, change?: ChangeAlert): Promise<void> {
+    const subscriptions = this.subscriptions.filter(subscription => subscription.events.includes(event));
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload: Omit<WebhookPayload, 'id'> = {
+      event,
+      createdAt: new Date(),
+      archive: {
+        id: archive.id,
+        url: archive.url,
+        domain: archive.domain,
+        timestamp: archive.timestamp,
+        status: archive.status,
+        version: archive.version,
+        metadata: archive.metadata,
+        cancelled: archive.cancelled,
+        importedFrom: archive.importedFrom,
+      },
+      errors: archive.errors,
+      change,
+    };
+
+    const deliveries = subscriptions.map(subscription => {
+      const delivery: WebhookDelivery = {
+        id: uuidv4(),
+        subscriptionId: subscription.id,
+        event,
+        archiveId: archive.id,
+        status: 'pending',
+        attempts: 0,
+        createdAt: payload.createdAt,
+      };
+      this.deliveries.unshift(delivery);
+      return { subscription, delivery };
+    });
+    this.deliveries.splice(this.maxDeliveries);
+    await this.save().catch(error => console.warn(error instanceof Error ? error.message : error));
+
+    await Promise.all(deliveries.map(({ subscription, delivery }) =>
+      this.deliver(subscription, delivery, JSON.stringify({ id: delivery.id, ...payload }))
+    ));
+  }
+
+  /**
+   * POST a payload until the receiver accepts it or attempts run out
+   */
+  private async deliver(subscription: WebhookSubscription, delivery: WebhookDelivery, body: string): Promise<void> {
+    const headers = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, subscription.secret),
+    };
+
+    while (delivery.status === 'pending') {
+      delivery.attempts++;
+      delivery.lastAttemptAt = new Date();
+      try {
+        const response = await axios.post(subscription.url, body, {
+          headers,
+          timeout: this.timeout,
+          maxRedirects: 0,
+        });
+        delivery.status = 'succeeded';
+        delivery.responseStatus = response.status;
+        delete delivery.error;
+        delete delivery.nextAttemptAt;
+      } catch (error) {
+        delivery.responseStatus = axios.isAxiosError(error) ? error.response?.status : undefined;
+        delivery.error = error instanceof Error ? error.message : String(error);
+
+        if (delivery.attempts >= this.maxAttempts) {
+          delivery.status = 'failed';
+          delete delivery.nextAttemptAt;
+          console.warn(`Failed to deliver ${delivery.event} webhook ${delivery.id} to ${subscription.url}: ${delivery.error}`);
+        } else {
+          const delay = this.retryDelay * 2 ** (delivery.attempts - 1);
+          delivery.nextAttemptAt = new Date(Date.now() + delay);
+        }
+      }
+
+      await this.save().catch(error => console.warn(error instanceof Error ? error.message : error));
+      if (delivery.nextAttemptAt) {
+        await new Promise(resolve => setTimeout(resolve, delivery.nextAttemptAt!.getTime() - Date.now()));
+      }
+    }
+  }
+
+  /**
+   * Write subscriptions and deliveries to disk after any pending write completes
+   */
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify({ subscriptions: this.subscriptions, deliveries: this.deliveries }, null, 2);
+    const write = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a truncated file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to save webhooks: ${message}`);
+      }
+    });
+
+    // Keep the chain going even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+function toInfo({ secret, ...info }: WebhookSubscription): WebhookSubscriptionInfo {
+  return { ...info, events: [...info.events] };
+}
+
+/**
+ * @throws Error unless the URL, events and secret are all usable
+ */
+function validateSubscription(subscription: WebhookSubscription): void {
+  let protocol = '';
+  try {
+    protocol = new URL(subscription.url).protocol;
+  } catch {
+    // Reported below
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Invalid webhook: URL must be HTTP or HTTPS: ${subscription.url}`);
+  }
+
+  const { events, secret } = subscription;
+  if (!Array.isArray(events) || events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+    throw new Error(`Invalid webhook: events must be a non-empty list of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  if (typeof secret !== 'string' || secret.length < 16) {
+    throw new Error('Invalid webhook: secret must be a string of at least 16 characters');
+  }
+}
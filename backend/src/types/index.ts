@@ -25,12 +25,49 @@ export enum ErrorType {
   PERMISSION_ERROR = 'permission_error',
 }
 
+export enum SkipReason {
+  ROBOTS_DISALLOWED = 'robots_disallowed',
+}
+
+/**
+ * How a resource of an incremental archive compares with the version it was based on
+ */
+export type ChangeStatus = 'unchanged' | 'changed' | 'new' | 'removed';
+
 export interface Asset {
   originalUrl: string;
   localPath: string;
   type: AssetType;
   size: number;
   contentType: string;
+  http?: HttpCapture; // Raw HTTP exchange, recorded when the asset was downloaded
+  change?: ChangeStatus; // Set in incremental archives
+}
+
+/**
+ * Raw HTTP request and response of a capture, kept so it can be exported as WARC records
+ */
+export interface HttpCapture {
+  method: string;
+  requestTarget: string; // Path and query as sent in the request line
+  requestHeaders: Array<[string, string]>;
+  httpVersion: string;
+  statusCode: number;
+  statusText: string;
+  responseHeaders: Array<[string, string]>; // In the order received, duplicates kept
+  fetchedAt: Date;
+  ipAddress?: string;
+  bodyPath?: string; // Stored copy of the response body as received, before URL rewriting
+  redirects?: RedirectHop[]; // Redirects followed before this response, in order
+}
+
+/**
+ * A redirect followed on the way to a captured response
+ */
+export interface RedirectHop {
+  url: string; // URL that answered with the redirect
+  statusCode: number;
+  location: string; // Absolute URL the redirect pointed to
 }
 
 export interface ArchivedPage {
@@ -40,7 +77,19 @@ export interface ArchivedPage {
   timestamp: Date;
   assets: Asset[];
   links: string[];
+  depth?: number; // Hops from the starting URL (the starting page is depth 0)
+  referrer?: string; // URL of the page whose link led to this page
   htmlContent?: string; // Optional HTML content for storage
+  http?: HttpCapture; // Raw HTTP exchange of the page fetch
+  change?: ChangeStatus; // Set in incremental archives
+}
+
+export interface SkippedUrl {
+  url: string;
+  reason: SkipReason;
+  rule?: string; // The rule that excluded the URL (e.g. "Disallow: /private")
+  sourceUrl?: string; // Page on which the URL was found
+  timestamp: Date;
 }
 
 export interface ArchiveError {
@@ -64,9 +113,43 @@ export interface Archive {
     assetCount: number;
     totalSize: number;
     crawlDuration: number;
+    scope?: CrawlScopeReport;
   };
   pages: ArchivedPage[];
   errors: ArchiveError[];
+  skippedUrls?: SkippedUrl[];
+  /** True when the archive job was cancelled before it finished */
+  cancelled?: boolean;
+  /** Name of the WARC or WACZ file the archive was imported from */
+  importedFrom?: string;
+  /** Set when the archive was re-archived incrementally from an earlier version */
+  incremental?: IncrementalReport;
+}
+
+/**
+ * Counts of resources by change status
+ */
+export type ChangeCounts = { [status in ChangeStatus]: number };
+
+/**
+ * How an incremental archive differs from the version it was based on
+ */
+export interface IncrementalReport {
+  baseArchiveId: string;
+  baseVersion: number;
+  pages: ChangeCounts;
+  assets: ChangeCounts;
+  removedPages: string[]; // Only listed when the crawl finished
+  removedAssets: string[];
+}
+
+/**
+ * Storage used by an archive, whose asset and response bodies may be shared with other archives
+ */
+export interface ArchiveSize {
+  logicalSize: number; // Bytes of all stored files, counting every copy
+  diskSize: number; // Bytes on disk, counting each shared body once
+  sharedSize: number; // Part of diskSize in bodies other archives use too
 }
 
 export interface ArchiveVersion {
@@ -77,18 +160,287 @@ export interface ArchiveVersion {
   totalVersions: number;
 }
 
+/**
+ * Which `srcset` candidates to download: every candidate, or only the largest one of each image
+ */
+export type ResponsiveImagePolicy = 'all' | 'largest';
+
+/**
+ * Which hosts and paths a crawl follows links to
+ * - `host`: only the starting URL's host
+ * - `subdomains`: the starting URL's host and its subdomains
+ * - `domain`: every host of the starting URL's registrable domain, such as `example.com`
+ * - `prefix`: the starting URL's host, below the starting URL's directory
+ */
+export type ScopeMode = 'host' | 'subdomains' | 'domain' | 'prefix';
+
+/**
+ * Per-archive crawl scope rules
+ *
+ * Patterns are globs, or regular expressions matched against the whole URL when
+ * prefixed with `re:`. Globs that start with `/` match the path and query, other globs
+ * the whole URL; `*` matches within a path segment and `**` across segments.
+ */
+export interface CrawlScope {
+  mode?: ScopeMode; // Defaults to 'host'
+  include?: string[]; // When given, pages must match one of these patterns
+  exclude?: string[]; // Pages matching any of these patterns are not crawled
+  useDefaultExcludes?: boolean; // Skip logins, carts, downloads and similar pages; defaults to true
+  assetHosts?: string[]; // When given, assets from hosts outside the scope must match one of these (`*.example.net` allowed)
+}
+
+/**
+ * The scope an archive was crawled with, as recorded in its metadata
+ */
+export interface CrawlScopeReport {
+  mode: ScopeMode;
+  host: string; // The starting URL's host, or its registrable domain in 'domain' mode
+  pathPrefix?: string; // Only in 'prefix' mode
+  include: string[];
+  exclude: string[];
+  useDefaultExcludes: boolean;
+  assetHosts?: string[]; // Absent when assets may come from any host
+}
+
+/**
+ * How pages are captured: as served ('static'), or after running their scripts ('dom')
+ */
+export type RenderMode = 'static' | 'dom';
+
 export interface CrawlerOptions {
   maxDepth: number;
   maxPages: number;
   timeout: number;
   respectRobots: boolean;
+  responsiveImages?: ResponsiveImagePolicy; // Defaults to 'all'
+  promoteLazyImages?: boolean; // Copy lazy-load data-src/data-srcset into src/srcset in archived pages
+  renderMode?: RenderMode; // Defaults to 'static'
+  renderTimeout?: number; // Time budget per page in 'dom' mode, in milliseconds
+  maxRenderRequests?: number; // Request budget per page in 'dom' mode
+  seedFromSitemap?: boolean; // Queue the pages listed in robots.txt Sitemap: lines and /sitemap.xml
+  scope?: CrawlScope; // Defaults to the starting URL's host, without include patterns
+  maxConcurrencyPerHost?: number; // Requests running at once per host, defaults to 2
+  minRequestDelay?: number; // Milliseconds between requests to one host, defaults to 200; a longer Crawl-delay wins
+  maxRetries?: number; // Retries after 429/503 responses and transient network errors, defaults to 3
+  incrementalFrom?: string; // ID of an earlier version of the same URL; unchanged resources are reused from it
+}
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  referrer?: string;
+}
+
+/**
+ * State of an interrupted crawl that a new crawl session can pick up from
+ */
+export interface CrawlCheckpoint {
+  pages: ArchivedPage[]; // Pages crawled before the interruption
+  frontier: FrontierEntry[]; // Entries that were still waiting to be crawled
+}
+
+export enum JobState {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  DONE = 'done',
+}
+
+/**
+ * A persisted archive job; its ID is the ID of the archive it produces
+ */
+export interface ArchiveJob {
+  id: string;
+  url: string;
+  state: JobState;
+  /** Higher priorities run first; equal priorities run in submission order */
+  priority: number;
+  options?: Partial<CrawlerOptions>;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** How many times the job has been started, including restarts after interruptions */
+  attempts: number;
+  /** Final archive status once the job is done */
+  result?: ArchiveStatus;
+}
+
+/**
+ * A recurring archive of a URL, run on a cron expression or a fixed interval
+ */
+export interface ArchiveSchedule {
+  id: string;
+  url: string;
+  options?: Partial<CrawlerOptions>;
+  /** Five-field cron expression, evaluated in UTC */
+  cron?: string;
+  /** Minutes between runs, used when there is no cron expression */
+  intervalMinutes?: number;
+  enabled: boolean;
+  createdAt: Date;
+  /** When the schedule runs next; unset while it is disabled */
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  /** Archive created by the last run */
+  lastArchiveId?: string;
+  /** Last time a run was skipped because the previous one was still active */
+  lastSkippedAt?: Date;
+  /** Why the last run could not create an archive */
+  lastError?: string;
+}
+
+/**
+ * How re-archives of a URL are checked for changes; URLs without one use the defaults
+ */
+export interface ChangeWatch {
+  id: string;
+  url: string;
+  enabled: boolean;
+  /** Visible text similarity (0 to 1) below which a new version counts as changed */
+  similarityThreshold: number;
+  /** CSS selectors to compare instead of the whole page; any change to them counts */
+  selectors?: string[];
+  /** CSS selectors of regions left out of the comparison, such as ads */
+  ignoreSelectors?: string[];
+  /** Regular expressions for text left out of the comparison, such as timestamps */
+  ignorePatterns?: string[];
+  createdAt: Date;
+}
+
+/**
+ * Outcome of comparing a finished archive with the previous version of its URL
+ */
+export interface ChangeSummary {
+  url: string;
+  archiveId: string;
+  version: number;
+  previousArchiveId: string;
+  previousVersion: number;
+  changed: boolean;
+  /** Share of compared text lines both versions have in common, from 0 to 1 */
+  similarity: number;
+  similarityThreshold: number;
+  addedLines: number;
+  removedLines: number;
+  /** Pages that differ, by URL */
+  pages: { url: string; status: ChangeStatus; similarity: number }[];
+  /** Watched selectors whose text changed on at least one page */
+  changedSelectors: string[];
+}
+
+/**
+ * A detected change, kept in the notifications feed
+ */
+export interface ChangeAlert extends ChangeSummary {
+  id: string;
+  createdAt: Date;
+  read: boolean;
+}
+
+/**
+ * Archive lifecycle events that webhook subscriptions can receive
+ */
+export type WebhookEvent = 'archive.created' | 'archive.completed' | 'archive.partial' | 'archive.failed' | 'archive.changed';
+
+/**
+ * A URL that archive lifecycle events are POSTed to
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Events delivered to the URL */
+  events: WebhookEvent[];
+  /** Key of the HMAC-SHA256 signature sent with each delivery */
+  secret: string;
+  createdAt: Date;
+}
+
+/**
+ * Archive fields sent in webhook payloads, without the page and asset lists
+ */
+export type ArchiveSummary = Pick<
+  Archive,
+  'id' | 'url' | 'domain' | 'timestamp' | 'status' | 'version' | 'metadata' | 'cancelled' | 'importedFrom'
+>;
+
+/**
+ * JSON body of a webhook delivery
+ */
+export interface WebhookPayload {
+  /** ID of the delivery, the same on every retry */
+  id: string;
+  event: WebhookEvent;
+  createdAt: Date;
+  archive: ArchiveSummary;
+  errors: ArchiveError[];
+  /** Detected change, on archive.changed events */
+  change?: ChangeAlert;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * One event sent to one subscription, kept in the delivery log
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  archiveId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, if the receiver answered */
+  responseStatus?: number;
+  /** Why the last attempt failed */
+  error?: string;
+  createdAt: Date;
+  lastAttemptAt?: Date;
+  /** When the next retry is due, while the delivery is pending */
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Searchable text of an archived page
+ */
+export interface IndexedPage {
+  archiveId: string;
+  /** URL the page was captured from */
+  url: string;
+  /** Path of the stored HTML within the archive */
+  path: string;
+  title: string;
+  headings: string[];
+  /** Visible text, with whitespace collapsed */
+  text: string;
+}
+
+/**
+ * An archived page matching a search, with the archive it belongs to
+ */
+export interface SearchHit {
+  archiveId: string;
+  /** URL the archive was made of */
+  url: string;
+  domain: string;
+  version: number;
+  timestamp: Date;
+  pageUrl: string;
+  path: string;
+  title: string;
+  /** Text around the first match */
+  snippet: string;
+  score: number;
 }
 
 export interface CrawlResult {
   pages: ArchivedPage[];
   errors: ArchiveError[];
+  skippedUrls: SkippedUrl[];
   totalSize: number;
   duration: number;
+  /** True when the crawl was stopped before it finished */
+  cancelled: boolean;
+  /** Entries that were still waiting to be crawled when the crawl ended */
+  frontier: FrontierEntry[];
 }
 
 // Re-export utility functions for convenience
@@ -0,0 +1,223 @@
+import { CrawlScope, CrawlScopeReport, ScopeMode } from '../types';
+
+export const SCOPE_MODES: ScopeMode[] = ['host', 'subdomains', 'domain', 'prefix'];
+
+/**
+ * Pages skipped unless `useDefaultExcludes` is turned off: downloads, media, account
+ * and shopping pages, and links that are not pages at all
+ */
+export const DEFAULT_EXCLUDE_PATTERNS: RegExp[] = [
+  /\.(pdf|doc|docx|xls|xlsx|ppt|pptx|zip|rar|tar|gz)$/i,
+  /\.(mp3|mp4|avi|mov|wmv|flv|wav|ogg)$/i,
+  /\.(exe|dmg|pkg|deb|rpm)$/i,
+  /\/download\//i,
+  /\/api\//i,
+  /\/admin\//i,
+  /\/wp-admin\//i,
+  /\/login/i,
+  /\/logout/i,
+  /\/register/i,
+  /\/signup/i,
+  /\/cart/i,
+  /\/checkout/i,
+  /mailto:/i,
+  /tel:/i,
+  /javascript:/i,
+  /#/,
+];
+
+/**
+ * Public suffixes with more than one label that are common enough to matter; other
+ * suffixes are assumed to be a single label. A full public suffix list would be exact.
+ */
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'co.jp', 'ne.jp', 'or.jp',
+  'com.br', 'com.cn', 'com.mx', 'com.tr', 'com.sg', 'co.in', 'co.za', 'co.kr',
+]);
+
+/**
+ * Get the registrable domain of a host name, such as `example.co.uk` for `www.example.co.uk`
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const labels = hostname.toLowerCase().split('.');
+  if (labels.length <= 2 || /^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    return hostname.toLowerCase();
+  }
+  const suffixLabels = MULTI_LABEL_SUFFIXES.has(labels.slice(-2).join('.')) ? 2 : 1;
+  return labels.slice(-(suffixLabels + 1)).join('.');
+}
+
+/**
+ * Compile a scope pattern: `re:` starts a regular expression, anything else is a glob
+ * @throws Error if a regular expression is invalid
+ */
+export function compileScopePattern(pattern: string): { regex: RegExp; matchesPath: boolean } {
+  if (pattern.startsWith('re:')) {
+    try {
+      return { regex: new RegExp(pattern.slice(3)), matchesPath: false };
+    } catch (error) {
+      throw new Error(`Invalid scope pattern ${pattern}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+  return { regex: new RegExp(`^${source}$`), matchesPath: pattern.startsWith('/') };
+}
+
+/**
+ * Check scope rules received from a client
+ * @returns A description of the first problem, or null if the scope is valid
+ */
+export function validateCrawlScope(scope: any): string | null {
+  if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+    return 'scope must be an object';
+  }
+  if (scope.mode !== undefined && !SCOPE_MODES.includes(scope.mode)) {
+    return `scope.mode must be one of ${SCOPE_MODES.join(', ')}`;
+  }
+  for (const key of ['include', 'exclude', 'assetHosts']) {
+    const value = scope[key];
+    if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item !== ''))) {
+      return `scope.${key} must be an array of non-empty strings`;
+    }
+  }
+  if (scope.useDefaultExcludes !== undefined && typeof scope.useDefaultExcludes !== 'boolean') {
+    return 'scope.useDefaultExcludes must be a boolean';
+  }
+
+  try {
+    [...(scope.include || []), ...(scope.exclude || [])].forEach(compileScopePattern);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  matchesPath: boolean;
+}
+
+/**
+ * Decides which pages and assets belong to a crawl
+ */
+export class CrawlScopeMatcher {
+  private mode: ScopeMode;
+  private startHost: string;
+  private registrableDomain: string;
+  private pathPrefix: string;
+  private include: CompiledPattern[];
+  private exclude: CompiledPattern[];
+  private useDefaultExcludes: boolean;
+  private assetHosts?: string[];
+
+  /**
+   * @param startUrl - The crawl's starting URL, which the scope mode is relative to
+   * @param scope - Scope rules; every rule is optional
+   * @throws Error if a pattern is invalid
+   */
+  constructor(startUrl: string, private scope: CrawlScope = {}) {
+    const start = new URL(startUrl);
+    this.mode = scope.mode || 'host';
+    this.startHost = start.hostname.toLowerCase();
+    this.registrableDomain = getRegistrableDomain(this.startHost);
+    this.pathPrefix = start.pathname.slice(0, start.pathname.lastIndexOf('/') + 1) || '/';
+    this.include = (scope.include || []).map(compileScopePattern);
+    this.exclude = (scope.exclude || []).map(compileScopePattern);
+    this.useDefaultExcludes = scope.useDefaultExcludes ?? true;
+    this.assetHosts = scope.assetHosts?.map(host => host.toLowerCase());
+  }
+
+  /**
+   * Whether links to a page should be followed
+   */
+  isPageInScope(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    if (!this.isHostInScope(parsed.hostname)) {
+      return false;
+    }
+    if (this.mode === 'prefix' && !parsed.pathname.startsWith(this.pathPrefix)) {
+      return false;
+    }
+    if (this.include.length > 0 && !this.include.some(pattern => this.matches(pattern, parsed))) {
+      return false;
+    }
+    if (this.exclude.some(pattern => this.matches(pattern, parsed))) {
+      return false;
+    }
+    return !this.useDefaultExcludes || !DEFAULT_EXCLUDE_PATTERNS.some(pattern => pattern.test(url));
+  }
+
+  /**
+   * Whether an asset may be downloaded: any asset when no `assetHosts` are configured,
+   * otherwise assets from the scope's hosts and the listed hosts
+   */
+  isAssetAllowed(url: string): boolean {
+    if (!this.assetHosts) {
+      return true;
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+    return this.isHostInScope(hostname) || this.assetHosts.some(host =>
+      host.startsWith('*.') ? hostname.endsWith(host.slice(1)) : hostname === host
+    );
+  }
+
+  /**
+   * Describe the scope for archive metadata
+   */
+  describe(): CrawlScopeReport {
+    return {
+      mode: this.mode,
+      host: this.mode === 'domain' ? this.registrableDomain : this.startHost,
+      ...(this.mode === 'prefix' ? { pathPrefix: this.pathPrefix } : {}),
+      include: this.scope.include || [],
+      exclude: this.scope.exclude || [],
+      useDefaultExcludes: this.useDefaultExcludes,
+      ...(this.assetHosts ? { assetHosts: this.assetHosts } : {}),
+    };
+  }
+
+  private isHostInScope(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    switch (this.mode) {
+      case 'subdomains':
+        return host === this.startHost || host.endsWith(`.${this.startHost}`);
+      case 'domain':
+        return getRegistrableDomain(host) === this.registrableDomain;
+      default:
+        return host === this.startHost;
+    }
+  }
+
+  private matches(pattern: CompiledPattern, url: URL): boolean {
+    return pattern.regex.test(pattern.matchesPath ? url.pathname + url.search : url.href);
+  }
+}
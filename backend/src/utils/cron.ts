@@ -0,0 +1,182 @@
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month and day of week
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  /** Whether the day-of-month field started with `*`; cron matches either day field when both are restricted */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: { [name: string]: string } = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset of the first name, such as 1 for months */
+  namesFrom?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is accepted for Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+];
+
+/** Searching further ahead than this means the expression never matches, like `0 0 30 2 *` */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse a five-field cron expression or one of the `@daily`-style macros
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    try {
+      return parseField(field, FIELDS[index]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid cron expression "${expression}": ${message}`);
+    }
+  });
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Get the first time after `after` that a cron schedule matches, in UTC and to the minute
+ * @throws Error if the schedule never matches
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Get the shortest time between two consecutive runs of a cron schedule, in minutes
+ *
+ * Runs in the last minutes of one hour and the first of the next are compared when both
+ * hours match, including 23:00 and 0:00 even if the next day does not match.
+ */
+export function getMinCronSpacing(schedule: CronSchedule): number {
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  let spacing = Infinity;
+  for (let i = 1; i < minutes.length; i++) {
+    spacing = Math.min(spacing, minutes[i] - minutes[i - 1]);
+  }
+
+  const hours = [...schedule.hours];
+  const nextHourMatches = hours.some(hour => schedule.hours.has((hour + 1) % 24));
+  if (nextHourMatches) {
+    spacing = Math.min(spacing, 60 - minutes[minutes.length - 1] + minutes[0]);
+  }
+  return spacing;
+}
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(time.getUTCDay());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Parse one field: `*`, values, names, ranges and steps, separated by commas
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step in ${spec.name} field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.name === 'day of week' ? 6 : spec.max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = to === undefined ? (stepText === undefined ? start : spec.max) : parseValue(to, spec);
+      if (end < start) {
+        throw new Error(`invalid range in ${spec.name} field "${field}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.namesFrom || 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} must be between ${spec.min} and ${spec.max}, got "${text}"`);
+  }
+  return value;
+}
@@ -0,0 +1,61 @@
+import { Asset, AssetType } from '../types';
+import { extractCssUrls, getCssReferenceType } from './css-urls';
+import { isValidUrl, resolveUrl } from './url-utils';
+
+/**
+ * Most resources to discover through stylesheets for one archive, so a site with
+ * generated or endless `@import` chains cannot grow an archive without bound
+ */
+export const MAX_CSS_DEPENDENCIES = 500;
+
+/**
+ * Finds the resources stylesheets depend on that are not yet part of an archive
+ *
+ * Fonts, background images and `@import`ed stylesheets are often only referenced from
+ * CSS. Each downloaded stylesheet is passed to `resolve`, which returns the resources
+ * it references that were not seen before; `@import`ed stylesheets found this way are
+ * downloaded and resolved in turn. Every URL is returned at most once, so import cycles
+ * end as soon as they reach a stylesheet that was already seen.
+ */
+export class CssDependencyResolver {
+  private knownUrls: Set<string>;
+  private discovered = 0;
+
+  constructor(assets: Asset[], private maxDependencies: number = MAX_CSS_DEPENDENCIES) {
+    this.knownUrls = new Set(assets.map(asset => asset.originalUrl));
+  }
+
+  /**
+   * List the resources a stylesheet references that have not been seen yet
+   * @param stylesheet - The stylesheet asset, whose URL relative references resolve against
+   * @param css - The stylesheet's content
+   */
+  resolve(stylesheet: Asset, css: string): Asset[] {
+    this.knownUrls.add(stylesheet.originalUrl);
+
+    const dependencies: Asset[] = [];
+    for (const reference of extractCssUrls(css)) {
+      const resolvedUrl = resolveUrl(reference.url, stylesheet.originalUrl);
+      if (!resolvedUrl || !isValidUrl(resolvedUrl) || this.knownUrls.has(resolvedUrl)) {
+        continue;
+      }
+      if (this.discovered >= this.maxDependencies) {
+        break;
+      }
+
+      this.knownUrls.add(resolvedUrl);
+      this.discovered++;
+      const type = getCssReferenceType(reference, resolvedUrl);
+      dependencies.push({
+        originalUrl: resolvedUrl,
+        localPath: '', // Set when the asset is stored
+        type,
+        size: 0,
+        // Replaced by the Content-Type the resource is served with
+        contentType: type === AssetType.CSS ? 'text/css' : 'application/octet-stream',
+      });
+    }
+
+    return dependencies;
+  }
+}
@@ -0,0 +1,55 @@
+import { AssetType } from '../types';
+
+/**
+ * A resource referenced from CSS
+ */
+export interface CssReference {
+  /** The URL as written, relative to the stylesheet or document */
+  url: string;
+  /** Whether the reference is an `@import`ed stylesheet rather than a `url()` value */
+  isImport: boolean;
+}
+
+const IMPORT_PATTERN = /@import\s+(?:url\(\s*)?["']?([^"')\s;]+)["']?\s*\)?[^;]*;/gi;
+const URL_PATTERN = /url\(\s*["']?([^"')]+?)["']?\s*\)/gi;
+
+/**
+ * List the resources a stylesheet, `<style>` block or `style` attribute references
+ *
+ * Each URL is listed once, and fragment-only references such as `url(#gradient)` and
+ * data URLs are left out since there is nothing to fetch for them.
+ */
+export function extractCssUrls(css: string): CssReference[] {
+  // Comments can hold commented-out rules that are never loaded
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const references = new Map<string, CssReference>();
+
+  for (const match of source.matchAll(IMPORT_PATTERN)) {
+    references.set(match[1], { url: match[1], isImport: true });
+  }
+  for (const match of source.matchAll(URL_PATTERN)) {
+    const url = match[1].trim();
+    if (!references.has(url)) {
+      references.set(url, { url, isImport: false });
+    }
+  }
+
+  return Array.from(references.values()).filter(
+    reference => reference.url !== '' && !reference.url.startsWith('#') && !/^data:/i.test(reference.url)
+  );
+}
+
+/**
+ * Asset type of a CSS reference: imports are stylesheets, `url()` values are fonts by
+ * extension and images otherwise
+ */
+export function getCssReferenceType(reference: CssReference, resolvedUrl: string): AssetType {
+  const pathname = new URL(resolvedUrl).pathname;
+  if (reference.isImport || /\.css$/i.test(pathname)) {
+    return AssetType.CSS;
+  }
+  if (/\.(woff2?|ttf|otf|eot)$/i.test(pathname)) {
+    return AssetType.FONT;
+  }
+  return AssetType.IMAGE;
+}
@@ -0,0 +1,232 @@
+import * as cheerio from 'cheerio';
+import { DiffHunk, DiffRun, createHunks, diffSequences } from './sequence-diff';
+
+/**
+ * Line diff of the visible text of two versions of a page
+ */
+export interface TextDiff {
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * An element added or removed between two versions of a page, or whose attributes changed
+ */
+export interface DomChange {
+  type: 'added' | 'removed' | 'attributes';
+  /** Tag names from the root, with ids, such as `html > body > div#main > p` */
+  path: string;
+  /** Number of elements added or removed with this one, including itself */
+  elements?: number;
+  /** Changed attributes; a missing side means the attribute was added or removed */
+  attributes?: { [name: string]: { from?: string; to?: string } };
+}
+
+/**
+ * Structural diff of the element trees of two versions of a page
+ */
+export interface DomDiff {
+  added: number;
+  removed: number;
+  changedAttributes: number;
+  changes: DomChange[];
+  /** True when there were more changes than listed */
+  truncated: boolean;
+}
+
+/**
+ * An element of a page in document order
+ */
+interface ElementSummary {
+  path: string;
+  attributes: { [name: string]: string };
+  /** Number of elements in its subtree, including itself */
+  size: number;
+}
+
+/** Elements whose content is not visible text */
+const NON_TEXT_ELEMENTS = ['script', 'style', 'noscript', 'template'];
+
+/** Elements that start a new line of text */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'nav', 'ol', 'option', 'p', 'pre', 'section', 'summary', 'table', 'td', 'th', 'title', 'tr', 'ul',
+]);
+
+/** Changes listed per page; counts still cover all of them */
+export const MAX_DOM_CHANGES = 200;
+
+/**
+ * Which parts of a page to take text from
+ */
+export interface TextExtractionOptions {
+  /** Only take text from elements matching this selector */
+  select?: string;
+  /** Drop elements matching these selectors, such as ads or clocks */
+  ignore?: string[];
+}
+
+/**
+ * Extract the visible text of a page, one line per block element, with whitespace collapsed
+ */
+export function extractText(html: string, options: TextExtractionOptions = {}): string[] {
+  const $ = cheerio.load(html);
+  $([...NON_TEXT_ELEMENTS, ...(options.ignore || [])].join(',')).remove();
+
+  const lines: string[] = [];
+  let current = '';
+  const endLine = () => {
+    const line = current.replace(/\s+/g, ' ').trim();
+    if (line) {
+      lines.push(line);
+    }
+    current = '';
+  };
+
+  const walk = (nodes: ReturnType<typeof $>) => {
+    nodes.each((_, node) => {
+      if (node.nodeType === 3) {
+        current += node.data;
+      } else if ('attribs' in node) {
+        const isBlock = BLOCK_ELEMENTS.has(node.tagName.toLowerCase());
+        if (isBlock) {
+          endLine();
+        }
+        walk($(node).contents());
+        if (isBlock) {
+          endLine();
+        }
+      }
+    });
+  };
+  if (options.select) {
+    $(options.select).each((_, element) => {
+      walk($(element));
+      endLine();
+    });
+  } else {
+    walk($.root().contents());
+  }
+  endLine();
+
+  return lines;
+}
+
+/**
+ * Diff the visible text of two versions of a page
+ */
+export function diffText(fromHtml: string, toHtml: string, context?: number): TextDiff {
+  const from = extractText(fromHtml);
+  const to = extractText(toHtml);
+  const runs = diffSequences(from, to);
+
+  return {
+    added: sumRuns(runs, 'insert'),
+    removed: sumRuns(runs, 'delete'),
+    hunks: createHunks(from, to, runs, context),
+  };
+}
+
+/**
+ * Diff the element trees of two versions of a page
+ *
+ * Elements are aligned by their path of tag names and ids, so text changes do not
+ * show up here and a changed class is reported as an attribute change rather than
+ * as a replaced element. A removed or added subtree is listed once, at its root.
+ */
+export function diffDom(fromHtml: string, toHtml: string, maxChanges: number = MAX_DOM_CHANGES): DomDiff {
+  const from = extractElements(fromHtml);
+  const to = extractElements(toHtml);
+  const runs = diffSequences(from.map(element => element.path), to.map(element => element.path));
+  const diff: DomDiff = { added: 0, removed: 0, changedAttributes: 0, changes: [], truncated: false };
+
+  const addChange = (change: DomChange) => {
+    if (diff.changes.length < maxChanges) {
+      diff.changes.push(change);
+    } else {
+      diff.truncated = true;
+    }
+  };
+
+  for (const run of runs) {
+    if (run.type === 'equal') {
+      for (let offset = 0; offset < run.count; offset++) {
+        const attributes = diffAttributes(from[run.fromIndex + offset].attributes, to[run.toIndex + offset].attributes);
+        if (attributes) {
+          diff.changedAttributes++;
+          addChange({ type: 'attributes', path: from[run.fromIndex + offset].path, attributes });
+        }
+      }
+      continue;
+    }
+
+    const isInsert = run.type === 'insert';
+    const elements = isInsert ? to : from;
+    const start = isInsert ? run.toIndex : run.fromIndex;
+    const end = start + run.count;
+    if (isInsert) {
+      diff.added += run.count;
+    } else {
+      diff.removed += run.count;
+    }
+
+    // Subtrees that lie entirely within the run are listed at their root only
+    for (let index = start; index < end;) {
+      const element = elements[index];
+      const subtreeEnd = index + element.size <= end ? index + element.size : index + 1;
+      addChange({ type: isInsert ? 'added' : 'removed', path: element.path, elements: subtreeEnd - index });
+      index = subtreeEnd;
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * List the elements of a page in document order
+ */
+function extractElements(html: string): ElementSummary[] {
+  const $ = cheerio.load(html);
+  const elements: ElementSummary[] = [];
+
+  const walk = (nodes: ReturnType<typeof $>, parentPath: string) => {
+    nodes.each((_, node) => {
+      // Skip text, comments and doctypes
+      if (!('attribs' in node)) {
+        return;
+      }
+      const id = node.attribs.id ? `#${node.attribs.id}` : '';
+      const name = `${node.tagName.toLowerCase()}${id}`;
+      const summary: ElementSummary = {
+        path: parentPath ? `${parentPath} > ${name}` : name,
+        attributes: { ...node.attribs },
+        size: 1,
+      };
+      const index = elements.push(summary);
+      walk($(node).children(), summary.path);
+      summary.size = elements.length - index + 1;
+    });
+  };
+  walk($.root().children(), '');
+
+  return elements;
+}
+
+function diffAttributes(
+  from: { [name: string]: string },
+  to: { [name: string]: string }
+): DomChange['attributes'] | null {
+  const changes: NonNullable<DomChange['attributes']> = {};
+  for (const name of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (from[name] !== to[name]) {
+      changes[name] = { from: from[name], to: to[name] };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function sumRuns(runs: DiffRun[], type: 'insert' | 'delete'): number {
+  return runs.filter(run => run.type === type).reduce((total, run) => total + run.count, 0);
+}
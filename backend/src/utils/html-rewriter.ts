@@ -0,0 +1,336 @@
+import * as cheerio from 'cheerio';
+import { ResponsiveImagePolicy } from '../types';
+
+/**
+ * How an attribute value holds its URLs
+ * - `url`: the whole value is one URL
+ * - `srcset`: a comma-separated list of image candidates
+ * - `css`: a CSS declaration list, as in `style` attributes
+ * - `refresh`: a `<meta http-equiv="refresh">` delay with an optional URL
+ */
+export type UrlAttributeFormat = 'url' | 'srcset' | 'css' | 'refresh';
+
+/**
+ * An attribute that references other resources
+ */
+export interface UrlAttributeRule {
+  /** Elements carrying the attribute */
+  selector: string;
+  attribute: string;
+  format: UrlAttributeFormat;
+  /** Whether the URLs are pages to navigate to rather than resources of this page */
+  isPageLink: boolean;
+}
+
+/**
+ * Callbacks the HTML rewriter uses to rewrite individual URLs and stylesheets
+ */
+export interface HtmlRewriteHandlers {
+  rewriteUrl: (url: string, isPageLink: boolean) => string;
+  rewriteCss: (css: string) => string;
+  /**
+   * Called with the document's `<base href>`, before any URL is rewritten, so that
+   * relative URLs can be resolved against it
+   */
+  setBaseHref?: (href: string) => void;
+}
+
+/**
+ * How responsive and lazy-loaded images are written into archived pages
+ */
+export interface HtmlRewriteOptions {
+  /** With 'largest', `srcset` attributes are reduced to the one candidate that was downloaded */
+  responsiveImages?: ResponsiveImagePolicy;
+  /** Copy lazy-load attributes into `src` and `srcset`, so images show without the site's scripts */
+  promoteLazyImages?: boolean;
+}
+
+/**
+ * The parsed content of a `<meta http-equiv="refresh">` element
+ */
+export interface MetaRefresh {
+  /** Seconds to wait, as written */
+  delay: string;
+  url?: string;
+}
+
+/**
+ * A candidate of a `srcset` attribute, such as `image.png 2x`
+ */
+export interface SrcsetCandidate {
+  url: string;
+  /** Width or density descriptor, empty when omitted */
+  descriptor: string;
+}
+
+/** Attributes lazy-loading scripts keep an image's URL in until it scrolls into view */
+export const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original'];
+/** Attributes lazy-loading scripts keep an image's `srcset` in */
+export const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+const page = (selector: string, attribute: string, format: UrlAttributeFormat = 'url'): UrlAttributeRule => ({
+  selector,
+  attribute,
+  format,
+  isPageLink: true,
+});
+
+const resource = (selector: string, attribute: string, format: UrlAttributeFormat = 'url'): UrlAttributeRule => ({
+  selector,
+  attribute,
+  format,
+  isPageLink: false,
+});
+
+/**
+ * Every attribute the rewriter follows, in the order they are rewritten
+ */
+export const URL_ATTRIBUTE_RULES: UrlAttributeRule[] = [
+  // Navigation
+  page('a[href], area[href]', 'href'),
+  page('form[action]', 'action'),
+  page('button[formaction], input[formaction]', 'formaction'),
+  page('iframe[src], frame[src]', 'src'),
+  page('meta[http-equiv="refresh" i]', 'content', 'refresh'),
+
+  // Stylesheets, icons, manifests and preloads
+  resource('link[href]', 'href'),
+  resource('script[src]', 'src'),
+
+  // Images and media
+  resource('img[src], input[type="image"][src]', 'src'),
+  resource('img[srcset], source[srcset]', 'srcset', 'srcset'),
+  resource('video[src], audio[src], source[src], track[src]', 'src'),
+  resource('video[poster]', 'poster'),
+  resource('embed[src]', 'src'),
+  resource('object[data]', 'data'),
+  resource('body[background], table[background], td[background], th[background]', 'background'),
+
+  // Lazy-loading scripts keep the real URLs in data attributes
+  ...LAZY_SRC_ATTRIBUTES.map(attribute => resource(`[${attribute}]`, attribute)),
+  ...LAZY_SRCSET_ATTRIBUTES.map(attribute => resource(`[${attribute}]`, attribute, 'srcset')),
+
+  // Social previews
+  resource(
+    'meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"], ' +
+      'meta[name="twitter:image"], meta[name="twitter:image:src"]',
+    'content'
+  ),
+
+  resource('[style]', 'style', 'css'),
+];
+
+/**
+ * Parse with htmlparser2 rather than parse5, which would add implied elements such as
+ * `<tbody>` and `<head>`; archived pages should keep the markup they were served with
+ */
+const PARSER_OPTIONS = {
+  xml: {
+    xmlMode: false,
+    decodeEntities: true,
+    // Only escape what has to be, instead of turning every non-ASCII character into an entity
+    encodeEntities: 'utf8' as const,
+  },
+};
+
+/**
+ * Rewrite every URL of an HTML document or fragment
+ *
+ * Attribute values are read from the parsed DOM, so quoting, duplicate attributes and
+ * URLs that also appear elsewhere in the markup do not affect which values get rewritten.
+ * `<style>` blocks and `style` attributes are rewritten as CSS; scripts, comments and
+ * text are left untouched.
+ *
+ * The `<base href>` is handed to `setBaseHref` and then dropped: rewritten URLs no longer
+ * need it, and leaving it in place would resolve any remaining URL against the live site.
+ */
+export function rewriteHtml(html: string, handlers: HtmlRewriteHandlers, options: HtmlRewriteOptions = {}): string {
+  const $ = cheerio.load(html, PARSER_OPTIONS, false);
+
+  // Only the first <base href> counts
+  const $base = $('base[href]').first();
+  if ($base.length > 0) {
+    handlers.setBaseHref?.($base.attr('href')!.trim());
+    $('base[href]').removeAttr('href');
+  }
+
+  for (const rule of URL_ATTRIBUTE_RULES) {
+    $(rule.selector).each((_, element) => {
+      const $element = $(element);
+      const value = $element.attr(rule.attribute);
+      if (value === undefined) {
+        return;
+      }
+
+      const rewrittenValue = rewriteAttributeValue(value, rule, handlers, options);
+      if (rewrittenValue !== value) {
+        $element.attr(rule.attribute, rewrittenValue);
+      }
+    });
+  }
+
+  if (options.promoteLazyImages) {
+    promoteLazyImages($);
+  }
+
+  $('style').each((_, element) => {
+    const $style = $(element);
+    const css = $style.text();
+    const rewrittenCss = handlers.rewriteCss(css);
+    if (rewrittenCss !== css) {
+      $style.text(rewrittenCss);
+    }
+  });
+
+  return $.html();
+}
+
+/**
+ * Split a `srcset` attribute into its candidates
+ *
+ * Follows the HTML parsing rules: URLs end at whitespace, so commas inside them (as in
+ * data URLs) are kept, and descriptors end at the next comma.
+ */
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  let position = 0;
+
+  while (position < srcset.length) {
+    while (position < srcset.length && /[\s,]/.test(srcset[position])) {
+      position++;
+    }
+    if (position >= srcset.length) {
+      break;
+    }
+
+    const urlStart = position;
+    while (position < srcset.length && !/\s/.test(srcset[position])) {
+      position++;
+    }
+    let url = srcset.slice(urlStart, position);
+
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      // A trailing comma ends the candidate without descriptors
+      url = url.replace(/,+$/, '');
+    } else {
+      const descriptorStart = position;
+      let depth = 0;
+      while (position < srcset.length && (srcset[position] !== ',' || depth > 0)) {
+        if (srcset[position] === '(') {
+          depth++;
+        } else if (srcset[position] === ')') {
+          depth = Math.max(0, depth - 1);
+        }
+        position++;
+      }
+      descriptor = srcset.slice(descriptorStart, position).trim();
+    }
+
+    candidates.push({ url, descriptor });
+  }
+
+  return candidates;
+}
+
+/**
+ * Pick the candidate with the highest width descriptor, or the highest density when
+ * there are no width descriptors; a candidate without descriptor counts as `1x`
+ */
+export function selectLargestCandidate(candidates: SrcsetCandidate[]): SrcsetCandidate | undefined {
+  const measure = (candidate: SrcsetCandidate, unit: 'w' | 'x'): number => {
+    const descriptor = candidate.descriptor.match(/^(\d+(?:\.\d+)?)([wx])$/i);
+    if (!descriptor) {
+      return unit === 'x' && candidate.descriptor === '' ? 1 : -1;
+    }
+    return descriptor[2].toLowerCase() === unit ? parseFloat(descriptor[1]) : -1;
+  };
+
+  const unit = candidates.some(candidate => measure(candidate, 'w') >= 0) ? 'w' : 'x';
+  return candidates.reduce<SrcsetCandidate | undefined>(
+    (largest, candidate) => (!largest || measure(candidate, unit) > measure(largest, unit) ? candidate : largest),
+    undefined
+  );
+}
+
+/**
+ * Parse the content of a `<meta http-equiv="refresh">` element, such as `5; url=/next`
+ * @returns null if the content does not start with a delay
+ */
+export function parseMetaRefresh(content: string): MetaRefresh | null {
+  const match = content.match(/^\s*(\d+(?:\.\d*)?)\s*(?:[;,]\s*(?:url\s*=\s*)?(.*))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const url = (match[2] || '').trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+  return url ? { delay: match[1], url } : { delay: match[1] };
+}
+
+/**
+ * Join candidates back into a `srcset` attribute value
+ */
+export function serializeSrcset(candidates: SrcsetCandidate[]): string {
+  return candidates
+    .map(candidate => (candidate.descriptor ? `${candidate.url} ${candidate.descriptor}` : candidate.url))
+    .join(', ');
+}
+
+/**
+ * Copy the (already rewritten) lazy-load attributes of images into the attributes
+ * browsers load, replacing placeholders such as blank GIFs
+ */
+function promoteLazyImages($: cheerio.CheerioAPI): void {
+  $('img, source').each((_, element) => {
+    const $element = $(element);
+    const src = LAZY_SRC_ATTRIBUTES.map(attribute => $element.attr(attribute)).find(Boolean);
+    const srcset = LAZY_SRCSET_ATTRIBUTES.map(attribute => $element.attr(attribute)).find(Boolean);
+
+    // <source> elements of a <picture> only use srcset
+    if (src && element.name === 'img') {
+      $element.attr('src', src);
+    }
+    if (srcset) {
+      $element.attr('srcset', srcset);
+    }
+  });
+}
+
+function rewriteAttributeValue(
+  value: string,
+  rule: UrlAttributeRule,
+  handlers: HtmlRewriteHandlers,
+  options: HtmlRewriteOptions
+): string {
+  switch (rule.format) {
+    case 'srcset': {
+      const parsed = parseSrcset(value);
+      const largest = options.responsiveImages === 'largest' ? selectLargestCandidate(parsed) : undefined;
+      // Only the largest candidate is archived; the others would point at missing files
+      const candidates = largest ? [largest] : parsed;
+      const rewritten = candidates.map(candidate => ({
+        ...candidate,
+        url: handlers.rewriteUrl(candidate.url, rule.isPageLink),
+      }));
+      return candidates.length !== parsed.length || rewritten.some((candidate, i) => candidate.url !== candidates[i].url)
+        ? serializeSrcset(rewritten)
+        : value;
+    }
+    case 'css':
+      return handlers.rewriteCss(value);
+    case 'refresh': {
+      const refresh = parseMetaRefresh(value);
+      if (!refresh?.url) {
+        return value;
+      }
+      const rewrittenUrl = handlers.rewriteUrl(refresh.url, rule.isPageLink);
+      return rewrittenUrl === refresh.url ? value : `${refresh.delay}; url=${rewrittenUrl}`;
+    }
+    default: {
+      // Browsers ignore whitespace around URLs; keep the value as-is if nothing changes
+      const url = value.trim();
+      const rewrittenUrl = handlers.rewriteUrl(url, rule.isPageLink);
+      return rewrittenUrl === url ? value : rewrittenUrl;
+    }
+  }
+}
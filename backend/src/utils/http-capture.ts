@@ -0,0 +1,126 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { IncomingMessage } from 'http';
+import { HttpCapture, RedirectHop } from '../types';
+
+/**
+ * Raw request details left on Node's ClientRequest by the axios http adapter
+ */
+interface SentRequest {
+  method?: string;
+  path?: string;
+  _header?: string;
+  res?: IncomingMessage;
+  socket?: { remoteAddress?: string } | null;
+  getRawHeaderNames?: () => string[];
+  getHeaders?: () => { [name: string]: number | string | string[] | undefined };
+}
+
+/**
+ * Record the redirects axios follows for a request
+ *
+ * Pass `beforeRedirect` in the request config, then the recorded hops to
+ * `captureHttpExchange`.
+ * @param url - URL the request is sent to
+ */
+export function createRedirectRecorder(url: string): {
+  beforeRedirect: NonNullable<AxiosRequestConfig['beforeRedirect']>;
+  redirects: RedirectHop[];
+} {
+  const redirects: RedirectHop[] = [];
+  let currentUrl = url;
+
+  return {
+    redirects,
+    // follow-redirects has already pointed the options at the redirect target
+    beforeRedirect: (options, responseDetails) => {
+      const location = String(options.href || responseDetails.headers.location || '');
+      redirects.push({ url: currentUrl, statusCode: responseDetails.statusCode, location });
+      currentUrl = location;
+    },
+  };
+}
+
+/**
+ * Record the raw HTTP exchange behind an axios response
+ *
+ * Uses the request head and raw response headers of the final request, so the
+ * capture describes the response that was actually archived after redirects.
+ * @param response - Response returned by axios' Node http adapter
+ * @param redirects - Redirects followed before the response, from `createRedirectRecorder`
+ * @returns Capture without a body path; callers set it once the body is stored
+ */
+export function captureHttpExchange(response: AxiosResponse, redirects: RedirectHop[] = []): HttpCapture {
+  const request = (response.request || {}) as SentRequest;
+  const incoming = request.res;
+
+  return {
+    method: (request.method || response.config.method || 'GET').toUpperCase(),
+    requestTarget: request.path || getRequestTarget(response.config.url),
+    requestHeaders: request._header ? parseHeaderLines(request._header) : getSentHeaders(request),
+    httpVersion: incoming?.httpVersion || '1.1',
+    statusCode: response.status,
+    statusText: incoming?.statusMessage ?? response.statusText ?? '',
+    responseHeaders: incoming ? pairRawHeaders(incoming.rawHeaders) : getResponseHeaders(response),
+    fetchedAt: new Date(),
+    // The response's own socket reference is cleared once the body has been read
+    ipAddress: request.socket?.remoteAddress || undefined,
+    redirects: redirects.length > 0 ? [...redirects] : undefined,
+  };
+}
+
+/**
+ * Parse the header lines of a raw HTTP message head, skipping its start line
+ */
+export function parseHeaderLines(head: string): Array<[string, string]> {
+  return head
+    .split('\r\n')
+    .slice(1)
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator), line.slice(separator + 1).trim()] as [string, string];
+    });
+}
+
+function pairRawHeaders(rawHeaders: string[]): Array<[string, string]> {
+  const headers: Array<[string, string]> = [];
+  for (let i = 0; i + 1 < rawHeaders.length; i += 2) {
+    headers.push([rawHeaders[i], rawHeaders[i + 1]]);
+  }
+  return headers;
+}
+
+function getSentHeaders(request: SentRequest): Array<[string, string]> {
+  const values = request.getHeaders?.() || {};
+  const names = request.getRawHeaderNames?.() || Object.keys(values);
+  return names.flatMap(name => toPairs(name, values[name.toLowerCase()]));
+}
+
+function getResponseHeaders(response: AxiosResponse): Array<[string, string]> {
+  const headers = (response.headers || {}) as { [name: string]: unknown };
+  return Object.keys(headers).flatMap(name => toPairs(name, headers[name]));
+}
+
+function toPairs(name: string, value: unknown): Array<[string, string]> {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value.map(item => [name, String(item)]) : [[name, String(value)]];
+}
+
+function getRequestTarget(url?: string): string {
+  try {
+    const parsed = new URL(url || '/', 'http://localhost');
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Get a response header of a capture (case-insensitive; the first value when repeated)
+ */
+export function getResponseHeader(capture: HttpCapture | undefined, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  return capture?.responseHeaders.find(([headerName]) => headerName.toLowerCase() === lowerName)?.[1];
+}
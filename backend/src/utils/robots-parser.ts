@@ -0,0 +1,218 @@
+/**
+ * A single Allow/Disallow rule from a robots.txt group
+ */
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * A group of rules that applies to one or more user agents
+ */
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Parsed representation of a robots.txt file
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Result of matching a URL against robots.txt rules
+ */
+export interface RobotsMatch {
+  allowed: boolean;
+  /** The rule that decided the outcome, formatted as in robots.txt (e.g. "Disallow: /private") */
+  rule?: string;
+}
+
+/**
+ * Parses robots.txt content into groups of rules
+ * @param content - Raw robots.txt content
+ * @returns Parsed robots.txt groups and sitemap URLs
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let currentGroup: RobotsGroup | null = null;
+  let lastLineWasUserAgent = false;
+
+  for (const rawLine of content.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const directive = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    switch (directive) {
+      case 'user-agent':
+        // Consecutive user-agent lines share the same group
+        if (!currentGroup || !lastLineWasUserAgent) {
+          currentGroup = { userAgents: [], rules: [] };
+          groups.push(currentGroup);
+        }
+        currentGroup.userAgents.push(value.toLowerCase());
+        lastLineWasUserAgent = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        lastLineWasUserAgent = false;
+        if (!currentGroup) {
+          continue;
+        }
+        // An empty Disallow means "allow everything" and adds no rule
+        if (value === '') {
+          continue;
+        }
+        currentGroup.rules.push({ allow: directive === 'allow', path: value });
+        break;
+      case 'crawl-delay': {
+        lastLineWasUserAgent = false;
+        const delay = parseFloat(value);
+        if (currentGroup && !isNaN(delay) && delay >= 0) {
+          currentGroup.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        // Sitemap lines are global and do not end a group
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+      default:
+        lastLineWasUserAgent = false;
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Selects the group that applies to a user agent
+ *
+ * The group whose user-agent token is the longest match for the given agent wins;
+ * the wildcard group is used when nothing more specific matches.
+ * @param robots - Parsed robots.txt
+ * @param userAgent - Product token of the crawler (e.g. "WebArchiver")
+ * @returns The matching group or null if no group applies
+ */
+export function findGroupForUserAgent(robots: RobotsTxt, userAgent: string): RobotsGroup | null {
+  const agent = userAgent.toLowerCase();
+  let bestGroup: RobotsGroup | null = null;
+  let bestLength = 0;
+  let wildcardGroup: RobotsGroup | null = null;
+
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      if (token === '*') {
+        wildcardGroup = wildcardGroup || group;
+      } else if (agent.includes(token) && token.length > bestLength) {
+        bestGroup = group;
+        bestLength = token.length;
+      }
+    }
+  }
+
+  return bestGroup || wildcardGroup;
+}
+
+/**
+ * Checks whether a URL may be fetched by a user agent
+ *
+ * Follows RFC 9309: the longest matching rule wins and Allow wins ties.
+ * Supports the `*` wildcard and the `$` end-of-path anchor.
+ * @param robots - Parsed robots.txt
+ * @param url - Absolute URL to check
+ * @param userAgent - Product token of the crawler
+ * @returns Whether the URL is allowed and the rule that decided it
+ */
+export function matchRobotsRules(robots: RobotsTxt, url: string, userAgent: string): RobotsMatch {
+  const group = findGroupForUserAgent(robots, userAgent);
+  if (!group) {
+    return { allowed: true };
+  }
+
+  let target: string;
+  try {
+    const urlObj = new URL(url);
+    target = `${urlObj.pathname}${urlObj.search}`;
+  } catch {
+    return { allowed: true };
+  }
+
+  // robots.txt is always allowed so the crawler can read it
+  if (target === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  let bestRule: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!rulePathMatches(rule.path, target)) {
+      continue;
+    }
+    if (
+      !bestRule ||
+      rule.path.length > bestRule.path.length ||
+      (rule.path.length === bestRule.path.length && rule.allow && !bestRule.allow)
+    ) {
+      bestRule = rule;
+    }
+  }
+
+  if (!bestRule) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: bestRule.allow,
+    rule: `${bestRule.allow ? 'Allow' : 'Disallow'}: ${bestRule.path}`,
+  };
+}
+
+/**
+ * Gets the Crawl-delay (in seconds) declared for a user agent
+ */
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string): number | undefined {
+  return findGroupForUserAgent(robots, userAgent)?.crawlDelay;
+}
+
+/**
+ * Checks if a robots.txt path pattern matches a URL path
+ */
+function rulePathMatches(pattern: string, target: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regexBody = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  const regex = new RegExp(`^${regexBody}${anchored ? '$' : ''}`);
+
+  return regex.test(target) || regex.test(safeDecode(target));
+}
+
+/**
+ * Decodes percent-encoded characters, returning the input if decoding fails
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * A run of consecutive items that are equal in both sequences, or only in one of them
+ *
+ * `fromIndex` and `toIndex` are the positions in each sequence where the run starts;
+ * inserted runs take no items from the first sequence and deleted runs none from the second.
+ */
+export interface DiffRun {
+  type: 'equal' | 'delete' | 'insert';
+  fromIndex: number;
+  toIndex: number;
+  count: number;
+}
+
+/**
+ * A group of nearby changes with the unchanged lines around them, as in a unified diff
+ */
+export interface DiffHunk {
+  /** 1-based line in the first sequence where the hunk starts */
+  fromStart: number;
+  fromCount: number;
+  toStart: number;
+  toCount: number;
+  /** Lines prefixed with ' ' (unchanged), '-' (removed) or '+' (added) */
+  lines: string[];
+}
+
+/** Differences beyond this many edits are reported as replacing everything in between */
+export const DEFAULT_MAX_EDITS = 1000;
+
+type Operation = DiffRun['type'];
+
+/**
+ * Find a shortest edit script between two sequences (Myers' algorithm)
+ *
+ * Common leading and trailing items are matched first, so small changes to long
+ * sequences stay cheap. Past `maxEdits` edits the remaining middle parts are
+ * reported as deleted and inserted as a whole.
+ */
+export function diffSequences(from: string[], to: string[], maxEdits: number = DEFAULT_MAX_EDITS): DiffRun[] {
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < from.length - prefix &&
+    suffix < to.length - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const fromMiddle = from.slice(prefix, from.length - suffix);
+  const toMiddle = to.slice(prefix, to.length - suffix);
+  const middle = shortestEditScript(fromMiddle, toMiddle, maxEdits) || [
+    ...fromMiddle.map((): Operation => 'delete'),
+    ...toMiddle.map((): Operation => 'insert'),
+  ];
+
+  const operations: Operation[] = [
+    ...new Array<Operation>(prefix).fill('equal'),
+    ...middle,
+    ...new Array<Operation>(suffix).fill('equal'),
+  ];
+  return toRuns(operations);
+}
+
+/**
+ * Group the changes of a diff into hunks with `context` unchanged lines around them
+ */
+export function createHunks(from: string[], to: string[], runs: DiffRun[], context: number = 3): DiffHunk[] {
+  const entries = runs.flatMap(run =>
+    Array.from({ length: run.count }, (_, offset) => ({
+      type: run.type,
+      fromIndex: run.fromIndex + (run.type === 'insert' ? 0 : offset),
+      toIndex: run.toIndex + (run.type === 'delete' ? 0 : offset),
+    }))
+  );
+
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < entries.length) {
+    if (entries[index].type === 'equal') {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk over changes separated by no more than twice the context
+    let lastChange = index;
+    let cursor = index;
+    while (cursor < entries.length) {
+      if (entries[cursor].type !== 'equal') {
+        lastChange = cursor;
+        cursor++;
+        continue;
+      }
+      let equalEnd = cursor;
+      while (equalEnd < entries.length && entries[equalEnd].type === 'equal') {
+        equalEnd++;
+      }
+      if (equalEnd === entries.length || equalEnd - cursor > 2 * context) {
+        break;
+      }
+      cursor = equalEnd;
+    }
+
+    const slice = entries.slice(Math.max(0, index - context), Math.min(entries.length, lastChange + context + 1));
+    hunks.push({
+      fromStart: slice[0].fromIndex + 1,
+      fromCount: slice.filter(entry => entry.type !== 'insert').length,
+      toStart: slice[0].toIndex + 1,
+      toCount: slice.filter(entry => entry.type !== 'delete').length,
+      lines: slice.map(entry => {
+        switch (entry.type) {
+          case 'equal':
+            return ` ${from[entry.fromIndex]}`;
+          case 'delete':
+            return `-${from[entry.fromIndex]}`;
+          default:
+            return `+${to[entry.toIndex]}`;
+        }
+      }),
+    });
+    index = lastChange + context + 1;
+  }
+  return hunks;
+}
+
+/**
+ * @returns One operation per item, or null if the sequences differ by more than `maxEdits`
+ */
+function shortestEditScript(from: string[], to: string[], maxEdits: number): Operation[] | null {
+  const limit = Math.min(from.length + to.length, maxEdits);
+  const offset = limit + 1;
+  // Furthest position in `from` reached on each diagonal k = x - y
+  const furthest = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let edits = 0; edits <= limit; edits++) {
+    // Backtracking needs the positions each round started from
+    trace.push(furthest.slice());
+
+    for (let k = -edits; k <= edits; k += 2) {
+      const down = k === -edits || (k !== edits && furthest[offset + k - 1] < furthest[offset + k + 1]);
+      let x = down ? furthest[offset + k + 1] : furthest[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < from.length && y < to.length && from[x] === to[y]) {
+        x++;
+        y++;
+      }
+      furthest[offset + k] = x;
+
+      if (x >= from.length && y >= to.length) {
+        return backtrack(trace, offset, from.length, to.length);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], offset: number, fromLength: number, toLength: number): Operation[] {
+  const operations: Operation[] = [];
+  let x = fromLength;
+  let y = toLength;
+
+  for (let edits = trace.length - 1; edits >= 0; edits--) {
+    const furthest = trace[edits];
+    const k = x - y;
+    const down = k === -edits || (k !== edits && furthest[offset + k - 1] < furthest[offset + k + 1]);
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = furthest[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push('equal');
+      x--;
+      y--;
+    }
+    if (edits > 0) {
+      operations.push(down ? 'insert' : 'delete');
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return operations.reverse();
+}
+
+function toRuns(operations: Operation[]): DiffRun[] {
+  const runs: DiffRun[] = [];
+  let fromIndex = 0;
+  let toIndex = 0;
+
+  for (const type of operations) {
+    const last = runs[runs.length - 1];
+    if (last && last.type === type) {
+      last.count++;
+    } else {
+      runs.push({ type, fromIndex, toIndex, count: 1 });
+    }
+    if (type !== 'insert') {
+      fromIndex++;
+    }
+    if (type !== 'delete') {
+      toIndex++;
+    }
+  }
+  return runs;
+}
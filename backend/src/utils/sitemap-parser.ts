@@ -0,0 +1,72 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * A page listed in a sitemap
+ */
+export interface SitemapUrl {
+  url: string;
+  lastmod?: Date;
+  /** Between 0.0 and 1.0; the sitemap protocol's default is 0.5 */
+  priority?: number;
+}
+
+/**
+ * Parsed representation of a sitemap or sitemap index
+ */
+export interface Sitemap {
+  /** Pages of a `<urlset>` */
+  urls: SitemapUrl[];
+  /** Child sitemaps of a `<sitemapindex>` */
+  sitemaps: string[];
+}
+
+const DEFAULT_PRIORITY = 0.5;
+
+/**
+ * Parses a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`)
+ *
+ * Extension elements such as `<image:loc>` are ignored, as are invalid `lastmod` and
+ * `priority` values.
+ * @param content - Raw, uncompressed sitemap XML
+ */
+export function parseSitemap(content: string): Sitemap {
+  const $ = cheerio.load(content, { xml: true });
+
+  const urls: SitemapUrl[] = [];
+  $('urlset > url').each((_, element) => {
+    const $url = $(element);
+    const loc = $url.children('loc').first().text().trim();
+    if (!loc) {
+      return;
+    }
+
+    const entry: SitemapUrl = { url: loc };
+    const lastmod = new Date($url.children('lastmod').first().text().trim());
+    if (!isNaN(lastmod.getTime())) {
+      entry.lastmod = lastmod;
+    }
+    const priority = parseFloat($url.children('priority').first().text());
+    if (priority >= 0 && priority <= 1) {
+      entry.priority = priority;
+    }
+    urls.push(entry);
+  });
+
+  const sitemaps = $('sitemapindex > sitemap > loc')
+    .map((_, element) => $(element).text().trim())
+    .get()
+    .filter(Boolean);
+
+  return { urls, sitemaps };
+}
+
+/**
+ * Order sitemap URLs for crawling: highest priority first, then most recently modified
+ */
+export function compareSitemapUrls(a: SitemapUrl, b: SitemapUrl): number {
+  const priorityDifference = (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY);
+  if (priorityDifference !== 0) {
+    return priorityDifference;
+  }
+  return (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0);
+}
@@ -1,8 +1,9 @@
 import { URL } from 'url';
 import * as path from 'path';
 import { AssetType } from '../types';
+import { HtmlRewriteOptions, rewriteHtml } from './html-rewriter';
 
-export interface UrlRewriteOptions {
+export interface UrlRewriteOptions extends HtmlRewriteOptions {
   archiveId: string;
   baseUrl: string;
   archiveBasePath?: string;
@@ -20,6 +21,8 @@ export interface AssetPathMapping {
 export class UrlRewriter {
   private options: UrlRewriteOptions;
   private assetMappings: Map<string, AssetPathMapping>;
+  /** The document's `<base href>`, which relative URLs resolve against instead of baseUrl */
+  private documentBaseUrl?: string;
 
   constructor(options: UrlRewriteOptions) {
     this.options = {
@@ -45,73 +48,43 @@ export class UrlRewriter {
 
   /**
    * Rewrite URLs in HTML content
+   *
+   * The document is parsed, so every URL-bearing attribute is rewritten on its own,
+   * along with `<style>` blocks and `style` attributes (see URL_ATTRIBUTE_RULES).
    */
   rewriteHtmlUrls(html: string): string {
-    let rewrittenHtml = html;
-
-    // Rewrite link href attributes (CSS, icons, etc.)
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'link', 'href');
-    
-    // Rewrite script src attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'script', 'src');
-    
-    // Rewrite img src attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'img', 'src');
-    
-    // Rewrite img srcset attributes
-    rewrittenHtml = this.rewriteHtmlSrcset(rewrittenHtml);
-    
-    // Rewrite anchor href attributes (for same-domain links)
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'a', 'href', true);
-    
-    // Rewrite form action attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'form', 'action', true);
-    
-    // Rewrite iframe src attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'iframe', 'src', true);
-    
-    // Rewrite object data attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'object', 'data');
-    
-    // Rewrite embed src attributes
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'embed', 'src');
-    
-    // Rewrite source src attributes (for audio/video)
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'source', 'src');
-    
-    // Rewrite track src attributes (for video subtitles)
-    rewrittenHtml = this.rewriteHtmlAttribute(rewrittenHtml, 'track', 'src');
-
-    return rewrittenHtml;
+    let rewriter: UrlRewriter = this;
+    return rewriteHtml(html, {
+      setBaseHref: href => {
+        rewriter = this.withDocumentBase(href);
+      },
+      rewriteUrl: (url, isPageLink) => rewriter.rewriteUrl(url, isPageLink),
+      rewriteCss: css => rewriter.rewriteCssUrls(css),
+    }, this.options);
   }
 
   /**
    * Rewrite URLs in CSS content
    */
   rewriteCssUrls(css: string): string {
-    let rewrittenCss = css;
+    // One pass over `@import "..."` strings and url() functions, so that `@import url(...)`
+    // is only rewritten once
+    return css.replace(
+      /(@import\s+)(["'])([^"']+)\2|url\(\s*(["']?)([^"')]+?)\4\s*\)/gi,
+      (match, importPrefix, quote, importUrl, _urlQuote, url) => {
+        if (importPrefix) {
+          const rewrittenUrl = this.rewriteUrl(importUrl);
+          return `${importPrefix}${quote}${rewrittenUrl}${quote}`;
+        }
 
-    // Rewrite @import statements
-    rewrittenCss = rewrittenCss.replace(
-      /@import\s+(?:url\()?["']?([^"')]+)["']?\)?[^;]*;/gi,
-      (match, url) => {
         const rewrittenUrl = this.rewriteUrl(url);
-        return match.replace(url, rewrittenUrl);
+        // Keep references that stay the same, such as `url(#gradient)`, exactly as written
+        return rewrittenUrl === url ? match : `url("${rewrittenUrl}")`;
       }
     );
-
-    // Rewrite url() functions
-    rewrittenCss = rewrittenCss.replace(
-      /url\(["']?([^"')]+)["']?\)/gi,
-      (match, url) => {
-        const rewrittenUrl = this.rewriteUrl(url);
-        return `url("${rewrittenUrl}")`;
-      }
-    );
-
-    return rewrittenCss;
   }
 
+
   /**
    * Rewrite a single URL
    */
@@ -147,8 +120,9 @@ export class UrlRewriter {
         return `${this.options.archiveBasePath}/${this.options.archiveId}/content/${localPath}`;
       }
 
-      // Return original URL for external resources
-      return url;
+      // Return original URL for external resources; relative ones only resolve correctly
+      // against the <base href>, which is dropped from rewritten documents
+      return this.documentBaseUrl ? resolvedUrl : url;
     } catch (error) {
       // If URL parsing fails, return original URL
       return url;
@@ -164,7 +138,7 @@ export class UrlRewriter {
       if (url.startsWith('http://') || url.startsWith('https://')) {
         return url;
       }
-      return new URL(url, this.options.baseUrl).href;
+      return new URL(url, this.documentBaseUrl || this.options.baseUrl).href;
     } catch {
       return url;
     }
@@ -243,6 +217,16 @@ export class UrlRewriter {
     }
   }
 
+  /**
+   * Copy of this rewriter that resolves relative URLs against a `<base href>`
+   */
+  private withDocumentBase(href: string): UrlRewriter {
+    const rewriter = new UrlRewriter(this.options);
+    rewriter.assetMappings = this.assetMappings;
+    rewriter.documentBaseUrl = this.resolveUrl(href);
+    return rewriter;
+  }
+
   /**
    * Detect asset type from URL
    */
@@ -312,49 +296,6 @@ export class UrlRewriter {
       trimmedUrl === ''
     );
   }
-
-  /**
-   * Rewrite HTML attribute values
-   */
-  private rewriteHtmlAttribute(
-    html: string,
-    tagName: string,
-    attributeName: string,
-    isPageLink: boolean = false
-  ): string {
-    const regex = new RegExp(
-      `<${tagName}[^>]*\\s${attributeName}=["']([^"']+)["'][^>]*>`,
-      'gi'
-    );
-    
-    return html.replace(regex, (match, url) => {
-      const rewrittenUrl = this.rewriteUrl(url, isPageLink);
-      return match.replace(url, rewrittenUrl);
-    });
-  }
-
-  /**
-   * Rewrite srcset attributes (for responsive images)
-   */
-  private rewriteHtmlSrcset(html: string): string {
-    return html.replace(
-      /(<img[^>]*\s)srcset=["']([^"']+)["']([^>]*>)/gi,
-      (match, prefix, srcset, suffix) => {
-        const rewrittenSrcset = srcset
-          .split(',')
-          .map((src: string) => {
-            const parts = src.trim().split(/\s+/);
-            if (parts.length > 0) {
-              parts[0] = this.rewriteUrl(parts[0]);
-            }
-            return parts.join(' ');
-          })
-          .join(', ');
-        
-        return `${prefix}srcset="${rewrittenSrcset}"${suffix}`;
-      }
-    );
-  }
 }
 
 /**
@@ -0,0 +1,316 @@
+import { createHash } from 'crypto';
+import { brotliDecompressSync, gunzipSync, gzipSync, inflateRawSync, inflateSync } from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpCapture } from '../types';
+
+export type WarcRecordType = 'warcinfo' | 'request' | 'response' | 'resource' | 'metadata';
+
+export const WARC_VERSION = 'WARC/1.1';
+
+/**
+ * A WARC record before serialization
+ */
+export interface WarcRecord {
+  type: WarcRecordType;
+  /** Record ID in `<urn:uuid:...>` form; generated when missing */
+  id?: string;
+  date: Date;
+  targetUri?: string;
+  contentType?: string;
+  /** Additional named fields, written after the standard ones */
+  fields?: Array<[string, string]>;
+  block: Buffer;
+  /** Payload of the block, when it differs from the block (HTTP messages) */
+  payload?: Buffer;
+}
+
+/**
+ * Headers describing how a stored payload was transferred, which no longer apply once
+ * the payload is stored decoded
+ */
+const TRANSFER_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+export function createWarcRecordId(): string {
+  return `<urn:uuid:${uuidv4()}>`;
+}
+
+/**
+ * Format a date as a WARC-Date (UTC, second precision)
+ */
+export function formatWarcDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Compute a WARC digest: the base32-encoded SHA-1 of the content
+ */
+export function warcDigest(content: Buffer): string {
+  return `sha1:${toBase32(createHash('sha1').update(content).digest())}`;
+}
+
+/**
+ * Serialize a record to its uncompressed WARC form
+ */
+export function serializeWarcRecord(record: WarcRecord): Buffer {
+  const fields: Array<[string, string]> = [
+    ['WARC-Type', record.type],
+    ['WARC-Record-ID', record.id || createWarcRecordId()],
+    ['WARC-Date', formatWarcDate(record.date)],
+  ];
+  if (record.targetUri) {
+    fields.push(['WARC-Target-URI', record.targetUri]);
+  }
+  fields.push(...(record.fields || []));
+  fields.push(['WARC-Block-Digest', warcDigest(record.block)]);
+  if (record.payload) {
+    fields.push(['WARC-Payload-Digest', warcDigest(record.payload)]);
+  }
+  if (record.contentType) {
+    fields.push(['Content-Type', record.contentType]);
+  }
+  fields.push(['Content-Length', String(record.block.length)]);
+
+  const head = [WARC_VERSION, ...fields.map(([name, value]) => `${name}: ${value}`)].join('\r\n');
+  return Buffer.concat([Buffer.from(`${head}\r\n\r\n`, 'utf-8'), record.block, Buffer.from('\r\n\r\n')]);
+}
+
+/**
+ * Serialize a record as its own gzip member, so `.warc.gz` readers can seek to any record
+ */
+export function gzipWarcRecord(record: WarcRecord): Buffer {
+  return gzipSync(serializeWarcRecord(record));
+}
+
+/**
+ * Build the body of `application/warc-fields` records (warcinfo, metadata)
+ */
+export function formatWarcFields(fields: Array<[string, string | number | undefined]>): Buffer {
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}: ${String(value).replace(/[\r\n]+/g, ' ')}\r\n`);
+  return Buffer.from(lines.join(''), 'utf-8');
+}
+
+/**
+ * Build the HTTP request message recorded in a request record
+ */
+export function buildHttpRequestBlock(capture: HttpCapture): Buffer {
+  const lines = [
+    `${capture.method} ${capture.requestTarget} HTTP/${capture.httpVersion}`,
+    ...capture.requestHeaders.map(([name, value]) => `${name}: ${value}`),
+  ];
+  return Buffer.from(`${lines.join('\r\n')}\r\n\r\n`, 'utf-8');
+}
+
+/**
+ * Build the HTTP response message recorded in a response record
+ *
+ * Bodies are stored decoded, so the original Content-Encoding, Transfer-Encoding and
+ * Content-Length headers are kept under an `X-Archive-Orig-` prefix and a
+ * Content-Length matching the stored payload is added.
+ */
+export function buildHttpResponseBlock(capture: HttpCapture, payload: Buffer): Buffer {
+  const headers = capture.responseHeaders.map(([name, value]): [string, string] =>
+    TRANSFER_HEADERS.includes(name.toLowerCase()) ? [`X-Archive-Orig-${name}`, value] : [name, value]
+  );
+  headers.push(['Content-Length', String(payload.length)]);
+
+  const statusLine = `HTTP/${capture.httpVersion} ${capture.statusCode}${capture.statusText ? ` ${capture.statusText}` : ''}`;
+  const head = [statusLine, ...headers.map(([name, value]) => `${name}: ${value}`)].join('\r\n');
+  return Buffer.concat([Buffer.from(`${head}\r\n\r\n`, 'utf-8'), payload]);
+}
+
+/**
+ * A record read from a WARC file
+ */
+export interface ParsedWarcRecord {
+  version: string;
+  type: string;
+  fields: Array<[string, string]>;
+  block: Buffer;
+}
+
+/**
+ * An HTTP message read from a request or response record block
+ */
+export interface ParsedHttpMessage {
+  startLine: string;
+  headers: Array<[string, string]>;
+  body: Buffer;
+}
+
+/**
+ * Get a named field of a parsed WARC record or HTTP message (case-insensitive)
+ */
+export function getField(fields: Array<[string, string]>, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  return fields.find(([fieldName]) => fieldName.toLowerCase() === lowerName)?.[1];
+}
+
+/**
+ * Parse a `.warc` or `.warc.gz` file into its records
+ * @throws Error if the content is not a WARC file
+ */
+export function parseWarc(content: Buffer): ParsedWarcRecord[] {
+  // Concatenated gzip members decompress as one stream
+  const data = content[0] === 0x1f && content[1] === 0x8b ? gunzipSync(content) : content;
+  const records: ParsedWarcRecord[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    // Skip blank lines between records
+    while (offset < data.length && (data[offset] === 0x0d || data[offset] === 0x0a)) {
+      offset++;
+    }
+    if (offset >= data.length) {
+      break;
+    }
+
+    const headEnd = data.indexOf('\r\n\r\n', offset);
+    if (headEnd === -1) {
+      throw new Error(`Invalid WARC file: truncated record header at byte ${offset}`);
+    }
+
+    const [version, ...lines] = data.subarray(offset, headEnd).toString('utf-8').split('\r\n');
+    if (!/^WARC\/1\.[01]$/.test(version)) {
+      throw new Error(`Invalid WARC file: unsupported version line "${version.slice(0, 20)}" at byte ${offset}`);
+    }
+
+    const fields = parseFieldLines(lines);
+    const length = parseInt(getField(fields, 'Content-Length') || '', 10);
+    if (Number.isNaN(length)) {
+      throw new Error(`Invalid WARC file: record at byte ${offset} has no Content-Length`);
+    }
+
+    const blockStart = headEnd + 4;
+    records.push({
+      version,
+      type: getField(fields, 'WARC-Type') || '',
+      fields,
+      block: data.subarray(blockStart, blockStart + length),
+    });
+    offset = blockStart + length;
+  }
+
+  return records;
+}
+
+/**
+ * Split an HTTP message block into start line, headers and body
+ */
+export function parseHttpMessage(block: Buffer): ParsedHttpMessage {
+  const headEnd = block.indexOf('\r\n\r\n');
+  const head = (headEnd === -1 ? block : block.subarray(0, headEnd)).toString('latin1');
+  const [startLine, ...lines] = head.split(/\r\n/);
+
+  return {
+    startLine,
+    headers: parseFieldLines(lines),
+    body: headEnd === -1 ? Buffer.alloc(0) : block.subarray(headEnd + 4),
+  };
+}
+
+/**
+ * Undo the transfer and content encodings of a recorded HTTP body
+ *
+ * Bodies that cannot be decoded are returned as recorded.
+ */
+export function decodeHttpBody(headers: Array<[string, string]>, body: Buffer): Buffer {
+  let decoded = body;
+
+  if ((getField(headers, 'Transfer-Encoding') || '').toLowerCase().includes('chunked')) {
+    decoded = dechunk(decoded);
+  }
+
+  const encodings = (getField(headers, 'Content-Encoding') || '')
+    .toLowerCase()
+    .split(',')
+    .map(encoding => encoding.trim())
+    .filter(encoding => encoding && encoding !== 'identity');
+
+  try {
+    for (const encoding of encodings.reverse()) {
+      if (encoding === 'gzip' || encoding === 'x-gzip') {
+        decoded = gunzipSync(decoded);
+      } else if (encoding === 'deflate') {
+        // Servers send both zlib-wrapped and raw deflate under this name
+        decoded = decoded[0] === 0x78 ? inflateSync(decoded) : inflateRawSync(decoded);
+      } else if (encoding === 'br') {
+        decoded = brotliDecompressSync(decoded);
+      }
+    }
+  } catch {
+    return body;
+  }
+
+  return decoded;
+}
+
+function parseFieldLines(lines: string[]): Array<[string, string]> {
+  const fields: Array<[string, string]> = [];
+  for (const line of lines) {
+    // Continuation lines extend the previous field
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1][1] += ` ${line.trim()}`;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields.push([line.slice(0, separator).trim(), line.slice(separator + 1).trim()]);
+    }
+  }
+  return fields;
+}
+
+function dechunk(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd === -1) {
+      break;
+    }
+    const size = parseInt(body.subarray(offset, lineEnd).toString('latin1').split(';')[0], 16);
+    if (Number.isNaN(size)) {
+      // Not actually chunked
+      return body;
+    }
+    if (size === 0) {
+      break;
+    }
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * RFC 4648 base32 encoding, as used by WARC digests
+ */
+function toBase32(bytes: Buffer): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    // Keep only the bits not yet encoded
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    output += alphabet[(value << (5 - bits)) & 31];
+  }
+  while (output.length % 8 !== 0) {
+    output += '=';
+  }
+
+  return output;
+}
@@ -0,0 +1,84 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  /** Decompress and return the entry's content */
+  read: () => Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Check whether content starts like a zip file
+ */
+export function isZip(content: Buffer): boolean {
+  return content.length >= 4 && content.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * List the files of a zip archive (stored and deflated entries, no zip64)
+ *
+ * Entries are read lazily, so only the files that are needed get decompressed.
+ * @throws Error if the content is not a supported zip file
+ */
+export function readZipEntries(content: Buffer): ZipEntry[] {
+  const directoryEnd = findEndOfCentralDirectory(content);
+  const entryCount = content.readUInt16LE(directoryEnd + 10);
+  let offset = content.readUInt32LE(directoryEnd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (content.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid zip file: corrupt central directory');
+    }
+
+    const method = content.readUInt16LE(offset + 10);
+    const compressedSize = content.readUInt32LE(offset + 20);
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    const localHeaderOffset = content.readUInt32LE(offset + 42);
+    const name = content.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+
+    entries.push({
+      name,
+      read: () => {
+        if (content.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Invalid zip file: corrupt entry ${name}`);
+        }
+        // The local header's name and extra field lengths can differ from the central directory's
+        const dataStart = localHeaderOffset + 30 +
+          content.readUInt16LE(localHeaderOffset + 26) +
+          content.readUInt16LE(localHeaderOffset + 28);
+        const data = content.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === STORED) {
+          return data;
+        }
+        if (method === DEFLATED) {
+          return inflateRawSync(data);
+        }
+        throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(content: Buffer): number {
+  // The record is at the end, followed by a comment of at most 64 KB
+  const earliest = Math.max(0, content.length - 22 - 0xffff);
+  for (let offset = content.length - 22; offset >= earliest; offset--) {
+    if (content.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid zip file: end of central directory not found');
+}
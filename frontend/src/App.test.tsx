@@ -9,6 +9,12 @@ jest.mock('./services/api', () => ({
     getArchive: jest.fn(),
     deleteArchive: jest.fn(),
   },
+  changeApi: {
+    getAlerts: jest.fn().mockResolvedValue([]),
+  },
+  searchApi: {
+    search: jest.fn(),
+  },
 }));
 
 import App from './App';
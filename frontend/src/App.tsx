@@ -1,10 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { ArchiveForm, ArchiveList, ArchivedViewer, ErrorDisplay } from './components';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ArchiveForm, ArchiveList, ArchivedViewer, ArchiveSearch, ChangeNotifications, ErrorDisplay } from './components';
 import VersionList from './components/VersionList';
 import HtmlComparison from './components/HtmlComparison';
 import ErrorBoundary from './components/ErrorBoundary';
 import { archiveApi } from './services/api';
-import { Archive } from './types';
+import { Archive, ArchiveStatus } from './types';
 import './App.css';
 
 function App() {
@@ -14,15 +14,51 @@ function App() {
   const [isLoadingArchives, setIsLoadingArchives] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
   const [selectedArchiveId, setSelectedArchiveId] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState('');
   const [compareArchiveIds, setCompareArchiveIds] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'list' | 'versions'>('versions');
 
-  // Load archives on component mount
-  useEffect(() => {
-    loadArchives();
+  // Event streams of archives being watched until they finish
+  const watchedArchives = useRef(new Map<string, () => void>());
+
+  const updateArchive = useCallback((updatedArchive: Archive) => {
+    setArchives(prev =>
+      prev.map(archive =>
+        archive.id === updatedArchive.id ? updatedArchive : archive
+      )
+    );
+
+    // Update grouped archives
+    setGroupedArchives(prev => {
+      const newGrouped = { ...prev };
+      for (const url in newGrouped) {
+        newGrouped[url] = newGrouped[url].map(archive =>
+          archive.id === updatedArchive.id ? updatedArchive : archive
+        );
+      }
+      return newGrouped;
+    });
   }, []);
 
-  const loadArchives = async () => {
+  // Follow an archive's event stream and reload it once its job finishes
+  const watchArchiveStatus = useCallback((archiveId: string) => {
+    if (watchedArchives.current.has(archiveId)) return;
+
+    const unsubscribe = archiveApi.subscribeToEvents(archiveId, async event => {
+      if (event.type !== 'status') return;
+
+      unsubscribe();
+      watchedArchives.current.delete(archiveId);
+      try {
+        updateArchive(await archiveApi.getArchive(archiveId));
+      } catch (err) {
+        console.error('Failed to load finished archive:', err);
+      }
+    });
+    watchedArchives.current.set(archiveId, unsubscribe);
+  }, [updateArchive]);
+
+  const loadArchives = useCallback(async () => {
     try {
       setIsLoadingArchives(true);
       const [fetchedArchives, fetchedGroupedArchives] = await Promise.all([
@@ -31,20 +67,35 @@ function App() {
       ]);
       setArchives(fetchedArchives);
       setGroupedArchives(fetchedGroupedArchives);
+
+      fetchedArchives
+        .filter(archive => archive.status === ArchiveStatus.IN_PROGRESS)
+        .forEach(archive => watchArchiveStatus(archive.id));
     } catch (err) {
       console.error('Failed to load archives:', err);
       setError('Failed to load archives. Please refresh the page.');
     } finally {
       setIsLoadingArchives(false);
     }
-  };
+  }, [watchArchiveStatus]);
 
-  const handleCreateArchive = async (url: string) => {
+  // Load archives on component mount
+  useEffect(() => {
+    const watched = watchedArchives.current;
+    loadArchives();
+
+    return () => {
+      watched.forEach(unsubscribe => unsubscribe());
+      watched.clear();
+    };
+  }, [loadArchives]);
+
+  const handleCreateArchive = async (url: string, options?: { incrementalFrom?: string }) => {
     try {
       setIsLoading(true);
       setError(undefined);
       
-      const newArchive = await archiveApi.createArchive(url);
+      const newArchive = await archiveApi.createArchive(url, options);
       setArchives(prev => [newArchive, ...prev]);
       
       // Update grouped archives
@@ -57,8 +108,8 @@ function App() {
         };
       });
       
-      // Poll for updates while archiving is in progress
-      pollArchiveStatus(newArchive.id);
+      // Follow the archive until its job finishes
+      watchArchiveStatus(newArchive.id);
     } catch (err: any) {
       console.error('Failed to create archive:', err);
       let errorMessage = 'Failed to create archive';
@@ -77,40 +128,39 @@ function App() {
     }
   };
 
-  const pollArchiveStatus = async (archiveId: string) => {
-    const pollInterval = setInterval(async () => {
-      try {
-        const updatedArchive = await archiveApi.getArchive(archiveId);
-        
-        setArchives(prev => 
-          prev.map(archive => 
-            archive.id === archiveId ? updatedArchive : archive
-          )
-        );
-        
-        // Update grouped archives
-        setGroupedArchives(prev => {
-          const newGrouped = { ...prev };
-          for (const url in newGrouped) {
-            newGrouped[url] = newGrouped[url].map(archive =>
-              archive.id === archiveId ? updatedArchive : archive
-            );
-          }
-          return newGrouped;
-        });
-        
-        // Stop polling if archive is complete or failed
-        if (updatedArchive.status === 'completed' || updatedArchive.status === 'failed') {
-          clearInterval(pollInterval);
-        }
-      } catch (err) {
-        console.error('Failed to poll archive status:', err);
-        clearInterval(pollInterval);
-      }
-    }, 2000); // Poll every 2 seconds
+  const handleImportArchive = async (file: File) => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+
+      const importedArchive = await archiveApi.importArchive(file);
+      setArchives(prev => [importedArchive, ...prev]);
+
+      // Imports are versions of their main page's URL, like crawled archives
+      setGroupedArchives(prev => {
+        const existing = prev[importedArchive.url] || [];
+        return {
+          ...prev,
+          [importedArchive.url]: [importedArchive, ...existing]
+        };
+      });
+    } catch (err: any) {
+      console.error('Failed to import archive:', err);
+      const data = err.response?.data;
+      setError(data?.details || data?.error || err.message || 'Failed to import archive');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleSelectArchive = (archiveId: string) => {
+    setSelectedPath('');
+    setSelectedArchiveId(archiveId);
+  };
+
+  // Open a search hit at the page it was found on
+  const handleOpenPage = (archiveId: string, path: string) => {
+    setSelectedPath(path);
     setSelectedArchiveId(archiveId);
   };
 
@@ -126,8 +176,13 @@ function App() {
     setCompareArchiveIds([]);
   };
 
+  // Re-archive incrementally from the latest version that captured anything
   const handleReArchive = (url: string) => {
-    handleCreateArchive(url);
+    const base = archives
+      .filter(archive => archive.url === url && archive.pages.length > 0 &&
+        (archive.status === ArchiveStatus.COMPLETED || archive.status === ArchiveStatus.PARTIAL))
+      .sort((a, b) => b.version - a.version)[0];
+    handleCreateArchive(url, base ? { incrementalFrom: base.id } : undefined);
   };
 
   const handleDeleteArchive = async (archiveId: string) => {
@@ -153,6 +208,35 @@ function App() {
     }
   };
 
+  const handleCancelArchive = async (archiveId: string) => {
+    try {
+      await archiveApi.cancelArchive(archiveId);
+      // Pick up the partial archive once it has been finalized
+      watchArchiveStatus(archiveId);
+    } catch (err: any) {
+      console.error('Failed to cancel archive:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to cancel archive');
+    }
+  };
+
+  const handlePauseArchive = async (archiveId: string) => {
+    try {
+      await archiveApi.pauseArchive(archiveId);
+    } catch (err: any) {
+      console.error('Failed to pause archive:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to pause archive');
+    }
+  };
+
+  const handleResumeArchive = async (archiveId: string) => {
+    try {
+      await archiveApi.resumeArchive(archiveId);
+    } catch (err: any) {
+      console.error('Failed to resume archive:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to resume archive');
+    }
+  };
+
   const handleRetry = () => {
     setError(undefined);
     loadArchives();
@@ -169,6 +253,7 @@ function App() {
           <ErrorBoundary>
             <ArchivedViewer
               archiveId={selectedArchiveId}
+              initialPath={selectedPath}
               onClose={handleCloseViewer}
             />
           </ErrorBoundary>
@@ -189,6 +274,7 @@ function App() {
           <main>
             <ArchiveForm
               onSubmit={handleCreateArchive}
+              onImport={handleImportArchive}
               isLoading={isLoading}
               error={error}
             />
@@ -200,6 +286,10 @@ function App() {
                 onDismiss={handleDismissError}
               />
             )}
+
+            <ArchiveSearch onOpenPage={handleOpenPage} />
+
+            <ChangeNotifications onCompareArchives={handleCompareArchives} />
             
             <div className="view-toggle">
               <button
@@ -223,6 +313,9 @@ function App() {
                 onReArchive={handleReArchive}
                 onDeleteArchive={handleDeleteArchive}
                 onCompareArchives={handleCompareArchives}
+                onCancelArchive={handleCancelArchive}
+                onPauseArchive={handlePauseArchive}
+                onResumeArchive={handleResumeArchive}
                 isLoading={isLoadingArchives}
               />
             ) : (
@@ -3,11 +3,12 @@ import styles from './ArchiveForm.module.css';
 
 interface ArchiveFormProps {
   onSubmit: (url: string) => void;
+  onImport?: (file: File) => void;
   isLoading: boolean;
   error?: string;
 }
 
-const ArchiveForm: React.FC<ArchiveFormProps> = ({ onSubmit, isLoading, error }) => {
+const ArchiveForm: React.FC<ArchiveFormProps> = ({ onSubmit, onImport, isLoading, error }) => {
   const [url, setUrl] = useState('');
   const [validationError, setValidationError] = useState('');
 
@@ -49,6 +50,15 @@ const ArchiveForm: React.FC<ArchiveFormProps> = ({ onSubmit, isLoading, error })
     }
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onImport) {
+      onImport(file);
+    }
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
   return (
     <form className={styles.form} onSubmit={handleSubmit}>
       <h2 className={styles.title}>Archive a Website</h2>
@@ -91,6 +101,22 @@ const ArchiveForm: React.FC<ArchiveFormProps> = ({ onSubmit, isLoading, error })
       >
         {isLoading ? 'Archiving...' : 'Start Archive'}
       </button>
+
+      {onImport && (
+        <div className={styles.importGroup}>
+          <label htmlFor="import-file" className={styles.label}>
+            Or import a WARC or WACZ file
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".warc,.warc.gz,.wacz"
+            onChange={handleFileChange}
+            className={styles.fileInput}
+            disabled={isLoading}
+          />
+        </div>
+      )}
     </form>
   );
 };
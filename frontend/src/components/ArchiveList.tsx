@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Archive, ArchiveStatus } from '../types';
 import ProgressBar from './ProgressBar';
 import { archiveApi } from '../services/api';
+import { useArchiveProgress } from '../hooks/useArchiveProgress';
 import styles from './ArchiveList.module.css';
 
 interface ArchiveListProps {
@@ -10,6 +11,9 @@ interface ArchiveListProps {
   onReArchive: (url: string) => void;
   onDeleteArchive: (archiveId: string) => void;
   onCompareArchives?: (archiveIds: string[]) => void;
+  onCancelArchive?: (archiveId: string) => void;
+  onPauseArchive?: (archiveId: string) => void;
+  onResumeArchive?: (archiveId: string) => void;
   isLoading?: boolean;
 }
 
@@ -19,49 +23,19 @@ const ArchiveList: React.FC<ArchiveListProps> = ({
   onReArchive,
   onDeleteArchive,
   onCompareArchives,
+  onCancelArchive,
+  onPauseArchive,
+  onResumeArchive,
   isLoading = false
 }) => {
-  const [progressData, setProgressData] = useState<{[key: string]: any}>({});
-
-  // Poll progress for in-progress archives
-  useEffect(() => {
-    const inProgressArchives = archives.filter(archive => archive.status === ArchiveStatus.IN_PROGRESS);
-    
-    if (inProgressArchives.length === 0) return;
-
-    const pollProgress = async () => {
-      const progressPromises = inProgressArchives.map(async (archive) => {
-        try {
-          const response = await archiveApi.getArchiveProgress(archive.id);
-          return { id: archive.id, data: response };
-        } catch (error) {
-          console.error(`Failed to get progress for ${archive.id}:`, error);
-          return { id: archive.id, data: null };
-        }
-      });
-
-      const results = await Promise.all(progressPromises);
-      const newProgressData: {[key: string]: any} = {};
-      
-      results.forEach(result => {
-        if (result.data) {
-          newProgressData[result.id] = result.data;
-        }
-      });
-
-      setProgressData(newProgressData);
-    };
-
-    // Poll immediately and then every 2 seconds
-    pollProgress();
-    const interval = setInterval(pollProgress, 2000);
-
-    return () => clearInterval(interval);
-  }, [archives]);
+  // Follow live progress of in-progress archives
+  const progressData = useArchiveProgress(
+    archives.filter(archive => archive.status === ArchiveStatus.IN_PROGRESS).map(archive => archive.id)
+  );
 
   const calculateProgress = (archive: Archive): number => {
     const progress = progressData[archive.id];
-    if (!progress) return 0;
+    if (!progress?.progress) return 0;
 
     const { pagesDiscovered, pagesCrawled, assetsDownloaded } = progress.progress;
     if (pagesDiscovered === 0) return 5; // Show some progress for initialization
@@ -139,6 +113,20 @@ const ArchiveList: React.FC<ArchiveListProps> = ({
     }
   };
 
+  const handleCancelArchive = (archiveId: string) => {
+    if (window.confirm('Stop this archive? Pages captured so far will be kept as a partial archive.')) {
+      onCancelArchive?.(archiveId);
+    }
+  };
+
+  const handlePauseArchive = (archiveId: string) => {
+    onPauseArchive?.(archiveId);
+  };
+
+  const handleResumeArchive = (archiveId: string) => {
+    onResumeArchive?.(archiveId);
+  };
+
   const handleDeleteArchive = (archiveId: string) => {
     if (window.confirm('Are you sure you want to delete this archive? This action cannot be undone.')) {
       onDeleteArchive(archiveId);
@@ -212,6 +200,50 @@ const ArchiveList: React.FC<ArchiveListProps> = ({
                     View
                   </button>
                 )}
+                {archive.status === ArchiveStatus.IN_PROGRESS && (
+                  <>
+                    {progressData[archive.id]?.paused ? (
+                      onResumeArchive && (
+                        <button
+                          className={styles.actionButton}
+                          onClick={() => handleResumeArchive(archive.id)}
+                          title="Continue archiving"
+                        >
+                          Resume
+                        </button>
+                      )
+                    ) : (
+                      onPauseArchive && (
+                        <button
+                          className={styles.actionButton}
+                          onClick={() => handlePauseArchive(archive.id)}
+                          title="Pause archiving"
+                        >
+                          Pause
+                        </button>
+                      )
+                    )}
+                    {onCancelArchive && (
+                      <button
+                        className={`${styles.actionButton} ${styles.danger}`}
+                        onClick={() => handleCancelArchive(archive.id)}
+                        title="Stop archiving and keep what was captured"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </>
+                )}
+                {archive.status !== ArchiveStatus.IN_PROGRESS && (
+                  <a
+                    className={styles.actionButton}
+                    href={archiveApi.getWarcExportUrl(archive.id)}
+                    download
+                    title="Download this archive as a WARC file"
+                  >
+                    Export WARC
+                  </a>
+                )}
                 <button
                   className={styles.actionButton}
                   onClick={() => handleReArchive(archive.url)}
@@ -235,7 +267,10 @@ const ArchiveList: React.FC<ArchiveListProps> = ({
                 status={archive.status}
                 details={progressData[archive.id]?.progress}
                 estimatedTimeRemaining={getEstimatedTimeRemaining(archive)}
-                currentUrl={progressData[archive.id]?.currentUrl || archive.url}
+                currentUrl={progressData[archive.id]?.queued ? 'Waiting in queue…' : progressData[archive.id]?.currentUrl || archive.url}
+                paused={progressData[archive.id]?.paused}
+                recentActivity={progressData[archive.id]?.recentActivity}
+                connectionState={progressData[archive.id]?.connectionState}
               />
             )}
             
@@ -258,6 +293,14 @@ const ArchiveList: React.FC<ArchiveListProps> = ({
               </div>
             )}
             
+            {archive.importedFrom && (
+              <div className={styles.archiveMetadata}>
+                <div className={styles.metadataItem}>
+                  <span>📦 Imported from {archive.importedFrom}</span>
+                </div>
+              </div>
+            )}
+            
             {archive.errors.length > 0 && (
               <div className={styles.archiveMetadata}>
                 <div className={styles.metadataItem}>
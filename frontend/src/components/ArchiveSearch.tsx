@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { SearchFilters, SearchHit } from '../types';
+import { searchApi } from '../services/api';
+import { getErrorMessage } from '../utils/errorMessage';
+import styles from './ArchiveSearch.module.css';
+
+interface ArchiveSearchProps {
+  onOpenPage: (archiveId: string, path: string) => void;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wrap the words of the query in a snippet with <mark>
+ */
+const highlight = (snippet: string, query: string): React.ReactNode => {
+  const words = query.match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return snippet;
+  }
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'giu');
+  return snippet.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index}>{part}</mark> : part
+  );
+};
+
+/**
+ * Full-text search across the pages of every archive
+ */
+const ArchiveSearch: React.FC<ArchiveSearchProps> = ({ onOpenPage }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [results, setResults] = useState<{ query: string; hits: SearchHit[]; total: number } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (!q) return;
+
+    try {
+      setIsSearching(true);
+      const { hits, total } = await searchApi.search(q, filters);
+      setResults({ query: q, hits, total });
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to search archives'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const updateFilter = (name: keyof SearchFilters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFilters(current => ({ ...current, [name]: e.target.value }));
+
+  return (
+    <div className={styles.container}>
+      <form className={styles.form} onSubmit={handleSearch} role="search">
+        <input
+          type="search"
+          className={styles.queryInput}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder='Search archived pages, e.g. pricing or "exact phrase"'
+          aria-label="Search archived pages"
+        />
+        <button type="submit" className={styles.searchButton} disabled={isSearching || !query.trim()}>
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+        <div className={styles.filters}>
+          <label>
+            Domain
+            <input type="text" value={filters.domain || ''} onChange={updateFilter('domain')} placeholder="example.com" />
+          </label>
+          <label>
+            From
+            <input type="date" value={filters.from || ''} onChange={updateFilter('from')} />
+          </label>
+          <label>
+            To
+            <input type="date" value={filters.to || ''} onChange={updateFilter('to')} />
+          </label>
+        </div>
+      </form>
+
+      {error && <div className={styles.error} role="alert">{error}</div>}
+
+      {results && (
+        results.hits.length === 0 ? (
+          <div className={styles.empty}>No archived pages match “{results.query}”.</div>
+        ) : (
+          <>
+            <div className={styles.summary}>
+              {results.total > results.hits.length
+                ? `Top ${results.hits.length} of ${results.total} pages`
+                : `${results.total} page${results.total === 1 ? '' : 's'}`}
+            </div>
+            <ul className={styles.hits}>
+              {results.hits.map(hit => (
+                <li key={`${hit.archiveId}/${hit.path}`}>
+                  <button className={styles.hit} onClick={() => onOpenPage(hit.archiveId, hit.path)}>
+                    <span className={styles.hitTitle}>{hit.title || hit.pageUrl}</span>
+                    <span className={styles.hitInfo}>
+                      {hit.pageUrl} · v{hit.version} · {new Date(hit.timestamp).toLocaleDateString()}
+                    </span>
+                    <span className={styles.snippet}>{highlight(hit.snippet, results.query)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ArchiveSearch;
@@ -20,6 +20,7 @@ const ArchivedViewer: React.FC<ArchivedViewerProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
   const [showErrors, setShowErrors] = useState(false);
+  const [showSkipped, setShowSkipped] = useState(false);
   const [contentError, setContentError] = useState<string | undefined>(undefined);
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
@@ -156,6 +157,8 @@ const ArchivedViewer: React.FC<ArchivedViewerProps> = ({
     );
   }
 
+  const currentPage = archive.pages.find(page => page.path === currentPath);
+
   return (
     <div className={styles.container}>
       {/* Archive Context Header */}
@@ -193,6 +196,15 @@ const ArchivedViewer: React.FC<ArchivedViewerProps> = ({
               ⚠️ {archive.errors.length} Error{archive.errors.length !== 1 ? 's' : ''}
             </button>
           )}
+          {archive.skippedUrls && archive.skippedUrls.length > 0 && (
+            <button
+              className={styles.skippedButton}
+              onClick={() => setShowSkipped(!showSkipped)}
+              title={`View ${archive.skippedUrls.length} skipped URL(s)`}
+            >
+              🚫 {archive.skippedUrls.length} Skipped
+            </button>
+          )}
           <button 
             className={styles.refreshButton} 
             onClick={handleRefresh}
@@ -214,6 +226,12 @@ const ArchivedViewer: React.FC<ArchivedViewerProps> = ({
             /{currentPath || 'index.html'}
           </span>
         </div>
+
+        {currentPage?.referrer && (
+          <div className={styles.pageOrigin} title={currentPage.referrer}>
+            Depth {currentPage.depth ?? 0} · linked from {currentPage.referrer}
+          </div>
+        )}
         
         {archive.pages.length > 0 && (
           <div className={styles.pageSelector}>
@@ -271,6 +289,37 @@ const ArchivedViewer: React.FC<ArchivedViewerProps> = ({
         </div>
       )}
 
+      {/* Skipped URLs Panel */}
+      {showSkipped && archive.skippedUrls && archive.skippedUrls.length > 0 && (
+        <div className={styles.errorsPanel}>
+          <div className={styles.errorsPanelHeader}>
+            <h3>Skipped URLs ({archive.skippedUrls.length})</h3>
+            <button 
+              className={styles.closeErrorsButton}
+              onClick={() => setShowSkipped(false)}
+            >
+              ✕
+            </button>
+          </div>
+          <div className={styles.errorsList}>
+            {archive.skippedUrls.map((skipped, index) => (
+              <div key={`${skipped.url}-${index}`} className={styles.errorItem}>
+                <div className={styles.errorHeader}>
+                  <span className={styles.errorType}>{skipped.reason.replace(/_/g, ' ')}</span>
+                  {skipped.rule && (
+                    <span className={styles.errorTime}>{skipped.rule}</span>
+                  )}
+                </div>
+                <div className={styles.errorUrl}>URL: {skipped.url}</div>
+                {skipped.sourceUrl && (
+                  <div className={styles.errorMessage}>Found on: {skipped.sourceUrl}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Content Error Display */}
       {contentError && (
         <div className={styles.contentError}>
@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChangeAlert } from '../types';
+import { changeApi } from '../services/api';
+import { getErrorMessage } from '../utils/errorMessage';
+import styles from './ChangeNotifications.module.css';
+
+interface ChangeNotificationsProps {
+  onCompareArchives: (archiveIds: string[]) => void;
+}
+
+// Re-archives finish in the background, so look for new alerts now and then
+const ALERT_POLL_INTERVAL = 60000;
+
+/**
+ * Feed of changes detected between consecutive versions of archived websites
+ */
+const ChangeNotifications: React.FC<ChangeNotificationsProps> = ({ onCompareArchives }) => {
+  const [alerts, setAlerts] = useState<ChangeAlert[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      setAlerts(await changeApi.getAlerts());
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load change notifications'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    const interval = setInterval(loadAlerts, ALERT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadAlerts]);
+
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await changeApi.markAlertsRead(ids);
+      setAlerts(current => current.map(alert => (!ids || ids.includes(alert.id) ? { ...alert, read: true } : alert)));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notifications as read'));
+    }
+  };
+
+  const handleCompare = (alert: ChangeAlert) => {
+    if (!alert.read) {
+      markRead([alert.id]);
+    }
+    onCompareArchives([alert.previousArchiveId, alert.archiveId]);
+  };
+
+  const describeAlert = (alert: ChangeAlert): string => {
+    const parts = [`${Math.round(alert.similarity * 100)}% similar`, `+${alert.addedLines} / -${alert.removedLines} lines`];
+    if (alert.pages.length > 0) {
+      parts.push(`${alert.pages.length} page${alert.pages.length === 1 ? '' : 's'} changed`);
+    }
+    if (alert.changedSelectors.length > 0) {
+      parts.push(`watched: ${alert.changedSelectors.join(', ')}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className={styles.container}>
+      <button
+        className={styles.toggle}
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+      >
+        🔔 Change notifications
+        {unreadCount > 0 && <span className={styles.badge}>{unreadCount} new</span>}
+      </button>
+
+      {isOpen && (
+        <div className={styles.panel}>
+          {error && <div className={styles.error} role="alert">{error}</div>}
+
+          {alerts.length === 0 ? (
+            <div className={styles.empty}>No changes detected yet.</div>
+          ) : (
+            <>
+              <ul className={styles.list}>
+                {alerts.map(alert => (
+                  <li key={alert.id} className={`${styles.alert} ${alert.read ? '' : styles.unread}`}>
+                    <div className={styles.alertInfo}>
+                      <span className={styles.alertTitle}>
+                        {alert.url} changed in version {alert.version}
+                      </span>
+                      <span>{describeAlert(alert)}</span>
+                      <span className={styles.timestamp}>{new Date(alert.createdAt).toLocaleString()}</span>
+                    </div>
+                    <button className={styles.button} onClick={() => handleCompare(alert)}>
+                      Compare v{alert.previousVersion} → v{alert.version}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {unreadCount > 0 && (
+                <button className={styles.button} onClick={() => markRead()}>
+                  Mark all as read
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeNotifications;
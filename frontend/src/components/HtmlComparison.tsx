@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { Archive } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Archive, ArchiveDiff, ChangeStatus } from '../types';
 import { archiveApi } from '../services/api';
+import { useSyncedScroll } from '../hooks/useSyncedScroll';
+import { buildInlineDiff, prepareDocument, CURRENT_CHANGE_CLASS, DIFF_INDEX_ATTRIBUTE } from '../utils/inlineDiff';
 import styles from './HtmlComparison.module.css';
 
 interface HtmlComparisonProps {
@@ -8,14 +10,59 @@ interface HtmlComparisonProps {
   onClose: () => void;
 }
 
+type ViewMode = 'side-by-side' | 'inline';
+
+// A page present in either version, with its path within each archive
+interface ComparedPage {
+  url: string;
+  status?: ChangeStatus;
+  fromPath?: string;
+  toPath?: string;
+}
+
+/**
+ * Pages of both versions, with their change status when the server diff is available
+ */
+const listPages = (archive1: Archive, archive2: Archive, diff: ArchiveDiff | null): ComparedPage[] => {
+  if (diff) {
+    return diff.pages.map(({ url, status, fromPath, toPath }) => ({ url, status, fromPath, toPath }));
+  }
+
+  const pages = new Map<string, ComparedPage>();
+  archive1.pages.forEach(page => pages.set(page.url, { url: page.url, fromPath: page.path }));
+  archive2.pages.forEach(page => pages.set(page.url, { ...pages.get(page.url), url: page.url, toPath: page.path }));
+  return Array.from(pages.values());
+};
+
+const pageLabel = (page: ComparedPage): string => {
+  let label = page.url;
+  try {
+    const url = new URL(page.url);
+    label = url.pathname + url.search;
+  } catch {
+    // Keep the full URL
+  }
+  return page.status ? `${label} (${page.status})` : label;
+};
+
 /**
  * Component for comparing two archived versions of the same website
- * Shows side-by-side diff view of HTML content
+ * Shows any page of either version side by side with synchronized scrolling, or inline
+ * with the changes from version 1 to version 2 highlighted in place
  */
 const HtmlComparison: React.FC<HtmlComparisonProps> = ({ archiveIds, onClose }) => {
   const [archives, setArchives] = useState<[Archive | null, Archive | null]>([null, null]);
+  const [diff, setDiff] = useState<ArchiveDiff | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+  const [pageHtml, setPageHtml] = useState<{ from?: string; to?: string } | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ViewMode>('side-by-side');
+  const [syncScroll, setSyncScroll] = useState(true);
+  const [currentChange, setCurrentChange] = useState(-1);
+  const inlineFrame = useRef<HTMLIFrameElement>(null);
+  const { frameRef, onFrameLoad } = useSyncedScroll(syncScroll);
 
   useEffect(() => {
     const loadArchives = async () => {
@@ -28,12 +75,18 @@ const HtmlComparison: React.FC<HtmlComparisonProps> = ({ archiveIds, onClose })
           return;
         }
 
-        const [archive1, archive2] = await Promise.all([
+        const [archive1, archive2, archiveDiff] = await Promise.all([
           archiveApi.getArchive(archiveIds[0]),
-          archiveApi.getArchive(archiveIds[1])
+          archiveApi.getArchive(archiveIds[1]),
+          // Without the diff, pages are still listed, just without their change status
+          archiveApi.getArchiveDiff(archiveIds[0], archiveIds[1]).catch(() => null)
         ]);
 
         setArchives([archive1, archive2]);
+        setDiff(archiveDiff);
+        const pages = listPages(archive1, archive2, archiveDiff);
+        const startPage = pages.find(page => page.url === archive2.url || page.url === archive1.url) || pages[0];
+        setSelectedUrl(startPage ? startPage.url : null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load archives for comparison');
       } finally {
@@ -44,6 +97,68 @@ const HtmlComparison: React.FC<HtmlComparisonProps> = ({ archiveIds, onClose })
     loadArchives();
   }, [archiveIds]);
 
+  const [archive1, archive2] = archives;
+  const pages = useMemo(
+    () => (archive1 && archive2 ? listPages(archive1, archive2, diff) : []),
+    [archive1, archive2, diff]
+  );
+  const selectedPage = pages.find(page => page.url === selectedUrl);
+
+  useEffect(() => {
+    if (!archive1 || !archive2 || !selectedPage) return;
+    let cancelled = false;
+
+    const loadPage = async () => {
+      setPageHtml(null);
+      setPageError(null);
+      try {
+        const [from, to] = await Promise.all([
+          selectedPage.fromPath ? archiveApi.getPageHtml(archive1.id, selectedPage.fromPath) : undefined,
+          selectedPage.toPath ? archiveApi.getPageHtml(archive2.id, selectedPage.toPath) : undefined
+        ]);
+        if (!cancelled) setPageHtml({ from, to });
+      } catch (err) {
+        if (!cancelled) setPageError(err instanceof Error ? err.message : 'Failed to load page');
+      }
+    };
+
+    loadPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [archive1, archive2, selectedPage]);
+
+  const documents = useMemo(() => {
+    if (!archive1 || !archive2 || !selectedPage || !pageHtml) return null;
+    const fromBase = selectedPage.fromPath && archiveApi.getContentUrl(archive1.id, selectedPage.fromPath);
+    const toBase = selectedPage.toPath && archiveApi.getContentUrl(archive2.id, selectedPage.toPath);
+
+    return {
+      from: pageHtml.from !== undefined && fromBase ? prepareDocument(pageHtml.from, fromBase) : undefined,
+      to: pageHtml.to !== undefined && toBase ? prepareDocument(pageHtml.to, toBase) : undefined,
+      inline: pageHtml.from !== undefined && pageHtml.to !== undefined && toBase
+        ? buildInlineDiff(pageHtml.from, pageHtml.to, toBase)
+        : undefined
+    };
+  }, [archive1, archive2, selectedPage, pageHtml]);
+
+  useEffect(() => {
+    setCurrentChange(-1);
+  }, [documents]);
+
+  const goToChange = (index: number) => {
+    const doc = inlineFrame.current?.contentDocument;
+    if (!doc) return;
+
+    doc.querySelectorAll(`.${CURRENT_CHANGE_CLASS}`).forEach(element => element.classList.remove(CURRENT_CHANGE_CLASS));
+    const element = doc.querySelector(`[${DIFF_INDEX_ATTRIBUTE}="${index}"]`);
+    if (element) {
+      element.classList.add(CURRENT_CHANGE_CLASS);
+      element.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+    }
+    setCurrentChange(index);
+  };
+
   if (loading) {
     return (
       <div className={styles.container}>
@@ -74,8 +189,6 @@ const HtmlComparison: React.FC<HtmlComparisonProps> = ({ archiveIds, onClose })
     );
   }
 
-  const [archive1, archive2] = archives;
-
   if (!archive1 || !archive2) {
     return (
       <div className={styles.container}>
@@ -115,27 +228,127 @@ const HtmlComparison: React.FC<HtmlComparisonProps> = ({ archiveIds, onClose })
         </div>
       </div>
 
-      <div className={styles.comparisonView}>
-        <div className={styles.viewerContainer}>
-          <h4>Version 1 ({new Date(archive1.timestamp).toLocaleDateString()})</h4>
-          <iframe
-            src={`/api/archives/${archive1.id}/content/pages/index.html`}
-            className={styles.viewer}
-            title={`Archive 1 - ${archive1.url}`}
-            sandbox="allow-same-origin allow-scripts allow-forms"
-          />
-        </div>
-        <div className={styles.viewerContainer}>
-          <h4>Version 2 ({new Date(archive2.timestamp).toLocaleDateString()})</h4>
-          <iframe
-            src={`/api/archives/${archive2.id}/content/pages/index.html`}
-            className={styles.viewer}
-            title={`Archive 2 - ${archive2.url}`}
-            sandbox="allow-same-origin allow-scripts allow-forms"
-          />
+      <div className={styles.toolbar}>
+        <label className={styles.pagePicker}>
+          Page
+          <select
+            value={selectedUrl || ''}
+            onChange={(e) => setSelectedUrl(e.target.value)}
+            disabled={pages.length === 0}
+          >
+            {pages.map(page => (
+              <option key={page.url} value={page.url}>{pageLabel(page)}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className={styles.modeToggle}>
+          <button
+            onClick={() => setMode('side-by-side')}
+            className={mode === 'side-by-side' ? styles.activeMode : ''}
+            aria-pressed={mode === 'side-by-side'}
+          >
+            Side by side
+          </button>
+          <button
+            onClick={() => setMode('inline')}
+            className={mode === 'inline' ? styles.activeMode : ''}
+            aria-pressed={mode === 'inline'}
+          >
+            Inline diff
+          </button>
         </div>
+
+        {mode === 'side-by-side' ? (
+          <label className={styles.syncToggle}>
+            <input
+              type="checkbox"
+              checked={syncScroll}
+              onChange={(e) => setSyncScroll(e.target.checked)}
+            />
+            Sync scrolling
+          </label>
+        ) : documents?.inline ? (
+          <div className={styles.changeNavigator}>
+            <button
+              onClick={() => goToChange(currentChange - 1)}
+              disabled={currentChange <= 0}
+            >
+              ‹ Previous
+            </button>
+            <span>
+              {documents.inline.changeCount === 0
+                ? 'No changes'
+                : currentChange < 0
+                  ? `${documents.inline.changeCount} changes`
+                  : `Change ${currentChange + 1} of ${documents.inline.changeCount}`}
+            </span>
+            <button
+              onClick={() => goToChange(currentChange + 1)}
+              disabled={currentChange >= documents.inline.changeCount - 1}
+            >
+              Next ›
+            </button>
+          </div>
+        ) : null}
       </div>
 
+      {pages.length === 0 ? (
+        <div className={styles.error}>
+          <p>Neither version has any archived pages</p>
+        </div>
+      ) : pageError ? (
+        <div className={styles.error}>
+          <p>Error: {pageError}</p>
+        </div>
+      ) : !documents ? (
+        <div className={styles.loading}>
+          <div className={styles.spinner}></div>
+          <p>Loading page...</p>
+        </div>
+      ) : mode === 'inline' ? (
+        <div className={styles.inlineView}>
+          {documents.inline ? (
+            <iframe
+              ref={inlineFrame}
+              srcDoc={documents.inline.html}
+              className={styles.viewer}
+              title={`Changes - ${selectedUrl}`}
+              sandbox="allow-same-origin"
+            />
+          ) : (
+            <div className={styles.missingPage}>
+              {documents.to
+                ? 'This page is new in version 2; switch to side by side to view it'
+                : 'This page was removed in version 2; switch to side by side to view it'}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className={styles.comparisonView}>
+          {[
+            { archive: archive1, html: documents.from },
+            { archive: archive2, html: documents.to }
+          ].map(({ archive, html }, index) => (
+            <div key={archive.id} className={styles.viewerContainer}>
+              <h4>Version {index + 1} ({new Date(archive.timestamp).toLocaleDateString()})</h4>
+              {html !== undefined ? (
+                <iframe
+                  ref={frameRef(index)}
+                  onLoad={onFrameLoad(index)}
+                  srcDoc={html}
+                  className={styles.viewer}
+                  title={`Archive ${index + 1} - ${selectedUrl}`}
+                  sandbox="allow-same-origin"
+                />
+              ) : (
+                <div className={styles.missingPage}>Not in this version</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className={styles.actions}>
         <button onClick={onClose} className={styles.button}>
           Close Comparison
@@ -1,4 +1,5 @@
 import React from 'react';
+import { ConnectionState } from '../types';
 import styles from './ProgressBar.module.css';
 
 interface ProgressBarProps {
@@ -12,6 +13,9 @@ interface ProgressBarProps {
   };
   estimatedTimeRemaining?: number; // in seconds
   currentUrl?: string;
+  paused?: boolean;
+  recentActivity?: string; // latest page, asset or error reported by the job
+  connectionState?: ConnectionState;
 }
 
 const ProgressBar: React.FC<ProgressBarProps> = ({ 
@@ -19,7 +23,10 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
   status, 
   details, 
   estimatedTimeRemaining,
-  currentUrl
+  currentUrl,
+  paused = false,
+  recentActivity,
+  connectionState
 }) => {
   const formatTime = (seconds: number): string => {
     if (seconds < 60) return `${Math.round(seconds)}s`;
@@ -41,9 +48,17 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
     <div className={styles.container}>
       <div className={styles.header}>
         <span className={styles.status} style={{ color: getStatusColor(status) }}>
-          {status.replace('_', ' ').toUpperCase()}
+          {paused ? 'PAUSED' : status.replace('_', ' ').toUpperCase()}
         </span>
-        {estimatedTimeRemaining && estimatedTimeRemaining > 0 && (
+        {connectionState && status === 'in_progress' && (
+          <span
+            className={`${styles.connection} ${connectionState === 'live' ? styles.connectionLive : ''}`}
+            title={connectionState === 'live' ? 'Receiving live updates' : 'Reconnecting to live updates'}
+          >
+            {connectionState === 'live' ? 'Live' : 'Reconnecting…'}
+          </span>
+        )}
+        {!paused && estimatedTimeRemaining && estimatedTimeRemaining > 0 && (
           <span className={styles.timeRemaining}>
             ~{formatTime(estimatedTimeRemaining)} remaining
           </span>
@@ -70,6 +85,10 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
           <span className={styles.currentUrlValue}>{currentUrl}</span>
         </div>
       )}
+
+      {recentActivity && status === 'in_progress' && (
+        <div className={styles.recentActivity}>{recentActivity}</div>
+      )}
       
       {details && (
         <div className={styles.details}>
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArchiveSchedule, ScheduleTiming } from '../types';
+import { scheduleApi } from '../services/api';
+import { getErrorMessage } from '../utils/errorMessage';
+import styles from './SchedulePanel.module.css';
+
+interface SchedulePanelProps {
+  url: string;
+}
+
+type TimingMode = 'interval' | 'cron';
+
+const SchedulePanel: React.FC<SchedulePanelProps> = ({ url }) => {
+  const [schedules, setSchedules] = useState<ArchiveSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<TimingMode>('interval');
+  const [intervalMinutes, setIntervalMinutes] = useState('1440');
+  const [cron, setCron] = useState('');
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await scheduleApi.getSchedules(url));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load schedules'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [url]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const formatTimestamp = (timestamp?: Date): string =>
+    timestamp ? new Date(timestamp).toLocaleString() : 'never';
+
+  const describeTiming = (schedule: ArchiveSchedule): string =>
+    schedule.cron !== undefined
+      ? `Cron ${schedule.cron} (UTC)`
+      : `Every ${schedule.intervalMinutes} minutes`;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const timing: ScheduleTiming = mode === 'cron'
+      ? { cron: cron.trim() }
+      : { intervalMinutes: Number(intervalMinutes) };
+    try {
+      const schedule = await scheduleApi.createSchedule(url, timing);
+      setSchedules(current => [...current, schedule]);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create schedule'));
+    }
+  };
+
+  const handleToggle = async (schedule: ArchiveSchedule) => {
+    try {
+      const updated = await scheduleApi.setScheduleEnabled(schedule.id, !schedule.enabled);
+      setSchedules(current => current.map(item => (item.id === updated.id ? updated : item)));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update schedule'));
+    }
+  };
+
+  const handleDelete = async (schedule: ArchiveSchedule) => {
+    if (!window.confirm('Delete this schedule? Archives it already created are kept.')) {
+      return;
+    }
+    try {
+      await scheduleApi.deleteSchedule(schedule.id);
+      setSchedules(current => current.filter(item => item.id !== schedule.id));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete schedule'));
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <h4 className={styles.title}>Scheduled archives</h4>
+
+      {error && <div className={styles.error} role="alert">{error}</div>}
+
+      {isLoading ? (
+        <div className={styles.empty}>Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        <div className={styles.empty}>No schedules for this website yet.</div>
+      ) : (
+        <ul className={styles.list}>
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className={styles.schedule}>
+              <div className={styles.scheduleInfo}>
+                <span className={styles.timing}>{describeTiming(schedule)}</span>
+                <span>
+                  {schedule.enabled ? `Next run: ${formatTimestamp(schedule.nextRunAt)}` : 'Paused'}
+                </span>
+                <span>Last run: {formatTimestamp(schedule.lastRunAt)}</span>
+                {schedule.lastSkippedAt && (
+                  <span title="The previous archive was still running">
+                    ⏭️ Skipped {formatTimestamp(schedule.lastSkippedAt)}
+                  </span>
+                )}
+                {schedule.lastError && (
+                  <span className={styles.scheduleError}>⚠️ {schedule.lastError}</span>
+                )}
+              </div>
+              <div className={styles.scheduleActions}>
+                <button className={styles.button} onClick={() => handleToggle(schedule)}>
+                  {schedule.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  className={`${styles.button} ${styles.danger}`}
+                  onClick={() => handleDelete(schedule)}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleCreate}>
+        <select
+          aria-label="Schedule type"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as TimingMode)}
+          className={styles.input}
+        >
+          <option value="interval">Every N minutes</option>
+          <option value="cron">Cron expression</option>
+        </select>
+        {mode === 'interval' ? (
+          <input
+            aria-label="Interval in minutes"
+            type="number"
+            min={5}
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(e.target.value)}
+            className={styles.input}
+          />
+        ) : (
+          <input
+            aria-label="Cron expression"
+            type="text"
+            placeholder="0 3 * * *"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            className={styles.input}
+          />
+        )}
+        <button type="submit" className={`${styles.button} ${styles.primary}`}>
+          Add schedule
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SchedulePanel;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Archive, ArchiveStatus } from '../types';
+import { Archive, ArchiveStatus, ChangeStatus, IncrementalReport } from '../types';
 import VersionComparison from './VersionComparison';
+import SchedulePanel from './SchedulePanel';
 import styles from './VersionList.module.css';
 
 interface VersionListProps {
@@ -19,6 +20,7 @@ const VersionList: React.FC<VersionListProps> = ({
   isLoading = false
 }) => {
   const [expandedUrls, setExpandedUrls] = useState<Set<string>>(new Set());
+  const [scheduleUrl, setScheduleUrl] = useState<string | null>(null);
   const [comparisonData, setComparisonData] = useState<{
     versions: Archive[];
     selectedVersions: [Archive, Archive];
@@ -66,6 +68,9 @@ const VersionList: React.FC<VersionListProps> = ({
     onSelectArchive(archiveId);
   };
 
+  const countChanges = (report: IncrementalReport, status: ChangeStatus): number =>
+    report.pages[status] + report.assets[status];
+
   const handleReArchive = (url: string) => {
     if (window.confirm('This will create a new archive of this website. Continue?')) {
       onReArchive(url);
@@ -191,9 +196,18 @@ const VersionList: React.FC<VersionListProps> = ({
                   >
                     Re-archive
                   </button>
+                  <button
+                    className={`${styles.actionButton} ${scheduleUrl === url ? styles.primary : ''}`}
+                    onClick={() => setScheduleUrl(scheduleUrl === url ? null : url)}
+                    title="Manage recurring archives of this website"
+                  >
+                    Schedule
+                  </button>
                 </div>
               </div>
 
+              {scheduleUrl === url && <SchedulePanel url={url} />}
+
               {isExpanded && (
                 <div className={styles.versionsList}>
                   {versions.map((version) => (
@@ -217,6 +231,18 @@ const VersionList: React.FC<VersionListProps> = ({
                           </div>
                         )}
                         
+                        {version.incremental && (
+                          <div
+                            className={styles.versionMetadata}
+                            title={`Pages and assets compared with v${version.incremental.baseVersion}`}
+                          >
+                            <span>♻️ {countChanges(version.incremental, 'unchanged')} unchanged</span>
+                            <span>✏️ {countChanges(version.incremental, 'changed')} changed</span>
+                            <span>➕ {countChanges(version.incremental, 'new')} new</span>
+                            <span>➖ {countChanges(version.incremental, 'removed')} removed</span>
+                          </div>
+                        )}
+                        
                         {version.errors.length > 0 && (
                           <div className={styles.versionErrors}>
                             <span>⚠️ {version.errors.length} errors</span>
@@ -109,4 +109,24 @@ describe('ArchiveForm', () => {
     
     expect(mockOnSubmit).toHaveBeenCalledWith('https://example.com');
   });
-});
\ No newline at end of file
+
+  it('passes a chosen WARC or WACZ file to onImport', async () => {
+    const mockOnImport = jest.fn();
+    render(<ArchiveForm onSubmit={mockOnSubmit} onImport={mockOnImport} isLoading={false} />);
+
+    const fileInput = screen.getByLabelText('Or import a WARC or WACZ file');
+    expect(fileInput).toHaveAttribute('accept', '.warc,.warc.gz,.wacz');
+
+    const file = new File(['WARC/1.1'], 'capture.warc.gz', { type: 'application/gzip' });
+    await userEvent.upload(fileInput, file);
+
+    expect(mockOnImport).toHaveBeenCalledWith(file);
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+  });
+
+  it('hides the import field without an onImport handler', () => {
+    render(<ArchiveForm onSubmit={mockOnSubmit} isLoading={false} />);
+
+    expect(screen.queryByLabelText('Or import a WARC or WACZ file')).not.toBeInTheDocument();
+  });
+});
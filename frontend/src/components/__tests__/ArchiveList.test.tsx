@@ -1,8 +1,19 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { act, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import ArchiveList from '../ArchiveList';
-import { Archive, ArchiveStatus } from '../../types';
+import { Archive, ArchiveEvent, ArchiveStatus } from '../../types';
+
+// Mock the API service
+jest.mock('../../services/api', () => ({
+  archiveApi: {
+    subscribeToEvents: jest.fn(),
+    getWarcExportUrl: jest.fn(),
+  },
+}));
+
+// Import the mocked API after mocking
+const { archiveApi } = require('../../services/api');
 
 // Mock window.confirm
 const mockConfirm = jest.fn();
@@ -36,6 +47,8 @@ describe('ArchiveList', () => {
     mockOnReArchive.mockClear();
     mockOnDeleteArchive.mockClear();
     mockConfirm.mockClear();
+    archiveApi.subscribeToEvents.mockReturnValue(() => undefined);
+    archiveApi.getWarcExportUrl.mockImplementation((id: string) => `http://localhost:3001/api/archives/${id}/export.warc.gz`);
   });
 
   it('renders empty state when no archives', () => {
@@ -268,4 +281,76 @@ describe('ArchiveList', () => {
     const reArchiveButtons = screen.getAllByRole('button', { name: 'Re-archive' });
     expect(reArchiveButtons).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('links finished archives to their WARC export', () => {
+    render(
+      <ArchiveList
+        archives={[mockArchive, { ...mockArchive, id: '2', status: ArchiveStatus.IN_PROGRESS }]}
+        onSelectArchive={mockOnSelectArchive}
+        onReArchive={mockOnReArchive}
+        onDeleteArchive={mockOnDeleteArchive}
+      />
+    );
+
+    const exportLinks = screen.getAllByRole('link', { name: 'Export WARC' });
+    expect(exportLinks).toHaveLength(1);
+    expect(exportLinks[0]).toHaveAttribute('href', 'http://localhost:3001/api/archives/1/export.warc.gz');
+  });
+
+  it('shows live progress streamed for in-progress archives', () => {
+    let emit: (event: ArchiveEvent) => void = () => undefined;
+    let setConnection: (state: 'connecting' | 'live' | 'reconnecting') => void = () => undefined;
+    const unsubscribe = jest.fn();
+    archiveApi.subscribeToEvents.mockImplementationOnce((_id: string, onEvent: typeof emit, onConnectionChange: typeof setConnection) => {
+      emit = onEvent;
+      setConnection = onConnectionChange;
+      return unsubscribe;
+    });
+
+    const { unmount } = render(
+      <ArchiveList
+        archives={[{ ...mockArchive, id: '2', status: ArchiveStatus.IN_PROGRESS }]}
+        onSelectArchive={mockOnSelectArchive}
+        onReArchive={mockOnReArchive}
+        onDeleteArchive={mockOnDeleteArchive}
+      />
+    );
+
+    expect(archiveApi.subscribeToEvents).toHaveBeenCalledWith('2', expect.any(Function), expect.any(Function));
+
+    act(() => {
+      setConnection('live');
+      emit({
+        id: 1,
+        archiveId: '2',
+        type: 'progress',
+        timestamp: new Date(),
+        data: {
+          status: ArchiveStatus.IN_PROGRESS,
+          paused: false,
+          queued: false,
+          currentUrl: 'https://example.com/about',
+          startTime: new Date(),
+          progress: { pagesDiscovered: 4, pagesCrawled: 1, assetsDownloaded: 0, totalSize: 0 },
+        },
+      });
+      emit({ id: 2, archiveId: '2', type: 'page', timestamp: new Date(), data: { url: 'https://example.com/about', title: 'About' } });
+      emit({ id: 3, archiveId: '2', type: 'progress', timestamp: new Date(), data: { progress: { pagesCrawled: 2 } } });
+    });
+
+    expect(screen.getByText('Live')).toBeInTheDocument();
+    expect(screen.getByText('Crawled About')).toBeInTheDocument();
+    expect(screen.getByText('2 / 4 discovered')).toBeInTheDocument();
+
+    act(() => {
+      setConnection('reconnecting');
+      emit({ id: 4, archiveId: '2', type: 'progress', timestamp: new Date(), data: { paused: true } });
+    });
+
+    expect(screen.getByText('Reconnecting…')).toBeInTheDocument();
+    expect(screen.getByText('PAUSED')).toBeInTheDocument();
+
+    unmount();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ArchiveSearch from '../ArchiveSearch';
+import { SearchHit } from '../../types';
+
+// Mock the API service
+jest.mock('../../services/api', () => ({
+  searchApi: {
+    search: jest.fn(),
+  },
+}));
+
+// Import the mocked API after mocking
+const { searchApi } = require('../../services/api');
+
+describe('ArchiveSearch', () => {
+  const mockHit: SearchHit = {
+    archiveId: 'archive-2',
+    url: 'https://example.com/',
+    domain: 'example.com',
+    version: 2,
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+    pageUrl: 'https://example.com/pricing',
+    path: 'pricing.html',
+    title: 'Pricing',
+    snippet: 'Our pricing starts at $10 a month.',
+    score: 3,
+  };
+
+  const search = (query: string) => {
+    fireEvent.change(screen.getByLabelText('Search archived pages'), { target: { value: query } });
+    fireEvent.click(screen.getByText('Search'));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('searches with the filters and highlights the query in snippets', async () => {
+    searchApi.search.mockResolvedValue({ hits: [mockHit], total: 1 });
+    render(<ArchiveSearch onOpenPage={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Domain'), { target: { value: 'example.com' } });
+    search('pricing');
+
+    expect(await screen.findByText('Pricing')).toBeInTheDocument();
+    expect(screen.getByText('1 page')).toBeInTheDocument();
+    expect(screen.getByText('pricing', { selector: 'mark' })).toBeInTheDocument();
+    expect(searchApi.search).toHaveBeenCalledWith('pricing', { domain: 'example.com' });
+  });
+
+  it('opens the archive at the page of a hit', async () => {
+    searchApi.search.mockResolvedValue({ hits: [mockHit], total: 25 });
+    const onOpenPage = jest.fn();
+    render(<ArchiveSearch onOpenPage={onOpenPage} />);
+
+    search('pricing');
+    fireEvent.click(await screen.findByText('Pricing'));
+
+    expect(screen.getByText('Top 1 of 25 pages')).toBeInTheDocument();
+    expect(onOpenPage).toHaveBeenCalledWith('archive-2', 'pricing.html');
+  });
+
+  it('says when nothing matches and shows errors', async () => {
+    searchApi.search.mockResolvedValueOnce({ hits: [], total: 0 });
+    render(<ArchiveSearch onOpenPage={jest.fn()} />);
+
+    search('nothing');
+    expect(await screen.findByText('No archived pages match “nothing”.')).toBeInTheDocument();
+
+    searchApi.search.mockRejectedValueOnce({ isAxiosError: true, response: { data: { error: 'from and to must be dates' } } });
+    search('nothing');
+    expect(await screen.findByRole('alert')).toHaveTextContent('from and to must be dates');
+  });
+});
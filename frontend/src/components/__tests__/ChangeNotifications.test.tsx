@@ -0,0 +1,78 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ChangeNotifications from '../ChangeNotifications';
+import { ChangeAlert } from '../../types';
+
+// Mock the API service
+jest.mock('../../services/api', () => ({
+  changeApi: {
+    getAlerts: jest.fn(),
+    markAlertsRead: jest.fn(),
+  },
+}));
+
+// Import the mocked API after mocking
+const { changeApi } = require('../../services/api');
+
+describe('ChangeNotifications', () => {
+  const mockAlert: ChangeAlert = {
+    id: 'alert-1',
+    url: 'https://example.com/',
+    archiveId: 'v2',
+    version: 2,
+    previousArchiveId: 'v1',
+    previousVersion: 1,
+    changed: true,
+    similarity: 0.84,
+    similarityThreshold: 0.99,
+    addedLines: 2,
+    removedLines: 1,
+    pages: [{ url: 'https://example.com/', status: 'changed', similarity: 0.89 }],
+    changedSelectors: ['.price'],
+    createdAt: new Date('2024-05-02T00:00:00Z'),
+    read: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    changeApi.getAlerts.mockResolvedValue([mockAlert, { ...mockAlert, id: 'alert-0', version: 1, addedLines: 5, read: true }]);
+    changeApi.markAlertsRead.mockResolvedValue(undefined);
+  });
+
+  it('shows the number of unread alerts and lists them when opened', async () => {
+    render(<ChangeNotifications onCompareArchives={jest.fn()} />);
+
+    expect(await screen.findByText('1 new')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText(/Change notifications/));
+
+    expect(screen.getByText('https://example.com/ changed in version 2')).toBeInTheDocument();
+    expect(screen.getByText('84% similar · +2 / -1 lines · 1 page changed · watched: .price')).toBeInTheDocument();
+  });
+
+  it('marks all alerts as read', async () => {
+    render(<ChangeNotifications onCompareArchives={jest.fn()} />);
+    await screen.findByText('1 new');
+    fireEvent.click(screen.getByText(/Change notifications/));
+
+    fireEvent.click(screen.getByText('Mark all as read'));
+
+    await waitFor(() => {
+      expect(screen.queryByText('1 new')).not.toBeInTheDocument();
+    });
+    expect(changeApi.markAlertsRead).toHaveBeenCalledWith(undefined);
+  });
+
+  it('opens the comparison of the two versions and marks the alert as read', async () => {
+    const onCompareArchives = jest.fn();
+    render(<ChangeNotifications onCompareArchives={onCompareArchives} />);
+    await screen.findByText('1 new');
+    fireEvent.click(screen.getByText(/Change notifications/));
+
+    fireEvent.click(screen.getByText('Compare v1 → v2'));
+
+    expect(onCompareArchives).toHaveBeenCalledWith(['v1', 'v2']);
+    expect(changeApi.markAlertsRead).toHaveBeenCalledWith(['alert-1']);
+  });
+});
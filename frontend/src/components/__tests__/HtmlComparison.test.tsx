@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import HtmlComparison from '../HtmlComparison';
+import { Archive, ArchiveDiff, ArchiveStatus } from '../../types';
+
+// Mock the API service
+jest.mock('../../services/api', () => ({
+  archiveApi: {
+    getArchive: jest.fn(),
+    getArchiveDiff: jest.fn(),
+    getPageHtml: jest.fn(),
+    getContentUrl: (id: string, path: string) => `http://localhost:3001/api/archives/${id}/content/${path}`,
+  },
+}));
+
+// Import the mocked API after mocking
+const { archiveApi } = require('../../services/api');
+
+describe('HtmlComparison', () => {
+  const page = (url: string, path: string) => ({ url, path, title: '', timestamp: new Date(), links: [], assets: [] });
+
+  const createArchive = (id: string, version: number, pages: ReturnType<typeof page>[]): Archive => ({
+    id,
+    url: 'https://example.com/',
+    domain: 'example.com',
+    timestamp: new Date('2024-05-0' + version),
+    status: ArchiveStatus.COMPLETED,
+    version,
+    metadata: { pageCount: pages.length, assetCount: 0, totalSize: 0, crawlDuration: 0 },
+    pages,
+    errors: [],
+  });
+
+  const archive1 = createArchive('v1', 1, [page('https://example.com/', 'index.html'), page('https://example.com/old', 'old.html')]);
+  const archive2 = createArchive('v2', 2, [page('https://example.com/', 'index.html'), page('https://example.com/new', 'new.html')]);
+
+  const diff: ArchiveDiff = {
+    from: { id: 'v1', version: 1, timestamp: archive1.timestamp },
+    to: { id: 'v2', version: 2, timestamp: archive2.timestamp },
+    pages: [
+      { url: 'https://example.com/', status: 'changed', fromPath: 'index.html', toPath: 'index.html' },
+      { url: 'https://example.com/old', status: 'removed', fromPath: 'old.html' },
+      { url: 'https://example.com/new', status: 'new', toPath: 'new.html' },
+    ],
+    assets: [],
+    summary: {
+      pages: { unchanged: 0, changed: 1, new: 1, removed: 1 },
+      assets: { unchanged: 0, changed: 0, new: 0, removed: 0 },
+    },
+  };
+
+  const pageHtml: { [key: string]: string } = {
+    'v1/index.html': '<html><body><p>Prices from $10</p><p>Open daily</p></body></html>',
+    'v2/index.html': '<html><body><p>Prices from $12</p><p>Open daily</p><p>Gift cards</p></body></html>',
+    'v1/old.html': '<html><body><p>Old page</p></body></html>',
+    'v2/new.html': '<html><body><p>New page</p></body></html>',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    archiveApi.getArchive.mockImplementation((id: string) => Promise.resolve(id === 'v1' ? archive1 : archive2));
+    archiveApi.getArchiveDiff.mockResolvedValue(diff);
+    archiveApi.getPageHtml.mockImplementation((id: string, path: string) => Promise.resolve(pageHtml[`${id}/${path}`]));
+  });
+
+  it('lists every page of either version with its change status', async () => {
+    render(<HtmlComparison archiveIds={['v1', 'v2']} onClose={jest.fn()} />);
+
+    expect(await screen.findByRole('option', { name: '/ (changed)' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: '/old (removed)' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: '/new (new)' })).toBeInTheDocument();
+    expect(archiveApi.getArchiveDiff).toHaveBeenCalledWith('v1', 'v2');
+  });
+
+  it('shows the selected page of both versions side by side', async () => {
+    render(<HtmlComparison archiveIds={['v1', 'v2']} onClose={jest.fn()} />);
+
+    const frame = await screen.findByTitle('Archive 1 - https://example.com/');
+    expect(frame.getAttribute('srcdoc')).toContain('Prices from $10');
+    expect(frame.getAttribute('srcdoc')).toContain('<base href="http://localhost:3001/api/archives/v1/content/index.html">');
+    expect(screen.getByTitle('Archive 2 - https://example.com/').getAttribute('srcdoc')).toContain('Gift cards');
+    expect(screen.getByLabelText('Sync scrolling')).toBeChecked();
+
+    fireEvent.change(screen.getByLabelText('Page'), { target: { value: 'https://example.com/new' } });
+
+    expect(await screen.findByText('Not in this version')).toBeInTheDocument();
+    expect(screen.getByTitle('Archive 2 - https://example.com/new').getAttribute('srcdoc')).toContain('New page');
+    expect(archiveApi.getPageHtml).toHaveBeenCalledWith('v2', 'new.html');
+    expect(archiveApi.getPageHtml).not.toHaveBeenCalledWith('v1', 'new.html');
+  });
+
+  it('highlights the changes inline and steps through them', async () => {
+    render(<HtmlComparison archiveIds={['v1', 'v2']} onClose={jest.fn()} />);
+    await screen.findByTitle('Archive 1 - https://example.com/');
+
+    fireEvent.click(screen.getByText('Inline diff'));
+
+    const frame = screen.getByTitle('Changes - https://example.com/');
+    expect(frame.getAttribute('srcdoc')).toContain('<del>$10</del>');
+    expect(frame.getAttribute('srcdoc')).toContain('<ins>$12</ins>');
+    expect(screen.getByText('2 changes')).toBeInTheDocument();
+    expect(screen.getByText('‹ Previous')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Next ›'));
+    expect(screen.getByText('Change 1 of 2')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Next ›'));
+    expect(screen.getByText('Change 2 of 2')).toBeInTheDocument();
+    expect(screen.getByText('Next ›')).toBeDisabled();
+  });
+
+  it('lists pages from the archives when the diff is unavailable', async () => {
+    archiveApi.getArchiveDiff.mockRejectedValue(new Error('Archive v2 is still in progress'));
+    render(<HtmlComparison archiveIds={['v1', 'v2']} onClose={jest.fn()} />);
+
+    expect(await screen.findByRole('option', { name: '/old' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: '/new' })).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByTitle('Archive 2 - https://example.com/')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SchedulePanel from '../SchedulePanel';
+import { ArchiveSchedule } from '../../types';
+
+// Mock the API service
+jest.mock('../../services/api', () => ({
+  scheduleApi: {
+    getSchedules: jest.fn(),
+    createSchedule: jest.fn(),
+    setScheduleEnabled: jest.fn(),
+    deleteSchedule: jest.fn(),
+  },
+}));
+
+// Import the mocked API after mocking
+const { scheduleApi } = require('../../services/api');
+
+// Mock window.confirm
+const mockConfirm = jest.fn();
+Object.defineProperty(window, 'confirm', {
+  value: mockConfirm,
+});
+
+describe('SchedulePanel', () => {
+  const mockSchedule: ArchiveSchedule = {
+    id: 'schedule-1',
+    url: 'https://example.com/',
+    intervalMinutes: 60,
+    enabled: true,
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    nextRunAt: new Date('2024-05-01T01:00:00Z'),
+    lastSkippedAt: new Date('2024-05-01T00:30:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scheduleApi.getSchedules.mockResolvedValue([mockSchedule]);
+  });
+
+  it('lists the schedules of the URL', async () => {
+    render(<SchedulePanel url="https://example.com/" />);
+
+    expect(await screen.findByText('Every 60 minutes')).toBeInTheDocument();
+    expect(screen.getByText(/Skipped/)).toBeInTheDocument();
+    expect(scheduleApi.getSchedules).toHaveBeenCalledWith('https://example.com/');
+  });
+
+  it('creates interval and cron schedules', async () => {
+    scheduleApi.getSchedules.mockResolvedValue([]);
+    scheduleApi.createSchedule.mockResolvedValue({ ...mockSchedule, intervalMinutes: undefined, cron: '0 3 * * *' });
+    render(<SchedulePanel url="https://example.com/" />);
+    await screen.findByText('No schedules for this website yet.');
+
+    fireEvent.change(screen.getByLabelText('Schedule type'), { target: { value: 'cron' } });
+    fireEvent.change(screen.getByLabelText('Cron expression'), { target: { value: ' 0 3 * * * ' } });
+    fireEvent.click(screen.getByText('Add schedule'));
+
+    expect(await screen.findByText('Cron 0 3 * * * (UTC)')).toBeInTheDocument();
+    expect(scheduleApi.createSchedule).toHaveBeenCalledWith('https://example.com/', { cron: '0 3 * * *' });
+  });
+
+  it('shows errors from the server', async () => {
+    scheduleApi.createSchedule.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { error: 'Invalid schedule: intervalMinutes must be an integer between 5 and 527040' } },
+    });
+    render(<SchedulePanel url="https://example.com/" />);
+    await screen.findByText('Every 60 minutes');
+
+    fireEvent.change(screen.getByLabelText('Interval in minutes'), { target: { value: '1' } });
+    fireEvent.click(screen.getByText('Add schedule'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('intervalMinutes must be an integer');
+  });
+
+  it('pauses and deletes schedules', async () => {
+    scheduleApi.setScheduleEnabled.mockResolvedValue({ ...mockSchedule, enabled: false, nextRunAt: undefined });
+    scheduleApi.deleteSchedule.mockResolvedValue(undefined);
+    mockConfirm.mockReturnValue(true);
+    render(<SchedulePanel url="https://example.com/" />);
+    await screen.findByText('Every 60 minutes');
+
+    fireEvent.click(screen.getByText('Pause'));
+    expect(await screen.findByText('Paused')).toBeInTheDocument();
+    expect(scheduleApi.setScheduleEnabled).toHaveBeenCalledWith('schedule-1', false);
+
+    fireEvent.click(screen.getByText('Delete'));
+    await waitFor(() => {
+      expect(screen.queryByText('Every 60 minutes')).not.toBeInTheDocument();
+    });
+    expect(scheduleApi.deleteSchedule).toHaveBeenCalledWith('schedule-1');
+  });
+});
@@ -15,6 +15,13 @@ jest.mock('../VersionComparison', () => {
   };
 });
 
+// Mock the SchedulePanel component, which loads schedules from the API
+jest.mock('../SchedulePanel', () => {
+  return function MockSchedulePanel({ url }: { url: string }) {
+    return <div data-testid="schedule-panel">{url}</div>;
+  };
+});
+
 describe('VersionList', () => {
   const mockArchive1: Archive = {
     id: 'archive-1',
@@ -304,6 +311,39 @@ describe('VersionList', () => {
     expect(screen.getByText('⚠️ 2 errors')).toBeInTheDocument();
   });
 
+  it('summarizes what changed in incremental versions', () => {
+    const incrementalArchive: Archive = {
+      ...mockArchive2,
+      incremental: {
+        baseArchiveId: 'archive-1',
+        baseVersion: 1,
+        pages: { unchanged: 3, changed: 1, new: 1, removed: 0 },
+        assets: { unchanged: 8, changed: 0, new: 2, removed: 1 },
+        removedPages: [],
+        removedAssets: ['https://example.com/old.png'],
+      },
+    };
+
+    render(<VersionList {...defaultProps} groupedArchives={{ 'https://example.com': [incrementalArchive, mockArchive1] }} />);
+    fireEvent.click(screen.getByText('https://example.com'));
+
+    expect(screen.getByText('♻️ 11 unchanged')).toBeInTheDocument();
+    expect(screen.getByText('✏️ 1 changed')).toBeInTheDocument();
+    expect(screen.getByText('➕ 3 new')).toBeInTheDocument();
+    expect(screen.getByText('➖ 1 removed')).toBeInTheDocument();
+  });
+
+  it('toggles the schedule panel of one URL group', () => {
+    render(<VersionList {...defaultProps} />);
+
+    const scheduleButtons = screen.getAllByText('Schedule');
+    fireEvent.click(scheduleButtons[1]);
+    expect(screen.getByTestId('schedule-panel')).toHaveTextContent('https://other.com');
+
+    fireEvent.click(scheduleButtons[1]);
+    expect(screen.queryByTestId('schedule-panel')).not.toBeInTheDocument();
+  });
+
   it('handles different archive statuses correctly', () => {
     const inProgressArchive = {
       ...mockArchive1,
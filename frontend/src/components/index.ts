@@ -4,4 +4,7 @@ export { default as ArchivedViewer } from './ArchivedViewer';
 export { default as ErrorDisplay } from './ErrorDisplay';
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { default as VersionList } from './VersionList';
-export { default as VersionComparison } from './VersionComparison';
\ No newline at end of file
+export { default as VersionComparison } from './VersionComparison';
+export { default as SchedulePanel } from './SchedulePanel';
+export { default as ChangeNotifications } from './ChangeNotifications';
+export { default as ArchiveSearch } from './ArchiveSearch';
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { archiveApi } from '../services/api';
+import { ArchiveEvent, ArchiveProgress, ConnectionState } from '../types';
+
+export interface LiveArchiveProgress extends Partial<Omit<ArchiveProgress, 'progress'>> {
+  progress?: ArchiveProgress['progress'];
+  /** Latest page, asset or error reported by the job */
+  recentActivity?: string;
+  connectionState: ConnectionState;
+}
+
+/**
+ * Apply an archive event to the progress held for that archive
+ */
+export const applyArchiveEvent = (
+  current: LiveArchiveProgress | undefined,
+  event: ArchiveEvent
+): LiveArchiveProgress => {
+  const next: LiveArchiveProgress = { ...current, connectionState: current?.connectionState || 'live' };
+
+  switch (event.type) {
+    case 'progress': {
+      const { progress, ...fields } = event.data;
+      Object.assign(next, fields);
+      if (progress) {
+        next.progress = { ...next.progress, ...progress } as ArchiveProgress['progress'];
+      }
+      break;
+    }
+    case 'page':
+      next.recentActivity = `Crawled ${event.data.title || event.data.url}`;
+      break;
+    case 'asset':
+      next.recentActivity = event.data.failed
+        ? `Failed to download ${event.data.url}`
+        : `Downloaded ${event.data.url}`;
+      break;
+    case 'error':
+      next.recentActivity = event.data.message;
+      break;
+    case 'change':
+      next.recentActivity = event.data.changed
+        ? `Changed since version ${event.data.previousVersion}`
+        : `No changes since version ${event.data.previousVersion}`;
+      break;
+    case 'status':
+      next.status = event.data.status;
+      next.paused = false;
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * Follow live progress of the given in-progress archives over server-sent events
+ */
+export const useArchiveProgress = (archiveIds: string[]): { [archiveId: string]: LiveArchiveProgress } => {
+  const [progressData, setProgressData] = useState<{ [archiveId: string]: LiveArchiveProgress }>({});
+  const idsKey = archiveIds.join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+
+    // Drop archives that are no longer followed
+    setProgressData(prev => {
+      const kept: { [archiveId: string]: LiveArchiveProgress } = {};
+      ids.forEach(id => {
+        if (prev[id]) kept[id] = prev[id];
+      });
+      return kept;
+    });
+
+    const unsubscribers = ids.map(id =>
+      archiveApi.subscribeToEvents(
+        id,
+        event => setProgressData(prev => ({ ...prev, [id]: applyArchiveEvent(prev[id], event) })),
+        connectionState => setProgressData(prev => ({
+          ...prev,
+          [id]: { ...prev[id], connectionState },
+        }))
+      )
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [idsKey]);
+
+  return progressData;
+};
+
+export default useArchiveProgress;
@@ -0,0 +1,44 @@
+import { useCallback, useRef } from 'react';
+
+const maxScroll = (view: Window): number =>
+  Math.max(0, view.document.documentElement.scrollHeight - view.innerHeight);
+
+/**
+ * Keep two same-origin iframes scrolled to the same relative position
+ *
+ * Pass `frameRef(index)` as each iframe's ref and `onFrameLoad(index)` as its onLoad.
+ * Scrolling is matched by proportion, since the two documents can differ in height.
+ */
+export const useSyncedScroll = (enabled: boolean) => {
+  const frames = useRef<(HTMLIFrameElement | null)[]>([null, null]);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  // Window scrolled by us, whose next scroll event is our own and not the user's
+  const syncing = useRef<Window | null>(null);
+
+  const frameRef = useCallback((index: number) => (element: HTMLIFrameElement | null) => {
+    frames.current[index] = element;
+  }, []);
+
+  const onFrameLoad = useCallback((index: number) => (event: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const source = event.currentTarget.contentWindow;
+    if (!source) return;
+
+    source.addEventListener('scroll', () => {
+      if (syncing.current === source) {
+        syncing.current = null;
+        return;
+      }
+      const target = frames.current[1 - index]?.contentWindow;
+      if (!enabledRef.current || !target) return;
+
+      const sourceMax = maxScroll(source);
+      const top = sourceMax > 0 ? (source.scrollY / sourceMax) * maxScroll(target) : 0;
+      if (Math.abs(target.scrollY - top) < 1) return;
+      syncing.current = target;
+      target.scrollTo(0, top);
+    });
+  }, []);
+
+  return { frameRef, onFrameLoad };
+};
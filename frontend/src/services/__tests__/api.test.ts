@@ -0,0 +1,79 @@
+import { archiveApi } from '../api';
+import { ArchiveEvent, ConnectionState } from '../../types';
+
+class FakeEventSource {
+  static CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 1;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private listeners: { [type: string]: Array<(message: MessageEvent) => void> } = {};
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (message: MessageEvent) => void) {
+    (this.listeners[type] = this.listeners[type] || []).push(listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data: object) {
+    this.listeners[type]?.forEach(listener => listener({ data: JSON.stringify(data) } as MessageEvent));
+  }
+}
+
+describe('archiveApi.subscribeToEvents', () => {
+  const originalEventSource = (global as any).EventSource;
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    (global as any).EventSource = FakeEventSource;
+  });
+
+  afterAll(() => {
+    (global as any).EventSource = originalEventSource;
+  });
+
+  it('shares one connection between the subscribers of an archive', () => {
+    const first: ArchiveEvent[] = [];
+    const second: ArchiveEvent[] = [];
+    const states: ConnectionState[] = [];
+
+    const unsubscribeFirst = archiveApi.subscribeToEvents('a1', event => first.push(event));
+    const source = FakeEventSource.instances[0];
+    source.onopen!();
+    source.emit('progress', { id: 1, type: 'progress', data: { status: 'in_progress', progress: { pagesCrawled: 1 } } });
+    source.emit('progress', { id: 2, type: 'progress', data: { progress: { pagesCrawled: 2 } } });
+
+    // A late subscriber starts from the progress reported so far
+    const unsubscribeSecond = archiveApi.subscribeToEvents('a1', event => second.push(event), state => states.push(state));
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(states).toEqual(['live']);
+    expect(second[0].data).toEqual({ status: 'in_progress', progress: { pagesCrawled: 2 } });
+
+    unsubscribeFirst();
+    expect(source.closed).toBe(false);
+    source.emit('page', { id: 3, type: 'page', data: { url: 'https://example.com', title: 'Example' } });
+    expect(first).toHaveLength(2);
+    expect(second.map(event => event.type)).toEqual(['progress', 'page']);
+
+    unsubscribeSecond();
+    expect(source.closed).toBe(true);
+  });
+
+  it('opens a new connection once the previous stream reported its final status', () => {
+    const unsubscribe = archiveApi.subscribeToEvents('a2', () => undefined);
+    FakeEventSource.instances[0].emit('status', { id: 1, type: 'status', data: { status: 'completed' } });
+    expect(FakeEventSource.instances[0].closed).toBe(true);
+
+    archiveApi.subscribeToEvents('a2', () => undefined)();
+    expect(FakeEventSource.instances).toHaveLength(2);
+    unsubscribe();
+  });
+});
@@ -1,5 +1,18 @@
 import axios from 'axios';
-import { Archive } from '../types';
+import {
+  Archive,
+  ArchiveDiff,
+  ArchiveEvent,
+  ArchiveEventType,
+  ArchiveProgress,
+  ArchiveSchedule,
+  ChangeAlert,
+  ConnectionState,
+  ProgressDelta,
+  ScheduleTiming,
+  SearchFilters,
+  SearchHit,
+} from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -8,10 +21,185 @@ const api = axios.create({
   timeout: 30000,
 });
 
+const ARCHIVE_EVENT_TYPES: ArchiveEventType[] = ['progress', 'page', 'asset', 'error', 'change', 'status'];
+const MAX_RECONNECT_DELAY = 30000;
+const PROGRESS_POLL_INTERVAL = 2000;
+
+/**
+ * Poll progress for browsers without EventSource, reporting it as progress events
+ */
+const pollArchiveEvents = (id: string, onEvent: (event: ArchiveEvent) => void): (() => void) => {
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      const progress = await archiveApi.getArchiveProgress(id);
+      onEvent({ id: 0, archiveId: id, type: 'progress', timestamp: new Date(), data: progress });
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        console.error(`Failed to get progress for ${id}:`, error);
+        return;
+      }
+      // The job has finished; report the stored archive's status
+      stopped = true;
+      clearInterval(interval);
+      try {
+        const archive = await archiveApi.getArchive(id);
+        onEvent({
+          id: 0,
+          archiveId: id,
+          type: 'status',
+          timestamp: new Date(),
+          data: {
+            status: archive.status,
+            cancelled: archive.cancelled,
+            metadata: archive.metadata,
+            errorCount: archive.errors.length,
+          },
+        });
+      } catch (archiveError) {
+        console.error(`Failed to get archive ${id}:`, archiveError);
+      }
+    }
+  };
+
+  const interval = setInterval(() => {
+    if (!stopped) poll();
+  }, PROGRESS_POLL_INTERVAL);
+  poll();
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+};
+
+/**
+ * Open an archive job's event stream, which closes itself after the final status event
+ *
+ * Dropped connections are retried with backoff, resuming after the last event received.
+ * Falls back to polling progress when the browser has no EventSource.
+ */
+const openArchiveEvents = (
+  id: string,
+  onEvent: (event: ArchiveEvent) => void,
+  onConnectionChange: (state: ConnectionState) => void
+): (() => void) => {
+  if (typeof EventSource === 'undefined') {
+    return pollArchiveEvents(id, onEvent);
+  }
+
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = 1000;
+  let lastEventId: number | undefined;
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    source?.close();
+  };
+
+  const handleMessage = (message: MessageEvent) => {
+    const event = JSON.parse(message.data) as ArchiveEvent;
+    if (event.id > 0) lastEventId = event.id;
+    reconnectDelay = 1000;
+    onEvent(event);
+    if (event.type === 'status') close();
+  };
+
+  const connect = () => {
+    onConnectionChange(lastEventId === undefined ? 'connecting' : 'reconnecting');
+    const query = lastEventId !== undefined ? `?lastEventId=${lastEventId}` : '';
+    source = new EventSource(`${API_BASE_URL}/api/archives/${id}/events${query}`);
+    source.onopen = () => onConnectionChange('live');
+
+    ARCHIVE_EVENT_TYPES.filter(type => type !== 'error').forEach(type => {
+      source!.addEventListener(type, handleMessage as EventListener);
+    });
+
+    // Archive error events share their name with connection errors; only the former carry data
+    source.onerror = (event: Event) => {
+      if ((event as MessageEvent).data) {
+        handleMessage(event as MessageEvent);
+        return;
+      }
+      if (closed) return;
+
+      onConnectionChange('reconnecting');
+      // The browser retries on its own unless the connection was closed for good
+      if (source!.readyState === EventSource.CLOSED) {
+        source!.close();
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      }
+    };
+  };
+
+  connect();
+  return close;
+};
+
+interface ArchiveEventSubscriber {
+  onEvent: (event: ArchiveEvent) => void;
+  onConnectionChange?: (state: ConnectionState) => void;
+}
+
+interface SharedArchiveEvents {
+  subscribers: Set<ArchiveEventSubscriber>;
+  // Progress received so far, merged into one snapshot for subscribers that join late
+  progress?: ProgressDelta;
+  connectionState?: ConnectionState;
+  close: () => void;
+}
+
+// Browsers allow only a few connections per host, so each archive has one stream for all subscribers
+const sharedArchiveEvents = new Map<string, SharedArchiveEvents>();
+
+const openSharedArchiveEvents = (id: string): SharedArchiveEvents => {
+  const shared: SharedArchiveEvents = { subscribers: new Set(), close: () => undefined };
+  sharedArchiveEvents.set(id, shared);
+
+  shared.close = openArchiveEvents(
+    id,
+    event => {
+      if (event.type === 'progress') {
+        shared.progress = {
+          ...shared.progress,
+          ...event.data,
+          progress: { ...shared.progress?.progress, ...event.data.progress },
+        };
+      }
+      if (event.type === 'status' && sharedArchiveEvents.get(id) === shared) {
+        sharedArchiveEvents.delete(id);
+      }
+      shared.subscribers.forEach(subscriber => subscriber.onEvent(event));
+    },
+    state => {
+      shared.connectionState = state;
+      shared.subscribers.forEach(subscriber => subscriber.onConnectionChange?.(state));
+    }
+  );
+  return shared;
+};
+
 export const archiveApi = {
-  createArchive: async (url: string): Promise<Archive> => {
+  createArchive: async (url: string, options?: { incrementalFrom?: string }): Promise<Archive> => {
     // Use a longer timeout for archive creation since it can take several minutes
-    const response = await api.post('/api/archives', { url }, {
+    const response = await api.post('/api/archives', options ? { url, options } : { url }, {
+      timeout: 300000, // 5 minutes
+    });
+    return response.data.data;
+  },
+
+  importArchive: async (file: File): Promise<Archive> => {
+    // The file is sent as the raw request body; large captures take a while to store
+    const response = await api.post('/api/archives/import', file, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Filename': encodeURIComponent(file.name),
+      },
       timeout: 300000, // 5 minutes
     });
     return response.data.data;
@@ -46,6 +234,116 @@ export const archiveApi = {
     const response = await api.get(`/api/archives/${id}/progress`);
     return response.data.data;
   },
+
+  cancelArchive: async (id: string): Promise<ArchiveProgress> => {
+    const response = await api.post(`/api/archives/${id}/cancel`);
+    return response.data.data;
+  },
+
+  pauseArchive: async (id: string): Promise<ArchiveProgress> => {
+    const response = await api.post(`/api/archives/${id}/pause`);
+    return response.data.data;
+  },
+
+  resumeArchive: async (id: string): Promise<ArchiveProgress> => {
+    const response = await api.post(`/api/archives/${id}/resume`);
+    return response.data.data;
+  },
+
+  // URL of a page or asset stored in an archive, by its path within the archive
+  getContentUrl: (id: string, path: string): string => `${API_BASE_URL}/api/archives/${id}/content/${path}`,
+
+  getPageHtml: async (id: string, path: string): Promise<string> => {
+    const response = await api.get(`/api/archives/${id}/content/${path}`, {
+      responseType: 'text',
+      transformResponse: data => data,
+    });
+    return response.data;
+  },
+
+  // Differences from one archive to another, optionally for a single page path such as '/about'
+  getArchiveDiff: async (fromId: string, toId: string, path?: string): Promise<ArchiveDiff> => {
+    const response = await api.get('/api/archives/diff', { params: { from: fromId, to: toId, path } });
+    return response.data.data;
+  },
+
+  // URL of an archive's WARC 1.1 export, for use as a download link
+  getWarcExportUrl: (id: string): string => `${API_BASE_URL}/api/archives/${id}/export.warc.gz`,
+
+  /**
+   * Follow an archive job's events until its final status event
+   *
+   * Subscribers of the same archive share one event stream; those joining late first
+   * receive the progress reported so far.
+   * @returns Function that stops following the archive
+   */
+  subscribeToEvents: (
+    id: string,
+    onEvent: (event: ArchiveEvent) => void,
+    onConnectionChange?: (state: ConnectionState) => void
+  ): (() => void) => {
+    const existing = sharedArchiveEvents.get(id);
+    const shared = existing || openSharedArchiveEvents(id);
+    const subscriber: ArchiveEventSubscriber = { onEvent, onConnectionChange };
+
+    if (existing) {
+      if (shared.connectionState) onConnectionChange?.(shared.connectionState);
+      if (shared.progress) {
+        onEvent({ id: 0, archiveId: id, type: 'progress', timestamp: new Date(), data: shared.progress });
+      }
+    }
+    shared.subscribers.add(subscriber);
+
+    return () => {
+      shared.subscribers.delete(subscriber);
+      if (shared.subscribers.size === 0) {
+        shared.close();
+        if (sharedArchiveEvents.get(id) === shared) sharedArchiveEvents.delete(id);
+      }
+    };
+  },
+};
+
+export const scheduleApi = {
+  getSchedules: async (url?: string): Promise<ArchiveSchedule[]> => {
+    const response = await api.get('/api/schedules', { params: url ? { url } : undefined });
+    return response.data.data;
+  },
+
+  createSchedule: async (url: string, timing: ScheduleTiming): Promise<ArchiveSchedule> => {
+    const response = await api.post('/api/schedules', { url, ...timing });
+    return response.data.data;
+  },
+
+  setScheduleEnabled: async (id: string, enabled: boolean): Promise<ArchiveSchedule> => {
+    const response = await api.patch(`/api/schedules/${id}`, { enabled });
+    return response.data.data;
+  },
+
+  deleteSchedule: async (id: string): Promise<void> => {
+    await api.delete(`/api/schedules/${id}`);
+  },
+};
+
+export const changeApi = {
+  getAlerts: async (unread?: boolean): Promise<ChangeAlert[]> => {
+    const response = await api.get('/api/changes/alerts', { params: unread ? { unread: true } : undefined });
+    return response.data.data;
+  },
+
+  // Mark the given alerts as read, or all of them when no IDs are given
+  markAlertsRead: async (ids?: string[]): Promise<void> => {
+    await api.post('/api/changes/alerts/read', { ids });
+  },
+};
+
+export const searchApi = {
+  // Find archived pages containing every word of the query, best matches first
+  search: async (q: string, filters: SearchFilters = {}): Promise<{ hits: SearchHit[]; total: number }> => {
+    const params = Object.fromEntries(Object.entries({ q, ...filters }).filter(([, value]) => value));
+    const response = await api.get('/api/search', { params });
+    return { hits: response.data.data, total: response.data.total };
+  },
 };
 
 export default api;
\ No newline at end of file
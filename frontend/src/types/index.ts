@@ -13,6 +13,140 @@ export interface Archive {
   };
   pages: ArchivedPage[];
   errors: ArchiveError[];
+  skippedUrls?: SkippedUrl[];
+  cancelled?: boolean;
+  importedFrom?: string; // Name of the WARC or WACZ file the archive was imported from
+  incremental?: IncrementalReport; // Set when re-archived incrementally from an earlier version
+}
+
+export type ChangeStatus = 'unchanged' | 'changed' | 'new' | 'removed';
+
+export type ChangeCounts = { [status in ChangeStatus]: number };
+
+export interface IncrementalReport {
+  baseArchiveId: string;
+  baseVersion: number;
+  pages: ChangeCounts;
+  assets: ChangeCounts;
+  removedPages: string[];
+  removedAssets: string[];
+}
+
+// Recurring archive of a URL; times are computed in UTC by the server
+export interface ArchiveSchedule {
+  id: string;
+  url: string;
+  options?: { maxDepth?: number; maxPages?: number };
+  cron?: string;
+  intervalMinutes?: number;
+  enabled: boolean;
+  createdAt: Date;
+  nextRunAt?: Date; // Unset while the schedule is disabled
+  lastRunAt?: Date;
+  lastArchiveId?: string;
+  lastSkippedAt?: Date; // Last run skipped because the previous archive was still running
+  lastError?: string;
+}
+
+export type ScheduleTiming = { cron: string } | { intervalMinutes: number };
+
+// Differences between two archives, as computed by the server
+export interface ArchiveDiff {
+  from: { id: string; version: number; timestamp: Date };
+  to: { id: string; version: number; timestamp: Date };
+  path?: string;
+  pages: PageDiff[];
+  assets: AssetDiff[]; // Only assets that differ
+  summary: { pages: ChangeCounts; assets: ChangeCounts };
+}
+
+export interface PageDiff {
+  url: string;
+  status: ChangeStatus;
+  fromPath?: string;
+  toPath?: string;
+  text?: TextDiff; // Set for changed pages
+  dom?: DomDiff;
+}
+
+export interface AssetDiff {
+  url: string;
+  type: AssetType;
+  status: ChangeStatus;
+  fromHash?: string;
+  toHash?: string;
+  fromSize?: number;
+  toSize?: number;
+}
+
+export interface TextDiff {
+  added: number;
+  removed: number;
+  hunks: {
+    fromStart: number;
+    fromCount: number;
+    toStart: number;
+    toCount: number;
+    lines: string[]; // Prefixed with ' ', '-' or '+'
+  }[];
+}
+
+export interface DomDiff {
+  added: number;
+  removed: number;
+  changedAttributes: number;
+  changes: DomChange[];
+  truncated: boolean;
+}
+
+export interface DomChange {
+  type: 'added' | 'removed' | 'attributes';
+  path: string;
+  elements?: number;
+  attributes?: { [name: string]: { from?: string; to?: string } };
+}
+
+// Outcome of comparing a finished archive with the previous version of its URL
+export interface ChangeSummary {
+  url: string;
+  archiveId: string;
+  version: number;
+  previousArchiveId: string;
+  previousVersion: number;
+  changed: boolean;
+  similarity: number; // Share of compared text lines both versions have in common, 0 to 1
+  similarityThreshold: number;
+  addedLines: number;
+  removedLines: number;
+  pages: { url: string; status: ChangeStatus; similarity: number }[]; // Pages that differ
+  changedSelectors: string[];
+}
+
+// A detected change in the notifications feed
+export interface ChangeAlert extends ChangeSummary {
+  id: string;
+  createdAt: Date;
+  read: boolean;
+}
+
+// An archived page matching a full-text search
+export interface SearchHit {
+  archiveId: string;
+  url: string; // URL the archive was made of
+  domain: string;
+  version: number;
+  timestamp: Date;
+  pageUrl: string;
+  path: string; // Path of the page within the archive, for the viewer
+  title: string;
+  snippet: string; // Text around the first match
+  score: number;
+}
+
+export interface SearchFilters {
+  domain?: string;
+  from?: string; // Archive dates, as YYYY-MM-DD
+  to?: string;
 }
 
 export interface ArchiveVersion {
@@ -37,6 +171,9 @@ export interface ArchivedPage {
   timestamp: Date;
   assets: Asset[];
   links: string[];
+  depth?: number;
+  referrer?: string;
+  change?: ChangeStatus;
 }
 
 export interface Asset {
@@ -45,6 +182,7 @@ export interface Asset {
   type: AssetType;
   size: number;
   contentType: string;
+  change?: ChangeStatus;
 }
 
 export enum AssetType {
@@ -65,6 +203,60 @@ export interface ArchiveError {
   recoverable: boolean;
 }
 
+export interface SkippedUrl {
+  url: string;
+  reason: string;
+  rule?: string;
+  sourceUrl?: string;
+  timestamp: Date;
+}
+
+export interface ArchiveProgress {
+  archiveId: string;
+  url: string;
+  status: ArchiveStatus;
+  progress: {
+    pagesDiscovered: number;
+    pagesCrawled: number;
+    assetsDownloaded: number;
+    totalSize: number;
+  };
+  errors: ArchiveError[];
+  startTime: Date;
+  currentUrl?: string;
+  paused: boolean;
+  queued: boolean;
+}
+
+// Changed fields of an archive's progress; the first event of a stream carries all fields
+export type ProgressDelta = Partial<Omit<ArchiveProgress, 'archiveId' | 'url' | 'errors' | 'progress'>> & {
+  progress?: Partial<ArchiveProgress['progress']>;
+};
+
+interface ArchiveEventDataMap {
+  progress: ProgressDelta;
+  page: { url: string; title: string; depth?: number; referrer?: string };
+  asset: { url: string; type: AssetType; size: number; failed: boolean };
+  error: ArchiveError;
+  change: ChangeSummary;
+  status: { status: ArchiveStatus; cancelled?: boolean; metadata: Archive['metadata']; errorCount: number };
+}
+
+export type ArchiveEventType = keyof ArchiveEventDataMap;
+
+// Event pushed by the server while an archive job runs
+export type ArchiveEvent = {
+  [T in ArchiveEventType]: {
+    id: number;
+    archiveId: string;
+    type: T;
+    timestamp: Date;
+    data: ArchiveEventDataMap[T];
+  };
+}[ArchiveEventType];
+
+export type ConnectionState = 'connecting' | 'live' | 'reconnecting';
+
 export interface ApiError {
   message: string;
   code?: string;
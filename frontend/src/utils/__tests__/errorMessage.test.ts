@@ -0,0 +1,17 @@
+import { AxiosError } from 'axios';
+import { getErrorMessage } from '../errorMessage';
+
+describe('getErrorMessage', () => {
+  it('prefers the error returned by the API', () => {
+    const err = new AxiosError('Request failed with status code 400');
+    err.response = { data: { error: 'url is required' } } as any;
+
+    expect(getErrorMessage(err, 'Failed')).toBe('url is required');
+  });
+
+  it('falls back to the error message, then to the given message', () => {
+    expect(getErrorMessage(new AxiosError('Network Error'), 'Failed')).toBe('Network Error');
+    expect(getErrorMessage(new Error('Boom'), 'Failed')).toBe('Boom');
+    expect(getErrorMessage('boom', 'Failed')).toBe('Failed');
+  });
+});
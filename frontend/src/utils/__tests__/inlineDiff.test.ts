@@ -0,0 +1,54 @@
+import { buildInlineDiff, diffSequence } from '../inlineDiff';
+
+describe('inline diff', () => {
+  const base = 'http://localhost:3001/api/archives/v2/content/index.html';
+
+  const highlight = (fromBody: string, toBody: string) => {
+    const { html, changeCount } = buildInlineDiff(
+      `<html><head><title>Shop</title></head><body>${fromBody}</body></html>`,
+      `<html><head><title>Shop</title></head><body>${toBody}</body></html>`,
+      base
+    );
+    return { doc: new DOMParser().parseFromString(html, 'text/html'), changeCount };
+  };
+
+  it('should diff sequences by longest common subsequence', () => {
+    expect(diffSequence(['a', 'b', 'c'], ['a', 'x', 'c']).map(step => step.type)).toEqual([
+      'equal', 'delete', 'insert', 'equal',
+    ]);
+    expect(diffSequence([], ['a'])).toEqual([{ type: 'insert', fromIndex: 0, toIndex: 0 }]);
+  });
+
+  it('should mark added, rewritten and removed blocks in document order', () => {
+    const { doc, changeCount } = highlight(
+      '<h1>Welcome</h1><p>Prices from $10</p><p>Closed on Sundays</p><p>Open daily</p>',
+      '<h1>Welcome</h1><p>Prices from $12</p><p>Open daily</p><ul><li>Gift cards</li></ul>'
+    );
+
+    expect(changeCount).toBe(3);
+    const changes = Array.from(doc.querySelectorAll('[data-archive-diff]'));
+    expect(changes.map(element => [element.tagName, element.className, element.textContent])).toEqual([
+      ['P', 'archive-diff-changed', 'Prices from $10 $12 '],
+      ['P', 'archive-diff-deleted', 'Closed on Sundays'],
+      ['LI', 'archive-diff-inserted', 'Gift cards'],
+    ]);
+    expect(changes.map(element => element.getAttribute('data-archive-diff'))).toEqual(['0', '1', '2']);
+    expect(changes[0].innerHTML).toBe('Prices from <del>$10</del> <ins>$12</ins> ');
+    expect(doc.querySelector('base')!.getAttribute('href')).toBe(base);
+  });
+
+  it('should outline added media and show removed media struck through', () => {
+    const { doc, changeCount } = highlight(
+      '<p>Gallery</p><img src="/api/archives/v1/content/assets/images/a.png"><img src="/api/archives/v1/content/assets/images/b.png">',
+      '<p>Gallery</p><img src="/api/archives/v2/content/assets/images/a.png"><img src="/api/archives/v2/content/assets/images/c.png">'
+    );
+
+    expect(changeCount).toBe(2);
+    expect(doc.querySelector('.archive-diff-deleted-element img')!.getAttribute('src')).toBe('/api/archives/v1/content/assets/images/b.png');
+    expect(doc.querySelector('.archive-diff-inserted-element')!.getAttribute('src')).toBe('/api/archives/v2/content/assets/images/c.png');
+  });
+
+  it('should report no changes for identical pages', () => {
+    expect(highlight('<p>Same</p>', '<p>Same</p>').changeCount).toBe(0);
+  });
+});
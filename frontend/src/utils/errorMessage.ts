@@ -0,0 +1,11 @@
+import axios from 'axios';
+
+/**
+ * Message to show for a failed request: the API's error, else the error's own message
+ */
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (axios.isAxiosError<{ error?: string }>(err) && err.response?.data?.error) {
+    return err.response.data.error;
+  }
+  return err instanceof Error && err.message ? err.message : fallback;
+};
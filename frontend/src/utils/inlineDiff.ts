@@ -0,0 +1,280 @@
+/**
+ * Inline highlighting of the differences between two versions of an archived page
+ *
+ * The newer page is annotated in place: blocks of text that were added or rewritten are
+ * highlighted (rewritten ones word by word), removed blocks are put back struck through,
+ * and media and form elements that were added or removed are outlined. Every highlighted
+ * region carries a `data-archive-diff` index, in document order, for navigating between them.
+ */
+
+export const DIFF_INDEX_ATTRIBUTE = 'data-archive-diff';
+export const CURRENT_CHANGE_CLASS = 'archive-diff-current';
+
+const INSERTED_CLASS = 'archive-diff-inserted';
+const CHANGED_CLASS = 'archive-diff-changed';
+const DELETED_CLASS = 'archive-diff-deleted';
+const INSERTED_ELEMENT_CLASS = 'archive-diff-inserted-element';
+const DELETED_ELEMENT_CLASS = 'archive-diff-deleted-element';
+
+const DIFF_STYLES = `
+.${INSERTED_CLASS}, .${CHANGED_CLASS} ins { background: #d4edda !important; color: #155724 !important; text-decoration: none; }
+.${DELETED_CLASS}, .${CHANGED_CLASS} del { background: #f8d7da !important; color: #721c24 !important; text-decoration: line-through; }
+.${INSERTED_ELEMENT_CLASS} { outline: 3px solid #28a745 !important; outline-offset: 2px; }
+.${DELETED_ELEMENT_CLASS} { display: inline-block; outline: 3px solid #dc3545; outline-offset: 2px; opacity: 0.6; }
+.${CURRENT_CHANGE_CLASS} { box-shadow: 0 0 0 4px #ffc107 !important; }
+`;
+
+/** Elements whose content is never shown */
+const SKIPPED_TAGS = ['script', 'noscript', 'template'];
+
+/** Elements whose text is compared as one block */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'caption', 'dd', 'details', 'div', 'dt', 'figcaption',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'li', 'main', 'nav', 'p', 'pre', 'section',
+  'summary', 'td', 'th',
+]);
+
+/** Elements compared by what they show rather than by text */
+const MEDIA_SELECTOR = 'img, video, audio, iframe, embed, object, canvas, input, select, textarea';
+
+/** Larger differences are shown as everything removed and everything added */
+const MAX_DIFF_CELLS = 4000000;
+
+type Operation = 'equal' | 'delete' | 'insert';
+
+interface DiffStep {
+  type: Operation;
+  fromIndex: number;
+  toIndex: number;
+}
+
+export interface InlineDiff {
+  /** The newer page with its changes highlighted */
+  html: string;
+  changeCount: number;
+}
+
+/**
+ * Parse a page and point its relative URLs at `baseHref`, ready for an iframe's `srcDoc`
+ */
+export const prepareDocument = (html: string, baseHref: string): string =>
+  serialize(parseDocument(html, baseHref));
+
+/**
+ * Highlight the changes from one version of a page to the next in the newer version
+ */
+export const buildInlineDiff = (fromHtml: string, toHtml: string, baseHref: string): InlineDiff => {
+  const fromDoc = parseDocument(fromHtml, baseHref);
+  const toDoc = parseDocument(toHtml, baseHref);
+
+  highlightTextChanges(fromDoc, toDoc);
+  highlightElementChanges(fromDoc, toDoc);
+
+  const style = toDoc.createElement('style');
+  style.textContent = DIFF_STYLES;
+  toDoc.head.appendChild(style);
+
+  const selector = [INSERTED_CLASS, CHANGED_CLASS, DELETED_CLASS, INSERTED_ELEMENT_CLASS, DELETED_ELEMENT_CLASS]
+    .map(name => `.${name}`)
+    .join(', ');
+  const changes = Array.from(toDoc.body.querySelectorAll(selector));
+  changes.forEach((element, index) => element.setAttribute(DIFF_INDEX_ATTRIBUTE, String(index)));
+
+  return { html: serialize(toDoc), changeCount: changes.length };
+};
+
+/**
+ * Diff two sequences with a longest common subsequence, after matching common ends
+ */
+export const diffSequence = (from: string[], to: string[]): DiffStep[] => {
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < from.length - prefix &&
+    suffix < to.length - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) suffix++;
+
+  const steps: DiffStep[] = [];
+  for (let i = 0; i < prefix; i++) steps.push({ type: 'equal', fromIndex: i, toIndex: i });
+
+  const fromEnd = from.length - suffix;
+  const toEnd = to.length - suffix;
+  const rows = fromEnd - prefix;
+  const columns = toEnd - prefix;
+  if (rows * columns > MAX_DIFF_CELLS) {
+    for (let i = prefix; i < fromEnd; i++) steps.push({ type: 'delete', fromIndex: i, toIndex: prefix });
+    for (let j = prefix; j < toEnd; j++) steps.push({ type: 'insert', fromIndex: fromEnd, toIndex: j });
+  } else {
+    // lengths[i][j]: longest common subsequence of the middle parts from i and j on
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i][j] = from[prefix + i] === to[prefix + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && from[prefix + i] === to[prefix + j]) {
+        steps.push({ type: 'equal', fromIndex: prefix + i++, toIndex: prefix + j++ });
+      } else if (i < rows && (j === columns || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        steps.push({ type: 'delete', fromIndex: prefix + i++, toIndex: prefix + j });
+      } else {
+        steps.push({ type: 'insert', fromIndex: prefix + i, toIndex: prefix + j++ });
+      }
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    steps.push({ type: 'equal', fromIndex: fromEnd + i, toIndex: toEnd + i });
+  }
+  return steps;
+};
+
+const parseDocument = (html: string, baseHref: string): Document => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('base').forEach(element => element.remove());
+  const base = doc.createElement('base');
+  base.href = baseHref;
+  doc.head.prepend(base);
+  return doc;
+};
+
+const serialize = (doc: Document): string => `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+
+const normalizeText = (text: string | null): string => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Innermost block elements with text, in document order
+ */
+const collectTextBlocks = (root: Element): Element[] => {
+  const blocks: Element[] = [];
+  const visit = (element: Element): boolean => {
+    if (SKIPPED_TAGS.includes(element.tagName.toLowerCase())) return false;
+    let found = false;
+    Array.from(element.children).forEach(child => {
+      found = visit(child) || found;
+    });
+    if (!found && BLOCK_TAGS.has(element.tagName.toLowerCase()) && normalizeText(element.textContent)) {
+      blocks.push(element);
+      return true;
+    }
+    return found;
+  };
+  visit(root);
+  return blocks;
+};
+
+const highlightTextChanges = (fromDoc: Document, toDoc: Document) => {
+  const fromBlocks = collectTextBlocks(fromDoc.body);
+  const toBlocks = collectTextBlocks(toDoc.body);
+  const fromTexts = fromBlocks.map(block => normalizeText(block.textContent));
+  const toTexts = toBlocks.map(block => normalizeText(block.textContent));
+
+  forEachChange(diffSequence(fromTexts, toTexts), (deleted, inserted, toIndex) => {
+    // Blocks removed and added at the same place were rewritten
+    const rewritten = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < rewritten; k++) {
+      showWordDiff(toBlocks[inserted[k]], fromTexts[deleted[k]], toTexts[inserted[k]]);
+    }
+    inserted.slice(rewritten).forEach(index => toBlocks[index].classList.add(INSERTED_CLASS));
+
+    deleted.slice(rewritten).forEach(index => {
+      const block = toDoc.createElement(fromBlocks[index].tagName.toLowerCase());
+      block.className = DELETED_CLASS;
+      block.textContent = fromTexts[index];
+      insertAt(toDoc, toBlocks, toIndex + rewritten, block);
+    });
+  });
+};
+
+const highlightElementChanges = (fromDoc: Document, toDoc: Document) => {
+  const fromElements = Array.from(fromDoc.body.querySelectorAll(MEDIA_SELECTOR));
+  const toElements = Array.from(toDoc.body.querySelectorAll(MEDIA_SELECTOR));
+
+  forEachChange(diffSequence(fromElements.map(describeElement), toElements.map(describeElement)), (deleted, inserted, toIndex) => {
+    inserted.forEach(index => toElements[index].classList.add(INSERTED_ELEMENT_CLASS));
+    deleted.forEach(index => {
+      const wrapper = toDoc.createElement('del');
+      wrapper.className = DELETED_ELEMENT_CLASS;
+      wrapper.appendChild(toDoc.importNode(fromElements[index], true));
+      insertAt(toDoc, toElements, toIndex, wrapper);
+    });
+  });
+};
+
+/**
+ * What an element shows; archive IDs in its URLs are left out so versions compare equal
+ */
+const describeElement = (element: Element): string => {
+  const source = element.getAttribute('src') || element.getAttribute('data') || element.getAttribute('name') || '';
+  return `${element.tagName.toLowerCase()}|${element.getAttribute('type') || ''}|${source.replace(/\/api\/archives\/[^/]+\//, '')}`;
+};
+
+/**
+ * Call `handle` for each group of consecutive deletions and insertions, with the index in
+ * the newer sequence where the group starts
+ */
+const forEachChange = (
+  steps: DiffStep[],
+  handle: (deleted: number[], inserted: number[], toIndex: number) => void
+) => {
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+  let toIndex = 0;
+  const flush = () => {
+    if (deleted.length || inserted.length) handle(deleted, inserted, toIndex);
+    deleted = [];
+    inserted = [];
+  };
+
+  steps.forEach(step => {
+    if (step.type === 'equal') {
+      flush();
+      toIndex = step.toIndex + 1;
+    } else if (step.type === 'delete') {
+      deleted.push(step.fromIndex);
+    } else {
+      inserted.push(step.toIndex);
+    }
+  });
+  flush();
+};
+
+/**
+ * Insert a node where item `index` of `items` is, or after the last item
+ */
+const insertAt = (doc: Document, items: Element[], index: number, node: Element) => {
+  if (index < items.length) {
+    items[index].before(node);
+  } else if (items.length > 0) {
+    items[items.length - 1].after(node);
+  } else {
+    doc.body.appendChild(node);
+  }
+};
+
+/**
+ * Replace a rewritten block's content with its words, marking removed and added ones
+ */
+const showWordDiff = (block: Element, fromText: string, toText: string) => {
+  const doc = block.ownerDocument;
+  const fromWords = fromText.split(' ');
+  const toWords = toText.split(' ');
+  block.textContent = '';
+  block.classList.add(CHANGED_CLASS);
+
+  diffSequence(fromWords, toWords).forEach(step => {
+    const word = step.type === 'delete' ? fromWords[step.fromIndex] : toWords[step.toIndex];
+    const node = step.type === 'equal'
+      ? doc.createTextNode(word)
+      : doc.createElement(step.type === 'delete' ? 'del' : 'ins');
+    node.textContent = word;
+    block.appendChild(node);
+    block.appendChild(doc.createTextNode(' '));
+  });
+};